@@ -12,6 +12,7 @@ const MenuPage = lazy(() => import("@/pages/menu"));
 const CartPage = lazy(() => import("@/pages/cart"));
 const PaymentPage = lazy(() => import("@/pages/payment"));
 const SuccessPage = lazy(() => import("@/pages/success"));
+const TrackOrderPage = lazy(() => import("@/pages/track-order"));
 const LoginPage = lazy(() => import("@/pages/login"));
 const AdminDashboard = lazy(() => import("@/pages/admin/dashboard"));
 const KasirDashboard = lazy(() => import("@/pages/kasir/dashboard"));
@@ -39,6 +40,7 @@ function Router() {
         <Route path="/cart" component={CartPage} />
         <Route path="/payment" component={PaymentPage} />
         <Route path="/success" component={SuccessPage} />
+        <Route path="/track/:token" component={TrackOrderPage} />
         <Route path="/login" component={LoginPage} />
         <Route path="/admin/:section?" component={AdminDashboard} />
         <Route path="/kasir/:section?" component={KasirDashboard} />
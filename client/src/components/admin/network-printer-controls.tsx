@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, Loader2, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { apiRequest } from "@/lib/queryClient";
+import { PRINT_JOB_KIND_LABELS, PRINT_JOB_STATUS_LABELS } from "@shared/print-jobs";
+import type { NetworkPrinterStatus, PrintJob, PrintJobKind, PrintJobStatus, PrintSetting } from "@shared/schema";
+
+// How often an open print settings page asks the server to check each LAN printer
+const STATUS_POLL_MS = 30000;
+
+interface NetworkPrinterControlsProps {
+  printer: PrintSetting;
+}
+
+function getStatusBadge(status: NetworkPrinterStatus | undefined): { label: string; className: string } {
+  if (!status) return { label: 'Memeriksa...', className: 'bg-gray-100 text-gray-800' };
+  if (!status.online) return { label: 'Offline', className: 'bg-red-100 text-red-800' };
+  if (status.paperOut) return { label: 'Kertas habis', className: 'bg-red-100 text-red-800' };
+  if (status.coverOpen) return { label: 'Tutup terbuka', className: 'bg-amber-100 text-amber-800' };
+  if (status.paperLow) return { label: 'Kertas hampir habis', className: 'bg-amber-100 text-amber-800' };
+  return { label: 'Online', className: 'bg-green-100 text-green-800' };
+}
+
+// Status, test page and ticket history of a printer the server prints to over the LAN
+export default function NetworkPrinterControls({ printer }: NetworkPrinterControlsProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const { toast } = useToast();
+  const { createErrorHandler } = useErrorHandler();
+
+  const { data: status, refetch: refetchStatus, isFetching: checkingStatus } = useQuery<NetworkPrinterStatus>({
+    queryKey: ['/api/print-settings', printer.id, 'status'],
+    refetchInterval: STATUS_POLL_MS,
+    enabled: !!printer.connectionString,
+  });
+
+  const { data: jobs = [] } = useQuery<PrintJob[]>({
+    queryKey: ['/api/print-settings', printer.id, 'jobs'],
+    enabled: showHistory,
+  });
+
+  const testPrintMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/print-settings/${printer.id}/test`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test print terkirim",
+        description: `Halaman tes dikirim ke ${printer.connectionString}`,
+      });
+    },
+    onError: createErrorHandler("Test print gagal"),
+    onSettled: () => {
+      refetchStatus();
+    }
+  });
+
+  const badge = getStatusBadge(status);
+
+  return (
+    <div className="space-y-2 mt-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">Status:</span>
+        <Badge
+          className={badge.className}
+          title={status?.error}
+          onClick={() => refetchStatus()}
+          data-testid={`badge-printer-status-${printer.id}`}
+        >
+          {checkingStatus && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {badge.label}
+        </Badge>
+      </div>
+      {status?.error && (
+        <p className="text-xs text-red-600" data-testid={`text-printer-error-${printer.id}`}>{status.error}</p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => testPrintMutation.mutate()}
+          disabled={testPrintMutation.isPending}
+          data-testid={`button-network-test-print-${printer.id}`}
+        >
+          {testPrintMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+          Test Print
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowHistory(true)}
+          data-testid={`button-printer-history-${printer.id}`}
+        >
+          <History className="h-3 w-3 mr-1" />
+          Riwayat
+        </Button>
+      </div>
+
+      <Dialog open={showHistory} onOpenChange={setShowHistory}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Riwayat Cetak {printer.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {jobs.map(job => (
+              <div key={job.id} className="flex items-center gap-3 rounded-md border p-3 text-sm" data-testid={`row-printer-job-${job.id}`}>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">
+                    {job.stationName} · Meja {job.tableNumber} · {job.customerName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(job.createdAt).toLocaleString('id-ID', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    {' · '}{job.attempts}x dicoba
+                  </p>
+                  {job.error && <p className="text-xs text-red-600">{job.error}</p>}
+                </div>
+                {job.kind === 'void' && (
+                  <Badge variant="destructive">{PRINT_JOB_KIND_LABELS[job.kind as PrintJobKind]}</Badge>
+                )}
+                <Badge variant="outline">{PRINT_JOB_STATUS_LABELS[job.status as PrintJobStatus]}</Badge>
+              </div>
+            ))}
+            {jobs.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-4" data-testid={`text-no-printer-jobs-${printer.id}`}>
+                Belum ada tiket yang dikirim ke printer ini
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -8,9 +8,10 @@ import {
 } from "@/components/ui/popover";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
-import { Check, X, Trash2 } from "lucide-react";
+import { Check, X, Trash2, Wallet } from "lucide-react";
 import { format } from "date-fns";
 
 interface Notification {
@@ -20,14 +21,19 @@ interface Notification {
   message: string;
   requestedBy: string;
   relatedId: string;
+  // Deletion requests carry the item; cash variances carry the shift's cash figures
   relatedData: {
-    itemIndex: number;
-    item: {
+    itemIndex?: number;
+    item?: {
       name: string;
       quantity: number;
       price: number;
     };
-    reason: string;
+    reason?: string;
+    systemCash?: number;
+    finalCash?: number;
+    cashDifference?: number;
+    notes?: string | null;
   };
   status: string;
   isRead: boolean;
@@ -39,20 +45,21 @@ interface Notification {
 export default function NotificationBell() {
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
+  const { connected } = useRealtime();
 
-  // Fetch pending notifications
+  // Fetch pending notifications (pushed in realtime, poll every 5 seconds while offline)
   const { data: notifications = [], isLoading } = useQuery<Notification[]>({
     queryKey: ['/api/notifications/pending'],
-    refetchInterval: 5000, // Poll every 5 seconds
+    refetchInterval: connected ? false : 5000,
   });
 
   // Approve mutation
   const approveMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      const response = await apiRequest('POST', `/api/notifications/${notificationId}/approve`);
+    mutationFn: async (notification: Notification) => {
+      const response = await apiRequest('POST', `/api/notifications/${notification.id}/approve`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, notification) => {
       // Invalidate all order-related queries to ensure UI refreshes everywhere
       queryClient.invalidateQueries({ queryKey: ['/api/notifications/pending'] });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
@@ -62,7 +69,10 @@ export default function NotificationBell() {
       // Force immediate refetch to show changes
       queryClient.refetchQueries({ queryKey: ['/api/orders'] });
       queryClient.refetchQueries({ queryKey: ['/api/orders/open-bills'] });
-      toast({
+      toast(notification.type === 'cash_variance' ? {
+        title: "Variance Approved",
+        description: "Selisih kas shift disetujui",
+      } : {
         title: "Item Deleted",
         description: "Item berhasil dihapus dari open bill",
       });
@@ -78,16 +88,18 @@ export default function NotificationBell() {
 
   // Reject mutation
   const rejectMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      const response = await apiRequest('POST', `/api/notifications/${notificationId}/reject`);
+    mutationFn: async (notification: Notification) => {
+      const response = await apiRequest('POST', `/api/notifications/${notification.id}/reject`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, notification) => {
       queryClient.invalidateQueries({ queryKey: ['/api/notifications/pending'] });
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       toast({
         title: "Request Rejected",
-        description: "Permintaan penghapusan ditolak",
+        description: notification.type === 'cash_variance'
+          ? "Selisih kas shift ditolak"
+          : "Permintaan penghapusan ditolak",
       });
     },
     onError: (error: any) => {
@@ -151,7 +163,11 @@ export default function NotificationBell() {
                   <div className="flex items-start gap-3">
                     <div className="flex-shrink-0 mt-1">
                       <div className="h-8 w-8 rounded-full bg-destructive/10 flex items-center justify-center">
-                        <Trash2 className="h-4 w-4 text-destructive" />
+                        {notification.type === 'cash_variance' ? (
+                          <Wallet className="h-4 w-4 text-destructive" />
+                        ) : (
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        )}
                       </div>
                     </div>
                     
@@ -163,7 +179,14 @@ export default function NotificationBell() {
                         {notification.message}
                       </p>
                       
-                      {notification.relatedData && (
+                      {notification.type === 'cash_variance' && notification.relatedData ? (
+                        <div className="text-xs text-muted-foreground mb-2 p-2 bg-muted rounded">
+                          <p><strong>Kas Sistem:</strong> Rp {(notification.relatedData.systemCash ?? 0).toLocaleString('id-ID')}</p>
+                          <p><strong>Kas Fisik:</strong> Rp {(notification.relatedData.finalCash ?? 0).toLocaleString('id-ID')}</p>
+                          <p><strong>Selisih:</strong> Rp {(notification.relatedData.cashDifference ?? 0).toLocaleString('id-ID')}</p>
+                          {notification.relatedData.notes && <p><strong>Catatan:</strong> {notification.relatedData.notes}</p>}
+                        </div>
+                      ) : notification.relatedData?.item && (
                         <div className="text-xs text-muted-foreground mb-2 p-2 bg-muted rounded">
                           <p><strong>Item:</strong> {notification.relatedData.item.name}</p>
                           <p><strong>Quantity:</strong> {notification.relatedData.item.quantity}x</p>
@@ -182,7 +205,7 @@ export default function NotificationBell() {
                             size="sm"
                             variant="default"
                             className="h-8"
-                            onClick={() => approveMutation.mutate(notification.id)}
+                            onClick={() => approveMutation.mutate(notification)}
                             disabled={approveMutation.isPending || rejectMutation.isPending}
                             data-testid={`button-approve-${notification.id}`}
                           >
@@ -193,7 +216,7 @@ export default function NotificationBell() {
                             size="sm"
                             variant="outline"
                             className="h-8"
-                            onClick={() => rejectMutation.mutate(notification.id)}
+                            onClick={() => rejectMutation.mutate(notification)}
                             disabled={approveMutation.isPending || rejectMutation.isPending}
                             data-testid={`button-reject-${notification.id}`}
                           >
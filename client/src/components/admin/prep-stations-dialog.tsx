@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useConfirmDialog } from "@/components/ui/confirm-dialog";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { InsertPrepStation, PrepStation } from "@shared/schema";
+
+interface PrepStationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Admin list of prep stations: name, SLA and which one takes items nobody routed elsewhere
+export default function PrepStationsDialog({ open, onOpenChange }: PrepStationsDialogProps) {
+  const [newName, setNewName] = useState("");
+  const [newSlaMinutes, setNewSlaMinutes] = useState(15);
+  const { toast } = useToast();
+  const { createErrorHandler } = useErrorHandler();
+  const { confirm, dialog } = useConfirmDialog();
+
+  const { data: stations = [] } = useQuery<PrepStation[]>({
+    queryKey: ['/api/prep-stations'],
+    enabled: open,
+  });
+
+  const createStationMutation = useMutation({
+    mutationFn: async (station: InsertPrepStation) => {
+      const response = await apiRequest('POST', '/api/prep-stations', station);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prep-stations'] });
+      setNewName("");
+      setNewSlaMinutes(15);
+      toast({ title: "Stasiun ditambahkan" });
+    },
+    onError: createErrorHandler("Gagal menambahkan stasiun")
+  });
+
+  const updateStationMutation = useMutation({
+    mutationFn: async ({ id, station }: { id: string; station: Partial<InsertPrepStation> }) => {
+      const response = await apiRequest('PUT', `/api/prep-stations/${id}`, station);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prep-stations'] });
+    },
+    onError: createErrorHandler("Gagal menyimpan stasiun")
+  });
+
+  const deleteStationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/prep-stations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prep-stations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/menu'] });
+      toast({ title: "Stasiun dihapus" });
+    },
+    onError: createErrorHandler("Gagal menghapus stasiun")
+  });
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    createStationMutation.mutate({
+      name: newName.trim(),
+      slaMinutes: newSlaMinutes,
+      sortOrder: stations.length,
+      // The first station takes every item until categories are routed
+      isDefault: stations.length === 0,
+    });
+  };
+
+  const handleDelete = (station: PrepStation) => {
+    confirm({
+      title: "Hapus Stasiun",
+      description: `Kategori dan menu di stasiun "${station.name}" akan pindah ke stasiun default.`,
+      confirmText: "Hapus",
+      variant: "destructive",
+      onConfirm: () => deleteStationMutation.mutate(station.id),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Stasiun Dapur</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Pilih stasiun untuk tiap kategori di menu Kategori, atau untuk menu tertentu di form menu.
+          Item tanpa stasiun masuk ke stasiun default.
+        </p>
+
+        <div className="space-y-3">
+          {stations.map(station => (
+            <div key={station.id} className="flex flex-wrap items-center gap-3 rounded-md border p-3" data-testid={`row-prep-station-${station.id}`}>
+              <Input
+                defaultValue={station.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== station.name) {
+                    updateStationMutation.mutate({ id: station.id, station: { name } });
+                  }
+                }}
+                className="w-40"
+                data-testid={`input-station-name-${station.id}`}
+              />
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={240}
+                  defaultValue={station.slaMinutes}
+                  onBlur={(e) => {
+                    const slaMinutes = parseInt(e.target.value, 10);
+                    if (slaMinutes > 0 && slaMinutes !== station.slaMinutes) {
+                      updateStationMutation.mutate({ id: station.id, station: { slaMinutes } });
+                    }
+                  }}
+                  className="w-20"
+                  data-testid={`input-station-sla-${station.id}`}
+                />
+                <span className="text-sm text-muted-foreground">menit SLA</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`station-active-${station.id}`}
+                  checked={station.isActive}
+                  onCheckedChange={(checked) => updateStationMutation.mutate({ id: station.id, station: { isActive: checked } })}
+                  data-testid={`switch-station-active-${station.id}`}
+                />
+                <Label htmlFor={`station-active-${station.id}`} className="text-sm">Aktif</Label>
+              </div>
+              {station.isDefault ? (
+                <Badge data-testid={`badge-station-default-${station.id}`}>Default</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateStationMutation.mutate({ id: station.id, station: { isDefault: true } })}
+                  data-testid={`button-station-default-${station.id}`}
+                >
+                  Jadikan default
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto text-destructive hover:text-destructive"
+                onClick={() => handleDelete(station)}
+                data-testid={`button-delete-station-${station.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          {stations.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-4" data-testid="text-no-prep-stations">
+              Belum ada stasiun. Semua pesanan tampil di satu layar dapur.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-end gap-3 border-t pt-4">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="newStationName">Stasiun baru</Label>
+            <Input
+              id="newStationName"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="mis. Dapur, Bar, Dessert"
+              data-testid="input-new-station-name"
+            />
+          </div>
+          <div className="w-28 space-y-2">
+            <Label htmlFor="newStationSla">SLA (menit)</Label>
+            <Input
+              id="newStationSla"
+              type="number"
+              min={1}
+              max={240}
+              value={newSlaMinutes}
+              onChange={(e) => setNewSlaMinutes(parseInt(e.target.value, 10) || 1)}
+              data-testid="input-new-station-sla"
+            />
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={!newName.trim() || createStationMutation.isPending}
+            data-testid="button-add-station"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah
+          </Button>
+        </div>
+
+        {dialog}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Printer, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { PRINT_JOB_KIND_LABELS, PRINT_JOB_STATUS_LABELS, isPrintJobMissed } from "@shared/print-jobs";
+import type { PrintJob, PrintJobKind, PrintJobStatus, PrintSetting } from "@shared/schema";
+
+interface PrintQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobs: PrintJob[];
+  servedPrinterIds: string[];
+  onServedPrinterIdsChange: (ids: string[]) => void;
+  onPrintHere: (job: PrintJob) => Promise<void>;
+}
+
+const PRINT_JOB_STATUS_STYLES: Record<PrintJobStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  printing: 'bg-blue-100 text-blue-800',
+  printed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+// Station printer tickets: which printers this device prints for, and every ticket with its status
+export default function PrintQueueDialog({ open, onOpenChange, jobs, servedPrinterIds, onServedPrinterIdsChange, onPrintHere }: PrintQueueDialogProps) {
+  const { toast } = useToast();
+  const { createErrorHandler } = useErrorHandler();
+
+  const { data: printers = [] } = useQuery<PrintSetting[]>({
+    queryKey: ['/api/print-settings'],
+    enabled: open,
+  });
+  // Network printers are printed to by the server, so no device needs to serve them
+  const stationPrinters = printers.filter(printer => printer.stationIds.length > 0 && printer.connectionType !== 'network');
+  const getPrinterName = (printerId: string | null) =>
+    printers.find(printer => printer.id === printerId)?.name ?? 'Printer dihapus';
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/print-jobs/${id}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/print-jobs'] });
+      toast({ title: "Tiket dikirim ulang ke printer" });
+    },
+    onError: createErrorHandler("Gagal mengirim ulang tiket")
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/print-jobs/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/print-jobs'] });
+    },
+    onError: createErrorHandler("Gagal mengabaikan tiket")
+  });
+
+  const printHereMutation = useMutation({
+    mutationFn: onPrintHere,
+    onError: createErrorHandler("Gagal mencetak tiket")
+  });
+
+  const toggleServedPrinter = (printerId: string, checked: boolean) => {
+    onServedPrinterIdsChange(checked
+      ? [...servedPrinterIds, printerId]
+      : servedPrinterIds.filter(id => id !== printerId));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Antrean Cetak Dapur</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm font-medium">Perangkat ini mencetak tiket untuk:</p>
+          {stationPrinters.map(printer => (
+            <div key={printer.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`served-printer-${printer.id}`}
+                checked={servedPrinterIds.includes(printer.id)}
+                onCheckedChange={(checked) => toggleServedPrinter(printer.id, checked === true)}
+                data-testid={`checkbox-served-printer-${printer.id}`}
+              />
+              <Label htmlFor={`served-printer-${printer.id}`} className="text-sm">{printer.name}</Label>
+            </div>
+          ))}
+          {stationPrinters.length === 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-station-printers">
+              Belum ada printer untuk stasiun. Pilih stasiun di menu Print Settings.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Tiket dicetak lewat printer Bluetooth yang terhubung, atau dialog print browser (izinkan pop-up untuk situs ini).
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {jobs.map(job => (
+            <div
+              key={job.id}
+              className={`flex flex-wrap items-center gap-3 rounded-md border p-3 ${isPrintJobMissed(job) ? 'border-red-300 bg-red-50' : ''}`}
+              data-testid={`row-print-job-${job.id}`}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-semibold">
+                  {job.stationName} · Meja {job.tableNumber} · {job.customerName}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {getPrinterName(job.printerId)} · {new Date(job.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                  {' · '}{job.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+                </p>
+                {job.error && (
+                  <p className="text-xs text-red-600" data-testid={`text-print-job-error-${job.id}`}>{job.error}</p>
+                )}
+              </div>
+              {job.kind === 'void' && (
+                <Badge variant="destructive">{PRINT_JOB_KIND_LABELS[job.kind as PrintJobKind]}</Badge>
+              )}
+              <Badge className={PRINT_JOB_STATUS_STYLES[job.status as PrintJobStatus]} data-testid={`badge-print-job-status-${job.id}`}>
+                {isPrintJobMissed(job) && job.status === 'pending' ? 'Belum tercetak' : PRINT_JOB_STATUS_LABELS[job.status as PrintJobStatus]}
+              </Badge>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => printHereMutation.mutate(job)}
+                  disabled={printHereMutation.isPending}
+                  data-testid={`button-print-job-here-${job.id}`}
+                >
+                  <Printer className="h-4 w-4 mr-1" />
+                  Cetak di sini
+                </Button>
+                {job.status !== 'pending' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => retryMutation.mutate(job.id)}
+                    disabled={retryMutation.isPending}
+                    title="Kirim ulang ke printer"
+                    data-testid={`button-retry-print-job-${job.id}`}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {(job.status === 'pending' || job.status === 'failed') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => cancelMutation.mutate(job.id)}
+                    disabled={cancelMutation.isPending}
+                    title="Abaikan"
+                    data-testid={`button-cancel-print-job-${job.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {jobs.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-4" data-testid="text-no-print-jobs">
+              Belum ada tiket di antrean cetak
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BellRing, Check, Receipt } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { SERVICE_REQUEST_LABELS } from "@shared/order-tracking";
+import type { ServiceRequest, ServiceRequestType } from "@shared/schema";
+
+// Waiter calls and bill requests from the customer tracking page, pinned over every staff screen
+export default function ServiceRequestAlerts() {
+  const { toast } = useToast();
+  const { connected } = useRealtime();
+  const seenIds = useRef<Set<string> | null>(null);
+
+  const { data: requests = [] } = useQuery<ServiceRequest[]>({
+    queryKey: ['/api/service-requests'],
+    refetchInterval: connected ? false : 10000,
+  });
+
+  // Announce requests that arrive while the screen is open, not the ones already waiting on load
+  useEffect(() => {
+    if (seenIds.current) {
+      requests
+        .filter(request => !seenIds.current!.has(request.id))
+        .forEach(request => toast({
+          title: `Meja ${request.tableNumber}: ${SERVICE_REQUEST_LABELS[request.type as ServiceRequestType]}`,
+          description: `${request.customerName} memanggil staf`,
+        }));
+    }
+    seenIds.current = new Set(requests.map(request => request.id));
+  }, [requests, toast]);
+
+  const resolveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/service-requests/${id}/resolve`);
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-requests'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal menandai selesai",
+        description: error.message || "Terjadi kesalahan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 space-y-2" data-testid="service-request-alerts">
+      {requests.map(request => (
+        <div
+          key={request.id}
+          className="flex items-center gap-3 rounded-lg border border-primary/30 bg-white p-3 shadow-lg"
+          data-testid={`service-request-${request.id}`}
+        >
+          <div className="rounded-full bg-primary/10 p-2 text-primary">
+            {request.type === 'request_bill' ? <Receipt className="h-4 w-4" /> : <BellRing className="h-4 w-4 animate-pulse" />}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-semibold">
+              Meja {request.tableNumber} · {SERVICE_REQUEST_LABELS[request.type as ServiceRequestType]}
+            </p>
+            <p className="truncate text-xs text-muted-foreground">
+              {request.customerName} · {new Date(request.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          </div>
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-8 w-8 shrink-0"
+            onClick={() => resolveMutation.mutate(request.id)}
+            disabled={resolveMutation.isPending}
+            title="Tandai selesai"
+            data-testid={`button-resolve-service-request-${request.id}`}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -30,7 +30,8 @@ import {
   Building2,
   Cog,
   Trash2,
-  CheckSquare
+  CheckSquare,
+  LayoutGrid
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
@@ -58,6 +59,7 @@ const SIDEBAR_CATEGORIES: SidebarCategory[] = [
       { key: 'cashier', label: 'Kasir', icon: CreditCard, path: '/admin/cashier' },
       { key: 'orders', label: 'Pesanan', icon: ClipboardList, path: '/admin/orders' },
       { key: 'kitchen', label: 'Dapur', icon: ChefHat, path: '/admin/kitchen' },
+      { key: 'tables', label: 'Denah Meja', icon: LayoutGrid, path: '/admin/tables' },
       { key: 'reservations', label: 'Reservasi', icon: Calendar, path: '/admin/reservations' },
     ]
   },
@@ -80,6 +82,7 @@ const SIDEBAR_CATEGORIES: SidebarCategory[] = [
       { key: 'audit-reports', label: 'Laporan Keuangan', icon: Building2, path: '/admin/audit-reports' },
       { key: 'analytics', label: 'Laporan Penjualan', icon: TrendingUp, path: '/admin/analytics' },
       { key: 'inventory', label: 'Laporan Item', icon: Package2, path: '/admin/inventory' },
+      { key: 'purchasing', label: 'Pembelian', icon: ShoppingCart, path: '/admin/purchasing' },
     ]
   },
   {
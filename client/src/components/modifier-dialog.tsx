@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { formatCurrency } from "@/lib/utils";
+import { getModifierGroups, getModifiersTotal, resolveModifiers } from "@shared/modifiers";
+import type { MenuItem, ModifierGroup, OrderItemModifier } from "@shared/schema";
+
+// Preselect the first available option of required single-choice groups (e.g. size)
+function getDefaultSelection(groups: ModifierGroup[]): string[] {
+  return groups
+    .filter(group => group.minSelections > 0 && group.maxSelections === 1)
+    .map(group => group.options.find(option => option.isAvailable !== false)?.id)
+    .filter((id): id is string => !!id);
+}
+
+function describeGroupRule(group: ModifierGroup): string {
+  if (group.minSelections > 0) {
+    return group.minSelections === group.maxSelections
+      ? `Wajib pilih ${group.minSelections}`
+      : `Wajib, pilih ${group.minSelections}-${group.maxSelections}`;
+  }
+  return group.maxSelections === 1 ? 'Opsional' : `Opsional, maks. ${group.maxSelections}`;
+}
+
+/**
+ * Variant and add-on picker shown before a menu item with modifier groups goes into
+ * a cart. Used by the customer menu and the cashier.
+ */
+export default function ModifierDialog({
+  item,
+  onClose,
+  onConfirm,
+}: {
+  item: MenuItem | null;
+  onClose: () => void;
+  onConfirm: (item: MenuItem, modifiers: OrderItemModifier[]) => void;
+}) {
+  const groups = item ? getModifierGroups(item) : [];
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelected(item ? getDefaultSelection(getModifierGroups(item)) : []);
+  }, [item]);
+
+  const resolution = resolveModifiers(groups, selected);
+  const unitPrice = (item?.price || 0) + getModifiersTotal(resolution.modifiers);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelected(prev => {
+      if (prev.includes(optionId)) {
+        return prev.filter(id => id !== optionId);
+      }
+      const groupOptionIds = group.options.map(option => option.id);
+      // Single-choice groups swap the selection; others stop at the maximum
+      if (group.maxSelections === 1) {
+        return [...prev.filter(id => !groupOptionIds.includes(id)), optionId];
+      }
+      const chosenInGroup = prev.filter(id => groupOptionIds.includes(id)).length;
+      return chosenInGroup >= group.maxSelections ? prev : [...prev, optionId];
+    });
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto" data-testid="dialog-modifiers">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Pilih varian dan tambahan</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.id} className="space-y-2" data-testid={`modifier-group-${group.id}`}>
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm">{group.name}</h4>
+                <Badge variant={group.minSelections > 0 ? "default" : "secondary"} className="text-xs">
+                  {describeGroupRule(group)}
+                </Badge>
+              </div>
+              {group.options.map(option => {
+                const unavailable = option.isAvailable === false;
+                return (
+                  <label
+                    key={option.id}
+                    className={`flex items-center justify-between rounded-md border p-2 text-sm ${unavailable ? 'opacity-50' : 'cursor-pointer'}`}
+                  >
+                    <span className="flex items-center gap-2">
+                      <Checkbox
+                        checked={selected.includes(option.id)}
+                        onCheckedChange={() => toggleOption(group, option.id)}
+                        disabled={unavailable}
+                        data-testid={`checkbox-modifier-${option.id}`}
+                      />
+                      {option.name}
+                      {unavailable && <span className="text-xs text-muted-foreground">(Habis)</span>}
+                    </span>
+                    {option.priceDelta !== 0 && (
+                      <span className="text-muted-foreground">
+                        {option.priceDelta > 0 ? '+' : '-'}{formatCurrency(Math.abs(option.priceDelta))}
+                      </span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {resolution.error && (
+          <p className="text-xs text-destructive" data-testid="text-modifier-error">{resolution.error}</p>
+        )}
+
+        <DialogFooter>
+          <Button
+            className="w-full"
+            disabled={!item || !!resolution.error}
+            onClick={() => item && resolution.modifiers && onConfirm(item, resolution.modifiers)}
+            data-testid="button-confirm-modifiers"
+          >
+            Tambah - {formatCurrency(unitPrice)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
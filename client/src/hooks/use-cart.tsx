@@ -1,8 +1,18 @@
 import { useState, useEffect } from "react";
 import { type CartItem } from "@shared/schema";
 
+// Customer name entered on the welcome page, used for per-customer voucher limits
+export function getStoredCustomerName(): string | null {
+  try {
+    return JSON.parse(localStorage.getItem('alonica-customer') || 'null')?.name ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export function useCart() {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [voucherCode, setVoucherCodeState] = useState<string | null>(() => localStorage.getItem('alonica-voucher'));
 
   // Load cart from localStorage on mount
   useEffect(() => {
@@ -62,8 +72,19 @@ export function useCart() {
     );
   };
 
+  // Voucher entered in the cart, sent with the order at payment
+  const setVoucherCode = (code: string | null) => {
+    if (code) {
+      localStorage.setItem('alonica-voucher', code);
+    } else {
+      localStorage.removeItem('alonica-voucher');
+    }
+    setVoucherCodeState(code);
+  };
+
   const clearCart = () => {
     setCartItems([]);
+    setVoucherCode(null);
   };
 
   const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
@@ -78,6 +99,8 @@ export function useCart() {
     removeFromCart,
     updateNotes,
     clearCart,
+    voucherCode,
+    setVoucherCode,
     totalItems,
     subtotal,
     discount,
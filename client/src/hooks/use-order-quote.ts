@@ -0,0 +1,53 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { OrderCharges, OrderItem } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export type OrderQuote = OrderCharges & {
+  items: OrderItem[];
+  voucher: { discountId: string; code: string; amount: number } | null;
+};
+
+type QuoteItem = { itemId: string; quantity: number; modifierOptionIds?: string[] };
+
+function toQuotePayload(items: QuoteItem[]) {
+  return items.map(({ itemId, quantity, modifierOptionIds }) => ({ itemId, quantity, modifierOptionIds }));
+}
+
+export interface QuoteOptions {
+  voucherCode?: string | null;
+  customerName?: string | null;
+}
+
+// Ask the server to price items exactly as order creation will (discounts, vouchers, tax, service charge, rounding)
+export async function fetchOrderQuote(items: QuoteItem[], options: QuoteOptions = {}): Promise<OrderQuote> {
+  const response = await apiRequest('POST', '/api/orders/quote', {
+    items: toQuotePayload(items),
+    voucherCode: options.voucherCode || undefined,
+    customerName: options.customerName || undefined,
+  });
+  return response.json();
+}
+
+// Server messages arrive as "400: <message>"; show only the message
+export function getQuoteErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.replace(/^\d{3}: /, '') : 'Gagal menghitung total';
+}
+
+/**
+ * Live price breakdown for a cart. Keeps showing the previous quote while
+ * the next one loads so totals don't flicker on every quantity change.
+ */
+export function useOrderQuote(items: QuoteItem[], options: QuoteOptions = {}) {
+  const payload = toQuotePayload(items);
+  const voucherCode = options.voucherCode || null;
+  const customerName = options.customerName || null;
+
+  return useQuery<OrderQuote>({
+    queryKey: ["/api/orders/quote", payload, voucherCode, customerName],
+    queryFn: () => fetchOrderQuote(payload, { voucherCode, customerName }),
+    enabled: payload.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+    retry: false,
+  });
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useRealtime } from "@/hooks/use-realtime";
+import { printQueuedKitchenTicket } from "@/utils/thermal-print";
+import type { PrintJob, PrintSetting } from "@shared/schema";
+
+// Printers whose tickets this device prints, chosen per device since each screen sits by its own printer
+const SERVED_PRINTERS_KEY = 'print_agent_printer_ids';
+
+function loadServedPrinterIds(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SERVED_PRINTERS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+// Claim a waiting ticket, print it here and report how it went; a failed print stays in the queue
+async function runPrintJob(job: PrintJob): Promise<void> {
+  const response = await apiRequest('POST', `/api/print-jobs/${job.id}/claim`);
+  const claimed: PrintJob = await response.json();
+  try {
+    await printQueuedKitchenTicket(claimed);
+    await apiRequest('POST', `/api/print-jobs/${job.id}/result`, { success: true });
+  } catch (error) {
+    await apiRequest('POST', `/api/print-jobs/${job.id}/result`, {
+      success: false,
+      error: error instanceof Error ? error.message : 'Gagal mencetak',
+    });
+  }
+}
+
+/**
+ * Print queue of the station printers. While a KDS screen is open it prints, one at a time,
+ * the waiting tickets of the printers chosen for this device.
+ */
+export function usePrintAgent() {
+  const { connected } = useRealtime();
+  const [servedPrinterIds, setServedPrinterIdsState] = useState<string[]>(loadServedPrinterIds);
+  const printing = useRef(false);
+
+  const { data: jobs = [] } = useQuery<PrintJob[]>({
+    queryKey: ['/api/print-jobs'],
+    refetchInterval: connected ? false : 10000,
+  });
+
+  const { data: printers = [] } = useQuery<PrintSetting[]>({
+    queryKey: ['/api/print-settings'],
+  });
+  // The server prints to network printers itself; a device left serving one must not race it
+  const networkPrinterIds = useMemo(
+    () => printers.filter(printer => printer.connectionType === 'network').map(printer => printer.id),
+    [printers]
+  );
+
+  const setServedPrinterIds = useCallback((ids: string[]) => {
+    localStorage.setItem(SERVED_PRINTERS_KEY, JSON.stringify(ids));
+    setServedPrinterIdsState(ids);
+  }, []);
+
+  useEffect(() => {
+    if (printing.current) return;
+    const next = jobs
+      .filter(job => job.status === 'pending' && job.printerId
+        && servedPrinterIds.includes(job.printerId) && !networkPrinterIds.includes(job.printerId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+    if (!next) return;
+
+    printing.current = true;
+    runPrintJob(next)
+      .catch(error => {
+        // Usually another device claimed it first; the refreshed queue shows who has it
+        console.error('Print queue error:', error);
+      })
+      .finally(() => {
+        printing.current = false;
+        queryClient.invalidateQueries({ queryKey: ['/api/print-jobs'] });
+      });
+  }, [jobs, servedPrinterIds, networkPrinterIds]);
+
+  // Staff printing a missed ticket on this device, from the print queue list
+  const printHere = useCallback(async (job: PrintJob) => {
+    try {
+      if (job.status !== 'pending') {
+        await apiRequest('POST', `/api/print-jobs/${job.id}/retry`);
+      }
+      await runPrintJob(job);
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['/api/print-jobs'] });
+    }
+  }, []);
+
+  return { jobs, servedPrinterIds, setServedPrinterIds, printHere };
+}
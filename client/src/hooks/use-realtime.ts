@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import type { Query } from "@tanstack/react-query";
+import type { Notification, Order, RealtimeEvent, Reservation } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+type Listener = (connected: boolean) => void;
+
+// Single shared socket for the whole app, opened while at least one screen subscribes
+let socket: WebSocket | null = null;
+let connected = false;
+let subscribers = 0;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  listeners.forEach((listener) => listener(value));
+}
+
+function upsertById<T extends { id: string }>(list: T[] | undefined, entity: T): T[] | undefined {
+  if (!Array.isArray(list)) return list;
+  const index = list.findIndex((item) => item.id === entity.id);
+  if (index === -1) return [entity, ...list];
+  const next = [...list];
+  next[index] = entity;
+  return next;
+}
+
+function removeById<T extends { id: string }>(list: T[] | undefined, id: string): T[] | undefined {
+  if (!Array.isArray(list)) return list;
+  return list.filter((item) => item.id !== id);
+}
+
+// Filtered/paginated variants (e.g. ["/api/orders", { limit, offset }]) are simply refetched
+function invalidateVariants(baseKey: string) {
+  queryClient.invalidateQueries({
+    predicate: (query: Query) => query.queryKey[0] === baseKey && query.queryKey.length > 1,
+  });
+}
+
+function applyOrder(order: Order) {
+  queryClient.setQueryData<Order[]>(["/api/orders"], (list) => upsertById(list, order));
+
+  const isOpenBill = Boolean(order.payLater) && order.paymentStatus !== "paid";
+  queryClient.setQueryData<Order[]>(["/api/orders/open-bills"], (list) =>
+    isOpenBill ? upsertById(list, order) : removeById(list, order.id)
+  );
+
+  invalidateVariants("/api/orders");
+  // Table status is derived from its orders on the server
+  queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+}
+
+function applyNotification(notification: Notification) {
+  queryClient.setQueryData<Notification[]>(["/api/notifications"], (list) => upsertById(list, notification));
+  queryClient.setQueryData<Notification[]>(["/api/notifications/pending"], (list) =>
+    notification.status === "pending" ? upsertById(list, notification) : removeById(list, notification.id)
+  );
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/deletion-logs"] });
+}
+
+function applyReservation(payload: Reservation | { id: string; deleted: true }) {
+  queryClient.setQueryData<Reservation[]>(["/api/reservations"], (list) =>
+    "deleted" in payload ? removeById(list, payload.id) : upsertById(list, payload)
+  );
+  invalidateVariants("/api/reservations");
+}
+
+function handleMessage(event: MessageEvent) {
+  let message: RealtimeEvent;
+  try {
+    message = JSON.parse(event.data);
+  } catch {
+    return;
+  }
+
+  switch (message.type) {
+    case "order.created":
+    case "order.updated":
+    case "order.status_changed":
+      applyOrder(message.payload as Order);
+      break;
+    case "notification.created":
+    case "notification.approved":
+    case "notification.rejected":
+      applyNotification(message.payload as Notification);
+      break;
+    case "reservation.changed":
+      applyReservation(message.payload);
+      break;
+    case "table.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/tables"] });
+      break;
+    case "service_request.created":
+    case "service_request.resolved":
+      queryClient.invalidateQueries({ queryKey: ["/api/service-requests"] });
+      break;
+    case "prep_station.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/prep-stations"] });
+      break;
+    case "print_job.changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+      break;
+  }
+}
+
+// Refetch everything the channel keeps fresh, to catch up on events missed while offline
+function resync() {
+  ["/api/orders", "/api/orders/open-bills", "/api/notifications", "/api/reservations", "/api/tables", "/api/service-requests", "/api/prep-stations", "/api/print-jobs"].forEach((key) =>
+    queryClient.invalidateQueries({ queryKey: [key] })
+  );
+}
+
+function connect() {
+  if (socket || subscribers === 0) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+
+  ws.onopen = () => {
+    const isReconnect = reconnectAttempts > 0;
+    reconnectAttempts = 0;
+    setConnected(true);
+    if (isReconnect) resync();
+  };
+
+  ws.onmessage = handleMessage;
+
+  ws.onclose = () => {
+    socket = null;
+    setConnected(false);
+    scheduleReconnect();
+  };
+
+  ws.onerror = () => {
+    // onclose follows and handles the reconnect
+  };
+}
+
+function scheduleReconnect() {
+  if (subscribers === 0 || reconnectTimer) return;
+
+  // Exponential backoff: 1s, 2s, 4s ... capped at 30s
+  const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  reconnectAttempts = 0;
+  if (socket) {
+    socket.onclose = null;
+    socket.close();
+    socket = null;
+  }
+  setConnected(false);
+}
+
+/**
+ * Subscribes the current screen to server push events (orders, notifications,
+ * reservations). Events are patched straight into the React Query cache.
+ * Use `connected` to disable polling while the channel is up.
+ */
+export function useRealtime() {
+  const [isConnected, setIsConnected] = useState(connected);
+
+  useEffect(() => {
+    listeners.add(setIsConnected);
+    subscribers++;
+    connect();
+    setIsConnected(connected);
+
+    return () => {
+      listeners.delete(setIsConnected);
+      subscribers--;
+      if (subscribers === 0) disconnect();
+    };
+  }, []);
+
+  return { connected: isConnected };
+}
@@ -12,22 +12,23 @@ interface ApiError {
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
+    let errorData: any;
     try {
-      const errorData = await res.json();
-      // Handle new structured error format from server
-      if (errorData.code && errorData.details) {
-        const error = new Error(errorData.message) as any;
-        error.apiError = errorData as ApiError;
-        throw error;
-      }
-      // Handle legacy error format
-      const message = errorData.message || res.statusText;
-      throw new Error(`${res.status}: ${message}`);
+      errorData = await res.json();
     } catch (jsonError) {
       // Fallback if response is not JSON
       const text = res.statusText || 'Unknown error';
       throw new Error(`${res.status}: ${text}`);
     }
+    // Handle new structured error format from server
+    if (errorData?.code && errorData.details) {
+      const error = new Error(errorData.message) as any;
+      error.apiError = errorData as ApiError;
+      throw error;
+    }
+    // Handle legacy error format
+    const message = errorData?.message || res.statusText;
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
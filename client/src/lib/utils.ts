@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { MarginWarning } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -39,6 +40,13 @@ export function formatDate(date: Date): string {
   }).format(date)
 }
 
+// Toast description for menu items pushed under the minimum margin by a price/cost change
+export function describeMarginWarnings(warnings: MarginWarning[]): string {
+  const threshold = warnings[0]?.threshold ?? 0
+  const items = warnings.map(w => `${w.name} (${w.marginPercent}%)`).join(', ')
+  return `Margin di bawah ${threshold}%: ${items}`
+}
+
 export function getStockStatus(current: number, min: number, max: number): 'critical' | 'low' | 'sufficient' {
   const percentage = (current / max) * 100;
   if (percentage <= 15) return 'critical';
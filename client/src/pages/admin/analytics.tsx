@@ -1,13 +1,14 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { TrendingUp, TrendingDown, BarChart3, Clock, Download } from "lucide-react";
+import { TrendingUp, TrendingDown, BarChart3, Clock, Download, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/utils";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import jsPDF from 'jspdf';
-import type { Order } from "@shared/schema";
+import type { Order, MenuEngineeringItem, MenuEngineeringClass } from "@shared/schema";
 
 const TIME_PERIODS = [
   { value: 'daily', label: 'Daily' },
@@ -15,6 +16,23 @@ const TIME_PERIODS = [
   { value: 'monthly', label: 'Monthly' }
 ];
 
+const MENU_ENGINEERING_CLASSES: Record<MenuEngineeringClass, { label: string; hint: string; className: string }> = {
+  star: { label: 'Star', hint: 'Laris & margin tinggi - pertahankan', className: 'bg-green-100 text-green-800' },
+  plowhorse: { label: 'Plowhorse', hint: 'Laris tapi margin rendah - tinjau harga/resep', className: 'bg-yellow-100 text-yellow-800' },
+  puzzle: { label: 'Puzzle', hint: 'Margin tinggi tapi kurang laris - promosikan', className: 'bg-blue-100 text-blue-800' },
+  dog: { label: 'Dog', hint: 'Kurang laris & margin rendah - pertimbangkan hapus', className: 'bg-red-100 text-red-800' },
+};
+
+interface MenuEngineeringReport {
+  items: MenuEngineeringItem[];
+  startDate: string;
+  endDate: string;
+  totalSold: number;
+  popularityThreshold: number;
+  marginThreshold: number;
+  minMarginPercent: number;
+}
+
 export default function AnalyticsSection() {
   const [selectedPeriod, setSelectedPeriod] = useState('daily');
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
@@ -469,10 +487,123 @@ export default function AnalyticsSection() {
           </CardContent>
         </Card>
       </div>
+
+      <MenuEngineeringCard period={selectedPeriod} />
     </div>
   );
 }
 
+// Start of the selected period, truncated to midnight so the query key stays stable
+function getPeriodStart(period: string): Date {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - start.getDay());
+  } else if (period === 'monthly') {
+    start.setDate(1);
+  }
+  return start;
+}
+
+function MenuEngineeringCard({ period }: { period: string }) {
+  const startDate = getPeriodStart(period).toISOString();
+
+  const { data: report, isLoading } = useQuery<MenuEngineeringReport>({
+    queryKey: [`/api/analytics/menu-engineering?startDate=${encodeURIComponent(startDate)}`],
+  });
+
+  const items = report?.items || [];
+  const lowMarginItems = items.filter(item => item.hasRecipe && item.marginPercent < (report?.minMarginPercent ?? 0));
+  const missingRecipes = items.filter(item => !item.hasRecipe).length;
+
+  return (
+    <Card className="alonica-card">
+      <CardHeader>
+        <CardTitle>Menu Engineering</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Food cost dari resep × harga bahan terkini. Batas populer {report?.popularityThreshold ?? 0}% dari penjualan,
+          batas margin {formatCurrency(report?.marginThreshold ?? 0)} per porsi.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {(Object.keys(MENU_ENGINEERING_CLASSES) as MenuEngineeringClass[]).map((key) => (
+            <div key={key} className="rounded-lg border border-border p-3" data-testid={`summary-menu-class-${key}`}>
+              <Badge className={MENU_ENGINEERING_CLASSES[key].className}>{MENU_ENGINEERING_CLASSES[key].label}</Badge>
+              <div className="text-2xl font-bold text-foreground mt-2">
+                {items.filter(item => item.classification === key).length}
+              </div>
+              <p className="text-xs text-muted-foreground">{MENU_ENGINEERING_CLASSES[key].hint}</p>
+            </div>
+          ))}
+        </div>
+
+        {lowMarginItems.length > 0 && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-800" data-testid="alert-low-margin">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {lowMarginItems.length} menu di bawah batas margin {report?.minMarginPercent}%: {lowMarginItems.map(item => item.name).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {missingRecipes > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {missingRecipes} menu belum memiliki resep, food cost dihitung Rp 0.
+          </p>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-muted-foreground">Menu</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Harga</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Food Cost</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Margin</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Terjual</th>
+                <th className="px-4 py-2 text-right font-medium text-muted-foreground">Total Margin</th>
+                <th className="px-4 py-2 text-left font-medium text-muted-foreground">Kategori</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {items.map((item) => {
+                const isLowMargin = item.hasRecipe && item.marginPercent < (report?.minMarginPercent ?? 0);
+                return (
+                  <tr key={item.menuItemId} data-testid={`row-menu-engineering-${item.menuItemId}`}>
+                    <td className="px-4 py-2 text-foreground">
+                      {item.name}
+                      {!item.hasRecipe && <span className="ml-2 text-xs text-muted-foreground">(tanpa resep)</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(item.price)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(item.foodCost)}</td>
+                    <td className={`px-4 py-2 text-right font-medium ${isLowMargin ? 'text-red-600' : 'text-foreground'}`}>
+                      {item.marginPercent}%
+                    </td>
+                    <td className="px-4 py-2 text-right">{item.quantitySold}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(item.totalMargin)}</td>
+                    <td className="px-4 py-2">
+                      <Badge className={MENU_ENGINEERING_CLASSES[item.classification].className}>
+                        {MENU_ENGINEERING_CLASSES[item.classification].label}
+                      </Badge>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {!isLoading && items.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-6" data-testid="text-no-menu-engineering">
+            Belum ada data menu
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function calculateAnalytics(orders: Order[], period: string) {
   // Ensure orders is an array
   const safeOrders = Array.isArray(orders) ? orders : [];
@@ -16,7 +16,9 @@ import {
   Key,
   Plus,
   Hash,
-  Calendar
+  Calendar,
+  Undo2,
+  Wallet
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,6 +26,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/utils";
 import {
@@ -35,7 +38,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import type { User as AppUser } from "@shared/schema";
+import type { User as AppUser, Refund } from "@shared/schema";
 
 interface Notification {
   id: string;
@@ -44,14 +47,19 @@ interface Notification {
   message: string;
   requestedBy: string;
   relatedId: string;
+  // Deletion requests carry the item; cash variances carry the shift's cash figures
   relatedData: {
-    itemIndex: number;
-    item: {
+    itemIndex?: number;
+    item?: {
       name: string;
       quantity: number;
       price: number;
     };
-    reason: string;
+    reason?: string;
+    systemCash?: number;
+    finalCash?: number;
+    cashDifference?: number;
+    notes?: string | null;
   };
   status: string;
   isRead: boolean;
@@ -86,6 +94,18 @@ interface DeletionPin {
   createdAt: string;
 }
 
+const REFUND_TYPE_LABELS: Record<string, string> = {
+  void: 'Void',
+  partial_refund: 'Refund Sebagian',
+  full_refund: 'Refund Penuh',
+};
+
+const MIDTRANS_REFUND_LABELS: Record<string, string> = {
+  pending: 'Gateway: diproses',
+  succeeded: 'Gateway: berhasil',
+  failed: 'Gateway: gagal',
+};
+
 export default function ApprovalsSection() {
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState("pending");
@@ -94,18 +114,19 @@ export default function ApprovalsSection() {
   const [newPinMaxUses, setNewPinMaxUses] = useState("");
   const [newPinDescription, setNewPinDescription] = useState("");
   const { toast } = useToast();
+  const { connected } = useRealtime();
 
-  // Fetch all notifications with aggressive polling
+  // Fetch all notifications (pushed over the realtime channel, polling only as fallback)
   const { data: notifications = [], isLoading: notificationsLoading, refetch: refetchNotifications } = useQuery<Notification[]>({
     queryKey: ['/api/notifications'],
-    refetchInterval: 3000, // Poll every 3 seconds for real-time updates
+    refetchInterval: connected ? false : 3000,
     refetchIntervalInBackground: true,
   });
 
-  // Fetch deletion logs with polling
+  // Fetch deletion logs (refreshed on approval events, polling only as fallback)
   const { data: deletionLogs = [], isLoading: logsLoading, refetch: refetchLogs } = useQuery<DeletionLog[]>({
     queryKey: ["/api/deletion-logs"],
-    refetchInterval: 5000,
+    refetchInterval: connected ? false : 5000,
   });
 
   // Fetch deletion PINs with polling
@@ -114,6 +135,12 @@ export default function ApprovalsSection() {
     refetchInterval: 5000,
   });
 
+  // Fetch refunds; gateway payments show the gateway refund result here
+  const { data: refunds = [], refetch: refetchRefunds } = useQuery<Refund[]>({
+    queryKey: ["/api/refunds"],
+    refetchInterval: connected ? false : 10000,
+  });
+
   // Fetch users for lookup
   const { data: users = [] } = useQuery<AppUser[]>({
     queryKey: ["/api/users"],
@@ -123,11 +150,11 @@ export default function ApprovalsSection() {
 
   // Approve mutation
   const approveMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      const response = await apiRequest('POST', `/api/notifications/${notificationId}/approve`);
+    mutationFn: async (notification: Notification) => {
+      const response = await apiRequest('POST', `/api/notifications/${notification.id}/approve`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, notification) => {
       // Invalidate all related queries to ensure sync
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       queryClient.invalidateQueries({ queryKey: ['/api/deletion-logs'] });
@@ -142,7 +169,9 @@ export default function ApprovalsSection() {
       
       toast({
         title: "Permintaan Disetujui",
-        description: "Item berhasil dihapus dari open bill dan tercatat dalam log",
+        description: notification.type === 'cash_variance'
+          ? "Selisih kas shift disetujui dan tercatat dalam audit log"
+          : "Item berhasil dihapus dari open bill dan tercatat dalam log",
       });
     },
     onError: (error: any) => {
@@ -156,11 +185,11 @@ export default function ApprovalsSection() {
 
   // Reject mutation
   const rejectMutation = useMutation({
-    mutationFn: async (notificationId: string) => {
-      const response = await apiRequest('POST', `/api/notifications/${notificationId}/reject`);
+    mutationFn: async (notification: Notification) => {
+      const response = await apiRequest('POST', `/api/notifications/${notification.id}/reject`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, notification) => {
       // Invalidate all related queries to ensure sync
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
       queryClient.invalidateQueries({ queryKey: ['/api/deletion-logs'] });
@@ -171,7 +200,9 @@ export default function ApprovalsSection() {
       
       toast({
         title: "Permintaan Ditolak",
-        description: "Permintaan penghapusan ditolak",
+        description: notification.type === 'cash_variance'
+          ? "Selisih kas shift ditolak"
+          : "Permintaan penghapusan ditolak",
       });
     },
     onError: (error: any) => {
@@ -183,6 +214,55 @@ export default function ApprovalsSection() {
     },
   });
 
+  // Approve refund mutation
+  const authorizeRefundMutation = useMutation({
+    mutationFn: async (refundId: string) => {
+      const response = await apiRequest('PUT', `/api/refunds/${refundId}/authorize`, {
+        authorizationCode: `ADM-${Date.now()}`,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/refunds'] });
+      toast({
+        title: "Refund Disetujui",
+        description: "Refund siap diproses",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal Menyetujui Refund",
+        description: error.message || "Terjadi kesalahan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Process refund mutation; gateway payments are refunded through the gateway first
+  const processRefundMutation = useMutation({
+    mutationFn: async (refundId: string) => {
+      const response = await apiRequest('PUT', `/api/refunds/${refundId}/process`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/refunds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: "Refund Diproses",
+        description: "Dana refund telah dikembalikan",
+      });
+    },
+    onError: (error: any) => {
+      // The failure reason is stored on the refund, refetch so the card shows it
+      queryClient.invalidateQueries({ queryKey: ['/api/refunds'] });
+      toast({
+        title: "Refund Gagal",
+        description: error.message?.replace(/^\d{3}: /, '') || "Terjadi kesalahan",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Create PIN mutation
   const createPinMutation = useMutation({
     mutationFn: async (data: { expiresAt?: string; maxUses?: number; description?: string }) => {
@@ -301,6 +381,18 @@ export default function ApprovalsSection() {
 
   const pendingCount = notifications.filter(n => n.status === 'pending').length;
 
+  // Refunds still needing an admin action; a failed gateway refund stays approved so it can be retried
+  const openRefunds = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return refunds
+      .filter(refund => refund.status === 'pending' || refund.status === 'approved')
+      .filter(refund => !query ||
+        refund.orderId.toLowerCase().includes(query) ||
+        refund.reason.toLowerCase().includes(query) ||
+        getUserById(refund.requestedBy)?.username?.toLowerCase().includes(query)
+      );
+  }, [refunds, searchQuery, users]);
+
   const formatTime = (date: string | Date) => {
     return format(new Date(date), "dd/MM/yyyy HH:mm");
   };
@@ -309,6 +401,7 @@ export default function ApprovalsSection() {
     refetchNotifications();
     refetchLogs();
     refetchPins();
+    refetchRefunds();
     toast({
       title: "Data Direfresh",
       description: "Semua data telah diperbarui",
@@ -411,7 +504,7 @@ export default function ApprovalsSection() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="pending" data-testid="tab-pending">
             <Clock className="h-4 w-4 mr-2" />
             Pending ({pendingCount})
@@ -420,6 +513,10 @@ export default function ApprovalsSection() {
             <FileText className="h-4 w-4 mr-2" />
             History ({deletionLogs.length})
           </TabsTrigger>
+          <TabsTrigger value="refunds" data-testid="tab-refunds">
+            <Undo2 className="h-4 w-4 mr-2" />
+            Refund ({openRefunds.length})
+          </TabsTrigger>
           <TabsTrigger value="pins" data-testid="tab-pins">
             <Key className="h-4 w-4 mr-2" />
             PIN Management
@@ -447,7 +544,11 @@ export default function ApprovalsSection() {
                         {/* Header */}
                         <div className="flex items-center gap-3 mb-3">
                           <div className="h-10 w-10 rounded-full bg-destructive/10 flex items-center justify-center flex-shrink-0">
-                            <Trash2 className="h-5 w-5 text-destructive" />
+                            {notification.type === 'cash_variance' ? (
+                              <Wallet className="h-5 w-5 text-destructive" />
+                            ) : (
+                              <Trash2 className="h-5 w-5 text-destructive" />
+                            )}
                           </div>
                           <div className="flex-1">
                             <h3 className="font-semibold text-foreground" data-testid={`approval-title-${notification.id}`}>
@@ -463,7 +564,36 @@ export default function ApprovalsSection() {
                         </div>
 
                         {/* Details */}
-                        {notification.relatedData && (
+                        {notification.type === 'cash_variance' && notification.relatedData ? (
+                          <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
+                            <div className="grid grid-cols-3 gap-4 text-sm">
+                              <div>
+                                <p className="text-muted-foreground">Kas Sistem</p>
+                                <p className="font-medium">
+                                  {formatCurrency(notification.relatedData.systemCash ?? 0)}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Kas Fisik</p>
+                                <p className="font-medium">
+                                  {formatCurrency(notification.relatedData.finalCash ?? 0)}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Selisih</p>
+                                <p className={`font-medium ${(notification.relatedData.cashDifference ?? 0) < 0 ? 'text-red-600' : 'text-green-600'}`} data-testid={`approval-cash-difference-${notification.id}`}>
+                                  {formatCurrency(notification.relatedData.cashDifference ?? 0)}
+                                </p>
+                              </div>
+                            </div>
+                            {notification.relatedData.notes && (
+                              <div className="pt-2 border-t border-border">
+                                <p className="text-muted-foreground text-sm">Catatan Kasir</p>
+                                <p className="font-medium">{notification.relatedData.notes}</p>
+                              </div>
+                            )}
+                          </div>
+                        ) : notification.relatedData?.item && (
                           <div className="bg-muted/50 rounded-lg p-4 mb-4 space-y-2">
                             <div className="grid grid-cols-2 gap-4 text-sm">
                               <div>
@@ -517,7 +647,7 @@ export default function ApprovalsSection() {
                         <Button
                           size="sm"
                           variant="default"
-                          onClick={() => approveMutation.mutate(notification.id)}
+                          onClick={() => approveMutation.mutate(notification)}
                           disabled={approveMutation.isPending || rejectMutation.isPending}
                           className="bg-green-600 hover:bg-green-700"
                           data-testid={`button-approve-${notification.id}`}
@@ -528,7 +658,7 @@ export default function ApprovalsSection() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => rejectMutation.mutate(notification.id)}
+                          onClick={() => rejectMutation.mutate(notification)}
                           disabled={approveMutation.isPending || rejectMutation.isPending}
                           className="border-red-300 text-red-600 hover:bg-red-50"
                           data-testid={`button-reject-${notification.id}`}
@@ -649,6 +779,91 @@ export default function ApprovalsSection() {
         </TabsContent>
 
         {/* PIN Management Tab */}
+        <TabsContent value="refunds" className="mt-6 space-y-4">
+          {openRefunds.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                <Undo2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>Tidak ada refund yang perlu ditindaklanjuti</p>
+              </CardContent>
+            </Card>
+          ) : (
+            openRefunds.map((refund) => (
+              <Card key={refund.id} data-testid={`refund-card-${refund.id}`}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <h3 className="font-semibold text-foreground">
+                          {REFUND_TYPE_LABELS[refund.refundType] || refund.refundType} - {formatCurrency(refund.refundAmount)}
+                        </h3>
+                        <Badge variant="outline" className="font-mono text-xs">
+                          {refund.orderId.slice(0, 8)}
+                        </Badge>
+                        <Badge variant={refund.status === 'pending' ? 'default' : 'secondary'} data-testid={`refund-status-${refund.id}`}>
+                          {refund.status.toUpperCase()}
+                        </Badge>
+                        {refund.midtransRefundStatus && (
+                          <Badge
+                            variant={refund.midtransRefundStatus === 'failed' ? 'destructive' : 'outline'}
+                            data-testid={`refund-midtrans-status-${refund.id}`}
+                          >
+                            {MIDTRANS_REFUND_LABELS[refund.midtransRefundStatus] || refund.midtransRefundStatus}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{refund.reason}</p>
+                      {refund.midtransRefundError && (
+                        <p className="text-sm text-destructive" data-testid={`refund-midtrans-error-${refund.id}`}>
+                          {refund.midtransRefundError}
+                        </p>
+                      )}
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span>
+                          Requested by: <strong>{getUserById(refund.requestedBy)?.username || 'Unknown'}</strong>
+                        </span>
+                        <span>•</span>
+                        <span>{formatTime(refund.createdAt)}</span>
+                        {refund.midtransRefundKey && (
+                          <>
+                            <span>•</span>
+                            <span className="font-mono">Refund key: {refund.midtransRefundKey}</span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                      {refund.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          onClick={() => authorizeRefundMutation.mutate(refund.id)}
+                          disabled={authorizeRefundMutation.isPending}
+                          data-testid={`button-authorize-refund-${refund.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Setujui
+                        </Button>
+                      )}
+                      {refund.status === 'approved' && (
+                        <Button
+                          size="sm"
+                          onClick={() => processRefundMutation.mutate(refund.id)}
+                          disabled={processRefundMutation.isPending}
+                          data-testid={`button-process-refund-${refund.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                          {refund.midtransRefundStatus === 'failed' ? 'Coba Lagi' : 'Proses'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
         <TabsContent value="pins" className="mt-6">
           <Card>
             <CardHeader>
@@ -25,9 +25,10 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/utils";
-import type { Shift, User as AppUser, Expense, CashMovement, AuditLog } from "@shared/schema";
+import type { Shift, User as AppUser, Expense, CashMovement, AuditLog, CashierPerformance } from "@shared/schema";
 
 interface ShiftAuditData {
   shift: Shift;
@@ -96,6 +97,25 @@ export default function AuditReportsSection() {
     staleTime: 10000,
   });
 
+  // Server-side totals per kasir, from the orders, tenders and refunds linked to them
+  const performanceStartDate = useMemo(
+    () => startOfDay(subDays(new Date(), parseInt(dateFilter))).toISOString(),
+    [dateFilter]
+  );
+  const { data: cashierPerformance = [], isLoading: performanceLoading } = useQuery<CashierPerformance[]>({
+    queryKey: [`/api/shifts/cashier-performance?startDate=${encodeURIComponent(performanceStartDate)}`],
+    staleTime: 30000,
+    retry: 1,
+  });
+
+  const filteredPerformance = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return cashierPerformance.filter(entry =>
+      (cashierFilter === "all" || entry.cashierId === cashierFilter) &&
+      (!query || entry.username.toLowerCase().includes(query))
+    );
+  }, [cashierPerformance, cashierFilter, searchQuery]);
+
   // Loading state: all critical queries must finish (deletion logs is optional)
   const isLoading = shiftsLoading || usersLoading || expensesLoading || cashMovementsLoading || auditLogsLoading;
   // Error state: only show error if critical queries fail (not deletion logs)
@@ -404,216 +424,280 @@ export default function AuditReportsSection() {
         </Card>
       </div>
 
-      {/* Shift Reports */}
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">Laporan Per Shift</h2>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="shifts" data-testid="tab-shift-reports">Laporan Per Shift</TabsTrigger>
+          <TabsTrigger value="cashiers" data-testid="tab-cashier-performance">Kinerja Kasir</TabsTrigger>
+        </TabsList>
+
+        {/* Shift Reports */}
+        <TabsContent value="shifts" className="space-y-4">
+          <h2 className="text-xl font-semibold">Laporan Per Shift</h2>
         
-        {processedData.length === 0 ? (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <p className="text-muted-foreground">Tidak ada data shift untuk periode yang dipilih</p>
-            </CardContent>
-          </Card>
-        ) : (
-          processedData.map((auditData) => (
-            <Card key={auditData.shift.id} className="overflow-hidden">
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <User className="h-5 w-5 text-primary" />
-                    <div>
-                      <CardTitle className="text-lg">{auditData.cashier.username}</CardTitle>
-                      <p className="text-sm text-muted-foreground">ID Sesi: {auditData.shift.id}</p>
+          {processedData.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Tidak ada data shift untuk periode yang dipilih</p>
+              </CardContent>
+            </Card>
+          ) : (
+            processedData.map((auditData) => (
+              <Card key={auditData.shift.id} className="overflow-hidden">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <User className="h-5 w-5 text-primary" />
+                      <div>
+                        <CardTitle className="text-lg">{auditData.cashier.username}</CardTitle>
+                        <p className="text-sm text-muted-foreground">ID Sesi: {auditData.shift.id}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={getShiftStatusColor(auditData.shift)}>
+                        {getShiftStatusText(auditData.shift)}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSelectedShift(
+                          selectedShift === auditData.shift.id ? null : auditData.shift.id
+                        )}
+                      >
+                        {selectedShift === auditData.shift.id ? "Tutup Detail" : "Lihat Detail"}
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Badge className={getShiftStatusColor(auditData.shift)}>
-                      {getShiftStatusText(auditData.shift)}
-                    </Badge>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setSelectedShift(
-                        selectedShift === auditData.shift.id ? null : auditData.shift.id
-                      )}
-                    >
-                      {selectedShift === auditData.shift.id ? "Tutup Detail" : "Lihat Detail"}
-                    </Button>
-                  </div>
-                </div>
-              </CardHeader>
-
-              <CardContent className="space-y-4">
-                {/* Shift Summary */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                  <div>
-                    <p className="text-muted-foreground">Mulai Shift</p>
-                    <p className="font-medium">{formatTime(auditData.shift.startTime)}</p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">Selesai Shift</p>
-                    <p className="font-medium">
-                      {auditData.shift.endTime ? formatTime(auditData.shift.endTime) : "Belum selesai"}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">Durasi</p>
-                    <p className="font-medium">
-                      {formatDuration(auditData.shift.startTime, auditData.shift.endTime)}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-muted-foreground">Selisih Kas</p>
-                    <p className={`font-medium ${
-                      (auditData.shift.cashDifference || 0) >= 0 ? 'text-green-600' : 'text-red-600'
-                    }`}>
-                      {formatCurrency(auditData.shift.cashDifference || 0)}
-                    </p>
-                  </div>
-                </div>
-
-                {/* Quick Stats */}
-                <div className="grid grid-cols-3 gap-4 p-4 bg-muted/30 rounded-lg">
-                  <div className="text-center">
-                    <p className="text-2xl font-bold text-primary">
-                      {formatCurrency(auditData.shift.totalRevenue || 0)}
-                    </p>
-                    <p className="text-sm text-muted-foreground">Total Pendapatan</p>
-                  </div>
-                  <div className="text-center">
-                    <p className="text-2xl font-bold text-red-600">
-                      {formatCurrency(auditData.expenses.reduce((sum, exp) => sum + exp.amount, 0))}
-                    </p>
-                    <p className="text-sm text-muted-foreground">Pengeluaran Dadakan</p>
-                  </div>
-                  <div className="text-center">
-                    <p className="text-2xl font-bold text-blue-600">
-                      {auditData.cashMovements.length}
-                    </p>
-                    <p className="text-sm text-muted-foreground">Transaksi Kas</p>
-                  </div>
-                </div>
+                </CardHeader>
 
-                {/* Expanded Details */}
-                {selectedShift === auditData.shift.id && (
-                  <div className="space-y-6 pt-4 border-t">
-                    {/* Kas Details */}
+                <CardContent className="space-y-4">
+                  {/* Shift Summary */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                     <div>
-                      <h4 className="font-medium mb-3 flex items-center gap-2">
-                        <DollarSign className="h-4 w-4" />
-                        Detail Kas
-                      </h4>
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                        <div className="p-3 bg-gray-50 rounded">
-                          <p className="text-muted-foreground">Kas Awal</p>
-                          <p className="font-medium">{formatCurrency(auditData.shift.initialCash || 0)}</p>
-                        </div>
-                        <div className="p-3 bg-gray-50 rounded">
-                          <p className="text-muted-foreground">Kas Akhir (Fisik)</p>
-                          <p className="font-medium">{formatCurrency(auditData.shift.finalCash || 0)}</p>
-                        </div>
-                        <div className="p-3 bg-gray-50 rounded">
-                          <p className="text-muted-foreground">Kas Sistem</p>
-                          <p className="font-medium">{formatCurrency(auditData.shift.systemCash || 0)}</p>
-                        </div>
-                        <div className="p-3 bg-gray-50 rounded">
-                          <p className="text-muted-foreground">Selisih</p>
-                          <p className={`font-medium ${
-                            (auditData.shift.cashDifference || 0) >= 0 ? 'text-green-600' : 'text-red-600'
-                          }`}>
-                            {formatCurrency(auditData.shift.cashDifference || 0)}
-                          </p>
-                        </div>
-                      </div>
+                      <p className="text-muted-foreground">Mulai Shift</p>
+                      <p className="font-medium">{formatTime(auditData.shift.startTime)}</p>
                     </div>
+                    <div>
+                      <p className="text-muted-foreground">Selesai Shift</p>
+                      <p className="font-medium">
+                        {auditData.shift.endTime ? formatTime(auditData.shift.endTime) : "Belum selesai"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Durasi</p>
+                      <p className="font-medium">
+                        {formatDuration(auditData.shift.startTime, auditData.shift.endTime)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">Selisih Kas</p>
+                      <p className={`font-medium ${
+                        (auditData.shift.cashDifference || 0) >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {formatCurrency(auditData.shift.cashDifference || 0)}
+                      </p>
+                    </div>
+                  </div>
 
-                    {/* Expenses */}
-                    {auditData.expenses.length > 0 && (
+                  {/* Quick Stats */}
+                  <div className="grid grid-cols-3 gap-4 p-4 bg-muted/30 rounded-lg">
+                    <div className="text-center">
+                      <p className="text-2xl font-bold text-primary">
+                        {formatCurrency(auditData.shift.totalRevenue || 0)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">Total Pendapatan</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-2xl font-bold text-red-600">
+                        {formatCurrency(auditData.expenses.reduce((sum, exp) => sum + exp.amount, 0))}
+                      </p>
+                      <p className="text-sm text-muted-foreground">Pengeluaran Dadakan</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-2xl font-bold text-blue-600">
+                        {auditData.cashMovements.length}
+                      </p>
+                      <p className="text-sm text-muted-foreground">Transaksi Kas</p>
+                    </div>
+                  </div>
+
+                  {/* Expanded Details */}
+                  {selectedShift === auditData.shift.id && (
+                    <div className="space-y-6 pt-4 border-t">
+                      {/* Kas Details */}
                       <div>
-                        <h4 className="font-medium mb-3">Pengeluaran Dadakan ({auditData.expenses.length})</h4>
-                        <div className="space-y-2">
-                          {auditData.expenses.map((expense) => (
-                            <div key={expense.id} className="flex items-center justify-between p-3 bg-red-50 rounded border border-red-100">
-                              <div>
-                                <p className="font-medium">{expense.description}</p>
-                                <p className="text-sm text-muted-foreground">
-                                  {expense.category} • {formatTime(expense.createdAt)}
-                                </p>
-                              </div>
-                              <div className="text-right">
-                                <p className="font-medium text-red-600">{formatCurrency(expense.amount)}</p>
-                              </div>
-                            </div>
-                          ))}
+                        <h4 className="font-medium mb-3 flex items-center gap-2">
+                          <DollarSign className="h-4 w-4" />
+                          Detail Kas
+                        </h4>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                          <div className="p-3 bg-gray-50 rounded">
+                            <p className="text-muted-foreground">Kas Awal</p>
+                            <p className="font-medium">{formatCurrency(auditData.shift.initialCash || 0)}</p>
+                          </div>
+                          <div className="p-3 bg-gray-50 rounded">
+                            <p className="text-muted-foreground">Kas Akhir (Fisik)</p>
+                            <p className="font-medium">{formatCurrency(auditData.shift.finalCash || 0)}</p>
+                          </div>
+                          <div className="p-3 bg-gray-50 rounded">
+                            <p className="text-muted-foreground">Kas Sistem</p>
+                            <p className="font-medium">{formatCurrency(auditData.shift.systemCash || 0)}</p>
+                          </div>
+                          <div className="p-3 bg-gray-50 rounded">
+                            <p className="text-muted-foreground">Selisih</p>
+                            <p className={`font-medium ${
+                              (auditData.shift.cashDifference || 0) >= 0 ? 'text-green-600' : 'text-red-600'
+                            }`}>
+                              {formatCurrency(auditData.shift.cashDifference || 0)}
+                            </p>
+                          </div>
                         </div>
                       </div>
-                    )}
 
-                    {/* Cash Movements */}
-                    {auditData.cashMovements.length > 0 && (
-                      <div>
-                        <h4 className="font-medium mb-3">Transaksi Kas ({auditData.cashMovements.length})</h4>
-                        <div className="space-y-2">
-                          {auditData.cashMovements.map((movement) => (
-                            <div key={movement.id} className={`flex items-center justify-between p-3 rounded border ${
-                              movement.type === 'in' 
-                                ? 'bg-green-50 border-green-100' 
-                                : 'bg-red-50 border-red-100'
-                            }`}>
-                              <div>
-                                <p className="font-medium">{movement.description}</p>
-                                <p className="text-sm text-muted-foreground">
-                                  {movement.category} • {formatTime(movement.createdAt)}
-                                </p>
+                      {/* Expenses */}
+                      {auditData.expenses.length > 0 && (
+                        <div>
+                          <h4 className="font-medium mb-3">Pengeluaran Dadakan ({auditData.expenses.length})</h4>
+                          <div className="space-y-2">
+                            {auditData.expenses.map((expense) => (
+                              <div key={expense.id} className="flex items-center justify-between p-3 bg-red-50 rounded border border-red-100">
+                                <div>
+                                  <p className="font-medium">{expense.description}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {expense.category} • {formatTime(expense.createdAt)}
+                                  </p>
+                                </div>
+                                <div className="text-right">
+                                  <p className="font-medium text-red-600">{formatCurrency(expense.amount)}</p>
+                                </div>
                               </div>
-                              <div className="text-right">
-                                <p className={`font-medium ${
-                                  movement.type === 'in' ? 'text-green-600' : 'text-red-600'
-                                }`}>
-                                  {movement.type === 'in' ? '+' : '-'}{formatCurrency(movement.amount)}
-                                </p>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Cash Movements */}
+                      {auditData.cashMovements.length > 0 && (
+                        <div>
+                          <h4 className="font-medium mb-3">Transaksi Kas ({auditData.cashMovements.length})</h4>
+                          <div className="space-y-2">
+                            {auditData.cashMovements.map((movement) => (
+                              <div key={movement.id} className={`flex items-center justify-between p-3 rounded border ${
+                                movement.type === 'in' 
+                                  ? 'bg-green-50 border-green-100' 
+                                  : 'bg-red-50 border-red-100'
+                              }`}>
+                                <div>
+                                  <p className="font-medium">{movement.description}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    {movement.category} • {formatTime(movement.createdAt)}
+                                  </p>
+                                </div>
+                                <div className="text-right">
+                                  <p className={`font-medium ${
+                                    movement.type === 'in' ? 'text-green-600' : 'text-red-600'
+                                  }`}>
+                                    {movement.type === 'in' ? '+' : '-'}{formatCurrency(movement.amount)}
+                                  </p>
+                                </div>
                               </div>
-                            </div>
-                          ))}
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Notes */}
-                    {auditData.shift.notes && (
-                      <div>
-                        <h4 className="font-medium mb-3">Catatan Shift</h4>
-                        <div className="p-3 bg-gray-50 rounded">
-                          <p className="text-sm">{auditData.shift.notes}</p>
+                      {/* Notes */}
+                      {auditData.shift.notes && (
+                        <div>
+                          <h4 className="font-medium mb-3">Catatan Shift</h4>
+                          <div className="p-3 bg-gray-50 rounded">
+                            <p className="text-sm">{auditData.shift.notes}</p>
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Audit Trail */}
-                    {auditData.auditLogs.length > 0 && (
-                      <div>
-                        <h4 className="font-medium mb-3">Jejak Audit ({auditData.auditLogs.length})</h4>
-                        <div className="space-y-2 max-h-60 overflow-y-auto">
-                          {auditData.auditLogs.map((log) => (
-                            <div key={log.id} className="flex items-center gap-3 p-2 text-xs bg-gray-50 rounded">
-                              <CheckCircle className="h-3 w-3 text-green-500 flex-shrink-0" />
-                              <div className="flex-1">
-                                <p>{log.action}</p>
-                                <p className="text-muted-foreground">{formatTime(log.createdAt)}</p>
+                      {/* Audit Trail */}
+                      {auditData.auditLogs.length > 0 && (
+                        <div>
+                          <h4 className="font-medium mb-3">Jejak Audit ({auditData.auditLogs.length})</h4>
+                          <div className="space-y-2 max-h-60 overflow-y-auto">
+                            {auditData.auditLogs.map((log) => (
+                              <div key={log.id} className="flex items-center gap-3 p-2 text-xs bg-gray-50 rounded">
+                                <CheckCircle className="h-3 w-3 text-green-500 flex-shrink-0" />
+                                <div className="flex-1">
+                                  <p>{log.action}</p>
+                                  <p className="text-muted-foreground">{formatTime(log.createdAt)}</p>
+                                </div>
                               </div>
-                            </div>
-                          ))}
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                )}
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        {/* Cashier Performance */}
+        <TabsContent value="cashiers" className="space-y-4">
+          <h2 className="text-xl font-semibold">Kinerja Kasir</h2>
+
+          {performanceLoading ? (
+            <div className="h-40 bg-muted rounded animate-pulse"></div>
+          ) : filteredPerformance.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <User className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Tidak ada transaksi kasir untuk periode yang dipilih</p>
               </CardContent>
             </Card>
-          ))
-        )}
-      </div>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Kasir</TableHead>
+                      <TableHead className="text-right">Shift</TableHead>
+                      <TableHead className="text-right">Pesanan</TableHead>
+                      <TableHead className="text-right">Pendapatan</TableHead>
+                      <TableHead className="text-right">Tunai</TableHead>
+                      <TableHead className="text-right">Non-Tunai</TableHead>
+                      <TableHead className="text-right">Rata-rata Pesanan</TableHead>
+                      <TableHead className="text-right">Refund</TableHead>
+                      <TableHead className="text-right">Selisih Kas</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredPerformance.map((entry) => (
+                      <TableRow key={entry.cashierId} data-testid={`row-cashier-performance-${entry.cashierId}`}>
+                        <TableCell className="font-medium">{entry.username}</TableCell>
+                        <TableCell className="text-right">{entry.shifts}</TableCell>
+                        <TableCell className="text-right">{entry.orders}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(entry.revenue)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.cashRevenue)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.nonCashRevenue)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.averageOrder)}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.refunds > 0 ? `${entry.refunds} (${formatCurrency(entry.refundAmount)})` : "-"}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${
+                          entry.cashDifference >= 0 ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {formatCurrency(entry.cashDifference)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
\ No newline at end of file
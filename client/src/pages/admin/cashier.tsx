@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, Minus, Trash2, ShoppingCart, ShoppingBag, User, Table, Receipt, Calculator, Printer, FileText, Send, Eye, Split, Search, Clock, QrCode, Banknote, CreditCard as CreditCardIcon, Wallet, Smartphone, ChevronDown, ChevronUp } from "lucide-react";
+import { Plus, Minus, Trash2, ShoppingCart, ShoppingBag, User, Table, Receipt, Calculator, Printer, X, FileText, Send, Eye, Split, Search, Clock, QrCode, Banknote, CreditCard as CreditCardIcon, Wallet, Smartphone, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,22 +11,41 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { fetchOrderQuote, getQuoteErrorMessage, useOrderQuote, type OrderQuote } from "@/hooks/use-order-quote";
 import { formatCurrency } from "@/lib/utils";
 import { smartPrintReceipt } from "@/utils/thermal-print";
-import type { MenuItem, Category, InsertOrder, Order, Discount } from "@shared/schema";
+import ModifierDialog from "@/components/modifier-dialog";
+import type { MenuItem, Category, InsertOrder, Order, OrderPayment, Discount, OrderItem, OrderItemModifier, PaymentMethod, BillSplitPart, BillSplitWithParts, SplitBillMode, SplitPartItem } from "@shared/schema";
+import { findBestDiscount, getDiscountUnitAmount } from "@shared/discounts";
+import { formatModifiers, getModifierGroups, getModifierLineKey, getModifiersTotal } from "@shared/modifiers";
+import { PAYMENT_METHOD_LABELS, isCounterPaymentMethod, type CounterPaymentMethod } from "@shared/payments";
+import { allocateSplitAmounts, getAssignedQuantities } from "@shared/split-bills";
 
 interface CartItem {
-  id: string;
+  id: string; // line key: menu item id plus chosen modifier options
+  itemId: string;
   name: string;
   price: number;
   quantity: number;
   notes: string;
+  modifiers?: OrderItemModifier[];
+}
+
+// One part of a counter payment; a bill can be settled with several (e.g. part cash, part card)
+interface TenderEntry {
+  method: CounterPaymentMethod;
+  amount: number;
+  reference?: string;
+  cashReceived?: number;
+  change?: number;
 }
 
 interface PaymentData {
   cashAmount: number;
   change: number;
   order: Order & {
+    payments?: OrderPayment[];
+    splitLabel?: string; // e.g. "Split 1/3" on the receipt of one split bill part
     items: Array<{
       itemId: string;
       name: string;
@@ -37,12 +56,40 @@ interface PaymentData {
   };
 }
 
+// Helper function to turn a stored order item into a cart line
+function toCartItem(item: any): CartItem {
+  const itemId = item.itemId || item.id;
+  return {
+    id: getModifierLineKey(itemId, item.modifiers),
+    itemId,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    notes: item.notes || "",
+    modifiers: item.modifiers,
+  };
+}
+
+// Helper function to build the order line sent to the server, which re-prices it from the menu
+function toOrderItem(item: CartItem) {
+  return {
+    itemId: item.itemId,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    notes: item.notes || "",
+    modifierOptionIds: item.modifiers?.map(modifier => modifier.optionId),
+  };
+}
+
 export default function CashierSection() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   // Customer & order state
   const [customerName, setCustomerName] = useState("");
+  const [voucherInput, setVoucherInput] = useState("");
+  const [voucherCode, setVoucherCode] = useState<string | null>(null);
   const [tableNumber, setTableNumber] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
   const [notes, setNotes] = useState<Record<string, string>>({});
@@ -59,7 +106,10 @@ export default function CashierSection() {
   const [showPaymentCalculator, setShowPaymentCalculator] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [cashAmount, setCashAmount] = useState("");
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "qris">("cash");
+  const [paymentMethod, setPaymentMethod] = useState<CounterPaymentMethod>("cash");
+  const [paymentReference, setPaymentReference] = useState(""); // EDC approval code for card payments
+  const [tenders, setTenders] = useState<TenderEntry[]>([]); // parts of the bill already taken with other methods
+  const [tenderAmount, setTenderAmount] = useState(""); // non-cash amount for a partial tender
   const [paymentData, setPaymentData] = useState<PaymentData | null>(null);
   
   // Open bills state
@@ -77,19 +127,23 @@ export default function CashierSection() {
   const [showDeletionVerification, setShowDeletionVerification] = useState(false);
   const [securityMethod, setSecurityMethod] = useState<'approval' | 'pin'>('approval');
   const [adminPin, setAdminPin] = useState("");
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
   const [pendingDeleteItem, setPendingDeleteItem] = useState<{itemId: string, itemName: string} | null>(null);
   
-  // Split bill state
-  const [showSplitBill, setShowSplitBill] = useState(false);
-  const [splitParts, setSplitParts] = useState<{id: number, items: CartItem[], customerName: string, paid?: boolean}[]>([]);
-  const [currentSplit, setCurrentSplit] = useState(1);
+  // Split bill state; parts and their payments are kept on the server against the open bill
+  const [splitOrder, setSplitOrder] = useState<Order | null>(null);
+  const [splitNameDrafts, setSplitNameDrafts] = useState<Record<number, string>>({}); // by part number
+  const [splitAmountDrafts, setSplitAmountDrafts] = useState<Record<number, string>>({}); // by part number, 'amount' mode
   const [paymentContext, setPaymentContext] = useState<{
     mode: 'cart' | 'split' | 'open_bill',
-    splitId?: number,
+    splitId?: string,
+    splitLabel?: string,
     billId?: string,
     subtotal?: number,
     discount?: number,
+    serviceCharge?: number,
     tax?: number,
+    rounding?: number,
     total: number,
     items: CartItem[],
     customerName?: string
@@ -114,6 +168,24 @@ export default function CashierSection() {
     queryKey: ["/api/discounts/active"],
   });
 
+  // Counter payment methods enabled in the store settings; cash is always available
+  const { data: storePaymentMethods } = useQuery<{ methods: PaymentMethod[] }>({
+    queryKey: ["/api/payments/methods"],
+  });
+  const counterPaymentMethods = Array.from(new Set<CounterPaymentMethod>([
+    "cash",
+    ...(storePaymentMethods?.methods ?? ["qris"]).filter(isCounterPaymentMethod),
+  ]));
+
+  // Split session of the bill being split, shared with other kasir devices
+  const { data: splitBill } = useQuery<BillSplitWithParts | null>({
+    queryKey: [`/api/orders/${splitOrder?.id}/split`],
+    enabled: !!splitOrder,
+    refetchInterval: splitOrder ? 5000 : false,
+  });
+  const splitParts = splitBill?.parts ?? [];
+  const hasPaidSplitParts = splitParts.some(part => part.paymentStatus === 'paid');
+
   // Group menu items by category
   const menuByCategory = categories.reduce((acc, category) => {
     acc[category.id] = menuItems.filter(item => item.categoryId === category.id && item.isAvailable);
@@ -296,13 +368,7 @@ export default function CashierSection() {
     onSuccess: (data) => {
       if (pendingDeleteItem && editingBill) {
         // Update the cart with the new items from backend
-        const updatedItems = data.updatedOrder.items.map((item: any) => ({
-          id: item.itemId || item.id,
-          name: item.name,
-          price: item.price,
-          quantity: item.quantity,
-          notes: item.notes || ""
-        }));
+        const updatedItems = data.updatedOrder.items.map(toCartItem);
         setCart(updatedItems);
         
         toast({
@@ -402,23 +468,35 @@ export default function CashierSection() {
 
   // Cart functions
   const addToCart = (menuItem: MenuItem) => {
+    if (getModifierGroups(menuItem).length > 0) {
+      setModifierItem(menuItem);
+      return;
+    }
+    addCartLine(menuItem, []);
+  };
+
+  const addCartLine = (menuItem: MenuItem, modifiers: OrderItemModifier[]) => {
+    const lineId = getModifierLineKey(menuItem.id, modifiers);
     setCart(prevCart => {
-      const existingItem = prevCart.find(item => item.id === menuItem.id);
+      const existingItem = prevCart.find(item => item.id === lineId);
       if (existingItem) {
         return prevCart.map(item =>
-          item.id === menuItem.id
+          item.id === lineId
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       }
       return [...prevCart, {
-        id: menuItem.id,
+        id: lineId,
+        itemId: menuItem.id,
         name: menuItem.name,
-        price: menuItem.price,
+        price: menuItem.price + getModifiersTotal(modifiers),
         quantity: 1,
-        notes: ""
+        notes: "",
+        modifiers: modifiers.length > 0 ? modifiers : undefined,
       }];
     });
+    setModifierItem(null);
   };
 
   const updateQuantity = (itemId: string, newQuantity: number) => {
@@ -445,54 +523,40 @@ export default function CashierSection() {
     setCart(prevCart => prevCart.filter(item => item.id !== itemId));
   };
 
-  // Get discount for a menu item
+  // Get discount for a menu item (same matching rules the server applies)
   const getItemDiscount = (item: MenuItem): Discount | null => {
-    return activeDiscounts.find(d => {
-      if (!d.isActive) return false;
-      if (d.applyToAll) return true;
-      
-      const menuItemIds = d.menuItemIds as string[] | null;
-      const categoryIds = d.categoryIds as string[] | null;
-      
-      if (menuItemIds?.includes(item.id)) return true;
-      if (categoryIds?.includes(item.categoryId)) return true;
-      
-      return false;
-    }) || null;
+    return findBestDiscount(activeDiscounts, item, item.price)?.discount ?? null;
   };
 
   // Calculate discounted price
   const calculateDiscountedPrice = (originalPrice: number, discount: Discount): number => {
-    if (discount.type === 'percentage') {
-      return originalPrice - (originalPrice * discount.value / 100);
-    } else {
-      return Math.max(0, originalPrice - discount.value);
-    }
+    return originalPrice - getDiscountUnitAmount(discount, originalPrice);
   };
 
-  // Calculate totals with discount
-  const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  
-  // Calculate total discount from cart items with active discounts
-  const totalDiscount = cart.reduce((sum, item) => {
-    // Find the full MenuItem to check for discounts
-    const menuItem = menuItems.find(mi => mi.id === item.id);
+  // Discount preview for cart lines; the server quote is authoritative at checkout
+  const getCartItemsDiscount = (items: CartItem[]) => items.reduce((sum, item) => {
+    const menuItem = menuItems.find(mi => mi.id === item.itemId);
     if (!menuItem) return sum;
     
     const discount = getItemDiscount(menuItem);
-    if (discount) {
-      const originalPrice = item.price * item.quantity;
-      const discountedPrice = calculateDiscountedPrice(item.price, discount) * item.quantity;
-      return sum + (originalPrice - discountedPrice);
-    }
-    return sum;
+    return discount ? sum + getDiscountUnitAmount(discount, item.price) * item.quantity : sum;
   }, 0);
+
+  // Calculate totals with discount
+  const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
   
-  // Calculate tax (0% for now, but structure is ready)
-  const taxRate = 0;
-  const taxAmount = (subtotal - totalDiscount) * taxRate;
+  // Promotions, voucher, service charge, tax and rounding are priced by the server
+  const { data: quote, error: quoteError } = useOrderQuote(
+    cart.map(toOrderItem),
+    { voucherCode, customerName: customerName.trim() }
+  );
+  const totalDiscount = cart.length > 0 ? quote?.discount ?? getCartItemsDiscount(cart) : 0;
+  const serviceChargeAmount = cart.length > 0 ? quote?.serviceCharge ?? 0 : 0;
+  const taxAmount = cart.length > 0 ? quote?.tax ?? 0 : 0;
+  const roundingAmount = cart.length > 0 ? quote?.rounding ?? 0 : 0;
+  const taxInclusive = quote?.taxInclusive ?? false;
   
-  const total = subtotal - totalDiscount + taxAmount;
+  const total = subtotal - totalDiscount + serviceChargeAmount + (taxInclusive ? 0 : taxAmount) + roundingAmount;
   
   // Helper function to calculate bill total from items
   const calculateBillTotal = (bill: Order) => {
@@ -516,18 +580,16 @@ export default function CashierSection() {
   // Payment calculation - use payment context if available
   const cashAmountNumber = parseFloat(cashAmount) || 0;
   const currentPaymentTotal = paymentContext ? paymentContext.total : total;
-  const change = cashAmountNumber >= currentPaymentTotal ? cashAmountNumber - currentPaymentTotal : 0;
+  const tenderAmountNumber = parseFloat(tenderAmount) || 0;
+  const remainingAmount = Math.max(0, currentPaymentTotal - tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const change = cashAmountNumber >= remainingAmount ? cashAmountNumber - remainingAmount : 0;
+  // Cash handed over short of the remainder, or a typed non-cash amount, can be taken as a partial tender
+  const partialTenderAmount = paymentMethod === "cash" ? cashAmountNumber : tenderAmountNumber;
   
   // Handle payment for open bills
   const handlePayOpenBill = (bill: Order) => {
     // Parse items from the bill
-    const billItems = Array.isArray(bill.items) ? bill.items.map((item: any) => ({
-      id: item.itemId || item.id,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      notes: item.notes || ""
-    })) : [];
+    const billItems = Array.isArray(bill.items) ? bill.items.map(toCartItem) : [];
     
     // Calculate subtotal from items
     const calculatedSubtotal = billItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
@@ -543,7 +605,9 @@ export default function CashierSection() {
       billId: bill.id,
       subtotal: subtotalToUse,
       discount: discountToUse,
-      tax: 0, // Tax not stored in DB, always 0
+      serviceCharge: bill.serviceCharge ?? 0,
+      tax: bill.tax ?? 0,
+      rounding: bill.rounding ?? 0,
       total: totalToUse,
       items: billItems,
       customerName: bill.customerName
@@ -552,7 +616,42 @@ export default function CashierSection() {
     // Show payment calculator
     setShowPaymentCalculator(true);
     setCashAmount("");
+    setTenders([]);
+    setTenderAmount("");
     setPaymentMethod("cash");
+    setPaymentReference("");
+  };
+
+  // Take part of the bill with the selected method; the next tender pays what is left
+  const handleAddTender = () => {
+    const amount = partialTenderAmount;
+    if (amount <= 0 || amount >= remainingAmount) {
+      toast({
+        title: "Jumlah tidak valid",
+        description: `Pembayaran sebagian harus lebih dari 0 dan kurang dari sisa ${formatCurrency(remainingAmount)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (paymentMethod === "card" && !paymentReference.trim()) {
+      toast({
+        title: "Kode approval EDC wajib diisi",
+        description: "Masukkan kode approval dari struk EDC",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTenders(prev => [
+      ...prev,
+      paymentMethod === "cash"
+        ? { method: "cash", amount, cashReceived: amount, change: 0 }
+        : { method: paymentMethod, amount, reference: paymentReference.trim() || undefined },
+    ]);
+    setCashAmount("");
+    setTenderAmount("");
+    setPaymentReference("");
   };
 
   // Handle payment calculation
@@ -566,9 +665,18 @@ export default function CashierSection() {
       return;
     }
 
+    if (paymentMethod === "card" && !paymentReference.trim()) {
+      toast({
+        title: "Kode approval EDC wajib diisi",
+        description: "Masukkan kode approval dari struk EDC",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Validate cash payment
     if (paymentMethod === "cash") {
-      if (cashAmountNumber < paymentContext.total) {
+      if (cashAmountNumber < remainingAmount) {
         toast({
           title: "Uang tidak cukup",
           description: "Jumlah uang yang diberikan kurang dari total pesanan",
@@ -578,18 +686,42 @@ export default function CashierSection() {
       }
     }
     
-    const change = paymentMethod === "cash" ? (cashAmountNumber - paymentContext.total) : 0;
+    // The last tender pays whatever is left of the bill
+    const paymentTenders: TenderEntry[] = [
+      ...tenders,
+      paymentMethod === "cash"
+        ? { method: "cash", amount: remainingAmount, cashReceived: cashAmountNumber, change }
+        : { method: paymentMethod, amount: remainingAmount, reference: paymentReference.trim() || undefined },
+    ];
     
     try {
       let result;
       
-      // Check if this is an open bill payment
-      if ((paymentContext as any).mode === 'open_bill' && (paymentContext as any).billId) {
+      if (paymentContext.mode === 'split' && paymentContext.billId && paymentContext.splitId) {
+        // Pay one part of a split bill; the server closes the bill after the last part
+        const response = await apiRequest('POST', `/api/orders/${paymentContext.billId}/split/parts/${paymentContext.splitId}/pay`, {
+          tenders: paymentTenders
+        });
+        result = await response.json();
+        result.order = {
+          ...buildSplitReceiptOrder(result.order, result.part),
+          splitLabel: paymentContext.splitLabel,
+        };
+
+        queryClient.setQueryData([`/api/orders/${paymentContext.billId}/split`], result.completed ? null : result.split);
+        queryClient.invalidateQueries({ queryKey: ['/api/orders/open-bills'] });
+
+        if (result.completed) {
+          setSplitOrder(null);
+          toast({
+            title: "Split bill lunas",
+            description: "Semua bagian sudah dibayar, bill ditutup",
+          });
+        }
+      } else if ((paymentContext as any).mode === 'open_bill' && (paymentContext as any).billId) {
         // Pay existing open bill - DO NOT create duplicate order
         const response = await apiRequest('POST', `/api/orders/${(paymentContext as any).billId}/pay`, {
-          paymentMethod: paymentMethod,
-          cashReceived: paymentMethod === "cash" ? cashAmountNumber : paymentContext.total,
-          change: change
+          tenders: paymentTenders
         });
         result = await response.json();
         
@@ -605,20 +737,14 @@ export default function CashierSection() {
         const orderData = {
           customerName: paymentContext.customerName || customerName.trim(),
           tableNumber: tableNumber.trim(),
-          items: paymentContext.items.map(item => ({
-            itemId: item.id,
-            name: item.name,
-            price: item.price,
-            quantity: item.quantity,
-            notes: item.notes || ""
-          })),
+          items: paymentContext.items.map(toOrderItem),
           subtotal: (paymentContext as any).subtotal || paymentContext.total,
           discount: (paymentContext as any).discount || 0,
           tax: (paymentContext as any).tax || 0,
           total: paymentContext.total,
-          paymentMethod: paymentMethod,
-          cashReceived: paymentMethod === "cash" ? cashAmountNumber : paymentContext.total,
-          change: change,
+          // Vouchers apply to whole-cart payments, not to individual split parts
+          voucherCode: paymentContext.mode === 'cart' ? voucherCode : null,
+          tenders: paymentTenders,
           status: "pending"
         };
         
@@ -629,56 +755,15 @@ export default function CashierSection() {
       const createdOrder = result.order;
       
       setPaymentData({
-        cashAmount: cashAmountNumber,
-        change,
+        cashAmount: paymentTenders.reduce((sum, tender) => sum + (tender.cashReceived ?? 0), 0),
+        change: paymentTenders.reduce((sum, tender) => sum + (tender.change ?? 0), 0),
         order: createdOrder
       });
       
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
 
-      // Handle split payment success
-      if (paymentContext.mode === 'split' && (paymentContext as any).splitId) {
-        // Decrement cart quantities by the paid split's items
-        setCart(prevCart => {
-          return prevCart.map(cartItem => {
-            const paidItem = paymentContext.items.find(item => item.id === cartItem.id);
-            if (paidItem) {
-              const newQuantity = cartItem.quantity - paidItem.quantity;
-              return newQuantity > 0 
-                ? { ...cartItem, quantity: newQuantity }
-                : null; // Mark for removal
-            }
-            return cartItem;
-          }).filter(Boolean) as CartItem[]; // Remove null items
-        });
-
-        // Mark this split as paid (do NOT modify other splits)
-        setSplitParts(prev => {
-          const updatedParts = prev.map(part => {
-            if (part.id === (paymentContext as any).splitId) {
-              return { ...part, paid: true };
-            }
-            // Leave other splits unchanged
-            return part;
-          });
-          
-          // Check if all splits are paid
-          const unpaidParts = updatedParts.filter(part => !part.paid);
-          if (unpaidParts.length === 0) {
-            // All splits are paid, close dialog and clear everything
-            setTimeout(() => {
-              setShowSplitBill(false);
-              setSplitParts([]); // Reset split parts to empty array
-              setCart([]);
-              setCustomerName("");
-              setTableNumber("");
-            }, 100);
-          }
-          
-          return updatedParts;
-        });
-      } else if ((paymentContext as any).mode !== 'open_bill') {
-        // Regular cart payment - clear everything (not for open bill)
+      if (paymentContext.mode === 'cart') {
+        // Regular cart payment - clear everything (not for open bill or split parts)
         setCustomerName("");
         setTableNumber("");
         setCart([]);
@@ -711,6 +796,9 @@ export default function CashierSection() {
     setNotes({});
     setCashAmount("");
     setPaymentMethod("cash");
+    setPaymentReference("");
+    setTenders([]);
+    setTenderAmount("");
     setPaymentData(null);
     setShowPaymentCalculator(false);
     setShowReceipt(false);
@@ -724,7 +812,53 @@ export default function CashierSection() {
   };
 
   // Submit order
-  const handleSubmitOrder = () => {
+  // Voucher is dropped when the cart is emptied (paid, cleared or moved to an open bill)
+  useEffect(() => {
+    if (cart.length === 0) setVoucherCode(null);
+  }, [cart.length]);
+
+  const handleApplyVoucher = async () => {
+    const code = voucherInput.trim().toUpperCase();
+    if (!code || cart.length === 0) return;
+
+    const result = await fetchPaymentQuote(cart, code);
+    if (!result) return;
+
+    setVoucherCode(code);
+    setVoucherInput("");
+    toast({
+      title: "Voucher dipakai",
+      description: `${code}: hemat ${formatCurrency(result.voucher?.amount ?? 0)}`,
+    });
+  };
+
+  // Price items on the server right before payment so the amount due matches the recorded order
+  const fetchPaymentQuote = async (items: CartItem[], code?: string | null): Promise<OrderQuote | null> => {
+    try {
+      return await fetchOrderQuote(
+        items.map(toOrderItem),
+        { voucherCode: code, customerName: customerName.trim() }
+      );
+    } catch (error) {
+      toast({
+        title: "Gagal menghitung total",
+        description: getQuoteErrorMessage(error),
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const getQuoteBreakdown = (orderQuote: OrderQuote) => ({
+    subtotal: orderQuote.subtotal,
+    discount: orderQuote.discount,
+    serviceCharge: orderQuote.serviceCharge,
+    tax: orderQuote.tax,
+    rounding: orderQuote.rounding,
+    total: orderQuote.total,
+  });
+
+  const handleSubmitOrder = async () => {
     if (!customerName.trim()) {
       toast({
         title: "Nama customer diperlukan",
@@ -752,30 +886,21 @@ export default function CashierSection() {
       return;
     }
 
-    // Additional guard: prevent cart checkout if unpaid assigned items exist
-    const unpaidAssignedCount = getUnpaidAssignedCount();
-    if (unpaidAssignedCount > 0) {
-      toast({
-        title: "Split bill aktif",
-        description: "Selesaikan semua split payment terlebih dahulu",
-        variant: "destructive",
-      });
-      return;
-    }
+    // Set payment context for regular cart payment with the server's breakdown
+    const cartQuote = await fetchPaymentQuote(cart, voucherCode);
+    if (!cartQuote) return;
 
-    // Set payment context for regular cart payment with full breakdown
     setPaymentContext({
       mode: 'cart',
-      subtotal,
-      discount: totalDiscount,
-      tax: taxAmount,
-      total,
+      ...getQuoteBreakdown(cartQuote),
       items: cart,
       customerName: customerName.trim()
     });
 
     setShowPaymentCalculator(true);
     setCashAmount("");
+    setTenders([]);
+    setTenderAmount("");
   };
 
   // Edit existing open bill - now opens in dialog
@@ -784,13 +909,7 @@ export default function CashierSection() {
     
     // Convert bill items to cart format for editing
     const billItems = Array.isArray(bill.items) ? bill.items : [];
-    const cartItems: CartItem[] = billItems.map((item: any) => ({
-      id: item.itemId || item.id,
-      name: item.name,
-      price: item.price,
-      quantity: item.quantity,
-      notes: item.notes || ""
-    }));
+    const cartItems: CartItem[] = billItems.map(toCartItem);
     
     // Load into cart for editing in dialog
     setCart(cartItems);
@@ -830,26 +949,9 @@ export default function CashierSection() {
     const orderData = {
       customerName: customerName.trim(),
       tableNumber: tableNumber.trim(),
-      items: cart.map(item => ({
-        itemId: item.id,
-        name: item.name,
-        price: item.price,
-        quantity: item.quantity,
-        notes: item.notes || ""
-      })),
+      items: cart.map(toOrderItem),
     };
 
-    // Additional guard: prevent open bill if unpaid assigned items exist
-    const unpaidAssignedCount = getUnpaidAssignedCount();
-    if (unpaidAssignedCount > 0) {
-      toast({
-        title: "Split bill aktif",
-        description: "Selesaikan semua split payment terlebih dahulu",
-        variant: "destructive",
-      });
-      return;
-    }
-
     // If editing existing bill, add mode and billId to the request
     if (editingBill) {
       createOpenBillMutation.mutate({ 
@@ -865,30 +967,67 @@ export default function CashierSection() {
     }
   };
 
+  // Save the wanted unpaid parts of the split; the server works out each part's amount
+  const saveSplitMutation = useMutation({
+    mutationFn: async ({ orderId, mode, parts }: { orderId: string; mode: SplitBillMode; parts: { customerName?: string; items?: SplitPartItem[]; amount?: number }[] }) => {
+      const response = await apiRequest('PUT', `/api/orders/${orderId}/split`, { mode, parts });
+      return response.json() as Promise<BillSplitWithParts>;
+    },
+    onSuccess: (split) => {
+      queryClient.setQueryData([`/api/orders/${split.orderId}/split`], split);
+      setSplitNameDrafts({});
+      setSplitAmountDrafts({});
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Gagal menyimpan split",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Cancel split bill
-  const cancelSplitBill = () => {
-    // Check if any splits have been paid
-    const hasPaidSplits = splitParts.some(part => part.paid);
-    if (hasPaidSplits) {
+  const cancelSplitMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      await apiRequest('DELETE', `/api/orders/${orderId}/split`);
+      return orderId;
+    },
+    onSuccess: (orderId) => {
+      queryClient.setQueryData([`/api/orders/${orderId}/split`], null);
+      setSplitOrder(null);
+      toast({
+        title: "Split bill dibatalkan",
+        description: "Bill kembali dibayar sekaligus",
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Tidak dapat dibatalkan",
-        description: "Ada split yang sudah dibayar, tidak bisa dibatalkan",
+        description: error.message,
         variant: "destructive",
       });
-      return;
-    }
+    },
+  });
 
-    setSplitParts([]);
-    setCurrentSplit(1);
-    setShowSplitBill(false);
-    toast({
-      title: "Split bill dibatalkan",
-      description: "Kembali ke checkout normal",
-    });
+  const getSplitOrderItems = (): OrderItem[] => (Array.isArray(splitOrder?.items) ? splitOrder!.items as OrderItem[] : []);
+
+  // Unpaid parts as sent to the server, with pending name edits applied
+  const toSplitPayload = (part: BillSplitPart) => ({
+    customerName: splitNameDrafts[part.partNumber] ?? part.customerName ?? undefined,
+    items: part.items,
+    amount: part.amount,
+  });
+
+  const saveSplit = (mode: SplitBillMode, parts: { customerName?: string; items?: SplitPartItem[]; amount?: number }[]) => {
+    if (!splitOrder) return;
+    saveSplitMutation.mutate({ orderId: splitOrder.id, mode, parts });
   };
 
+  const getUnpaidSplitParts = () => splitParts.filter(part => part.paymentStatus !== 'paid');
+
   // Split bill handlers
-  const initiateSplitBill = () => {
+  const initiateSplitBill = async () => {
     if (cart.length === 0) {
       toast({
         title: "Cart kosong",
@@ -897,143 +1036,169 @@ export default function CashierSection() {
       });
       return;
     }
-    
-    // Initialize with 2 parts
-    setSplitParts([
-      { id: 1, items: [], customerName: "", paid: false },
-      { id: 2, items: [], customerName: "", paid: false }
-    ]);
-    setCurrentSplit(1);
-    setShowSplitBill(true);
-  };
 
-  const addSplitPart = () => {
-    const newPart = { id: splitParts.length + 1, items: [], customerName: "", paid: false };
-    setSplitParts([...splitParts, newPart]);
-  };
-
-  const removeSplitPart = (partId: number) => {
-    const targetPart = splitParts.find(part => part.id === partId);
-    if (targetPart?.paid) {
+    if (!customerName.trim() || !tableNumber.trim()) {
       toast({
-        title: "Split sudah dibayar",
-        description: "Tidak bisa hapus split yang sudah dibayar",
+        title: "Data belum lengkap",
+        description: "Isi nama customer dan nomor meja sebelum split bill",
         variant: "destructive",
       });
       return;
     }
 
-    if (splitParts.length <= 2) return; // Minimum 2 parts
-    setSplitParts(splitParts.filter(part => part.id !== partId));
-    if (currentSplit === partId) {
-      setCurrentSplit(1);
-    }
-  };
-
-  const assignItemToSplit = (cartItem: CartItem, partId: number, quantity: number) => {
-    // Check if trying to assign to a paid split
-    const targetPart = splitParts.find(part => part.id === partId);
-    if (targetPart?.paid) {
+    // The cart becomes an open bill so the split survives a refresh and shows on other devices
+    try {
+      const response = await apiRequest('POST', '/api/orders/open-bill', {
+        customerName: customerName.trim(),
+        tableNumber: tableNumber.trim(),
+        items: cart.map(toOrderItem),
+      });
+      const result = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/orders/open-bills'] });
+      setCart([]);
+      setCustomerName("");
+      setTableNumber("");
+      openSplitBill(result.order);
+    } catch (error) {
       toast({
-        title: "Split sudah dibayar",
-        description: "Tidak bisa assign item ke split yang sudah dibayar",
+        title: "Gagal membuat split bill",
+        description: error instanceof Error ? error.message : "Silakan coba lagi",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    const currentAssigned = getUnpaidAssignedQuantity(cartItem.id);
-    const remainingQty = cartItem.quantity - currentAssigned;
-    
-    if (quantity > remainingQty) {
+  const openSplitBill = (bill: Order) => {
+    setSplitNameDrafts({});
+    setSplitAmountDrafts({});
+    setSplitOrder(bill);
+    setViewingBill(null);
+  };
+
+  // Switch how the bill is divided; parts keep their names but start over on items and amounts
+  const changeSplitMode = (mode: SplitBillMode) => {
+    if (!splitOrder) return;
+    const unpaid = getUnpaidSplitParts();
+    const count = Math.max(2 - (splitParts.length - unpaid.length), unpaid.length);
+    const parts = Array.from({ length: count }, (_, index) => ({
+      customerName: unpaid[index] ? toSplitPayload(unpaid[index]).customerName : undefined,
+      items: [] as SplitPartItem[],
+      amount: 0,
+    }));
+
+    // Custom amounts start from an even split so they already add up to the bill
+    if (mode === 'amount') {
+      const amounts = allocateSplitAmounts(splitOrder, 'equal', parts.map(() => ({ items: [], amount: 0, paymentStatus: 'unpaid' })));
+      parts.forEach((part, index) => { part.amount = amounts[index]; });
+    }
+    saveSplit(mode, parts);
+  };
+
+  const addSplitPart = () => {
+    if (!splitBill) return;
+    saveSplit(splitBill.mode as SplitBillMode, [...getUnpaidSplitParts().map(toSplitPayload), { items: [], amount: 0 }]);
+  };
+
+  const removeSplitPart = (partId: string) => {
+    if (!splitBill) return;
+    if (splitParts.length <= 2) return; // Minimum 2 parts
+
+    const removed = splitParts.find(part => part.id === partId);
+    if (!removed || removed.paymentStatus === 'paid') return;
+
+    const remaining = getUnpaidSplitParts().filter(part => part.id !== partId).map(toSplitPayload);
+    // A removed custom amount moves to the next unpaid part so the bill stays covered
+    if (splitBill.mode === 'amount' && remaining.length > 0) {
+      remaining[0] = { ...remaining[0], amount: remaining[0].amount + removed.amount };
+    }
+    saveSplit(splitBill.mode as SplitBillMode, remaining);
+  };
+
+  const assignItemToSplit = (lineIndex: number, partId: string) => {
+    if (!splitBill) return;
+
+    const orderItems = getSplitOrderItems();
+    const assigned = getAssignedQuantities(orderItems, splitParts);
+    if (assigned[lineIndex] >= orderItems[lineIndex].quantity) {
       toast({
         title: "Jumlah melebihi yang tersedia",
-        description: `Hanya tersisa ${remainingQty} item`,
+        description: "Semua item ini sudah di-assign",
         variant: "destructive",
       });
       return;
     }
 
-    setSplitParts(prev => prev.map(part => {
-      if (part.id === partId && !part.paid) {
-        const existingItemIndex = part.items.findIndex(item => item.id === cartItem.id);
-        if (existingItemIndex >= 0) {
-          // Update existing item quantity
-          const updatedItems = [...part.items];
-          updatedItems[existingItemIndex] = {
-            ...updatedItems[existingItemIndex],
-            quantity: updatedItems[existingItemIndex].quantity + quantity
-          };
-          return { ...part, items: updatedItems };
-        } else {
-          // Add new item to split
-          return {
-            ...part,
-            items: [...part.items, { ...cartItem, quantity }]
-          };
-        }
-      }
-      return part;
+    saveSplit('items', getUnpaidSplitParts().map(part => {
+      const payload = toSplitPayload(part);
+      if (part.id !== partId) return payload;
+
+      const existing = part.items.find(item => item.lineIndex === lineIndex);
+      const items = existing
+        ? part.items.map(item => item.lineIndex === lineIndex ? { ...item, quantity: item.quantity + 1 } : item)
+        : [...part.items, { lineIndex, quantity: 1 }];
+      return { ...payload, items };
     }));
   };
 
-  const updateSplitCustomerName = (partId: number, name: string) => {
-    setSplitParts(prev => prev.map(part => 
-      part.id === partId ? { ...part, customerName: name } : part
-    ));
+  const clearSplitPartItems = (partId: string) => {
+    if (!splitBill) return;
+    saveSplit('items', getUnpaidSplitParts().map(part => (
+      part.id === partId ? { ...toSplitPayload(part), items: [] } : toSplitPayload(part)
+    )));
   };
 
-  const calculateSplitTotal = (items: CartItem[]) => {
-    // Calculate subtotal
-    const splitSubtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    
-    // Calculate discount for split items
-    const splitDiscount = items.reduce((sum, item) => {
-      // Find the full MenuItem to check for discounts
-      const menuItem = menuItems.find(mi => mi.id === item.id);
-      if (!menuItem) return sum;
-      
-      const discount = getItemDiscount(menuItem);
-      if (discount) {
-        const originalPrice = item.price * item.quantity;
-        const discountedPrice = calculateDiscountedPrice(item.price, discount) * item.quantity;
-        return sum + (originalPrice - discountedPrice);
-      }
-      return sum;
-    }, 0);
-    
-    // Return discounted total (no tax for splits to keep it simple)
-    return splitSubtotal - splitDiscount;
+  // Names are saved when the field loses focus
+  const saveSplitCustomerName = (part: BillSplitPart) => {
+    if (!splitBill || splitNameDrafts[part.partNumber] === undefined) return;
+    if ((splitNameDrafts[part.partNumber] ?? '') === (part.customerName ?? '')) return;
+    saveSplit(splitBill.mode as SplitBillMode, getUnpaidSplitParts().map(toSplitPayload));
   };
 
-  const getAssignedQuantity = (cartItemId: string) => {
-    // Count items in ALL splits (paid and unpaid) for display purposes
-    return splitParts.reduce((total, part) => {
-      const item = part.items.find(item => item.id === cartItemId);
-      return total + (item?.quantity || 0);
-    }, 0);
+  const splitAmountDraftTotal = getUnpaidSplitParts().reduce(
+    (sum, part) => sum + (splitAmountDrafts[part.partNumber] !== undefined ? (parseInt(splitAmountDrafts[part.partNumber], 10) || 0) : part.amount),
+    0
+  );
+  const splitPaidTotal = splitParts.filter(part => part.paymentStatus === 'paid').reduce((sum, part) => sum + part.amount, 0);
+
+  const saveSplitAmounts = () => {
+    saveSplit('amount', getUnpaidSplitParts().map(part => ({
+      ...toSplitPayload(part),
+      amount: splitAmountDrafts[part.partNumber] !== undefined ? (parseInt(splitAmountDrafts[part.partNumber], 10) || 0) : part.amount,
+    })));
   };
 
-  const getUnpaidAssignedQuantity = (cartItemId: string) => {
-    // Count only items assigned to UNPAID splits for capacity calculations
-    return splitParts.reduce((total, part) => {
-      if (part.paid) return total; // Skip paid splits
-      const item = part.items.find(item => item.id === cartItemId);
-      return total + (item?.quantity || 0);
-    }, 0);
+  // Order lines a part pays for, as cart lines for the payment calculator
+  const getSplitPartCartItems = (part: BillSplitPart): CartItem[] => {
+    const orderItems = getSplitOrderItems();
+    return part.items
+      .filter(item => orderItems[item.lineIndex])
+      .map(item => ({ ...toCartItem(orderItems[item.lineIndex]), quantity: item.quantity }));
   };
 
-  const getUnpaidAssignedCount = () => {
-    // Count only items assigned to unpaid splits
-    return splitParts.reduce((total, part) => {
-      if (part.paid) return total;
-      return total + part.items.reduce((partTotal, item) => partTotal + item.quantity, 0);
-    }, 0);
+  // Receipt of one part: its own items (in 'items' mode) and the amount it paid
+  const buildSplitReceiptOrder = (order: Order, part: BillSplitPart) => {
+    const orderItems = Array.isArray(order.items) ? order.items as OrderItem[] : [];
+    return {
+      ...order,
+      customerName: part.customerName || order.customerName,
+      items: part.items
+        .filter(item => orderItems[item.lineIndex])
+        .map(item => ({ ...orderItems[item.lineIndex], quantity: item.quantity, discount: 0 })),
+      subtotal: part.amount,
+      discount: 0,
+      serviceCharge: 0,
+      tax: 0,
+      rounding: 0,
+      total: part.amount,
+      paymentMethod: part.paymentMethod ?? order.paymentMethod,
+      paymentReference: part.paymentReference,
+    };
   };
 
-  const handleSplitPayment = (part: {id: number, items: CartItem[], customerName: string, paid?: boolean}) => {
-    // Early return if split already paid
-    if (part.paid) {
+  const handleSplitPayment = (part: BillSplitPart) => {
+    if (!splitOrder) return;
+
+    if (part.paymentStatus === 'paid') {
       toast({
         title: "Split sudah dibayar",
         description: "Split ini sudah dibayar sebelumnya",
@@ -1042,55 +1207,30 @@ export default function CashierSection() {
       return;
     }
 
-    if (!part.customerName.trim()) {
-      toast({
-        title: "Nama customer diperlukan",
-        description: "Mohon masukkan nama customer untuk split ini",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (part.items.length === 0) {
+    if (part.amount <= 0) {
       toast({
-        title: "Tidak ada item",
-        description: "Split ini belum ada item yang di-assign",
+        title: "Tidak ada tagihan",
+        description: "Split ini belum punya item atau nominal",
         variant: "destructive",
       });
       return;
     }
 
-    // Set payment context for this split with full breakdown
-    const splitSubtotal = part.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const splitDiscount = part.items.reduce((sum, item) => {
-      // Find the full MenuItem to check for discounts
-      const menuItem = menuItems.find(mi => mi.id === item.id);
-      if (!menuItem) return sum;
-      
-      const discount = getItemDiscount(menuItem);
-      if (discount) {
-        const originalPrice = item.price * item.quantity;
-        const discountedPrice = calculateDiscountedPrice(item.price, discount) * item.quantity;
-        return sum + (originalPrice - discountedPrice);
-      }
-      return sum;
-    }, 0);
-    const splitTotal = splitSubtotal - splitDiscount;
-    
     setPaymentContext({
       mode: 'split',
       splitId: part.id,
-      subtotal: splitSubtotal,
-      discount: splitDiscount,
-      tax: 0,
-      total: splitTotal,
-      items: part.items,
-      customerName: part.customerName.trim()
+      splitLabel: `Split ${part.partNumber}/${splitParts.length}`,
+      billId: splitOrder.id,
+      total: part.amount,
+      items: getSplitPartCartItems(part),
+      customerName: part.customerName || splitOrder.customerName
     });
 
     // Show payment calculator
     setShowPaymentCalculator(true);
     setCashAmount("");
+    setTenders([]);
+    setTenderAmount("");
   };
 
   // Countdown timer component for discounts
@@ -1592,7 +1732,12 @@ export default function CashierSection() {
                       <div key={item.id} className="flex gap-3 pb-3 border-b border-border/50" data-testid={`cart-item-${item.id}`}>
                         <div className="flex-1">
                           <div className="flex items-start justify-between mb-2">
-                            <h4 className="text-sm font-medium text-foreground">{item.name}</h4>
+                            <div>
+                              <h4 className="text-sm font-medium text-foreground">{item.name}</h4>
+                              {!!item.modifiers?.length && (
+                                <p className="text-xs text-muted-foreground" data-testid={`modifiers-${item.id}`}>{formatModifiers(item.modifiers)}</p>
+                              )}
+                            </div>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -1647,15 +1792,27 @@ export default function CashierSection() {
                         <span data-testid="subtotal">{formatCurrency(subtotal)}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span className="text-muted-foreground">Discount (5%)</span>
+                        <span className="text-muted-foreground">Diskon</span>
                         <span className="text-destructive" data-testid="discount-amount">
                           {totalDiscount > 0 ? `-${formatCurrency(totalDiscount)}` : '-Rp.0'}
                         </span>
                       </div>
+                      {serviceChargeAmount > 0 && (
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>Service ({quote?.serviceChargeRate}%)</span>
+                          <span data-testid="service-charge-amount">{formatCurrency(serviceChargeAmount)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between text-sm text-muted-foreground">
-                        <span>Tax (2.6%)</span>
+                        <span>PB1 ({quote?.taxRate ?? 0}%{taxInclusive ? ', termasuk' : ''})</span>
                         <span data-testid="tax-amount">{formatCurrency(taxAmount)}</span>
                       </div>
+                      {roundingAmount !== 0 && (
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>Pembulatan</span>
+                          <span data-testid="rounding-amount">{formatCurrency(roundingAmount)}</span>
+                        </div>
+                      )}
                     </div>
                     <div className="flex justify-between text-lg font-bold text-foreground pt-2 border-t">
                       <span>Total amount</span>
@@ -1664,21 +1821,52 @@ export default function CashierSection() {
                   </div>
 
                   {/* Promo Code */}
-                  <div className="flex gap-2">
-                    <Input
-                      type="text"
-                      placeholder="Enter promo code"
-                      className="h-10 text-sm"
-                    />
-                    <Button variant="outline" className="h-10 px-6">
-                      Apply
-                    </Button>
-                  </div>
+                  {voucherCode ? (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between rounded-md border px-3 h-10 text-sm">
+                        <span className="font-medium" data-testid="text-voucher-code">Voucher {voucherCode}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto p-0 text-xs text-destructive"
+                          onClick={() => setVoucherCode(null)}
+                          data-testid="button-remove-voucher"
+                        >
+                          Hapus
+                        </Button>
+                      </div>
+                      {quoteError && (
+                        <p className="text-xs text-destructive" data-testid="text-voucher-error">
+                          {getQuoteErrorMessage(quoteError)}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        type="text"
+                        placeholder="Kode voucher"
+                        className="h-10 text-sm uppercase"
+                        value={voucherInput}
+                        onChange={(e) => setVoucherInput(e.target.value)}
+                        data-testid="input-voucher-code"
+                      />
+                      <Button
+                        variant="outline"
+                        className="h-10 px-6"
+                        onClick={handleApplyVoucher}
+                        disabled={!voucherInput.trim() || cart.length === 0}
+                        data-testid="button-apply-voucher"
+                      >
+                        Pakai
+                      </Button>
+                    </div>
+                  )}
 
                   {/* Payment Button */}
                   <Button
                     onClick={handleSubmitOrder}
-                    disabled={createOrderMutation.isPending || cart.length === 0 || getUnpaidAssignedCount() > 0}
+                    disabled={createOrderMutation.isPending || cart.length === 0}
                     className="w-full bg-primary hover:bg-primary/90 text-white h-12 text-base font-semibold"
                     data-testid="button-submit-order"
                   >
@@ -1689,7 +1877,7 @@ export default function CashierSection() {
                   <div className="grid grid-cols-2 gap-2">
                     <Button
                       onClick={handleCreateOpenBill}
-                      disabled={createOpenBillMutation.isPending || getUnpaidAssignedCount() > 0}
+                      disabled={createOpenBillMutation.isPending}
                       variant="outline"
                       className="h-9 text-xs"
                       data-testid="button-create-open-bill"
@@ -1707,10 +1895,9 @@ export default function CashierSection() {
                       variant="outline"
                       className="h-9 text-xs"
                       data-testid="button-split-bill"
-                      disabled={splitParts.length > 0}
                     >
                       <Split className="h-3.5 w-3.5 mr-1.5" />
-                      {splitParts.length > 0 ? "Split Active" : "Split Bill"}
+                      Split Bill
                     </Button>
                   </div>
                 </>
@@ -1728,7 +1915,7 @@ export default function CashierSection() {
               <Calculator className="h-5 w-5" />
               <span>Kalkulator Pembayaran</span>
               {paymentContext && paymentContext.mode === 'split' && (
-                <Badge variant="secondary">Split {paymentContext.splitId}</Badge>
+                <Badge variant="secondary">{paymentContext.splitLabel}</Badge>
               )}
             </DialogTitle>
             {paymentContext && paymentContext.mode === 'split' && (
@@ -1753,26 +1940,54 @@ export default function CashierSection() {
                 <span className="text-primary">{formatCurrency(currentPaymentTotal)}</span>
               </div>
             </div>
+
+            {tenders.length > 0 && (
+              <div className="space-y-2 rounded-lg border p-3" data-testid="tender-list">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm" data-testid={`tender-${index}`}>
+                    <span>
+                      {PAYMENT_METHOD_LABELS[tender.method]}
+                      {tender.reference && <span className="text-muted-foreground"> (Ref: {tender.reference})</span>}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatCurrency(tender.amount)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                        data-testid={`button-remove-tender-${index}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-2 font-semibold">
+                  <span>Sisa Tagihan:</span>
+                  <span className="text-primary" data-testid="text-remaining-amount">{formatCurrency(remainingAmount)}</span>
+                </div>
+              </div>
+            )}
             
             <div className="space-y-2">
               <Label htmlFor="paymentMethod">Metode Pembayaran</Label>
-              <Select value={paymentMethod} onValueChange={(value: "cash" | "qris") => setPaymentMethod(value)}>
+              <Select value={paymentMethod} onValueChange={(value: CounterPaymentMethod) => setPaymentMethod(value)}>
                 <SelectTrigger data-testid="select-payment-method">
                   <SelectValue placeholder="Pilih metode pembayaran" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="cash">
-                    <div className="flex items-center gap-2">
-                      <Banknote className="h-4 w-4" />
-                      <span>Cash</span>
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="qris">
-                    <div className="flex items-center gap-2">
-                      <Smartphone className="h-4 w-4" />
-                      <span>QRIS</span>
-                    </div>
-                  </SelectItem>
+                  {counterPaymentMethods.map(method => {
+                    const Icon = method === "cash" ? Banknote : method === "card" ? CreditCardIcon : Smartphone;
+                    return (
+                      <SelectItem key={method} value={method}>
+                        <div className="flex items-center gap-2">
+                          <Icon className="h-4 w-4" />
+                          <span>{PAYMENT_METHOD_LABELS[method]}</span>
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
                 </SelectContent>
               </Select>
             </div>
@@ -1804,6 +2019,47 @@ export default function CashierSection() {
               </div>
             )}
             
+            {paymentMethod === "card" && (
+              <div className="space-y-2">
+                <Label htmlFor="paymentReference">Kode Approval EDC</Label>
+                <Input
+                  id="paymentReference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  placeholder="Contoh: 123456"
+                  className="text-lg text-center"
+                  data-testid="input-payment-reference"
+                />
+                <p className="text-xs text-muted-foreground">Gesek/tap kartu di mesin EDC, lalu salin kode approval dari struknya</p>
+              </div>
+            )}
+
+            {paymentMethod !== "cash" && (
+              <div className="space-y-2">
+                <Label htmlFor="tenderAmount">Jumlah Dibayar</Label>
+                <Input
+                  id="tenderAmount"
+                  type="number"
+                  value={tenderAmount}
+                  onChange={(e) => setTenderAmount(e.target.value)}
+                  placeholder={`Kosongkan untuk sisa ${formatCurrency(remainingAmount)}`}
+                  className="text-lg text-center"
+                  data-testid="input-tender-amount"
+                />
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleAddTender}
+              disabled={partialTenderAmount <= 0 || partialTenderAmount >= remainingAmount}
+              data-testid="button-add-tender"
+            >
+              <Split className="h-4 w-4 mr-2" />
+              Bayar Sebagian dengan {PAYMENT_METHOD_LABELS[paymentMethod]}
+            </Button>
+            
             {paymentMethod === "cash" && cashAmountNumber > 0 && (
               <div className="bg-green-50 p-4 rounded-lg">
                 <div className="flex justify-between text-sm mb-2">
@@ -1811,8 +2067,8 @@ export default function CashierSection() {
                   <span className="font-medium">{formatCurrency(cashAmountNumber)}</span>
                 </div>
                 <div className="flex justify-between text-sm mb-2">
-                  <span>Total Pesanan:</span>
-                  <span className="font-medium">{formatCurrency(currentPaymentTotal)}</span>
+                  <span>{tenders.length > 0 ? "Sisa Tagihan:" : "Total Pesanan:"}</span>
+                  <span className="font-medium">{formatCurrency(remainingAmount)}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold border-t pt-2">
                   <span>Kembalian:</span>
@@ -1839,10 +2095,10 @@ export default function CashierSection() {
             </Button>
             <Button 
               onClick={handlePaymentCalculation}
-              disabled={paymentMethod === "cash" && cashAmountNumber < currentPaymentTotal}
+              disabled={(paymentMethod === "cash" && cashAmountNumber < remainingAmount) || (paymentMethod !== "cash" && tenderAmountNumber > 0 && tenderAmountNumber !== remainingAmount) || (paymentMethod === "card" && !paymentReference.trim())}
               data-testid="button-confirm-payment"
             >
-              Konfirmasi Pembayaran {paymentMethod === "qris" ? "QRIS" : "Cash"}
+              Konfirmasi Pembayaran {paymentMethod === "card" ? "Kartu" : PAYMENT_METHOD_LABELS[paymentMethod]}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1891,6 +2147,12 @@ export default function CashierSection() {
                   <span>Order ID:</span>
                   <span className="text-xs">{paymentData.order?.id?.substring(0, 8) || 'N/A'}</span>
                 </div>
+                {paymentData.order?.splitLabel && (
+                  <div className="flex justify-between">
+                    <span>Split Bill:</span>
+                    <span>{paymentData.order.splitLabel}</span>
+                  </div>
+                )}
               </div>
               
               {/* Items */}
@@ -1903,6 +2165,9 @@ export default function CashierSection() {
                         <span>{item.name}</span>
                         <span>{formatCurrency(item.price)}</span>
                       </div>
+                      {!!item.modifiers?.length && (
+                        <div className="text-muted-foreground text-xs">  {formatModifiers(item.modifiers)}</div>
+                      )}
                       <div className="flex justify-between text-muted-foreground text-xs">
                         <span>  {item.quantity}x {formatCurrency(item.price)}</span>
                         <span>{formatCurrency(item.price * item.quantity)}</span>
@@ -1927,14 +2192,47 @@ export default function CashierSection() {
                   <span>Total:</span>
                   <span>{formatCurrency(paymentData.order?.total || 0)}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span>Uang Diterima:</span>
-                  <span>{formatCurrency(paymentData.cashAmount)}</span>
-                </div>
-                <div className="flex justify-between text-sm font-semibold">
-                  <span>Kembalian:</span>
-                  <span>{formatCurrency(paymentData.change)}</span>
-                </div>
+                {(paymentData.order?.payments?.length ?? 0) > 1 ? (
+                  <>
+                    {paymentData.order.payments!.map(payment => (
+                      <div key={payment.id} className="flex justify-between text-sm">
+                        <span>
+                          {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                          {payment.reference ? ` (Ref: ${payment.reference})` : ''}
+                        </span>
+                        <span>{formatCurrency(payment.amount)}</span>
+                      </div>
+                    ))}
+                    {paymentData.cashAmount > 0 && (
+                      <>
+                        <div className="flex justify-between text-sm">
+                          <span>Uang Diterima:</span>
+                          <span>{formatCurrency(paymentData.cashAmount)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm font-semibold">
+                          <span>Kembalian:</span>
+                          <span>{formatCurrency(paymentData.change)}</span>
+                        </div>
+                      </>
+                    )}
+                  </>
+                ) : paymentData.order?.paymentMethod && paymentData.order.paymentMethod !== 'cash' ? (
+                  <div className="flex justify-between text-sm">
+                    <span>{PAYMENT_METHOD_LABELS[paymentData.order.paymentMethod as PaymentMethod] || paymentData.order.paymentMethod}</span>
+                    <span>{paymentData.order.paymentReference ? `Ref: ${paymentData.order.paymentReference}` : ''}</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span>Uang Diterima:</span>
+                      <span>{formatCurrency(paymentData.cashAmount)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm font-semibold">
+                      <span>Kembalian:</span>
+                      <span>{formatCurrency(paymentData.change)}</span>
+                    </div>
+                  </>
+                )}
               </div>
               
               {/* Footer */}
@@ -1999,6 +2297,9 @@ export default function CashierSection() {
                   <div key={index} className="flex justify-between items-start py-2 border-b">
                     <div className="flex-1">
                       <span className="font-medium">{item.quantity}x {item.name}</span>
+                      {!!item.modifiers?.length && (
+                        <p className="text-sm text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                      )}
                       {item.notes && (
                         <p className="text-sm text-muted-foreground">Note: {item.notes}</p>
                       )}
@@ -2047,6 +2348,15 @@ export default function CashierSection() {
               <Calculator className="h-4 w-4 mr-2" />
               Bayar Bill
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => viewingBill && openSplitBill(viewingBill)}
+              className="flex-1"
+              data-testid="button-split-viewing-bill"
+            >
+              <Split className="h-4 w-4 mr-2" />
+              Split Bill
+            </Button>
             <div className="bg-green-50 border border-green-200 rounded-md px-4 py-2 w-full">
               <div className="flex items-center text-green-700">
                 <Send className="h-4 w-4 mr-2" />
@@ -2115,6 +2425,9 @@ export default function CashierSection() {
                     <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
                       <div className="flex-1">
                         <span className="font-medium">{item.name}</span>
+                        {!!item.modifiers?.length && (
+                          <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">
                           {formatCurrency(item.price)} × {item.quantity}
                         </p>
@@ -2199,13 +2512,7 @@ export default function CashierSection() {
                   const orderData = {
                     customerName: customerName.trim(),
                     tableNumber: tableNumber.trim(),
-                    items: cart.map(item => ({
-                      itemId: item.id,
-                      name: item.name,
-                      price: item.price,
-                      quantity: item.quantity,
-                      notes: item.notes || ""
-                    })),
+                    items: cart.map(toOrderItem),
                     mode: 'replace',
                     billId: editingBill.id
                   };
@@ -2225,205 +2532,289 @@ export default function CashierSection() {
       </Dialog>
 
       {/* Split Bill Dialog */}
-      <Dialog open={showSplitBill} onOpenChange={setShowSplitBill}>
+      <Dialog open={!!splitOrder} onOpenChange={(open) => !open && setSplitOrder(null)}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center space-x-2">
               <Split className="h-5 w-5" />
               <span>Split Bill</span>
+              {splitOrder && <Badge variant="secondary">Meja {splitOrder.tableNumber}</Badge>}
             </DialogTitle>
             <p className="text-sm text-muted-foreground">
-              Assign items ke masing-masing customer untuk split pembayaran
+              Bagi tagihan per item, rata atau dengan nominal sendiri. Bagian yang sudah dibayar tersimpan walau halaman dimuat ulang
             </p>
           </DialogHeader>
           
-          <div className="space-y-6">
-            {/* Split Parts Management */}
-            <div className="flex items-center space-x-2">
-              <Button
-                size="sm"
-                onClick={addSplitPart}
-                variant="outline"
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Tambah Split
-              </Button>
-              <span className="text-sm text-muted-foreground">
-                Total: {splitParts.length} splits
-              </span>
-            </div>
+          {splitOrder && (
+            <div className="space-y-6">
+              {/* Split Mode */}
+              <div className="flex flex-wrap items-center gap-2">
+                {([
+                  ['items', 'Per Item'],
+                  ['equal', 'Bagi Rata'],
+                  ['amount', 'Nominal Custom'],
+                ] as [SplitBillMode, string][]).map(([mode, label]) => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    variant={splitBill?.mode === mode ? "default" : "outline"}
+                    onClick={() => changeSplitMode(mode)}
+                    disabled={hasPaidSplitParts || saveSplitMutation.isPending || splitBill?.mode === mode}
+                    data-testid={`button-split-mode-${mode}`}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                {splitBill && (
+                  <Button
+                    size="sm"
+                    onClick={addSplitPart}
+                    variant="outline"
+                    disabled={saveSplitMutation.isPending}
+                    data-testid="button-add-split-part"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Tambah Split
+                  </Button>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  {splitBill ? `Total: ${splitParts.length} splits` : "Pilih cara membagi tagihan"}
+                </span>
+              </div>
 
-            {/* Cart Items to Assign */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Items untuk di-assign</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {cart.map((item) => {
-                    const assignedQty = getAssignedQuantity(item.id);
-                    const remainingQty = item.quantity - assignedQty;
-                    
-                    return (
-                      <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
-                        <div className="flex-1">
-                          <h4 className="font-medium">{item.name}</h4>
-                          <p className="text-sm text-muted-foreground">
-                            {formatCurrency(item.price)} × {item.quantity} = {formatCurrency(item.price * item.quantity)}
-                          </p>
-                          <div className="flex items-center space-x-2 mt-1">
-                            <Badge variant={remainingQty > 0 ? "destructive" : "default"}>
-                              Tersisa: {remainingQty}
-                            </Badge>
-                            <Badge variant="secondary">
-                              Assigned: {assignedQty}
-                            </Badge>
-                          </div>
-                        </div>
+              {/* Order Items to Assign */}
+              {splitBill?.mode === 'items' && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Items untuk di-assign</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {getSplitOrderItems().map((item, lineIndex) => {
+                        const assignedQty = getAssignedQuantities(getSplitOrderItems(), splitParts)[lineIndex];
+                        const remainingQty = item.quantity - assignedQty;
                         
-                        {/* Quick assign buttons */}
-                        <div className="flex space-x-2">
-                          {splitParts.map((part) => (
+                        return (
+                          <div key={lineIndex} className="flex items-center justify-between p-3 border rounded-lg">
+                            <div className="flex-1">
+                              <h4 className="font-medium">{item.name}</h4>
+                              {!!item.modifiers?.length && (
+                                <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                              )}
+                              <p className="text-sm text-muted-foreground">
+                                {formatCurrency(item.price)} × {item.quantity} = {formatCurrency(item.price * item.quantity)}
+                              </p>
+                              <div className="flex items-center space-x-2 mt-1">
+                                <Badge variant={remainingQty > 0 ? "destructive" : "default"}>
+                                  Tersisa: {remainingQty}
+                                </Badge>
+                                <Badge variant="secondary">
+                                  Assigned: {assignedQty}
+                                </Badge>
+                              </div>
+                            </div>
+                            
+                            {/* Quick assign buttons */}
+                            <div className="flex flex-wrap gap-2 justify-end">
+                              {splitParts.filter(part => part.paymentStatus !== 'paid').map((part) => (
+                                <Button
+                                  key={part.id}
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => assignItemToSplit(lineIndex, part.id)}
+                                  disabled={remainingQty <= 0 || saveSplitMutation.isPending}
+                                  className="min-w-[60px]"
+                                >
+                                  Split {part.partNumber}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Split Parts */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {splitParts.map((part) => {
+                  const isPaid = part.paymentStatus === 'paid';
+                  const partItems = getSplitPartCartItems(part);
+                  return (
+                    <Card key={part.id} className={`border-l-4 ${isPaid ? 'border-l-green-500 bg-green-50' : 'border-l-blue-500'}`} data-testid={`split-part-${part.partNumber}`}>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-lg flex items-center space-x-2">
+                            <span>Split {part.partNumber}</span>
+                            {isPaid && (
+                              <Badge className="bg-green-100 text-green-800">
+                                PAID · {PAYMENT_METHOD_LABELS[part.paymentMethod as PaymentMethod] || part.paymentMethod}
+                              </Badge>
+                            )}
+                          </CardTitle>
+                          {splitParts.length > 2 && !isPaid && (
                             <Button
-                              key={part.id}
                               size="sm"
-                              variant="outline"
-                              onClick={() => assignItemToSplit(item, part.id, 1)}
-                              disabled={remainingQty <= 0}
-                              className="min-w-[60px]"
+                              variant="ghost"
+                              onClick={() => removeSplitPart(part.id)}
+                              disabled={saveSplitMutation.isPending}
                             >
-                              Split {part.id}
+                              <Trash2 className="h-4 w-4" />
                             </Button>
-                          ))}
+                          )}
                         </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </CardContent>
-            </Card>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          {/* Customer Name */}
+                          <div>
+                            <Label htmlFor={`customer-${part.id}`}>Nama Customer</Label>
+                            <Input
+                              id={`customer-${part.id}`}
+                              value={splitNameDrafts[part.partNumber] ?? part.customerName ?? ""}
+                              onChange={(e) => setSplitNameDrafts(prev => ({ ...prev, [part.partNumber]: e.target.value }))}
+                              onBlur={() => saveSplitCustomerName(part)}
+                              placeholder={splitOrder.customerName}
+                              disabled={isPaid}
+                            />
+                          </div>
 
-            {/* Split Parts */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {splitParts.map((part) => (
-                <Card key={part.id} className={`border-l-4 ${part.paid ? 'border-l-green-500 bg-green-50' : 'border-l-blue-500'}`}>
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-lg flex items-center space-x-2">
-                        <span>Split {part.id}</span>
-                        {part.paid && (
-                          <Badge className="bg-green-100 text-green-800">
-                            PAID
-                          </Badge>
-                        )}
-                      </CardTitle>
-                      {splitParts.length > 2 && !part.paid && (
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => removeSplitPart(part.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {/* Customer Name */}
-                      <div>
-                        <Label htmlFor={`customer-${part.id}`}>Nama Customer</Label>
-                        <Input
-                          id={`customer-${part.id}`}
-                          value={part.customerName}
-                          onChange={(e) => updateSplitCustomerName(part.id, e.target.value)}
-                          placeholder="Masukkan nama customer"
-                        />
-                      </div>
+                          {/* Assigned Items */}
+                          {splitBill?.mode === 'items' && (
+                            <div>
+                              <div className="flex items-center justify-between">
+                                <Label>Items ({partItems.length})</Label>
+                                {!isPaid && partItems.length > 0 && (
+                                  <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => clearSplitPartItems(part.id)}>
+                                    Kosongkan
+                                  </Button>
+                                )}
+                              </div>
+                              <div className="space-y-2 mt-2 max-h-32 overflow-y-auto">
+                                {partItems.length === 0 ? (
+                                  <p className="text-sm text-muted-foreground py-2">
+                                    Belum ada item di-assign
+                                  </p>
+                                ) : (
+                                  partItems.map((item, index) => (
+                                    <div key={index} className="flex justify-between text-sm">
+                                      <span>{item.quantity}× {item.name}</span>
+                                      <span>{formatCurrency(item.price * item.quantity)}</span>
+                                    </div>
+                                  ))
+                                )}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Custom Amount */}
+                          {splitBill?.mode === 'amount' && !isPaid && (
+                            <div>
+                              <Label htmlFor={`amount-${part.id}`}>Nominal</Label>
+                              <Input
+                                id={`amount-${part.id}`}
+                                type="number"
+                                value={splitAmountDrafts[part.partNumber] ?? String(part.amount)}
+                                onChange={(e) => setSplitAmountDrafts(prev => ({ ...prev, [part.partNumber]: e.target.value }))}
+                                data-testid={`input-split-amount-${part.partNumber}`}
+                              />
+                            </div>
+                          )}
+
+                          {/* Split Total */}
+                          <div className="bg-green-50 p-3 rounded-lg">
+                            <div className="flex justify-between font-semibold">
+                              <span>Total Split {part.partNumber}:</span>
+                              <span className="text-green-600">
+                                {formatCurrency(part.amount)}
+                              </span>
+                            </div>
+                          </div>
 
-                      {/* Assigned Items */}
-                      <div>
-                        <Label>Items ({part.items.length})</Label>
-                        <div className="space-y-2 mt-2 max-h-32 overflow-y-auto">
-                          {part.items.length === 0 ? (
-                            <p className="text-sm text-muted-foreground py-2">
-                              Belum ada item di-assign
-                            </p>
+                          {/* Process Payment Button */}
+                          {isPaid ? (
+                            <Button
+                              disabled
+                              className="w-full"
+                              size="sm"
+                              variant="outline"
+                            >
+                              <Receipt className="h-4 w-4 mr-2" />
+                              Sudah Dibayar
+                            </Button>
                           ) : (
-                            part.items.map((item, index) => (
-                              <div key={index} className="flex justify-between text-sm">
-                                <span>{item.quantity}× {item.name}</span>
-                                <span>{formatCurrency(item.price * item.quantity)}</span>
-                              </div>
-                            ))
+                            <Button
+                              onClick={() => handleSplitPayment(part)}
+                              disabled={part.amount <= 0 || saveSplitMutation.isPending || splitAmountDrafts[part.partNumber] !== undefined}
+                              className="w-full"
+                              size="sm"
+                              data-testid={`button-pay-split-${part.partNumber}`}
+                            >
+                              <Calculator className="h-4 w-4 mr-2" />
+                              Proses Pembayaran
+                            </Button>
                           )}
                         </div>
-                      </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
 
-                      {/* Split Total */}
-                      <div className="bg-green-50 p-3 rounded-lg">
-                        <div className="flex justify-between font-semibold">
-                          <span>Total Split {part.id}:</span>
-                          <span className="text-green-600">
-                            {formatCurrency(calculateSplitTotal(part.items))}
-                          </span>
-                        </div>
-                      </div>
+              {splitBill?.mode === 'amount' && Object.keys(splitAmountDrafts).length > 0 && (
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <span className={`text-sm ${splitPaidTotal + splitAmountDraftTotal === splitOrder.total ? 'text-green-600' : 'text-red-600'}`}>
+                    Belum dibagi: {formatCurrency(splitOrder.total - splitPaidTotal - splitAmountDraftTotal)}
+                  </span>
+                  <Button
+                    size="sm"
+                    onClick={saveSplitAmounts}
+                    disabled={splitPaidTotal + splitAmountDraftTotal !== splitOrder.total || saveSplitMutation.isPending}
+                    data-testid="button-save-split-amounts"
+                  >
+                    Simpan Nominal
+                  </Button>
+                </div>
+              )}
 
-                      {/* Process Payment Button */}
-                      {part.paid ? (
-                        <Button
-                          disabled
-                          className="w-full"
-                          size="sm"
-                          variant="outline"
-                        >
-                          <Receipt className="h-4 w-4 mr-2" />
-                          Sudah Dibayar
-                        </Button>
-                      ) : (
-                        <Button
-                          onClick={() => handleSplitPayment(part)}
-                          disabled={part.items.length === 0 || !part.customerName.trim()}
-                          className="w-full"
-                          size="sm"
-                        >
-                          <Calculator className="h-4 w-4 mr-2" />
-                          Proses Pembayaran
-                        </Button>
-                      )}
+              {/* Summary */}
+              <Card className="bg-gray-50">
+                <CardContent className="p-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="font-medium mb-2">Summary</h4>
+                      <p className="text-sm">Total Splits: {splitParts.length}</p>
+                      <p className="text-sm">
+                        Total Assigned: {formatCurrency(splitParts.reduce((sum, part) => sum + part.amount, 0))}
+                      </p>
+                      <p className="text-sm">Sudah Dibayar: {formatCurrency(splitPaidTotal)}</p>
+                    </div>
+                    <div>
+                      <h4 className="font-medium mb-2">Original Bill</h4>
+                      <p className="text-sm">Items: {getSplitOrderItems().length}</p>
+                      <p className="text-sm">Total: {formatCurrency(splitOrder.total)}</p>
                     </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-
-            {/* Summary */}
-            <Card className="bg-gray-50">
-              <CardContent className="p-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <h4 className="font-medium mb-2">Summary</h4>
-                    <p className="text-sm">Total Splits: {splitParts.length}</p>
-                    <p className="text-sm">
-                      Total Assigned: {formatCurrency(splitParts.reduce((sum, part) => 
-                        sum + calculateSplitTotal(part.items), 0
-                      ))}
-                    </p>
-                  </div>
-                  <div>
-                    <h4 className="font-medium mb-2">Original Bill</h4>
-                    <p className="text-sm">Items: {cart.length}</p>
-                    <p className="text-sm">Total: {formatCurrency(total)}</p>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
           
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowSplitBill(false)}>
-              Batal
+            {splitBill && !hasPaidSplitParts && (
+              <Button
+                variant="destructive"
+                onClick={() => splitOrder && cancelSplitMutation.mutate(splitOrder.id)}
+                disabled={cancelSplitMutation.isPending}
+                data-testid="button-cancel-split"
+              >
+                Batalkan Split
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setSplitOrder(null)}>
+              Tutup
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -2647,6 +3038,13 @@ export default function CashierSection() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Modifier Selection Dialog */}
+      <ModifierDialog
+        item={modifierItem}
+        onClose={() => setModifierItem(null)}
+        onConfirm={addCartLine}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -8,11 +8,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useConfirmDialog } from "@/components/ui/confirm-dialog";
 import { useErrorHandler } from "@/hooks/use-error-handler";
 import { apiRequest } from "@/lib/queryClient";
-import type { Category, InsertCategory } from "@shared/schema";
+import type { Category, InsertCategory, PrepStation } from "@shared/schema";
 
 export default function CategoriesSection() {
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -234,7 +235,12 @@ function CategoryForm({
   const [formData, setFormData] = useState<InsertCategory>({
     name: initialData?.name || '',
     description: initialData?.description || '',
-    isActive: initialData?.isActive ?? true
+    isActive: initialData?.isActive ?? true,
+    stationId: initialData?.stationId ?? null
+  });
+
+  const { data: stations = [] } = useQuery<PrepStation[]>({
+    queryKey: ['/api/prep-stations'],
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -266,6 +272,26 @@ function CategoryForm({
         />
       </div>
 
+      {stations.length > 0 && (
+        <div>
+          <Label htmlFor="station">Stasiun Dapur</Label>
+          <Select
+            value={formData.stationId ?? 'default'}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, stationId: value === 'default' ? null : value }))}
+          >
+            <SelectTrigger data-testid="select-category-station">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Stasiun default</SelectItem>
+              {stations.map(station => (
+                <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div className="flex items-center space-x-2">
         <Switch
           id="isActive"
@@ -8,8 +8,10 @@ import MenuSection from "./menu";
 import CategoriesSection from "./categories";
 import AnalyticsSection from "./analytics";
 import InventorySection from "./inventory";
+import PurchasingSection from "./purchasing";
 import SettingsSection from "./settings";
 import ReservationsSection from "./reservations";
+import TablesSection from "./tables";
 import UsersSection from "./users";
 import DiscountsSection from "./discounts";
 import PrintSettingsSection from "./print-settings";
@@ -20,6 +22,7 @@ import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { useState } from "react";
 import NotificationBell from "@/components/admin/notification-bell";
+import ServiceRequestAlerts from "@/components/admin/service-requests";
 
 export default function AdminDashboard() {
   const [location] = useLocation();
@@ -80,6 +83,8 @@ export default function AdminDashboard() {
         return <KitchenSection />;
       case 'cashier':
         return <CashierSection />;
+      case 'tables':
+        return <TablesSection />;
       case 'reservations':
         return <ReservationsSection />;
       case 'users':
@@ -102,6 +107,8 @@ export default function AdminDashboard() {
         return <PrinterPage />;
       case 'inventory':
         return <InventorySection />;
+      case 'purchasing':
+        return <PurchasingSection />;
       case 'settings':
         return <SettingsSection />;
       default:
@@ -147,6 +154,8 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      <ServiceRequestAlerts />
+
       {/* Mobile sidebar overlay */}
       {sidebarOpen && (
         <div 
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Percent, DollarSign, Edit, Trash2, Save, X, Calendar, Tag, Eye, EyeOff } from "lucide-react";
+import { Plus, Percent, DollarSign, Edit, Trash2, Save, X, Calendar, Tag, Eye, EyeOff, Gift, Package, Ticket, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -17,7 +17,7 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
 import { apiRequest } from "@/lib/queryClient";
-import { insertDiscountSchema, type Discount, type Category, type MenuItem } from "@shared/schema";
+import { insertDiscountSchema, type Discount, type DiscountType, type Category, type MenuItem } from "@shared/schema";
 
 // Form schema for discount management  
 const discountFormSchema = insertDiscountSchema.omit({
@@ -25,18 +25,57 @@ const discountFormSchema = insertDiscountSchema.omit({
   endDate: true,
   categoryIds: true,
   menuItemIds: true,
+  code: true,
+  startTime: true,
+  endTime: true,
 }).extend({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   categoryIds: z.array(z.string()).optional(),
   menuItemIds: z.array(z.string()).optional(),
+  code: z.string().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
 });
 
+type DiscountFormValues = z.infer<typeof discountFormSchema>;
+
 const discountTypes = [
   { value: "percentage", label: "Persentase (%)", icon: Percent },
-  { value: "fixed", label: "Nominal Tetap (IDR)", icon: DollarSign }
+  { value: "fixed", label: "Nominal Tetap (IDR)", icon: DollarSign },
+  { value: "buy_x_get_y", label: "Beli X Gratis/Diskon Y", icon: Gift },
+  { value: "bundle", label: "Harga Paket (Bundling)", icon: Package },
 ];
 
+const DAY_LABELS = ["Min", "Sen", "Sel", "Rab", "Kam", "Jum", "Sab"];
+
+const VALUE_LABELS: Record<DiscountType, string> = {
+  percentage: "Nilai Discount * (0-100%)",
+  fixed: "Nilai Discount * (IDR)",
+  buy_x_get_y: "Diskon Item Gratis * (%, 100 = gratis)",
+  bundle: "Harga Paket * (IDR)",
+};
+
+// Empty optional inputs are stored as null rather than 0 or ""
+function toOptionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// Voucher, promotion and schedule fields as the API expects them; only keys present are sent
+function normalizePromotionFields(data: Partial<DiscountFormValues>): Record<string, any> {
+  const payload: Record<string, any> = {};
+  if ('code' in data) payload.code = data.code?.trim() ? data.code.trim().toUpperCase() : null;
+  if ('startTime' in data) payload.startTime = data.startTime || null;
+  if ('endTime' in data) payload.endTime = data.endTime || null;
+  if ('activeDays' in data) payload.activeDays = data.activeDays && data.activeDays.length > 0 ? data.activeDays : null;
+  if ('type' in data && data.type !== 'buy_x_get_y' && data.type !== 'bundle') {
+    payload.buyQuantity = null;
+    payload.getQuantity = null;
+  }
+  if ('type' in data && data.type === 'bundle') payload.getQuantity = null;
+  return payload;
+}
+
 export default function DiscountsSection() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
@@ -45,7 +84,7 @@ export default function DiscountsSection() {
   const queryClient = useQueryClient();
 
   // Form for discount management
-  const form = useForm<z.infer<typeof discountFormSchema>>({
+  const form = useForm<DiscountFormValues>({
     resolver: zodResolver(discountFormSchema),
     defaultValues: {
       name: "",
@@ -57,7 +96,16 @@ export default function DiscountsSection() {
       categoryIds: [],
       menuItemIds: [],
       startDate: "",
-      endDate: ""
+      endDate: "",
+      code: "",
+      usageLimit: null,
+      perCustomerLimit: null,
+      minSpend: null,
+      buyQuantity: null,
+      getQuantity: null,
+      activeDays: [],
+      startTime: "",
+      endTime: ""
     }
   });
 
@@ -76,9 +124,10 @@ export default function DiscountsSection() {
 
   // Mutations
   const createDiscountMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof discountFormSchema>) => {
+    mutationFn: async (data: DiscountFormValues) => {
       const transformedData = {
         ...data,
+        ...normalizePromotionFields(data),
         value: Number(data.value),
         startDate: data.startDate && data.startDate.trim() !== '' ? new Date(data.startDate) : null,
         endDate: data.endDate && data.endDate.trim() !== '' ? new Date(data.endDate) : null,
@@ -108,12 +157,16 @@ export default function DiscountsSection() {
   });
 
   const updateDiscountMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: Partial<z.infer<typeof discountFormSchema>> }) => {
+    mutationFn: async ({ id, data }: { id: string; data: Partial<DiscountFormValues> }) => {
       const transformedData: Record<string, any> = {
         ...data,
-        value: Number(data.value),
+        ...normalizePromotionFields(data),
       };
       
+      if ('value' in data) {
+        transformedData.value = Number(data.value);
+      }
+      
       // Handle dates - send as ISO string or null
       if ('startDate' in data) {
         transformedData.startDate = data.startDate && data.startDate.trim() !== '' 
@@ -171,7 +224,7 @@ export default function DiscountsSection() {
     onError: createErrorHandler("Gagal menghapus discount")
   });
 
-  const handleSubmit = (data: z.infer<typeof discountFormSchema>) => {
+  const handleSubmit = (data: DiscountFormValues) => {
     if (editingId) {
       updateDiscountMutation.mutate({ id: editingId, data });
     } else {
@@ -184,6 +237,11 @@ export default function DiscountsSection() {
     setShowForm(true);
     form.reset({
       ...discount,
+      type: discount.type as DiscountType,
+      code: discount.code ?? "",
+      activeDays: discount.activeDays ?? [],
+      startTime: discount.startTime ?? "",
+      endTime: discount.endTime ?? "",
       startDate: discount.startDate ? new Date(discount.startDate).toISOString().split('T')[0] : "",
       endDate: discount.endDate ? new Date(discount.endDate).toISOString().split('T')[0] : "",
       categoryIds: Array.isArray(discount.categoryIds) ? discount.categoryIds : [],
@@ -221,13 +279,22 @@ export default function DiscountsSection() {
 
   // Get discount display value
   const getDiscountDisplay = (discount: Discount) => {
-    if (discount.type === 'percentage') {
-      return `${discount.value}%`;
-    } else {
-      return formatCurrency(discount.value);
+    switch (discount.type) {
+      case 'percentage':
+        return `${discount.value}%`;
+      case 'buy_x_get_y':
+        return `Beli ${discount.buyQuantity} ${discount.value >= 100 ? 'gratis' : `diskon ${discount.value}%`} ${discount.getQuantity}`;
+      case 'bundle':
+        return `${discount.buyQuantity} item ${formatCurrency(discount.value)}`;
+      default:
+        return formatCurrency(discount.value);
     }
   };
 
+  const getDiscountTypeLabel = (type: string) => {
+    return discountTypes.find(discountType => discountType.value === type)?.label ?? type;
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -380,13 +447,13 @@ export default function DiscountsSection() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>
-                          Nilai Discount * {form.watch("type") === "percentage" ? "(0-100%)" : "(IDR)"}
+                          {VALUE_LABELS[form.watch("type")]}
                         </FormLabel>
                         <FormControl>
                           <Input
                             type="number"
                             min="0"
-                            max={form.watch("type") === "percentage" ? "100" : undefined}
+                            max={form.watch("type") === "percentage" || form.watch("type") === "buy_x_get_y" ? "100" : undefined}
                             {...field}
                             onChange={(e) => field.onChange(Number(e.target.value))}
                             placeholder={form.watch("type") === "percentage" ? "10" : "50000"}
@@ -422,6 +489,150 @@ export default function DiscountsSection() {
                   />
                 </div>
 
+                {/* Buy X get Y / bundle quantities */}
+                {(form.watch("type") === "buy_x_get_y" || form.watch("type") === "bundle") && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="buyQuantity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{form.watch("type") === "bundle" ? "Jumlah Item per Paket *" : "Jumlah Beli (X) *"}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                              data-testid="input-discount-buy-quantity"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("type") === "buy_x_get_y" && (
+                      <FormField
+                        control={form.control}
+                        name="getQuantity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Jumlah Gratis/Diskon (Y) *</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                                data-testid="input-discount-get-quantity"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Voucher & conditions */}
+                <div className="space-y-4 border rounded-lg p-4">
+                  <div>
+                    <FormLabel className="text-base font-medium flex items-center gap-2">
+                      <Ticket className="h-4 w-4" />
+                      Voucher & Syarat
+                    </FormLabel>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Isi kode voucher agar discount hanya berlaku saat kode dimasukkan. Voucher persentase/nominal memotong total item target sekali per pesanan.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Kode Voucher (opsional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              value={field.value || ""}
+                              onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                              placeholder="HEMAT10"
+                              data-testid="input-discount-code"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="minSpend"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Minimal Belanja (IDR, opsional)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                              placeholder="100000"
+                              data-testid="input-discount-min-spend"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {form.watch("code") && (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name="usageLimit"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Batas Pemakaian Total (opsional)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                                  placeholder="1 = sekali pakai"
+                                  data-testid="input-discount-usage-limit"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="perCustomerLimit"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Batas per Customer (opsional)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  value={field.value ?? ""}
+                                  onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                                  placeholder="1"
+                                  data-testid="input-discount-per-customer-limit"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+
                 {/* Description */}
                 <FormField
                   control={form.control}
@@ -482,6 +693,73 @@ export default function DiscountsSection() {
                   />
                 </div>
 
+                {/* Happy hour schedule */}
+                <div className="space-y-4 border rounded-lg p-4">
+                  <div>
+                    <FormLabel className="text-base font-medium flex items-center gap-2">
+                      <Clock className="h-4 w-4" />
+                      Happy Hour (opsional)
+                    </FormLabel>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Batasi discount ke hari dan jam tertentu. Kosongkan untuk berlaku sepanjang hari.
+                    </p>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="activeDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex flex-wrap gap-4">
+                          {DAY_LABELS.map((label, day) => (
+                            <div key={day} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`day-${day}`}
+                                checked={field.value?.includes(day) || false}
+                                onCheckedChange={(checked) => {
+                                  const currentValues = field.value || [];
+                                  field.onChange(checked
+                                    ? [...currentValues, day].sort()
+                                    : currentValues.filter(value => value !== day));
+                                }}
+                                data-testid={`checkbox-day-${day}`}
+                              />
+                              <Label htmlFor={`day-${day}`} className="text-sm">{label}</Label>
+                            </div>
+                          ))}
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="startTime"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Jam Mulai</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} value={field.value || ""} data-testid="input-discount-start-time" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="endTime"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Jam Selesai</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} value={field.value || ""} data-testid="input-discount-end-time" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
                 {/* Apply to All Toggle */}
                 <FormField
                   control={form.control}
@@ -736,8 +1014,13 @@ export default function DiscountsSection() {
                             {discount.isActive ? "Aktif" : "Nonaktif"}
                           </Badge>
                           <Badge variant="outline">
-                            {discount.type === 'percentage' ? 'Persentase' : 'Nominal'}
+                            {getDiscountTypeLabel(discount.type)}
                           </Badge>
+                          {discount.code && (
+                            <Badge variant="secondary" data-testid={`discount-code-${discount.id}`}>
+                              {discount.code}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                       <Button
@@ -771,11 +1054,22 @@ export default function DiscountsSection() {
                         </div>
                       )}
 
+                      {(discount.startTime || (discount.activeDays && discount.activeDays.length > 0)) && (
+                        <div className="text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3 inline mr-1" />
+                          {discount.activeDays && discount.activeDays.length > 0 ? discount.activeDays.map(day => DAY_LABELS[day]).join(', ') : 'Setiap hari'}
+                          {discount.startTime && discount.endTime && ` ${discount.startTime}-${discount.endTime}`}
+                        </div>
+                      )}
+
                       <div className="text-xs text-muted-foreground">
                         <span className="inline-flex items-center">
                           <Tag className="h-3 w-3 mr-1" />
                           {discount.applyToAll ? "Semua item" : "Item terpilih"}
                         </span>
+                        {discount.minSpend ? ` · Min. belanja ${formatCurrency(discount.minSpend)}` : ''}
+                        {discount.usageLimit ? ` · Kuota ${discount.usageLimit}x` : ''}
+                        {discount.perCustomerLimit ? ` · ${discount.perCustomerLimit}x per customer` : ''}
                       </div>
                     </div>
 
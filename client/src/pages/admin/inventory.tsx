@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, RefreshCw } from "lucide-react";
+import { Plus, RefreshCw, ClipboardCheck, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
@@ -9,14 +9,19 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { getStockStatus, getStockColor } from "@/lib/utils";
+import { getStockStatus, getStockColor, formatDate, describeMarginWarnings } from "@/lib/utils";
 import { INVENTORY_CATEGORIES } from "@/lib/constants";
-import type { InventoryItem, InsertInventoryItem } from "@shared/schema";
+import { UNIT_CATALOG, UnitEnum, roundQuantity } from "@shared/units";
+import type { InventoryItem, InsertInventoryItem, InventoryMovement, StockTakeLine, Supplier, MarginWarning } from "@shared/schema";
 
 export default function InventorySection() {
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [movementItem, setMovementItem] = useState<InventoryItem | null>(null);
+  const [stockTakeMode, setStockTakeMode] = useState(false);
+  const [stockCounts, setStockCounts] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -53,13 +58,20 @@ export default function InventorySection() {
       const response = await apiRequest('PUT', `/api/inventory/${id}`, item);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { marginWarnings?: MarginWarning[] }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       setEditingItem(null);
       toast({
         title: "Item berhasil diupdate",
         description: "Inventory item telah diperbarui",
       });
+      if (data.marginWarnings?.length) {
+        toast({
+          title: "Peringatan margin",
+          description: describeMarginWarnings(data.marginWarnings),
+          variant: "destructive",
+        });
+      }
     },
     onError: () => {
       toast({
@@ -70,6 +82,69 @@ export default function InventorySection() {
     }
   });
 
+  const recordMovementMutation = useMutation({
+    mutationFn: async ({ id, movement }: { id: string; movement: { type: string; quantity: number; notes?: string } }) => {
+      const response = await apiRequest('POST', `/api/inventory/${id}/movements`, movement);
+      return response.json();
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${id}/movements`] });
+      setMovementItem(null);
+      toast({
+        title: "Pergerakan stok dicatat",
+        description: "Stok inventory telah diperbarui",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Gagal mencatat pergerakan stok",
+        description: "Silakan coba lagi",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const stockTakeMutation = useMutation({
+    mutationFn: async (counts: { inventoryItemId: string; countedStock: number }[]) => {
+      const response = await apiRequest('POST', '/api/inventory/stock-take', { counts });
+      return response.json() as Promise<{ lines: StockTakeLine[]; adjusted: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      setStockTakeMode(false);
+      setStockCounts({});
+      toast({
+        title: "Stock opname tersimpan",
+        description: `${result.lines.length} item dihitung, ${result.adjusted} item disesuaikan`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Gagal menyimpan stock opname",
+        description: "Silakan coba lagi",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleSubmitStockTake = () => {
+    const counts = Object.entries(stockCounts)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([inventoryItemId, value]) => ({ inventoryItemId, countedStock: parseFloat(value) || 0 }));
+
+    if (counts.length === 0) {
+      toast({
+        title: "Belum ada hitungan",
+        description: "Isi stok fisik minimal satu item",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    stockTakeMutation.mutate(counts);
+  };
+
   const filteredItems = inventoryItems.filter(item => 
     categoryFilter === 'all' || item.category === categoryFilter
   );
@@ -155,6 +230,38 @@ export default function InventorySection() {
             <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
+          {stockTakeMode ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => { setStockTakeMode(false); setStockCounts({}); }}
+                className="flex items-center gap-2"
+                data-testid="button-cancel-stock-take"
+              >
+                <X className="h-4 w-4" />
+                Batal
+              </Button>
+              <Button
+                onClick={handleSubmitStockTake}
+                disabled={stockTakeMutation.isPending}
+                className="flex items-center gap-2"
+                data-testid="button-submit-stock-take"
+              >
+                <ClipboardCheck className="h-4 w-4" />
+                {stockTakeMutation.isPending ? "Menyimpan..." : "Simpan Opname"}
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => setStockTakeMode(true)}
+              className="flex items-center gap-2"
+              data-testid="button-start-stock-take"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Stock Opname
+            </Button>
+          )}
           <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
             <DialogTrigger asChild>
               <Button className="flex items-center gap-2" data-testid="button-add-inventory-item">
@@ -214,6 +321,16 @@ export default function InventorySection() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Current Stock
                 </th>
+                {stockTakeMode && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Physical Count
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      Variance
+                    </th>
+                  </>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Stock Level
                 </th>
@@ -235,6 +352,8 @@ export default function InventorySection() {
               {filteredItems.map((item) => {
                 const stockStatus = getStockStatus(item.currentStock, item.minStock, item.maxStock);
                 const stockPercentage = (item.currentStock / item.maxStock) * 100;
+                const countValue = stockCounts[item.id] ?? '';
+                const variance = countValue.trim() !== '' ? roundQuantity((parseFloat(countValue) || 0) - item.currentStock) : null;
                 
                 return (
                   <tr key={item.id} data-testid={`row-inventory-${item.id}`}>
@@ -247,6 +366,29 @@ export default function InventorySection() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
                       {item.currentStock} {item.unit}
                     </td>
+                    {stockTakeMode && (
+                      <>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={countValue}
+                            onChange={(e) => setStockCounts(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            className="w-24"
+                            data-testid={`input-stock-count-${item.id}`}
+                          />
+                        </td>
+                        <td
+                          className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                            variance === null || variance === 0 ? 'text-muted-foreground' : variance < 0 ? 'text-red-600' : 'text-green-600'
+                          }`}
+                          data-testid={`text-stock-variance-${item.id}`}
+                        >
+                          {variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance} ${item.unit}`}
+                        </td>
+                      </>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div 
@@ -274,7 +416,7 @@ export default function InventorySection() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
                       {item.supplier || '-'}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
                       <Button
                         size="sm"
                         variant="outline"
@@ -283,6 +425,22 @@ export default function InventorySection() {
                       >
                         Edit
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setMovementItem(item)}
+                        data-testid={`button-movement-inventory-${item.id}`}
+                      >
+                        Catat Stok
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setHistoryItem(item)}
+                        data-testid={`button-history-inventory-${item.id}`}
+                      >
+                        Riwayat
+                      </Button>
                     </td>
                   </tr>
                 );
@@ -315,6 +473,170 @@ export default function InventorySection() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Record Movement Dialog */}
+      <Dialog open={!!movementItem} onOpenChange={() => setMovementItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Catat Pergerakan Stok - {movementItem?.name}</DialogTitle>
+            <DialogDescription>
+              Barang masuk, barang rusak/terbuang, atau koreksi stok.
+            </DialogDescription>
+          </DialogHeader>
+          {movementItem && (
+            <StockMovementForm
+              item={movementItem}
+              onSubmit={(movement) => recordMovementMutation.mutate({ id: movementItem.id, movement })}
+              isLoading={recordMovementMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Movement History Dialog */}
+      <Dialog open={!!historyItem} onOpenChange={() => setHistoryItem(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Riwayat Stok - {historyItem?.name}</DialogTitle>
+            <DialogDescription>
+              Setiap perubahan stok tercatat beserta penyebabnya.
+            </DialogDescription>
+          </DialogHeader>
+          {historyItem && <StockMovementHistory item={historyItem} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+const MOVEMENT_TYPE_LABELS: Record<string, string> = {
+  purchase: 'Barang Masuk',
+  sale: 'Penjualan',
+  sale_reversal: 'Pengembalian',
+  waste: 'Terbuang',
+  adjustment: 'Koreksi',
+  stock_take: 'Stock Opname',
+};
+
+function StockMovementForm({
+  item,
+  onSubmit,
+  isLoading
+}: {
+  item: InventoryItem;
+  onSubmit: (movement: { type: string; quantity: number; notes?: string }) => void;
+  isLoading: boolean;
+}) {
+  const [type, setType] = useState('purchase');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseFloat(quantity) || 0;
+    if (parsed === 0) return;
+    onSubmit({ type, quantity: parsed, notes: notes.trim() || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="movementType">Jenis</Label>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger data-testid="select-movement-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="purchase">{MOVEMENT_TYPE_LABELS.purchase}</SelectItem>
+            <SelectItem value="waste">{MOVEMENT_TYPE_LABELS.waste}</SelectItem>
+            <SelectItem value="adjustment">{MOVEMENT_TYPE_LABELS.adjustment}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="movementQuantity">
+          Jumlah ({item.unit}){type === 'adjustment' ? ' - gunakan minus untuk mengurangi' : ''}
+        </Label>
+        <Input
+          id="movementQuantity"
+          type="number"
+          min={type === 'adjustment' ? undefined : 0}
+          step="any"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          required
+          data-testid="input-movement-quantity"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="movementNotes">Keterangan</Label>
+        <Input
+          id="movementNotes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          data-testid="input-movement-notes"
+        />
+      </div>
+
+      <Button type="submit" disabled={isLoading} className="w-full" data-testid="button-save-movement">
+        {isLoading ? "Saving..." : "Simpan"}
+      </Button>
+    </form>
+  );
+}
+
+function StockMovementHistory({ item }: { item: InventoryItem }) {
+  const { data, isLoading } = useQuery<{ movements: InventoryMovement[]; total: number }>({
+    queryKey: [`/api/inventory/${item.id}/movements`],
+    staleTime: 0,
+  });
+
+  const movements = data?.movements || [];
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted rounded animate-pulse" />;
+  }
+
+  if (movements.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8" data-testid="text-no-movements">
+        Belum ada pergerakan stok
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-96 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted sticky top-0">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Waktu</th>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Jenis</th>
+            <th className="px-3 py-2 text-right font-medium text-muted-foreground">Jumlah</th>
+            <th className="px-3 py-2 text-right font-medium text-muted-foreground">Stok</th>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Keterangan</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {movements.map((movement) => (
+            <tr key={movement.id} data-testid={`row-movement-${movement.id}`}>
+              <td className="px-3 py-2 whitespace-nowrap">{formatDate(new Date(movement.createdAt))}</td>
+              <td className="px-3 py-2">
+                <Badge variant="outline">{MOVEMENT_TYPE_LABELS[movement.type] || movement.type}</Badge>
+              </td>
+              <td className={`px-3 py-2 text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {movement.quantity > 0 ? '+' : ''}{movement.quantity} {item.unit}
+              </td>
+              <td className="px-3 py-2 text-right text-muted-foreground whitespace-nowrap">
+                {movement.stockBefore} → {movement.stockAfter}
+              </td>
+              <td className="px-3 py-2 text-muted-foreground">{movement.notes || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
     </div>
   );
 }
@@ -336,7 +658,14 @@ function InventoryItemForm({
     maxStock: initialData?.maxStock || 100,
     unit: initialData?.unit || 'kg',
     pricePerUnit: initialData?.pricePerUnit || 0,
-    supplier: initialData?.supplier || ''
+    supplier: initialData?.supplier || '',
+    supplierId: initialData?.supplierId || null,
+    packSize: initialData?.packSize ?? null,
+    packUnit: (initialData?.packUnit as InsertInventoryItem['packUnit']) ?? null
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -382,22 +711,73 @@ function InventoryItemForm({
           <Input
             id="currentStock"
             type="number"
+            step="any"
             value={formData.currentStock}
-            onChange={(e) => setFormData(prev => ({ ...prev, currentStock: parseInt(e.target.value) || 0 }))}
+            onChange={(e) => setFormData(prev => ({ ...prev, currentStock: parseFloat(e.target.value) || 0 }))}
             required
             data-testid="input-current-stock"
           />
         </div>
         <div>
           <Label htmlFor="unit">Unit</Label>
-          <Input
-            id="unit"
+          <Select
             value={formData.unit}
-            onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value }))}
-            required
-            data-testid="input-unit"
+            onValueChange={(value) => setFormData(prev => ({ ...prev, unit: value }))}
+          >
+            <SelectTrigger id="unit" data-testid="select-unit">
+              <SelectValue placeholder="Pilih unit" />
+            </SelectTrigger>
+            <SelectContent>
+              {UnitEnum.options.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {UNIT_CATALOG[unit].label}
+                </SelectItem>
+              ))}
+              {/* Keep legacy free-text units selectable until the item is re-saved */}
+              {!UnitEnum.safeParse(formData.unit).success && (
+                <SelectItem value={formData.unit}>{formData.unit}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="packSize">Isi per Pack</Label>
+          <Input
+            id="packSize"
+            type="number"
+            min={0}
+            step="any"
+            value={formData.packSize ?? ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, packSize: parseFloat(e.target.value) || null }))}
+            placeholder="Opsional"
+            data-testid="input-pack-size"
           />
         </div>
+        <div>
+          <Label htmlFor="packUnit">Unit Isi Pack</Label>
+          <Select
+            value={formData.packUnit || 'none'}
+            onValueChange={(value) => setFormData(prev => ({
+              ...prev,
+              packUnit: value === 'none' ? null : value as InsertInventoryItem['packUnit']
+            }))}
+          >
+            <SelectTrigger id="packUnit" data-testid="select-pack-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">-</SelectItem>
+              {UnitEnum.options.filter(unit => unit !== 'pack').map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {UNIT_CATALOG[unit].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -439,12 +819,30 @@ function InventoryItemForm({
 
       <div>
         <Label htmlFor="supplier">Supplier</Label>
-        <Input
-          id="supplier"
-          value={formData.supplier || ''}
-          onChange={(e) => setFormData(prev => ({ ...prev, supplier: e.target.value }))}
-          data-testid="input-supplier"
-        />
+        <Select
+          value={formData.supplierId || 'none'}
+          onValueChange={(value) => {
+            const supplier = suppliers.find(s => s.id === value);
+            // Keep the legacy text column in sync for older reports
+            setFormData(prev => ({
+              ...prev,
+              supplierId: supplier?.id || null,
+              supplier: supplier?.name || prev.supplier
+            }));
+          }}
+        >
+          <SelectTrigger id="supplier" data-testid="select-supplier">
+            <SelectValue placeholder="Pilih supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Tanpa supplier</SelectItem>
+            {suppliers.map((supplier) => (
+              <SelectItem key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       <Button type="submit" disabled={isLoading} className="w-full" data-testid="button-save-inventory">
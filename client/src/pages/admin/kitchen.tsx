@@ -1,24 +1,97 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { ChefHat, Clock, CheckCircle, Printer, Play, RefreshCw, Wine } from "lucide-react";
+import { ChefHat, Clock, CheckCircle, Printer, Play, RefreshCw, Settings, RotateCcw, Send, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs as TabsContainer, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import PrepStationsDialog from "@/components/admin/prep-stations-dialog";
+import PrintQueueDialog from "@/components/admin/print-queue-dialog";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { usePrintAgent } from "@/hooks/use-print-agent";
 import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency, formatDate, getOrderStatusColor } from "@/lib/utils";
+import { formatDate } from "@/lib/utils";
 import { smartPrintKitchenTicket } from "@/utils/thermal-print";
-import type { Order, OrderItem, Category, MenuItem } from "@shared/schema";
+import type { Order, OrderItem, Category, MenuItem, PrepItemStatus, PrepStation } from "@shared/schema";
+import { formatModifiers } from "@shared/modifiers";
+import { DEFAULT_PREP_MINUTES } from "@shared/order-tracking";
+import { isPrintJobMissed } from "@shared/print-jobs";
+import {
+  NEXT_PREP_ITEM_STATUS,
+  PREP_ITEM_STATUS_LABELS,
+  RECALL_WINDOW_MINUTES,
+  formatTicketTimer,
+  getItemPrepStatus,
+  getItemSentAt,
+  getLineStationId,
+  getTicketAge,
+  isOrderPrepDone,
+  type TicketAge,
+} from "@shared/kitchen";
+
+const EXPO_TAB = "expo";
+
+// Stands in for a station while the store has none configured, so the KDS still works out of the box
+const UNROUTED_STATION = { id: "", name: "Dapur", slaMinutes: DEFAULT_PREP_MINUTES };
+
+type StationView = Pick<PrepStation, 'id' | 'name' | 'slaMinutes'>;
+
+interface TicketLine {
+  item: OrderItem;
+  index: number; // position in order.items
+}
+
+interface StationTicket {
+  order: Order;
+  lines: TicketLine[];
+  sentAt: Date; // oldest unfinished line, so added rounds age from when they arrived
+}
+
+const TICKET_AGE_BORDERS: Record<TicketAge, string> = {
+  fresh: 'border-l-green-500',
+  warning: 'border-l-amber-500',
+  late: 'border-l-red-600',
+};
+
+const TICKET_AGE_TIMERS: Record<TicketAge, string> = {
+  fresh: 'bg-green-100 text-green-800',
+  warning: 'bg-amber-100 text-amber-800',
+  late: 'bg-red-100 text-red-800 animate-pulse',
+};
+
+const PREP_STATUS_STYLES: Record<PrepItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  cooking: 'bg-blue-100 text-blue-800',
+  done: 'bg-green-100 text-green-800',
+};
+
+// Re-render on an interval so ticket timers and aging colors keep moving
+function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
 
 export default function KitchenSection() {
-  const [activeTab, setActiveTab] = useState("kitchen");
+  const [activeTab, setActiveTab] = useState<string | null>(null);
+  const [showStations, setShowStations] = useState(false);
+  const [showPrintQueue, setShowPrintQueue] = useState(false);
+  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { connected } = useRealtime();
+  const now = useNow(1000);
+  const printAgent = usePrintAgent();
+  const missedPrintJobs = printAgent.jobs.filter(job => isPrintJobMissed(job, now));
 
+  // Orders are pushed over the realtime channel; poll only while it is down
   const { data: orders = [], isLoading, refetch } = useQuery<Order[]>({
     queryKey: ["/api/orders"],
-    refetchInterval: 3000,
+    refetchInterval: connected ? false : 3000,
     refetchOnWindowFocus: true,
     refetchIntervalInBackground: true,
     staleTime: 0,
@@ -34,248 +107,138 @@ export default function KitchenSection() {
     staleTime: 300000, // Cache for 5 minutes
   });
 
-  const updateStatusMutation = useMutation({
-    mutationFn: async ({ orderId, status }: { orderId: string; status: string }) => {
-      const response = await apiRequest('PATCH', `/api/orders/${orderId}/status`, { status });
-      return response.json();
+  const { data: stations = [] } = useQuery<PrepStation[]>({
+    queryKey: ["/api/prep-stations"],
+  });
+
+  const replaceOrder = (order: Order) => {
+    queryClient.setQueryData<Order[]>(['/api/orders'], (old) =>
+      old?.map(existing => existing.id === order.id ? order : existing)
+    );
+  };
+
+  // Start, bump and recall lines; applied on screen right away so the line reacts to the tap
+  const itemStatusMutation = useMutation({
+    mutationFn: async ({ orderId, itemIndexes, status }: { orderId: string; itemIndexes: number[]; status: PrepItemStatus }) => {
+      const response = await apiRequest('PATCH', `/api/orders/${orderId}/items/status`, { itemIndexes, status });
+      return response.json() as Promise<Order>;
     },
-    onMutate: async ({ orderId, status }) => {
-      // Cancel any outgoing refetches
+    onMutate: async ({ orderId, itemIndexes, status }) => {
       await queryClient.cancelQueries({ queryKey: ['/api/orders'] });
-      
-      // Snapshot the previous value
       const previousOrders = queryClient.getQueryData<Order[]>(['/api/orders']);
-      
-      // Optimistically update to the new value
-      queryClient.setQueryData<Order[]>(['/api/orders'], (old) => {
-        if (!old) return old;
-        return old.map(order => 
-          order.id === orderId 
-            ? { ...order, status, updatedAt: new Date() }
-            : order
-        );
-      });
-      
-      // Return a context object with the snapshotted value
+      queryClient.setQueryData<Order[]>(['/api/orders'], (old) =>
+        old?.map(order => order.id !== orderId ? order : {
+          ...order,
+          items: (order.items as OrderItem[]).map((item, index) => itemIndexes.includes(index) ? { ...item, prepStatus: status } : item),
+        })
+      );
       return { previousOrders };
     },
-    onSuccess: (_, { status }) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
-      if (status === 'preparing') {
-        toast({
-          title: "Pesanan dimulai",
-          description: "Pesanan telah masuk ke dapur untuk diproses",
-        });
-      } else {
-        toast({
-          title: "Status berhasil diupdate",
-          description: "Status pesanan telah diperbarui",
-        });
-      }
-    },
+    onSuccess: replaceOrder,
     onError: (err, variables, context) => {
-      // If we have a previous value, rollback to it
       if (context?.previousOrders) {
         queryClient.setQueryData(['/api/orders'], context.previousOrders);
       }
       toast({
-        title: "Gagal update status",
-        description: "Silakan coba lagi",
+        title: "Gagal memperbarui item",
+        description: "Status item belum tersimpan, silakan coba lagi",
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      // Always refetch after error or success to ensure consistency
-      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
-    }
   });
 
-  // Separate mutation for auto-completing orders
-  const autoCompleteMutation = useMutation({
-    mutationFn: async ({ orderId }: { orderId: string }) => {
-      const response = await apiRequest('PATCH', `/api/orders/${orderId}/status`, { status: 'completed' });
-      return response.json();
+  const expoReadyMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest('POST', `/api/orders/${orderId}/expo-ready`);
+      return response.json() as Promise<Order>;
     },
-    onMutate: async ({ orderId }) => {
-      // Cancel any outgoing refetches
-      await queryClient.cancelQueries({ queryKey: ['/api/orders'] });
-      
-      // Snapshot the previous value
-      const previousOrders = queryClient.getQueryData<Order[]>(['/api/orders']);
-      
-      // Optimistically update to completed
-      queryClient.setQueryData<Order[]>(['/api/orders'], (old) => {
-        if (!old) return old;
-        return old.map(order => 
-          order.id === orderId 
-            ? { ...order, status: 'completed', updatedAt: new Date() }
-            : order
-        );
+    onSuccess: (order) => {
+      replaceOrder(order);
+      toast({
+        title: "Pesanan siap diantar",
+        description: `Meja ${order.tableNumber} - ${order.customerName}`,
       });
-      
-      return { previousOrders };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    onError: (error: any) => {
       toast({
-        title: "Pesanan selesai",
-        description: "Pesanan telah otomatis diselesaikan dan siap disajikan",
+        title: "Pesanan belum bisa dikirim",
+        description: error.message || "Silakan coba lagi",
+        variant: "destructive",
       });
     },
-    onError: (err, variables, context) => {
-      // If auto-complete fails, rollback to the previous state (should be 'ready')
-      if (context?.previousOrders) {
-        queryClient.setQueryData(['/api/orders'], context.previousOrders);
-      }
+  });
+
+  const servedMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await apiRequest('PATCH', `/api/orders/${orderId}/status`, { status: 'served' });
+      return response.json() as Promise<Order>;
+    },
+    onSuccess: replaceOrder,
+    onError: () => {
       toast({
-        title: "Gagal menyelesaikan pesanan",
-        description: "Pesanan tetap dalam status siap saji. Silakan selesaikan manual",
+        title: "Gagal update status",
+        description: "Silakan coba lagi",
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
-    }
   });
 
-  // Helper function to check if an order contains only drinks
-  const isDrinkOnlyOrder = (order: Order): boolean => {
-    const orderItems = order.items as OrderItem[];
-    if (!orderItems.length) return false;
-    
-    return orderItems.every(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      if (!menuItem) return false;
-      
-      const category = categories.find(cat => cat.id === menuItem.categoryId);
-      return category?.name.toLowerCase().includes('minuman');
-    });
+  const activeStations = stations.filter(station => station.isActive);
+  const stationViews: StationView[] = activeStations.length > 0 ? activeStations : [UNROUTED_STATION];
+  const selectedTab = activeTab === EXPO_TAB || stationViews.some(station => station.id === activeTab)
+    ? activeTab!
+    : stationViews[0].id;
+
+  // Lines nothing routes to (no default station) land on the first station rather than nowhere
+  const getStationId = (item: OrderItem) =>
+    getLineStationId(item, menuItems, categories, stations) ?? stationViews[0].id;
+
+  const getStationLines = (order: Order, stationId: string): TicketLine[] =>
+    (order.items as OrderItem[])
+      .map((item, index) => ({ item, index }))
+      .filter(line => getStationId(line.item) === stationId);
+
+  const kitchenOrders = orders.filter(order => order.orderStatus === 'queued' || order.orderStatus === 'preparing');
+
+  const getStationTickets = (stationId: string): StationTicket[] =>
+    kitchenOrders.flatMap(order => {
+      const lines = getStationLines(order, stationId);
+      const pending = lines.filter(line => getItemPrepStatus(line.item) !== 'done');
+      if (pending.length === 0) return [];
+      const sentAt = new Date(Math.min(...pending.map(line => getItemSentAt(order, line.item).getTime())));
+      return [{ order, lines, sentAt }];
+    }).sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+
+  // Tickets the station finished lately, newest first, in case one was bumped by mistake
+  const getRecallTickets = (stationId: string): (StationTicket & { bumpedAt: number })[] =>
+    orders
+      .filter(order => order.orderStatus === 'queued' || order.orderStatus === 'preparing' || order.orderStatus === 'ready')
+      .flatMap(order => {
+        const lines = getStationLines(order, stationId);
+        if (lines.length === 0 || lines.some(line => getItemPrepStatus(line.item) !== 'done')) return [];
+        const bumpedAt = Math.max(...lines.map(line => new Date(line.item.readyAt ?? order.readyAt ?? order.createdAt).getTime()));
+        if (now - bumpedAt > RECALL_WINDOW_MINUTES * 60 * 1000) return [];
+        return [{ order, lines, sentAt: new Date(order.createdAt), bumpedAt }];
+      })
+      .sort((a, b) => b.bumpedAt - a.bumpedAt);
+
+  const updateLines = (order: Order, lines: TicketLine[], status: PrepItemStatus) => {
+    if (lines.length === 0) return;
+    itemStatusMutation.mutate({ orderId: order.id, itemIndexes: lines.map(line => line.index), status });
   };
 
-  // Helper function to check if an order contains drink items
-  const hasDrinkItems = (order: Order): boolean => {
-    const orderItems = order.items as OrderItem[];
-    if (!orderItems.length) return false;
-    
-    return orderItems.some(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      if (!menuItem) return false;
-      
-      const category = categories.find(cat => cat.id === menuItem.categoryId);
-      return category?.name.toLowerCase().includes('minuman');
-    });
+  const handleTapLine = (order: Order, line: TicketLine) => {
+    updateLines(order, [line], NEXT_PREP_ITEM_STATUS[getItemPrepStatus(line.item)]);
   };
 
-  // Helper function to check if an order contains food items
-  const hasFoodItems = (order: Order): boolean => {
-    const orderItems = order.items as OrderItem[];
-    if (!orderItems.length) return true; // Default to kitchen if no items found
-    
-    return orderItems.some(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      if (!menuItem) return true; // Default to kitchen if menu item not found
-      
-      const category = categories.find(cat => cat.id === menuItem.categoryId);
-      return !category?.name.toLowerCase().includes('minuman');
-    });
-  };
-
-  // Filter orders for kitchen and bar - only queued and preparing orders
-  const allActiveOrders = orders.filter(order => 
-    order.orderStatus === 'queued' || order.orderStatus === 'preparing'
-  );
-
-  // Separate orders by type - mixed orders appear in both tabs
-  const kitchenOrders = allActiveOrders.filter(order => hasFoodItems(order));
-  const barOrders = allActiveOrders.filter(order => hasDrinkItems(order));
-
-  // Separate queued and preparing orders for kitchen
-  const pendingKitchenOrders = kitchenOrders.filter(order => order.orderStatus === 'queued');
-  const preparingKitchenOrders = kitchenOrders.filter(order => order.orderStatus === 'preparing');
-
-  // Separate queued and preparing orders for bar
-  const pendingBarOrders = barOrders.filter(order => order.orderStatus === 'queued');
-  const preparingBarOrders = barOrders.filter(order => order.orderStatus === 'preparing');
-
-  const handleStartCooking = (order: Order) => {
-    updateStatusMutation.mutate({ orderId: order.id, status: 'preparing' });
-  };
-
-  const handleMarkReady = (orderId: string, fromStation?: "kitchen" | "bar") => {
-    const order = orders.find(o => o.id === orderId);
-    
-    // Only change order status to 'ready' if:
-    // 1. Called from kitchen, OR
-    // 2. Called from bar and the order contains only drinks
-    const shouldMarkReady = fromStation === 'kitchen' || 
-      (fromStation === 'bar' && order && isDrinkOnlyOrder(order));
-    
-    if (shouldMarkReady) {
-      // Update to 'ready'
-      updateStatusMutation.mutate(
-        { orderId, status: 'ready' },
-        {
-          onSuccess: () => {
-            // Auto-complete logic remains the same
-            const shouldAutoComplete = fromStation === 'kitchen' || 
-              (fromStation === 'bar' && order && isDrinkOnlyOrder(order));
-            
-            if (shouldAutoComplete) {
-              // After successfully marking as ready, automatically complete the order
-              setTimeout(() => {
-                autoCompleteMutation.mutate({ orderId });
-              }, 500); // Small delay to ensure the ready state is visible
-            }
-          }
-        }
-      );
-    } else {
-      // For bar items in mixed orders, just show a message without changing order status
-      toast({
-        title: "Minuman siap",
-        description: "Minuman sudah siap, menunggu makanan selesai dari dapur",
-      });
-    }
-  };
-
-  const handlePrintKitchenTicket = async (order: Order, station?: "kitchen" | "bar") => {
-    const orderItems = order.items as OrderItem[];
-    
-    // Filter items based on station type and enrich with menu item details
-    const filteredItems = station ? orderItems.filter(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      if (!menuItem) return station === 'kitchen'; // Default to kitchen if item not found
-      
-      const category = categories.find(cat => cat.id === menuItem.categoryId);
-      const isDrink = category?.name.toLowerCase().trim().includes('minuman');
-      
-      return station === 'bar' ? isDrink : !isDrink;
-    }).map(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      return {
-        ...orderItem,
-        name: menuItem?.name || orderItem.name || 'Item'
-      };
-    }) : orderItems.map(orderItem => {
-      const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-      return {
-        ...orderItem,
-        name: menuItem?.name || orderItem.name || 'Item'
-      };
-    });
-
-    // Guard against empty tickets
-    if (filteredItems.length === 0) {
-      toast({
-        title: "Tidak ada item untuk dicetak",
-        description: `Tidak ada ${station === 'bar' ? 'minuman' : 'makanan'} dalam pesanan ini`,
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Print the ticket with filtered items
-    await smartPrintKitchenTicket(order, station, filteredItems);
+  const handlePrintTicket = async (ticket: StationTicket, station: StationView) => {
+    // Only what the station still has to make; lines handed over in earlier rounds stay off
+    const pendingLines = ticket.lines.filter(line => getItemPrepStatus(line.item) !== 'done');
+    const items = (pendingLines.length > 0 ? pendingLines : ticket.lines).map(({ item }) => ({
+      ...item,
+      name: menuItems.find(menuItem => menuItem.id === item.itemId)?.name || item.name || 'Item',
+    }));
+    await smartPrintKitchenTicket(ticket.order, station.name, items);
   };
 
   if (isLoading) {
@@ -292,230 +255,239 @@ export default function KitchenSection() {
     );
   }
 
+  const expoOrders = [...kitchenOrders].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const readyOrders = orders
+    .filter(order => order.orderStatus === 'ready')
+    .sort((a, b) => new Date(a.readyAt ?? a.createdAt).getTime() - new Date(b.readyAt ?? b.createdAt).getTime());
+
   return (
     <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <ChefHat className="h-8 w-8 text-primary" />
-            <h2 className="text-2xl font-bold text-foreground">Dapur & Bar</h2>
+            <h2 className="text-2xl font-bold text-foreground">Kitchen Display</h2>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={missedPrintJobs.length > 0 ? "destructive" : "outline"}
+              size="sm"
+              onClick={() => setShowPrintQueue(true)}
+              className="flex items-center gap-2"
+              data-testid="button-print-queue"
+            >
+              <Printer className="h-4 w-4" />
+              Antrean Cetak
+              {missedPrintJobs.length > 0 && ` (${missedPrintJobs.length})`}
+            </Button>
+            {user?.role === 'admin' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowStations(true)}
+                className="flex items-center gap-2"
+                data-testid="button-manage-stations"
+              >
+                <Settings className="h-4 w-4" />
+                Stasiun
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              className="flex items-center gap-2"
+              data-testid="button-refresh-orders"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => refetch()}
-            className="flex items-center gap-2"
-            data-testid="button-refresh-orders"
-          >
-            <RefreshCw className="h-4 w-4" />
-            Refresh
-          </Button>
         </div>
 
-        {/* Tabs for Kitchen and Bar */}
-        <TabsContainer defaultValue="kitchen" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="kitchen" className="flex items-center gap-2">
-              <ChefHat className="h-4 w-4" />
-              Dapur ({kitchenOrders.length})
-            </TabsTrigger>
-            <TabsTrigger value="bar" className="flex items-center gap-2">
-              <Wine className="h-4 w-4" />
-              Bar ({barOrders.length})
+        {/* One tab per station, plus the expo that sends finished orders out */}
+        <TabsContainer value={selectedTab} onValueChange={setActiveTab}>
+          <TabsList className="flex w-full flex-wrap h-auto">
+            {stationViews.map(station => (
+              <TabsTrigger key={station.id} value={station.id} className="flex-1 flex items-center gap-2" data-testid={`tab-station-${station.id || 'default'}`}>
+                <ChefHat className="h-4 w-4" />
+                {station.name} ({getStationTickets(station.id).length})
+              </TabsTrigger>
+            ))}
+            <TabsTrigger value={EXPO_TAB} className="flex-1 flex items-center gap-2" data-testid="tab-expo">
+              <Send className="h-4 w-4" />
+              Expo ({expoOrders.filter(isOrderPrepDone).length})
             </TabsTrigger>
           </TabsList>
 
-          {/* Kitchen Tab Content */}
-          <TabsContent value="kitchen" className="space-y-6">
-            {/* Kitchen Statistics */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Pesanan Baru</p>
-                    <p className="text-3xl font-bold text-yellow-600" data-testid="stat-pending-kitchen-orders">
-                      {pendingKitchenOrders.length}
-                    </p>
+          {stationViews.map(station => {
+            const tickets = getStationTickets(station.id);
+            const recallTickets = getRecallTickets(station.id);
+            const lateTickets = tickets.filter(ticket => getTicketAge((now - ticket.sentAt.getTime()) / 60000, station.slaMinutes) === 'late');
+            const cookingLines = tickets.flatMap(ticket => ticket.lines).filter(line => getItemPrepStatus(line.item) === 'cooking');
+
+            return (
+              <TabsContent key={station.id} value={station.id} className="space-y-6">
+                {/* Station statistics */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="alonica-card p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Tiket Aktif</p>
+                        <p className="text-3xl font-bold text-primary" data-testid={`stat-active-tickets-${station.id || 'default'}`}>
+                          {tickets.length}
+                        </p>
+                      </div>
+                      <Clock className="h-8 w-8 text-primary" />
+                    </div>
                   </div>
-                  <Clock className="h-8 w-8 text-yellow-600" />
-                </div>
-              </div>
 
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Sedang Dimasak</p>
-                    <p className="text-3xl font-bold text-blue-600" data-testid="stat-preparing-kitchen-orders">
-                      {preparingKitchenOrders.length}
-                    </p>
+                  <div className="alonica-card p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Item Dimasak</p>
+                        <p className="text-3xl font-bold text-blue-600" data-testid={`stat-cooking-items-${station.id || 'default'}`}>
+                          {cookingLines.length}
+                        </p>
+                      </div>
+                      <ChefHat className="h-8 w-8 text-blue-600" />
+                    </div>
                   </div>
-                  <ChefHat className="h-8 w-8 text-blue-600" />
-                </div>
-              </div>
 
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Total Aktif</p>
-                    <p className="text-3xl font-bold text-primary" data-testid="stat-total-kitchen-active">
-                      {kitchenOrders.length}
-                    </p>
+                  <div className="alonica-card p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Lewat SLA ({station.slaMinutes} menit)</p>
+                        <p className="text-3xl font-bold text-red-600" data-testid={`stat-late-tickets-${station.id || 'default'}`}>
+                          {lateTickets.length}
+                        </p>
+                      </div>
+                      <AlertTriangle className="h-8 w-8 text-red-600" />
+                    </div>
                   </div>
-                  <CheckCircle className="h-8 w-8 text-primary" />
                 </div>
-              </div>
-            </div>
 
-            {/* Kitchen Orders Grid */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Pending Kitchen Orders */}
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                  <Clock className="h-5 w-5 text-yellow-600" />
-                  Pesanan Baru ({pendingKitchenOrders.length})
-                </h3>
-                {pendingKitchenOrders.map((order) => (
-                  <KitchenOrderCard 
-                    key={order.id} 
-                    order={order} 
-                    onStartCooking={() => handleStartCooking(order)}
-                    onPrint={() => handlePrintKitchenTicket(order, "kitchen")}
-                    isPrimary={true}
-                    filterType="kitchen"
-                    menuItems={menuItems}
-                    categories={categories}
-                  />
-                ))}
-                {pendingKitchenOrders.length === 0 && (
+                {/* Tickets, oldest first */}
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {tickets.map(ticket => (
+                    <StationTicketCard
+                      key={ticket.order.id}
+                      ticket={ticket}
+                      age={getTicketAge((now - ticket.sentAt.getTime()) / 60000, station.slaMinutes)}
+                      elapsedMs={now - ticket.sentAt.getTime()}
+                      onTapLine={(line) => handleTapLine(ticket.order, line)}
+                      onStart={() => updateLines(ticket.order, ticket.lines.filter(line => getItemPrepStatus(line.item) === 'queued'), 'cooking')}
+                      onBump={() => updateLines(ticket.order, ticket.lines.filter(line => getItemPrepStatus(line.item) !== 'done'), 'done')}
+                      onPrint={() => handlePrintTicket(ticket, station)}
+                    />
+                  ))}
+                </div>
+                {tickets.length === 0 && (
                   <div className="alonica-card p-8 text-center">
-                    <p className="text-muted-foreground" data-testid="text-no-pending-kitchen-orders">
-                      Tidak ada pesanan makanan baru
+                    <p className="text-muted-foreground" data-testid={`text-no-tickets-${station.id || 'default'}`}>
+                      Tidak ada pesanan untuk {station.name}
                     </p>
                   </div>
                 )}
-              </div>
 
-              {/* Preparing Kitchen Orders */}
-              <div className="space-y-4">
-                <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                  <ChefHat className="h-5 w-5 text-blue-600" />
-                  Sedang Dimasak ({preparingKitchenOrders.length})
-                </h3>
-                {preparingKitchenOrders.map((order) => (
-                  <KitchenOrderCard 
-                    key={order.id} 
-                    order={order} 
-                    onMarkReady={() => handleMarkReady(order.id, "kitchen")}
-                    onPrint={() => handlePrintKitchenTicket(order, "kitchen")}
-                    isPrimary={false}
-                    filterType="kitchen"
-                    menuItems={menuItems}
-                    categories={categories}
-                  />
-                ))}
-                {preparingKitchenOrders.length === 0 && (
-                  <div className="alonica-card p-8 text-center">
-                    <p className="text-muted-foreground" data-testid="text-no-preparing-kitchen-orders">
-                      Tidak ada makanan sedang dimasak
-                    </p>
+                {/* Recall */}
+                {recallTickets.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+                      <RotateCcw className="h-4 w-4" />
+                      Baru selesai ({RECALL_WINDOW_MINUTES} menit terakhir)
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                      {recallTickets.map(ticket => (
+                        <Button
+                          key={ticket.order.id}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateLines(ticket.order, ticket.lines, 'cooking')}
+                          disabled={itemStatusMutation.isPending}
+                          title="Kembalikan ke antrean stasiun"
+                          data-testid={`button-recall-${ticket.order.id}`}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Meja {ticket.order.tableNumber} · {ticket.order.customerName}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
                 )}
-              </div>
-            </div>
-          </TabsContent>
-
-          {/* Bar Tab Content */}
-          <TabsContent value="bar" className="space-y-6">
-            {/* Bar Statistics */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Pesanan Baru</p>
-                    <p className="text-3xl font-bold text-yellow-600" data-testid="stat-pending-bar-orders">
-                      {pendingBarOrders.length}
-                    </p>
-                  </div>
-                  <Clock className="h-8 w-8 text-yellow-600" />
-                </div>
-              </div>
-
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Sedang Dibuat</p>
-                    <p className="text-3xl font-bold text-purple-600" data-testid="stat-preparing-bar-orders">
-                      {preparingBarOrders.length}
-                    </p>
-                  </div>
-                  <Wine className="h-8 w-8 text-purple-600" />
-                </div>
-              </div>
-
-              <div className="alonica-card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-muted-foreground">Total Aktif</p>
-                    <p className="text-3xl font-bold text-primary" data-testid="stat-total-bar-active">
-                      {barOrders.length}
-                    </p>
-                  </div>
-                  <CheckCircle className="h-8 w-8 text-primary" />
-                </div>
-              </div>
-            </div>
+              </TabsContent>
+            );
+          })}
 
-            {/* Bar Orders Grid */}
+          {/* Expo */}
+          <TabsContent value={EXPO_TAB} className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Pending Bar Orders */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                  <Clock className="h-5 w-5 text-yellow-600" />
-                  Pesanan Baru ({pendingBarOrders.length})
+                  <ChefHat className="h-5 w-5 text-blue-600" />
+                  Di Stasiun ({expoOrders.length})
                 </h3>
-                {pendingBarOrders.map((order) => (
-                  <KitchenOrderCard 
-                    key={order.id} 
-                    order={order} 
-                    onStartCooking={() => handleStartCooking(order)}
-                    onPrint={() => handlePrintKitchenTicket(order, "bar")}
-                    isPrimary={true}
-                    filterType="bar"
-                    menuItems={menuItems}
-                    categories={categories}
-                  />
-                ))}
-                {pendingBarOrders.length === 0 && (
+                {expoOrders.map(order => {
+                  const involved = stationViews.filter(station => getStationLines(order, station.id).length > 0);
+                  const slaMinutes = Math.max(...involved.map(station => station.slaMinutes), 1);
+                  const elapsedMs = now - new Date(order.createdAt).getTime();
+                  return (
+                    <ExpoTicketCard
+                      key={order.id}
+                      order={order}
+                      age={getTicketAge(elapsedMs / 60000, slaMinutes)}
+                      elapsedMs={elapsedMs}
+                      progress={involved.map(station => {
+                        const lines = getStationLines(order, station.id);
+                        return {
+                          station,
+                          done: lines.filter(line => getItemPrepStatus(line.item) === 'done').length,
+                          total: lines.length,
+                        };
+                      })}
+                      canSend={isOrderPrepDone(order)}
+                      onSend={() => expoReadyMutation.mutate(order.id)}
+                      isSending={expoReadyMutation.isPending}
+                    />
+                  );
+                })}
+                {expoOrders.length === 0 && (
                   <div className="alonica-card p-8 text-center">
-                    <p className="text-muted-foreground" data-testid="text-no-pending-bar-orders">
-                      Tidak ada pesanan minuman baru
+                    <p className="text-muted-foreground" data-testid="text-no-expo-orders">
+                      Tidak ada pesanan di stasiun
                     </p>
                   </div>
                 )}
               </div>
 
-              {/* Preparing Bar Orders */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                  <Wine className="h-5 w-5 text-purple-600" />
-                  Sedang Dibuat ({preparingBarOrders.length})
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  Siap Diantar ({readyOrders.length})
                 </h3>
-                {preparingBarOrders.map((order) => (
-                  <KitchenOrderCard 
-                    key={order.id} 
-                    order={order} 
-                    onMarkReady={() => handleMarkReady(order.id, "bar")}
-                    onPrint={() => handlePrintKitchenTicket(order, "bar")}
-                    isPrimary={false}
-                    filterType="bar"
-                    menuItems={menuItems}
-                    categories={categories}
-                  />
+                {readyOrders.map(order => (
+                  <div key={order.id} className="alonica-card p-4 flex items-center justify-between gap-3" data-testid={`card-ready-order-${order.id}`}>
+                    <div>
+                      <p className="font-semibold">Meja {order.tableNumber} · {order.customerName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {(order.items as OrderItem[]).map(item => `${item.quantity}x ${item.name}`).join(', ')}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => servedMutation.mutate(order.id)}
+                      disabled={servedMutation.isPending}
+                      data-testid={`button-served-${order.id}`}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Sudah Diantar
+                    </Button>
+                  </div>
                 ))}
-                {preparingBarOrders.length === 0 && (
+                {readyOrders.length === 0 && (
                   <div className="alonica-card p-8 text-center">
-                    <p className="text-muted-foreground" data-testid="text-no-preparing-bar-orders">
-                      Tidak ada minuman sedang dibuat
+                    <p className="text-muted-foreground" data-testid="text-no-ready-orders">
+                      Tidak ada pesanan menunggu diantar
                     </p>
                   </div>
                 )}
@@ -523,127 +495,100 @@ export default function KitchenSection() {
             </div>
           </TabsContent>
         </TabsContainer>
+
+        <PrepStationsDialog open={showStations} onOpenChange={setShowStations} />
+        <PrintQueueDialog
+          open={showPrintQueue}
+          onOpenChange={setShowPrintQueue}
+          jobs={printAgent.jobs}
+          servedPrinterIds={printAgent.servedPrinterIds}
+          onServedPrinterIdsChange={printAgent.setServedPrinterIds}
+          onPrintHere={printAgent.printHere}
+        />
     </div>
   );
 }
 
-interface KitchenOrderCardProps {
-  order: Order;
-  onStartCooking?: () => void;
-  onMarkReady?: () => void;
+interface StationTicketCardProps {
+  ticket: StationTicket;
+  age: TicketAge;
+  elapsedMs: number;
+  onTapLine: (line: TicketLine) => void;
+  onStart: () => void;
+  onBump: () => void;
   onPrint: () => void;
-  isPrimary: boolean;
-  filterType?: "kitchen" | "bar";
-  menuItems?: MenuItem[];
-  categories?: Category[];
 }
 
-function KitchenOrderCard({ order, onStartCooking, onMarkReady, onPrint, isPrimary, filterType, menuItems = [], categories = [] }: KitchenOrderCardProps) {
-  const orderItems = order.items as OrderItem[];
-  const statusColor = getOrderStatusColor(order.orderStatus);
-  
-  // Filter items based on the current view (kitchen or bar)
-  const filteredItems = filterType ? orderItems.filter(orderItem => {
-    const menuItem = menuItems.find(mi => mi.id === orderItem.itemId);
-    if (!menuItem) return filterType === 'kitchen'; // Default to kitchen if item not found
-    
-    const category = categories.find(cat => cat.id === menuItem.categoryId);
-    const isDrink = category?.name.toLowerCase().includes('minuman');
-    
-    return filterType === 'bar' ? isDrink : !isDrink;
-  }) : orderItems;
-
-  // Don't render if no items match the filter
-  if (filteredItems.length === 0) return null;
-  
+function StationTicketCard({ ticket, age, elapsedMs, onTapLine, onStart, onBump, onPrint }: StationTicketCardProps) {
+  const { order, lines } = ticket;
+  const hasQueued = lines.some(line => getItemPrepStatus(line.item) === 'queued');
+
   return (
-    <div className="alonica-card overflow-hidden" data-testid={`card-kitchen-order-${order.id}`}>
+    <div className={`alonica-card overflow-hidden border-l-8 ${TICKET_AGE_BORDERS[age]}`} data-testid={`card-ticket-${order.id}`}>
       <div className="p-4">
         {/* Header */}
-        <div className="flex items-center justify-between mb-3">
-          <div className="flex items-center gap-3">
-            <h4 className="font-semibold text-foreground" data-testid={`text-order-customer-${order.id}`}>
-              {order.customerName}
-            </h4>
-            <Badge 
-              className={statusColor}
-              data-testid={`badge-order-status-${order.id}`}
-            >
-              {order.orderStatus === 'queued' ? 'Menunggu' : (filterType === 'bar' ? 'Dibuat' : 'Dimasak')}
-            </Badge>
-            {filterType && (
-              <Badge variant="outline" className="text-xs">
-                {filterType === 'bar' ? 'Bar' : 'Dapur'}
-              </Badge>
-            )}
+        <div className="flex items-start justify-between mb-3">
+          <div>
+            <p className="text-sm text-muted-foreground">Meja</p>
+            <p className="text-xl font-bold" data-testid={`text-table-${order.id}`}>{order.tableNumber}</p>
+            <p className="text-sm font-medium" data-testid={`text-order-customer-${order.id}`}>{order.customerName}</p>
           </div>
           <div className="text-right">
-            <p className="text-sm text-muted-foreground">Meja</p>
-            <p className="font-semibold" data-testid={`text-table-${order.id}`}>
-              {order.tableNumber}
+            <span className={`rounded px-2 py-1 font-mono text-lg font-bold ${TICKET_AGE_TIMERS[age]}`} data-testid={`text-ticket-timer-${order.id}`}>
+              {formatTicketTimer(elapsedMs)}
+            </span>
+            <p className="text-xs text-muted-foreground mt-1" data-testid={`text-order-time-${order.id}`}>
+              {formatDate(new Date(order.createdAt))}
             </p>
           </div>
         </div>
 
-        {/* Order Time */}
-        <p className="text-sm text-muted-foreground mb-3" data-testid={`text-order-time-${order.id}`}>
-          {formatDate(new Date(order.createdAt))}
-        </p>
-
-        {/* Items - show only relevant items */}
+        {/* Lines; tap to move one along */}
         <div className="space-y-2 mb-4">
-          {filteredItems.map((item, index) => (
-            <div key={index} className="flex justify-between items-center">
-              <div>
-                <span className="font-medium" data-testid={`text-item-name-${order.id}-${index}`}>
-                  {item.quantity}x {item.name}
-                </span>
-                {item.notes && (
-                  <p className="text-sm text-muted-foreground" data-testid={`text-item-notes-${order.id}-${index}`}>
-                    Note: {item.notes}
-                  </p>
-                )}
-              </div>
-            </div>
-          ))}
-          {filterType && filteredItems.length < orderItems.length && (
-            <p className="text-xs text-muted-foreground italic">
-              {orderItems.length - filteredItems.length} item lainnya ada di {filterType === 'bar' ? 'dapur' : 'bar'}
-            </p>
-          )}
+          {lines.map(line => {
+            const status = getItemPrepStatus(line.item);
+            return (
+              <button
+                key={line.index}
+                type="button"
+                onClick={() => onTapLine(line)}
+                className={`w-full flex items-start justify-between gap-2 rounded-md border p-2 text-left ${status === 'done' ? 'opacity-50' : ''}`}
+                data-testid={`button-ticket-line-${order.id}-${line.index}`}
+              >
+                <div>
+                  <span className={`font-medium ${status === 'done' ? 'line-through' : ''}`}>
+                    {line.item.quantity}x {line.item.name}
+                  </span>
+                  {(line.item.round ?? 1) > 1 && (
+                    <Badge variant="outline" className="ml-2 text-xs">Tambahan</Badge>
+                  )}
+                  {!!line.item.modifiers?.length && (
+                    <p className="text-sm font-medium">{formatModifiers(line.item.modifiers)}</p>
+                  )}
+                  {line.item.notes && (
+                    <p className="text-sm text-muted-foreground">Note: {line.item.notes}</p>
+                  )}
+                </div>
+                <Badge className={`shrink-0 ${PREP_STATUS_STYLES[status]}`}>{PREP_ITEM_STATUS_LABELS[status]}</Badge>
+              </button>
+            );
+          })}
         </div>
 
         {/* Actions */}
         <div className="flex gap-2">
-          {isPrimary && onStartCooking && (
-            <Button
-              onClick={onStartCooking}
-              className="flex-1 flex items-center gap-2"
-              data-testid={`button-start-cooking-${order.id}`}
-            >
+          {hasQueued ? (
+            <Button onClick={onStart} className="flex-1 flex items-center gap-2" data-testid={`button-start-ticket-${order.id}`}>
               <Play className="h-4 w-4" />
-              {filterType === 'bar' ? 'Mulai Buat' : 'Mulai Masak'}
+              Mulai
             </Button>
-          )}
-          
-          {!isPrimary && onMarkReady && (
-            <Button
-              onClick={onMarkReady}
-              className="flex-1 flex items-center gap-2"
-              data-testid={`button-mark-ready-${order.id}`}
-            >
+          ) : (
+            <Button onClick={onBump} className="flex-1 flex items-center gap-2" data-testid={`button-bump-ticket-${order.id}`}>
               <CheckCircle className="h-4 w-4" />
-              Siap Saji
+              Selesai
             </Button>
           )}
-
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={onPrint}
-            className="flex items-center gap-2"
-            data-testid={`button-print-ticket-${order.id}`}
-          >
+          <Button variant="outline" size="sm" onClick={onPrint} className="flex items-center gap-2" data-testid={`button-print-ticket-${order.id}`}>
             <Printer className="h-4 w-4" />
             Print
           </Button>
@@ -653,3 +598,50 @@ function KitchenOrderCard({ order, onStartCooking, onMarkReady, onPrint, isPrima
   );
 }
 
+interface ExpoTicketCardProps {
+  order: Order;
+  age: TicketAge;
+  elapsedMs: number;
+  progress: { station: StationView; done: number; total: number }[];
+  canSend: boolean;
+  onSend: () => void;
+  isSending: boolean;
+}
+
+function ExpoTicketCard({ order, age, elapsedMs, progress, canSend, onSend, isSending }: ExpoTicketCardProps) {
+  return (
+    <div className={`alonica-card p-4 border-l-8 ${TICKET_AGE_BORDERS[age]}`} data-testid={`card-expo-${order.id}`}>
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <p className="font-semibold">Meja {order.tableNumber} · {order.customerName}</p>
+          <p className="text-xs text-muted-foreground">{formatDate(new Date(order.createdAt))}</p>
+        </div>
+        <span className={`rounded px-2 py-1 font-mono font-bold ${TICKET_AGE_TIMERS[age]}`} data-testid={`text-expo-timer-${order.id}`}>
+          {formatTicketTimer(elapsedMs)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {progress.map(({ station, done, total }) => (
+          <Badge
+            key={station.id}
+            className={done === total ? PREP_STATUS_STYLES.done : PREP_STATUS_STYLES.cooking}
+            data-testid={`badge-expo-station-${order.id}-${station.id || 'default'}`}
+          >
+            {station.name} {done}/{total}
+          </Badge>
+        ))}
+      </div>
+
+      <Button
+        onClick={onSend}
+        disabled={!canSend || isSending}
+        className="w-full flex items-center gap-2"
+        data-testid={`button-expo-ready-${order.id}`}
+      >
+        <Send className="h-4 w-4" />
+        {canSend ? 'Siap Saji' : 'Menunggu stasiun'}
+      </Button>
+    </div>
+  );
+}
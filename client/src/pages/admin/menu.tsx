@@ -12,8 +12,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { formatCurrency } from "@/lib/utils";
-import type { MenuItem, InsertMenuItem, Category } from "@shared/schema";
+import { formatCurrency, describeMarginWarnings } from "@/lib/utils";
+import { createModifierId, type MenuItem, type InsertMenuItem, type Category, type MarginWarning, type ModifierGroup, type ModifierOption, type PrepStation } from "@shared/schema";
 
 export default function MenuSection() {
   const [categoryFilter, setCategoryFilter] = useState('all');
@@ -68,13 +68,20 @@ export default function MenuSection() {
       const response = await apiRequest('PUT', `/api/menu/${id}`, item);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { marginWarnings?: MarginWarning[] }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/menu'] });
       setEditingItem(null);
       toast({
         title: "Item berhasil diupdate",
         description: "Menu item telah diperbarui",
       });
+      if (data.marginWarnings?.length) {
+        toast({
+          title: "Peringatan margin",
+          description: describeMarginWarnings(data.marginWarnings),
+          variant: "destructive",
+        });
+      }
     },
     onError: () => {
       toast({
@@ -129,7 +136,9 @@ export default function MenuSection() {
       categoryId: item.categoryId,
       description: item.description,
       image: item.image,
-      isAvailable: item.isAvailable
+      isAvailable: item.isAvailable,
+      modifierGroups: item.modifierGroups,
+      stationId: item.stationId
     };
     createItemMutation.mutate(duplicateItem);
   };
@@ -164,7 +173,7 @@ export default function MenuSection() {
               Tambah Item Baru
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Tambah Item Menu Baru</DialogTitle>
               <DialogDescription>
@@ -281,7 +290,7 @@ export default function MenuSection() {
 
       {/* Edit Dialog */}
       <Dialog open={!!editingItem} onOpenChange={() => setEditingItem(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Menu Item</DialogTitle>
           </DialogHeader>
@@ -316,13 +325,20 @@ function MenuItemForm({
     categoryId: initialData?.categoryId || categories[0]?.id || '',
     description: initialData?.description || '',
     image: initialData?.image || '',
-    isAvailable: initialData?.isAvailable ?? true
+    isAvailable: initialData?.isAvailable ?? true,
+    modifierGroups: initialData?.modifierGroups ?? [],
+    stationId: initialData?.stationId ?? null
   });
 
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: stations = [] } = useQuery<PrepStation[]>({
+    queryKey: ['/api/prep-stations'],
+  });
+  const categoryStation = stations.find(station => station.id === categories.find(category => category.id === formData.categoryId)?.stationId);
+
   // Backup form data to localStorage to prevent data loss
   useEffect(() => {
     if (!initialData) { // Only backup for new items, not edits
@@ -474,6 +490,26 @@ function MenuItemForm({
         </Select>
       </div>
 
+      {stations.length > 0 && (
+        <div>
+          <Label htmlFor="station">Stasiun Dapur</Label>
+          <Select
+            value={formData.stationId ?? 'category'}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, stationId: value === 'category' ? null : value }))}
+          >
+            <SelectTrigger data-testid="select-menu-station">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="category">Ikut kategori{categoryStation ? ` (${categoryStation.name})` : ''}</SelectItem>
+              {stations.map(station => (
+                <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div>
         <Label htmlFor="description">Description</Label>
         <Textarea
@@ -542,9 +578,146 @@ function MenuItemForm({
         <Label htmlFor="isAvailable">Available</Label>
       </div>
 
+      <ModifierGroupsEditor
+        groups={formData.modifierGroups ?? []}
+        onChange={(modifierGroups) => setFormData(prev => ({ ...prev, modifierGroups }))}
+      />
+
       <Button type="submit" disabled={isLoading} className="w-full" data-testid="button-save-menu">
         {isLoading ? "Saving..." : "Save Item"}
       </Button>
     </form>
   );
 }
+
+function createModifierOption(): ModifierOption {
+  return { id: createModifierId(), name: '', priceDelta: 0, isAvailable: true };
+}
+
+// Variant/add-on groups for a menu item, e.g. "Ukuran" (wajib, pilih 1) or "Topping" (opsional, maks. 3)
+function ModifierGroupsEditor({
+  groups,
+  onChange,
+}: {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}) {
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map(group => group.id === groupId ? { ...group, ...changes } : group));
+  };
+
+  const updateOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(option => option.id === optionId ? { ...option, ...changes } : option),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([...groups, { id: createModifierId(), name: '', minSelections: 0, maxSelections: 1, options: [createModifierOption()] }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Modifier & Varian</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addGroup} data-testid="button-add-modifier-group">
+          <Plus className="h-3 w-3 mr-1" />
+          Tambah Grup
+        </Button>
+      </div>
+
+      {groups.map((group, groupIndex) => (
+        <div key={group.id} className="rounded-lg border p-3 space-y-3" data-testid={`modifier-group-${groupIndex}`}>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Nama grup (mis. Ukuran)"
+              value={group.name}
+              onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+              required
+              data-testid={`input-modifier-group-name-${groupIndex}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(groups.filter(g => g.id !== group.id))}
+              data-testid={`button-remove-modifier-group-${groupIndex}`}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Min. pilihan (0 = opsional)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={group.minSelections}
+                onChange={(e) => updateGroup(group.id, { minSelections: Math.max(0, parseInt(e.target.value) || 0) })}
+                data-testid={`input-modifier-min-${groupIndex}`}
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Maks. pilihan</Label>
+              <Input
+                type="number"
+                min={1}
+                value={group.maxSelections}
+                onChange={(e) => updateGroup(group.id, { maxSelections: Math.max(1, parseInt(e.target.value) || 1) })}
+                data-testid={`input-modifier-max-${groupIndex}`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Input
+                  placeholder="Opsi (mis. Large)"
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                  required
+                  data-testid={`input-modifier-option-name-${groupIndex}-${optionIndex}`}
+                />
+                <Input
+                  type="number"
+                  placeholder="+Rp"
+                  className="w-28"
+                  value={option.priceDelta}
+                  onChange={(e) => updateOption(group, option.id, { priceDelta: parseInt(e.target.value) || 0 })}
+                  data-testid={`input-modifier-option-price-${groupIndex}-${optionIndex}`}
+                />
+                <Switch
+                  checked={option.isAvailable}
+                  onCheckedChange={(checked) => updateOption(group, option.id, { isAvailable: checked })}
+                  data-testid={`switch-modifier-option-${groupIndex}-${optionIndex}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={group.options.length === 1}
+                  onClick={() => updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })}
+                  data-testid={`button-remove-modifier-option-${groupIndex}-${optionIndex}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateGroup(group.id, { options: [...group.options, createModifierOption()] })}
+              data-testid={`button-add-modifier-option-${groupIndex}`}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Tambah Opsi
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -12,7 +12,9 @@ import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency, formatDate, getOrderStatusColor } from "@/lib/utils";
 import { ORDER_STATUSES } from "@/lib/constants";
 import { smartPrintReceipt } from "@/utils/thermal-print";
-import type { Order, OrderItem } from "@shared/schema";
+import type { Order, OrderItem, OrderPayment, PaymentMethod } from "@shared/schema";
+import { formatModifiers } from "@shared/modifiers";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
 
 export default function OrdersSection() {
   const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
@@ -140,7 +142,19 @@ export default function OrdersSection() {
       });
   }, [orders, statusFilter, dateFilter, searchQuery]);
 
+  // Tenders of a mixed-tender bill, listed on its receipt
+  const { data: receiptPayments = [] } = useQuery<OrderPayment[]>({
+    queryKey: [`/api/orders/${viewingReceipt?.id}/payments`],
+    enabled: viewingReceipt?.paymentMethod === 'mixed',
+  });
+
   const handlePrintReceipt = async (order: Order) => {
+    if (order.paymentMethod === 'mixed') {
+      const response = await apiRequest('GET', `/api/orders/${order.id}/payments`);
+      const payments: OrderPayment[] = await response.json();
+      await smartPrintReceipt({ ...order, payments });
+      return;
+    }
     await smartPrintReceipt(order);
   };
 
@@ -547,7 +561,12 @@ export default function OrdersSection() {
                 </div>
                 <div>
                   <h3 className="font-semibold text-sm text-muted-foreground uppercase">Payment</h3>
-                  <p className="text-lg font-medium" data-testid="order-detail-payment">{viewingOrder.paymentMethod.toUpperCase()}</p>
+                  <p className="text-lg font-medium" data-testid="order-detail-payment">
+                    {PAYMENT_METHOD_LABELS[viewingOrder.paymentMethod as PaymentMethod] || viewingOrder.paymentMethod.toUpperCase()}
+                  </p>
+                  {viewingOrder.paymentReference && (
+                    <p className="text-xs text-muted-foreground" data-testid="order-detail-payment-reference">Ref: {viewingOrder.paymentReference}</p>
+                  )}
                 </div>
               </div>
 
@@ -560,6 +579,9 @@ export default function OrdersSection() {
                       <div>
                         <h4 className="font-medium">{item.name}</h4>
                         <p className="text-sm text-muted-foreground">Quantity: {item.quantity}</p>
+                        {!!item.modifiers?.length && (
+                          <p className="text-sm text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                        )}
                         {item.notes && (
                           <p className="text-sm text-muted-foreground italic">Notes: {item.notes}</p>
                         )}
@@ -662,6 +684,9 @@ export default function OrdersSection() {
                         <p className="text-muted-foreground">
                           {item.quantity}x {formatCurrency(item.price)}
                         </p>
+                        {!!item.modifiers?.length && (
+                          <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                        )}
                         {item.notes && (
                           <p className="text-xs text-muted-foreground italic">
                             Catatan: {item.notes}
@@ -699,8 +724,17 @@ export default function OrdersSection() {
                 <div>
                   <p className="text-muted-foreground text-sm">Metode Pembayaran</p>
                   <p className="font-medium capitalize">
-                    {viewingReceipt.paymentMethod === 'qris' ? 'QRIS' : 'Cash'}
+                    {PAYMENT_METHOD_LABELS[viewingReceipt.paymentMethod as PaymentMethod] || 'Cash'}
                   </p>
+                  {viewingReceipt.paymentMethod === 'mixed' && receiptPayments.map(payment => (
+                    <div key={payment.id} className="flex justify-between text-sm" data-testid={`receipt-tender-${payment.id}`}>
+                      <span>
+                        {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                        {payment.reference ? ` (Ref: ${payment.reference})` : ''}
+                      </span>
+                      <span>{formatCurrency(payment.amount)}</span>
+                    </div>
+                  ))}
                 </div>
                 <div>
                   <p className="text-muted-foreground text-sm">Status</p>
@@ -725,7 +759,7 @@ export default function OrdersSection() {
           {/* Print Button */}
           <div className="mt-4 print-hide">
             <Button
-              onClick={async () => await smartPrintReceipt(viewingReceipt)}
+              onClick={async () => viewingReceipt && await handlePrintReceipt(viewingReceipt)}
               className="w-full flex items-center gap-2"
             >
               <Printer className="h-4 w-4" />
@@ -10,13 +10,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
 import { apiRequest } from "@/lib/queryClient";
-import { insertPrintSettingSchema, type PrintSetting } from "@shared/schema";
+import { insertPrintSettingSchema, type PrepStation, type PrintSetting } from "@shared/schema";
 import { smartPrintReceipt } from "@/utils/thermal-print";
+import NetworkPrinterControls from "@/components/admin/network-printer-controls";
 
 // Form schema for print settings management
 const printSettingFormSchema = insertPrintSettingSchema;
@@ -71,7 +73,8 @@ export default function PrintSettingsSection() {
       fontSize: 12,
       lineSpacing: 1,
       connectionType: "browser",
-      connectionString: ""
+      connectionString: "",
+      stationIds: []
     }
   });
 
@@ -84,6 +87,10 @@ export default function PrintSettingsSection() {
     queryKey: ["/api/print-settings/active"],
   });
 
+  const { data: stations = [] } = useQuery<PrepStation[]>({
+    queryKey: ["/api/prep-stations"],
+  });
+
   // Mutations
   const createPrintSettingMutation = useMutation({
     mutationFn: async (data: z.infer<typeof printSettingFormSchema>) => {
@@ -575,6 +582,38 @@ export default function PrintSettingsSection() {
                   />
                 )}
 
+                {/* Kitchen stations whose tickets print here */}
+                {stations.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="stationIds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tiket Stasiun Dapur</FormLabel>
+                        <div className="flex flex-wrap gap-4">
+                          {stations.map(station => (
+                            <div key={station.id} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`printer-station-${station.id}`}
+                                checked={(field.value ?? []).includes(station.id)}
+                                onCheckedChange={(checked) => field.onChange(checked === true
+                                  ? [...(field.value ?? []), station.id]
+                                  : (field.value ?? []).filter(id => id !== station.id))}
+                                data-testid={`checkbox-printer-station-${station.id}`}
+                              />
+                              <label htmlFor={`printer-station-${station.id}`} className="text-sm">{station.name}</label>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Pesanan baru dan tambahan open bill dicetak otomatis per stasiun ke printer ini. Stasiun tanpa printer memakai printer stasiun default.
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 {/* Print Options */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">Opsi Print</h3>
@@ -789,6 +828,14 @@ export default function PrintSettingsSection() {
                           <span className="font-medium text-xs truncate">{setting.connectionString}</span>
                         </div>
                       )}
+                      {setting.stationIds.length > 0 && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-muted-foreground">Stasiun:</span>
+                          <span className="font-medium text-xs truncate" data-testid={`text-printer-stations-${setting.id}`}>
+                            {stations.filter(station => setting.stationIds.includes(station.id)).map(station => station.name).join(', ')}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex items-center justify-between">
                         <span className="text-muted-foreground">Font:</span>
                         <span className="font-medium">{setting.fontSize}px</span>
@@ -801,6 +848,8 @@ export default function PrintSettingsSection() {
                       {setting.printLogo && <Badge variant="secondary" className="text-xs">Logo</Badge>}
                     </div>
 
+                    {setting.connectionType === 'network' && <NetworkPrinterControls printer={setting} />}
+
                     <div className="flex space-x-2 mt-4">
                       <Button
                         variant="outline"
@@ -0,0 +1,619 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, Truck, PackageCheck, Printer, Send, X, Wand2, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useErrorHandler } from "@/hooks/use-error-handler";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate, describeMarginWarnings } from "@/lib/utils";
+import { printPurchaseOrder, smartPrintPurchaseOrder } from "@/utils/thermal-print";
+import { roundQuantity } from "@shared/units";
+import type { Supplier, InsertSupplier, PurchaseOrder, PurchaseOrderItem, MarginWarning } from "@shared/schema";
+
+const PAYMENT_TERMS = [
+  { value: "cod", label: "COD" },
+  { value: "net_7", label: "NET 7" },
+  { value: "net_14", label: "NET 14" },
+  { value: "net_30", label: "NET 30" },
+];
+
+const PO_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gray-100 text-gray-800" },
+  ordered: { label: "Dipesan", className: "bg-blue-100 text-blue-800" },
+  partially_received: { label: "Diterima Sebagian", className: "bg-yellow-100 text-yellow-800" },
+  received: { label: "Diterima", className: "bg-green-100 text-green-800" },
+  cancelled: { label: "Dibatalkan", className: "bg-red-100 text-red-800" },
+};
+
+interface ReorderSuggestion {
+  supplierId: string | null;
+  items: PurchaseOrderItem[];
+  totalAmount: number;
+}
+
+export default function PurchasingSection() {
+  const [activeTab, setActiveTab] = useState("purchase-orders");
+  const [showSupplierDialog, setShowSupplierDialog] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const { toast } = useToast();
+  const { createErrorHandler } = useErrorHandler();
+  const queryClient = useQueryClient();
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: purchaseOrders = [], isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders"],
+  });
+
+  const { data: suggestions = [] } = useQuery<ReorderSuggestion[]>({
+    queryKey: ["/api/purchase-orders/suggestions"],
+    staleTime: 0,
+  });
+
+  const supplierById = (id: string | null | undefined) => suppliers.find(s => s.id === id);
+  const unassignedSuggestion = suggestions.find(s => !s.supplierId);
+  const assignableSuggestions = suggestions.filter(s => s.supplierId);
+
+  const invalidatePurchasing = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/suggestions"] });
+  };
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async ({ id, supplier }: { id?: string; supplier: InsertSupplier }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/suppliers/${id}`, supplier)
+        : await apiRequest('POST', '/api/suppliers', supplier);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setShowSupplierDialog(false);
+      setEditingSupplier(null);
+      toast({ title: "Supplier tersimpan" });
+    },
+    onError: createErrorHandler("Gagal menyimpan supplier"),
+  });
+
+  const deleteSupplierMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/suppliers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({ title: "Supplier dihapus" });
+    },
+    onError: createErrorHandler("Gagal menghapus supplier"),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/purchase-orders/generate', {});
+      return response.json() as Promise<PurchaseOrder[]>;
+    },
+    onSuccess: (created) => {
+      invalidatePurchasing();
+      toast({
+        title: created.length > 0 ? "Purchase order dibuat" : "Tidak ada PO yang dibuat",
+        description: created.length > 0
+          ? `${created.length} draft PO dari stok menipis`
+          : "Tidak ada item stok menipis dengan supplier terdaftar",
+      });
+    },
+    onError: createErrorHandler("Gagal membuat purchase order"),
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'ordered' | 'cancelled' }) => {
+      const response = await apiRequest('PATCH', `/api/purchase-orders/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: (_data, { status }) => {
+      invalidatePurchasing();
+      toast({ title: status === 'ordered' ? "PO dikirim ke supplier" : "PO dibatalkan" });
+    },
+    onError: createErrorHandler("Gagal mengubah status PO"),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, items }: { id: string; items: { inventoryItemId: string; quantity: number; unitPrice: number }[] }) => {
+      const response = await apiRequest('POST', `/api/purchase-orders/${id}/receive`, { items });
+      return response.json();
+    },
+    onSuccess: (data: { marginWarnings?: MarginWarning[] }) => {
+      invalidatePurchasing();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      setReceivingOrder(null);
+      toast({ title: "Barang diterima", description: "Stok dan harga rata-rata telah diperbarui" });
+      if (data.marginWarnings?.length) {
+        toast({
+          title: "Peringatan margin",
+          description: describeMarginWarnings(data.marginWarnings),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: createErrorHandler("Gagal menerima barang"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-foreground">Pembelian</h2>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="purchase-orders" data-testid="tab-purchase-orders">Purchase Order</TabsTrigger>
+          <TabsTrigger value="suppliers" data-testid="tab-suppliers">Supplier</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="purchase-orders" className="space-y-4">
+          {/* Reorder suggestions */}
+          <div className="alonica-card p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <p className="font-medium text-foreground">Saran Pemesanan Ulang</p>
+              <p className="text-sm text-muted-foreground">
+                {assignableSuggestions.reduce((sum, s) => sum + s.items.length, 0)} item stok menipis dari {assignableSuggestions.length} supplier
+                {unassignedSuggestion && ` • ${unassignedSuggestion.items.length} item belum punya supplier`}
+              </p>
+            </div>
+            <Button
+              onClick={() => generateMutation.mutate()}
+              disabled={generateMutation.isPending || assignableSuggestions.length === 0}
+              className="flex items-center gap-2"
+              data-testid="button-generate-purchase-orders"
+            >
+              <Wand2 className="h-4 w-4" />
+              {generateMutation.isPending ? "Membuat..." : "Buat PO dari Stok Menipis"}
+            </Button>
+          </div>
+
+          {/* Purchase order list */}
+          <div className="alonica-card overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">No. PO</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Item</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Estimasi Tiba</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-border">
+                  {purchaseOrders.map((po) => {
+                    const supplier = supplierById(po.supplierId);
+                    const lines = (Array.isArray(po.items) ? po.items : []) as PurchaseOrderItem[];
+                    const status = PO_STATUS_LABELS[po.status] || PO_STATUS_LABELS.draft;
+
+                    return (
+                      <tr key={po.id} data-testid={`row-purchase-order-${po.id}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                          {po.poNumber}
+                          <div className="text-xs text-muted-foreground">{formatDate(new Date(po.createdAt))}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{supplier?.name || '-'}</td>
+                        <td className="px-6 py-4 text-sm text-foreground">
+                          {lines.map(line => `${line.name} (${line.quantityReceived}/${line.quantityOrdered} ${line.unit})`).join(', ')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{formatCurrency(po.totalAmount)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                          {po.expectedDate ? formatDate(new Date(po.expectedDate)) : '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <Badge className={status.className} data-testid={`status-purchase-order-${po.id}`}>{status.label}</Badge>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                          {po.status === 'draft' && (
+                            <Button
+                              size="sm"
+                              onClick={() => updateStatusMutation.mutate({ id: po.id, status: 'ordered' })}
+                              disabled={updateStatusMutation.isPending}
+                              data-testid={`button-order-po-${po.id}`}
+                            >
+                              <Send className="h-3 w-3 mr-1" />
+                              Pesan
+                            </Button>
+                          )}
+                          {(po.status === 'ordered' || po.status === 'partially_received') && (
+                            <Button
+                              size="sm"
+                              onClick={() => setReceivingOrder(po)}
+                              data-testid={`button-receive-po-${po.id}`}
+                            >
+                              <PackageCheck className="h-3 w-3 mr-1" />
+                              Terima
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => printPurchaseOrder(po, supplier, 'a4')}
+                            data-testid={`button-print-po-a4-${po.id}`}
+                          >
+                            <FileText className="h-3 w-3 mr-1" />
+                            A4
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => smartPrintPurchaseOrder(po, supplier)}
+                            data-testid={`button-print-po-thermal-${po.id}`}
+                          >
+                            <Printer className="h-3 w-3" />
+                          </Button>
+                          {(po.status === 'draft' || po.status === 'ordered') && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => updateStatusMutation.mutate({ id: po.id, status: 'cancelled' })}
+                              disabled={updateStatusMutation.isPending}
+                              data-testid={`button-cancel-po-${po.id}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {!isLoading && purchaseOrders.length === 0 && (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground" data-testid="text-no-purchase-orders">
+                  Belum ada purchase order
+                </p>
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="space-y-4">
+          <div className="flex justify-end">
+            <Button
+              onClick={() => { setEditingSupplier(null); setShowSupplierDialog(true); }}
+              className="flex items-center gap-2"
+              data-testid="button-add-supplier"
+            >
+              <Plus className="h-4 w-4" />
+              Tambah Supplier
+            </Button>
+          </div>
+
+          <div className="alonica-card overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Nama</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Kontak</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Lead Time</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Pembayaran</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-border">
+                  {suppliers.map((supplier) => (
+                    <tr key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{supplier.name}</td>
+                      <td className="px-6 py-4 text-sm text-foreground">
+                        {supplier.contactName || '-'}
+                        {supplier.phone && <div className="text-xs text-muted-foreground">{supplier.phone}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{supplier.leadTimeDays} hari</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {PAYMENT_TERMS.find(t => t.value === supplier.paymentTerms)?.label || supplier.paymentTerms}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={supplier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {supplier.isActive ? 'Aktif' : 'Nonaktif'}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => { setEditingSupplier(supplier); setShowSupplierDialog(true); }}
+                          data-testid={`button-edit-supplier-${supplier.id}`}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteSupplierMutation.mutate(supplier.id)}
+                          disabled={deleteSupplierMutation.isPending}
+                          data-testid={`button-delete-supplier-${supplier.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {suppliers.length === 0 && (
+              <div className="text-center py-12">
+                <Truck className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
+                <p className="text-muted-foreground" data-testid="text-no-suppliers">
+                  Belum ada supplier
+                </p>
+              </div>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {/* Supplier Dialog */}
+      <Dialog open={showSupplierDialog} onOpenChange={(open) => { setShowSupplierDialog(open); if (!open) setEditingSupplier(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Tambah Supplier'}</DialogTitle>
+          </DialogHeader>
+          <SupplierForm
+            key={editingSupplier?.id || 'new'}
+            initialData={editingSupplier || undefined}
+            onSubmit={(supplier) => saveSupplierMutation.mutate({ id: editingSupplier?.id, supplier })}
+            isLoading={saveSupplierMutation.isPending}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Goods Dialog */}
+      <Dialog open={!!receivingOrder} onOpenChange={() => setReceivingOrder(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Terima Barang - {receivingOrder?.poNumber}</DialogTitle>
+            <DialogDescription>
+              Masukkan jumlah dan harga aktual. Harga persediaan dihitung ulang dengan rata-rata tertimbang.
+            </DialogDescription>
+          </DialogHeader>
+          {receivingOrder && (
+            <ReceiveGoodsForm
+              purchaseOrder={receivingOrder}
+              onSubmit={(items) => receiveMutation.mutate({ id: receivingOrder.id, items })}
+              isLoading={receiveMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SupplierForm({
+  initialData,
+  onSubmit,
+  isLoading
+}: {
+  initialData?: Supplier;
+  onSubmit: (supplier: InsertSupplier) => void;
+  isLoading: boolean;
+}) {
+  const [formData, setFormData] = useState<InsertSupplier>({
+    name: initialData?.name || '',
+    contactName: initialData?.contactName || '',
+    phone: initialData?.phone || '',
+    email: initialData?.email || '',
+    address: initialData?.address || '',
+    leadTimeDays: initialData?.leadTimeDays ?? 1,
+    paymentTerms: initialData?.paymentTerms || 'cod',
+    notes: initialData?.notes || '',
+    isActive: initialData?.isActive ?? true,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(formData);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="supplierName">Nama</Label>
+        <Input
+          id="supplierName"
+          value={formData.name}
+          onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+          required
+          data-testid="input-supplier-name"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="contactName">Kontak</Label>
+          <Input
+            id="contactName"
+            value={formData.contactName || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, contactName: e.target.value }))}
+            data-testid="input-supplier-contact"
+          />
+        </div>
+        <div>
+          <Label htmlFor="supplierPhone">Telepon</Label>
+          <Input
+            id="supplierPhone"
+            value={formData.phone || ''}
+            onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+            data-testid="input-supplier-phone"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="supplierEmail">Email</Label>
+        <Input
+          id="supplierEmail"
+          type="email"
+          value={formData.email || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+          data-testid="input-supplier-email"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="supplierAddress">Alamat</Label>
+        <Textarea
+          id="supplierAddress"
+          value={formData.address || ''}
+          onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+          data-testid="input-supplier-address"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="leadTimeDays">Lead Time (hari)</Label>
+          <Input
+            id="leadTimeDays"
+            type="number"
+            min={0}
+            value={formData.leadTimeDays ?? 0}
+            onChange={(e) => setFormData(prev => ({ ...prev, leadTimeDays: parseInt(e.target.value) || 0 }))}
+            data-testid="input-supplier-lead-time"
+          />
+        </div>
+        <div>
+          <Label>Pembayaran</Label>
+          <Select
+            value={formData.paymentTerms || 'cod'}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, paymentTerms: value }))}
+          >
+            <SelectTrigger data-testid="select-supplier-payment-terms">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_TERMS.map((term) => (
+                <SelectItem key={term.value} value={term.value}>{term.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="supplierActive">Aktif</Label>
+        <Switch
+          id="supplierActive"
+          checked={formData.isActive ?? true}
+          onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+          data-testid="switch-supplier-active"
+        />
+      </div>
+
+      <Button type="submit" disabled={isLoading} className="w-full" data-testid="button-save-supplier">
+        {isLoading ? "Saving..." : "Simpan Supplier"}
+      </Button>
+    </form>
+  );
+}
+
+function ReceiveGoodsForm({
+  purchaseOrder,
+  onSubmit,
+  isLoading
+}: {
+  purchaseOrder: PurchaseOrder;
+  onSubmit: (items: { inventoryItemId: string; quantity: number; unitPrice: number }[]) => void;
+  isLoading: boolean;
+}) {
+  const lines = (Array.isArray(purchaseOrder.items) ? purchaseOrder.items : []) as PurchaseOrderItem[];
+
+  // Default to the outstanding quantity at the ordered price
+  const [receipts, setReceipts] = useState<Record<string, { quantity: string; unitPrice: string }>>(() =>
+    Object.fromEntries(lines.map(line => [
+      line.inventoryItemId,
+      {
+        quantity: String(roundQuantity(Math.max(line.quantityOrdered - line.quantityReceived, 0))),
+        unitPrice: String(line.unitPrice),
+      }
+    ]))
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = Object.entries(receipts)
+      .map(([inventoryItemId, receipt]) => ({
+        inventoryItemId,
+        quantity: parseFloat(receipt.quantity) || 0,
+        unitPrice: parseInt(receipt.unitPrice) || 0,
+      }))
+      .filter(item => item.quantity > 0);
+
+    if (items.length > 0) {
+      onSubmit(items);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Item</th>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Dipesan</th>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Diterima</th>
+            <th className="px-3 py-2 text-left font-medium text-muted-foreground">Harga/Unit</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {lines.map((line) => (
+            <tr key={line.inventoryItemId}>
+              <td className="px-3 py-2">{line.name}</td>
+              <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">
+                {line.quantityReceived}/{line.quantityOrdered} {line.unit}
+              </td>
+              <td className="px-3 py-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={receipts[line.inventoryItemId]?.quantity || ''}
+                  onChange={(e) => setReceipts(prev => ({ ...prev, [line.inventoryItemId]: { ...prev[line.inventoryItemId], quantity: e.target.value } }))}
+                  className="w-24"
+                  data-testid={`input-receive-quantity-${line.inventoryItemId}`}
+                />
+              </td>
+              <td className="px-3 py-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={receipts[line.inventoryItemId]?.unitPrice || ''}
+                  onChange={(e) => setReceipts(prev => ({ ...prev, [line.inventoryItemId]: { ...prev[line.inventoryItemId], unitPrice: e.target.value } }))}
+                  className="w-32"
+                  data-testid={`input-receive-price-${line.inventoryItemId}`}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <Button type="submit" disabled={isLoading} className="w-full" data-testid="button-confirm-receive">
+        {isLoading ? "Menyimpan..." : "Konfirmasi Penerimaan"}
+      </Button>
+    </form>
+  );
+}
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 import { apiRequest } from "@/lib/queryClient";
 import { format, addDays, addWeeks, addMonths, eachDayOfInterval, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval, isSameDay, isBefore, startOfDay, isAfter } from "date-fns";
 import { id } from "date-fns/locale";
@@ -30,10 +31,11 @@ export default function ReservationsSection() {
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { connected } = useRealtime();
 
   const { data: reservations = [], isLoading } = useQuery<Reservation[]>({
     queryKey: ["/api/reservations"],
-    refetchInterval: 5000,
+    refetchInterval: connected ? false : 5000,
     refetchOnWindowFocus: true,
     select: (data) => data.map(reservation => ({
       ...reservation,
@@ -1,29 +1,97 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Save, Building, Mail, Phone, MapPin } from "lucide-react";
+import { Save, Building, Mail, Phone, MapPin, Percent, Receipt, Wallet, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { CurrencyInput } from "@/components/ui/currency-input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { StoreProfile, InsertStoreProfile } from "@shared/schema";
+import { DEFAULT_ENABLED_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { DEFAULT_CASH_OVERAGE_THRESHOLD, DEFAULT_CASH_SHORTAGE_THRESHOLD } from "@shared/cash-count";
+import type { StoreProfile, InsertStoreProfile, Category, RoundingRule, PaymentGateway, PaymentMethod } from "@shared/schema";
+
+const ROUNDING_RULE_LABELS: Record<RoundingRule, string> = {
+  none: "Tanpa pembulatan",
+  nearest_100: "Terdekat Rp100",
+  nearest_500: "Terdekat Rp500",
+  nearest_1000: "Terdekat Rp1.000",
+  up_100: "Ke atas Rp100",
+  up_1000: "Ke atas Rp1.000",
+  down_100: "Ke bawah Rp100",
+};
+
+const PAYMENT_GATEWAY_LABELS: Record<PaymentGateway, string> = {
+  midtrans: "Midtrans",
+  mock: "Mock (pengembangan, tanpa uang sungguhan)",
+};
+
+// Cash is always accepted at the counter, so it isn't a setting
+const CONFIGURABLE_PAYMENT_METHODS: PaymentMethod[] = ["qris", "bank_transfer", "ewallet", "card"];
+
+const EMPTY_FORM: Partial<InsertStoreProfile> = {
+  restaurantName: "",
+  address: "",
+  phone: "",
+  email: "",
+  description: "",
+  minMarginPercent: 60,
+  taxRate: 0,
+  taxInclusive: false,
+  serviceChargeRate: 0,
+  serviceChargeTaxable: true,
+  roundingRule: "none",
+  taxExemptCategoryIds: [],
+  serviceExemptCategoryIds: [],
+  paymentGateway: "midtrans",
+  enabledPaymentMethods: DEFAULT_ENABLED_PAYMENT_METHODS,
+  selfOrderPayLater: false,
+  blindShiftClose: false,
+  cashShortageThreshold: DEFAULT_CASH_SHORTAGE_THRESHOLD,
+  cashOverageThreshold: DEFAULT_CASH_OVERAGE_THRESHOLD,
+};
+
+function toFormData(profile: StoreProfile): Partial<InsertStoreProfile> {
+  return {
+    restaurantName: profile.restaurantName || "",
+    address: profile.address || "",
+    phone: profile.phone || "",
+    email: profile.email || "",
+    description: profile.description || "",
+    minMarginPercent: profile.minMarginPercent ?? 60,
+    taxRate: profile.taxRate ?? 0,
+    taxInclusive: profile.taxInclusive ?? false,
+    serviceChargeRate: profile.serviceChargeRate ?? 0,
+    serviceChargeTaxable: profile.serviceChargeTaxable ?? true,
+    roundingRule: (profile.roundingRule as RoundingRule) || "none",
+    taxExemptCategoryIds: profile.taxExemptCategoryIds ?? [],
+    serviceExemptCategoryIds: profile.serviceExemptCategoryIds ?? [],
+    paymentGateway: (profile.paymentGateway as PaymentGateway) || "midtrans",
+    enabledPaymentMethods: profile.enabledPaymentMethods ?? DEFAULT_ENABLED_PAYMENT_METHODS,
+    selfOrderPayLater: profile.selfOrderPayLater ?? false,
+    blindShiftClose: profile.blindShiftClose ?? false,
+    cashShortageThreshold: profile.cashShortageThreshold ?? DEFAULT_CASH_SHORTAGE_THRESHOLD,
+    cashOverageThreshold: profile.cashOverageThreshold ?? DEFAULT_CASH_OVERAGE_THRESHOLD,
+  };
+}
 
 export default function SettingsSection() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [formData, setFormData] = useState<Partial<InsertStoreProfile>>({
-    restaurantName: "",
-    address: "",
-    phone: "",
-    email: "",
-    description: ""
-  });
+  const [formData, setFormData] = useState<Partial<InsertStoreProfile>>(EMPTY_FORM);
 
   const { data: storeProfile, isLoading } = useQuery<StoreProfile | null>({
     queryKey: ["/api/store-profile"],
   });
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: Partial<InsertStoreProfile>) => {
       // Validate required fields
@@ -60,13 +128,7 @@ export default function SettingsSection() {
       queryClient.invalidateQueries({ queryKey: ['/api/store-profile'] });
       
       // Update form data with saved profile to ensure consistency
-      setFormData({
-        restaurantName: savedProfile.restaurantName || "",
-        address: savedProfile.address || "",
-        phone: savedProfile.phone || "",
-        email: savedProfile.email || "",
-        description: savedProfile.description || ""
-      });
+      setFormData(toFormData(savedProfile));
       
       toast({
         title: "Profile berhasil disimpan",
@@ -85,13 +147,7 @@ export default function SettingsSection() {
   // Update form data when store profile loads
   useEffect(() => {
     if (storeProfile) {
-      setFormData({
-        restaurantName: storeProfile.restaurantName || "",
-        address: storeProfile.address || "",
-        phone: storeProfile.phone || "",
-        email: storeProfile.email || "",
-        description: storeProfile.description || ""
-      });
+      setFormData(toFormData(storeProfile));
     }
   }, [storeProfile]);
 
@@ -102,6 +158,26 @@ export default function SettingsSection() {
     }));
   };
 
+  const toggleExemptCategory = (field: "taxExemptCategoryIds" | "serviceExemptCategoryIds", categoryId: string, exempt: boolean) => {
+    setFormData(prev => {
+      const current = prev[field] ?? [];
+      return {
+        ...prev,
+        [field]: exempt ? [...current, categoryId] : current.filter(id => id !== categoryId)
+      };
+    });
+  };
+
+  const togglePaymentMethod = (method: PaymentMethod, enabled: boolean) => {
+    setFormData(prev => {
+      const current = (prev.enabledPaymentMethods ?? DEFAULT_ENABLED_PAYMENT_METHODS).filter(m => m !== method);
+      return {
+        ...prev,
+        enabledPaymentMethods: enabled ? [...current, method] : current
+      };
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -121,7 +197,22 @@ export default function SettingsSection() {
       address: formData.address?.trim() || "",
       phone: formData.phone?.trim() || "",
       email: formData.email?.trim() || "",
-      description: formData.description?.trim() || ""
+      description: formData.description?.trim() || "",
+      minMarginPercent: formData.minMarginPercent ?? 60,
+      taxRate: formData.taxRate ?? 0,
+      taxInclusive: formData.taxInclusive ?? false,
+      serviceChargeRate: formData.serviceChargeRate ?? 0,
+      serviceChargeTaxable: formData.serviceChargeTaxable ?? true,
+      roundingRule: formData.roundingRule || "none",
+      taxExemptCategoryIds: formData.taxExemptCategoryIds ?? [],
+      serviceExemptCategoryIds: formData.serviceExemptCategoryIds ?? [],
+      paymentGateway: formData.paymentGateway || "midtrans",
+      // Cash always stays on so the kasir can take a payment whatever the settings
+      enabledPaymentMethods: Array.from(new Set<PaymentMethod>(["cash", ...(formData.enabledPaymentMethods ?? [])])),
+      selfOrderPayLater: formData.selfOrderPayLater ?? false,
+      blindShiftClose: formData.blindShiftClose ?? false,
+      cashShortageThreshold: formData.cashShortageThreshold ?? DEFAULT_CASH_SHORTAGE_THRESHOLD,
+      cashOverageThreshold: formData.cashOverageThreshold ?? DEFAULT_CASH_OVERAGE_THRESHOLD
     };
 
     updateProfileMutation.mutate(filteredData);
@@ -212,6 +303,23 @@ export default function SettingsSection() {
                 data-testid="input-phone"
               />
             </div>
+
+            {/* Minimum Margin */}
+            <div className="space-y-2">
+              <Label htmlFor="minMarginPercent" className="flex items-center space-x-2">
+                <Percent className="h-4 w-4" />
+                <span>Batas Minimum Margin Menu (%)</span>
+              </Label>
+              <Input
+                id="minMarginPercent"
+                type="number"
+                min={0}
+                max={100}
+                value={formData.minMarginPercent ?? 60}
+                onChange={(e) => setFormData(prev => ({ ...prev, minMarginPercent: parseInt(e.target.value) || 0 }))}
+                data-testid="input-min-margin-percent"
+              />
+            </div>
           </div>
 
           {/* Address */}
@@ -242,6 +350,220 @@ export default function SettingsSection() {
             />
           </div>
 
+          {/* Tax & Service Charge */}
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="flex items-center space-x-2 font-semibold text-foreground">
+              <Receipt className="h-4 w-4" />
+              <span>Pajak & Service Charge</span>
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="taxRate">PB1 / Pajak (%)</Label>
+                <Input
+                  id="taxRate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={formData.taxRate ?? 0}
+                  onChange={(e) => setFormData(prev => ({ ...prev, taxRate: parseFloat(e.target.value) || 0 }))}
+                  data-testid="input-tax-rate"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="serviceChargeRate">Service Charge (%)</Label>
+                <Input
+                  id="serviceChargeRate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={formData.serviceChargeRate ?? 0}
+                  onChange={(e) => setFormData(prev => ({ ...prev, serviceChargeRate: parseFloat(e.target.value) || 0 }))}
+                  data-testid="input-service-charge-rate"
+                />
+              </div>
+
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="taxInclusive">Harga menu sudah termasuk pajak</Label>
+                  <p className="text-xs text-muted-foreground">Pajak dihitung dari harga, tidak ditambahkan</p>
+                </div>
+                <Switch
+                  id="taxInclusive"
+                  checked={formData.taxInclusive ?? false}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, taxInclusive: checked }))}
+                  data-testid="switch-tax-inclusive"
+                />
+              </div>
+
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="serviceChargeTaxable">Service charge dikenakan pajak</Label>
+                  <p className="text-xs text-muted-foreground">PB1 dihitung dari harga + service</p>
+                </div>
+                <Switch
+                  id="serviceChargeTaxable"
+                  checked={formData.serviceChargeTaxable ?? true}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, serviceChargeTaxable: checked }))}
+                  data-testid="switch-service-charge-taxable"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Pembulatan Total</Label>
+                <Select
+                  value={formData.roundingRule || "none"}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, roundingRule: value as RoundingRule }))}
+                >
+                  <SelectTrigger data-testid="select-rounding-rule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROUNDING_RULE_LABELS) as RoundingRule[]).map(rule => (
+                      <SelectItem key={rule} value={rule}>{ROUNDING_RULE_LABELS[rule]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {categories.length > 0 && (
+              <div className="space-y-2">
+                <Label>Kategori Bebas Pajak / Service</Label>
+                <div className="rounded-md border divide-y">
+                  {categories.map(category => (
+                    <div key={category.id} className="flex items-center justify-between p-3 text-sm">
+                      <span>{category.name}</span>
+                      <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2">
+                          <Checkbox
+                            checked={formData.taxExemptCategoryIds?.includes(category.id) ?? false}
+                            onCheckedChange={(checked) => toggleExemptCategory("taxExemptCategoryIds", category.id, checked === true)}
+                            data-testid={`checkbox-tax-exempt-${category.id}`}
+                          />
+                          <span>Bebas pajak</span>
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <Checkbox
+                            checked={formData.serviceExemptCategoryIds?.includes(category.id) ?? false}
+                            onCheckedChange={(checked) => toggleExemptCategory("serviceExemptCategoryIds", category.id, checked === true)}
+                            data-testid={`checkbox-service-exempt-${category.id}`}
+                          />
+                          <span>Bebas service</span>
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Payments */}
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="flex items-center space-x-2 font-semibold text-foreground">
+              <Wallet className="h-4 w-4" />
+              <span>Pembayaran</span>
+            </h3>
+
+            <div className="space-y-2">
+              <Label>Payment Gateway</Label>
+              <Select
+                value={formData.paymentGateway || "midtrans"}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, paymentGateway: value as PaymentGateway }))}
+              >
+                <SelectTrigger data-testid="select-payment-gateway">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYMENT_GATEWAY_LABELS) as PaymentGateway[]).map(gateway => (
+                    <SelectItem key={gateway} value={gateway}>{PAYMENT_GATEWAY_LABELS[gateway]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Dipakai untuk QRIS, virtual account dan e-wallet dari halaman pembayaran customer</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Metode Pembayaran Aktif</Label>
+              <div className="rounded-md border divide-y">
+                <label className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+                  <Checkbox checked disabled data-testid="checkbox-payment-method-cash" />
+                  <span>{PAYMENT_METHOD_LABELS.cash} (selalu aktif)</span>
+                </label>
+                {CONFIGURABLE_PAYMENT_METHODS.map(method => (
+                  <label key={method} className="flex items-center gap-2 p-3 text-sm">
+                    <Checkbox
+                      checked={formData.enabledPaymentMethods?.includes(method) ?? false}
+                      onCheckedChange={(checked) => togglePaymentMethod(method, checked === true)}
+                      data-testid={`checkbox-payment-method-${method}`}
+                    />
+                    <span>{PAYMENT_METHOD_LABELS[method]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="selfOrderPayLater">Pesan dulu, bayar nanti</Label>
+                <p className="text-xs text-muted-foreground">Pelanggan yang memindai QR meja boleh memesan tanpa bayar dulu; pesanan berikutnya masuk ke tagihan meja yang sama</p>
+              </div>
+              <Switch
+                id="selfOrderPayLater"
+                checked={formData.selfOrderPayLater ?? false}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, selfOrderPayLater: checked }))}
+                data-testid="switch-self-order-pay-later"
+              />
+            </div>
+          </div>
+
+          {/* Shift closing */}
+          <div className="space-y-4 border-t pt-6">
+            <h3 className="flex items-center space-x-2 font-semibold text-foreground">
+              <Clock className="h-4 w-4" />
+              <span>Tutup Shift</span>
+            </h3>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="blindShiftClose">Penutupan blind</Label>
+                <p className="text-xs text-muted-foreground">Kasir menghitung kas tanpa melihat kas sistem sampai shift ditutup</p>
+              </div>
+              <Switch
+                id="blindShiftClose"
+                checked={formData.blindShiftClose ?? false}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, blindShiftClose: checked }))}
+                data-testid="switch-blind-shift-close"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cashShortageThreshold">Batas Kas Kurang (Rp)</Label>
+                <CurrencyInput
+                  id="cashShortageThreshold"
+                  value={formData.cashShortageThreshold ?? DEFAULT_CASH_SHORTAGE_THRESHOLD}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, cashShortageThreshold: value }))}
+                  data-testid="input-cash-shortage-threshold"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cashOverageThreshold">Batas Kas Lebih (Rp)</Label>
+                <CurrencyInput
+                  id="cashOverageThreshold"
+                  value={formData.cashOverageThreshold ?? DEFAULT_CASH_OVERAGE_THRESHOLD}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, cashOverageThreshold: value }))}
+                  data-testid="input-cash-overage-threshold"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Selisih kas di atas batas ini perlu disetujui admin lewat notifikasi</p>
+          </div>
+
           {/* Submit Button */}
           <div className="flex justify-end">
             <Button
@@ -0,0 +1,536 @@
+import { useState, useMemo, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Users, Pencil, Trash2, Receipt, LogOut, Sparkles, LayoutGrid, QrCode, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { downloadTableQrSheet } from "@/utils/table-qr-sheet";
+import { TABLE_STATUS_LABELS } from "@shared/tables";
+import type { TableWithStatus, TableStatus, TableAction, InsertTable, TableQrCode, StoreProfile } from "@shared/schema";
+
+const TABLE_STATUS_STYLES: Record<TableStatus, string> = {
+  free: "bg-green-50 border-green-500 text-green-800",
+  ordering: "bg-blue-50 border-blue-500 text-blue-800",
+  eating: "bg-amber-50 border-amber-500 text-amber-800",
+  waiting_bill: "bg-purple-50 border-purple-500 text-purple-800",
+  needs_cleaning: "bg-red-50 border-red-500 text-red-800",
+};
+
+const TABLE_ACTION_LABELS: Record<TableAction, string> = {
+  request_bill: "Minta Bill",
+  vacate: "Tamu Pergi",
+  clear: "Sudah Dibersihkan",
+};
+
+const EMPTY_FORM: InsertTable = {
+  number: "",
+  area: "Indoor",
+  capacity: 4,
+  isActive: true,
+};
+
+export default function TablesSection() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { connected } = useRealtime();
+  const floorRef = useRef<HTMLDivElement>(null);
+  const [selectedArea, setSelectedArea] = useState<string>("");
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<InsertTable>(EMPTY_FORM);
+  const [qrDialogOpen, setQrDialogOpen] = useState(false);
+  const [qrTableIds, setQrTableIds] = useState<string[]>([]);
+  const [rotateQr, setRotateQr] = useState(false);
+
+  // Status is pushed through order and table events, poll while offline
+  const { data: tables = [], isLoading } = useQuery<TableWithStatus[]>({
+    queryKey: ["/api/tables"],
+    refetchInterval: connected ? false : 10000,
+  });
+
+  const { data: storeProfile } = useQuery<StoreProfile>({
+    queryKey: ["/api/store-profile"],
+  });
+
+  const areas = useMemo(() => Array.from(new Set(tables.map(table => table.area))), [tables]);
+  const currentArea = areas.includes(selectedArea) ? selectedArea : areas[0] ?? "";
+  const areaTables = tables.filter(table => table.area === currentArea);
+  const selectedTable = tables.find(table => table.id === selectedTableId) ?? null;
+
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(Object.keys(TABLE_STATUS_LABELS).map(status => [status, 0])) as Record<TableStatus, number>;
+    tables.filter(table => table.isActive).forEach(table => counts[table.status]++);
+    return counts;
+  }, [tables]);
+
+  const saveTableMutation = useMutation({
+    mutationFn: async (data: { id: string | null; table: Partial<InsertTable> }) => {
+      const response = data.id
+        ? await apiRequest('PUT', `/api/tables/${data.id}`, data.table)
+        : await apiRequest('POST', '/api/tables', data.table);
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
+      // Moving a table on the floor plan saves silently
+      if (variables.table.posX === undefined) {
+        toast({
+          title: variables.id ? "Meja diperbarui" : "Meja ditambahkan",
+          description: `Meja ${variables.table.number ?? ''} berhasil disimpan`,
+        });
+        setFormOpen(false);
+      }
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
+      toast({
+        title: "Gagal menyimpan meja",
+        description: error.message || "Terjadi kesalahan saat menyimpan meja",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const tableActionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: TableAction }) => {
+      const response = await apiRequest('POST', `/api/tables/${id}/actions`, { action });
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
+      toast({
+        title: "Status meja diperbarui",
+        description: TABLE_ACTION_LABELS[variables.action],
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal memperbarui status meja",
+        description: error.message || "Terjadi kesalahan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTableMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/tables/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
+      setSelectedTableId(null);
+      toast({
+        title: "Meja dihapus",
+        description: "Meja berhasil dihapus dari denah",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal menghapus meja",
+        description: error.message || "Terjadi kesalahan saat menghapus meja",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const qrCodesMutation = useMutation({
+    mutationFn: async (data: { tableIds: string[]; rotate: boolean }) => {
+      const response = await apiRequest('POST', '/api/tables/qr-codes', data);
+      const codes: TableQrCode[] = await response.json();
+      await downloadTableQrSheet(codes, storeProfile?.restaurantName ?? "Alonica");
+      return codes;
+    },
+    onSuccess: (codes, variables) => {
+      if (variables.rotate) {
+        queryClient.invalidateQueries({ queryKey: ['/api/tables'] });
+      }
+      setQrDialogOpen(false);
+      toast({
+        title: "QR meja siap dicetak",
+        description: variables.rotate
+          ? `${codes.length} kode QR baru dibuat, kode lama tidak berlaku lagi`
+          : `${codes.length} kode QR diunduh sebagai PDF`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal membuat QR meja",
+        description: error.message || "Terjadi kesalahan saat membuat PDF",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openQrDialog = () => {
+    setQrTableIds(tables.filter(table => table.isActive).map(table => table.id));
+    setRotateQr(false);
+    setQrDialogOpen(true);
+  };
+
+  const toggleQrTable = (id: string, checked: boolean) => {
+    setQrTableIds(prev => checked ? [...prev, id] : prev.filter(tableId => tableId !== id));
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setFormData({ ...EMPTY_FORM, area: currentArea || EMPTY_FORM.area });
+    setFormOpen(true);
+  };
+
+  const openEditForm = (table: TableWithStatus) => {
+    setEditingId(table.id);
+    setFormData({ number: table.number, area: table.area, capacity: table.capacity, isActive: table.isActive });
+    setFormOpen(true);
+  };
+
+  const handleSaveTable = () => {
+    if (!formData.number.trim() || !formData.area.trim()) {
+      toast({
+        title: "Data tidak lengkap",
+        description: "Nomor meja dan area wajib diisi",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveTableMutation.mutate({ id: editingId, table: formData });
+  };
+
+  // Drop position becomes the table's centre, in percent of the floor plan
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const id = event.dataTransfer.getData("text/plain");
+    const rect = floorRef.current?.getBoundingClientRect();
+    if (!id || !rect) return;
+
+    const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+    const posX = clamp(((event.clientX - rect.left) / rect.width) * 100);
+    const posY = clamp(((event.clientY - rect.top) / rect.height) * 100);
+
+    queryClient.setQueryData<TableWithStatus[]>(["/api/tables"], (list) =>
+      list?.map(table => table.id === id ? { ...table, posX, posY } : table)
+    );
+    saveTableMutation.mutate({ id, table: { posX, posY } });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 w-48 bg-muted rounded animate-pulse"></div>
+        <div className="alonica-card h-96 animate-pulse"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground" data-testid="text-tables-title">Denah Meja</h1>
+          <p className="text-muted-foreground">Seret meja untuk mengatur denah, klik meja untuk detail</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={openQrDialog} disabled={tables.length === 0} data-testid="button-print-table-qr">
+            <QrCode className="h-4 w-4 mr-2" />
+            Cetak QR
+          </Button>
+          <Button onClick={openCreateForm} data-testid="button-add-table">
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Meja
+          </Button>
+        </div>
+      </div>
+
+      {/* Status legend */}
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TABLE_STATUS_LABELS) as TableStatus[]).map(status => (
+          <Badge key={status} variant="outline" className={TABLE_STATUS_STYLES[status]} data-testid={`badge-status-count-${status}`}>
+            {TABLE_STATUS_LABELS[status]}: {statusCounts[status]}
+          </Badge>
+        ))}
+      </div>
+
+      {tables.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-muted-foreground">
+            <LayoutGrid className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>Belum ada meja. Tambahkan meja untuk mulai menyusun denah.</p>
+            <p className="text-sm mt-1">Selama daftar meja kosong, pelanggan dapat mengisi nomor meja bebas.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Tabs value={currentArea} onValueChange={setSelectedArea}>
+            <TabsList>
+              {areas.map(area => (
+                <TabsTrigger key={area} value={area} data-testid={`tab-area-${area}`}>
+                  {area}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {/* Floor plan */}
+          <div
+            ref={floorRef}
+            className="relative h-[520px] rounded-lg border-2 border-dashed bg-muted/30"
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={handleDrop}
+            data-testid="floor-plan"
+          >
+            {areaTables.map(table => (
+              <button
+                key={table.id}
+                type="button"
+                draggable
+                onDragStart={(event) => event.dataTransfer.setData("text/plain", table.id)}
+                onClick={() => setSelectedTableId(table.id)}
+                className={`absolute flex h-20 w-20 -translate-x-1/2 -translate-y-1/2 flex-col items-center justify-center rounded-lg border-2 shadow-sm transition-shadow hover:shadow-md ${
+                  table.isActive ? TABLE_STATUS_STYLES[table.status] : "bg-muted border-muted-foreground/30 text-muted-foreground opacity-60"
+                }`}
+                style={{ left: `${table.posX}%`, top: `${table.posY}%` }}
+                data-testid={`table-${table.number}`}
+              >
+                <span className="text-lg font-bold">{table.number}</span>
+                <span className="flex items-center gap-1 text-xs">
+                  <Users className="h-3 w-3" />
+                  {table.capacity}
+                </span>
+                <span className="text-[10px] leading-tight">
+                  {table.isActive ? TABLE_STATUS_LABELS[table.status] : "Nonaktif"}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Table detail */}
+      <Dialog open={!!selectedTable} onOpenChange={(open) => !open && setSelectedTableId(null)}>
+        <DialogContent>
+          {selectedTable && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Meja {selectedTable.number}</DialogTitle>
+                <DialogDescription>
+                  {selectedTable.area} · {selectedTable.capacity} kursi
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Status</span>
+                  <Badge variant="outline" className={TABLE_STATUS_STYLES[selectedTable.status]} data-testid="badge-table-status">
+                    {TABLE_STATUS_LABELS[selectedTable.status]}
+                  </Badge>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Pesanan Aktif</span>
+                  <span className="font-medium">{selectedTable.activeOrders}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Belum Dibayar</span>
+                  <span className="font-medium" data-testid="text-table-amount-due">{formatCurrency(selectedTable.amountDue)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Kode QR Dibuat</span>
+                  <span className="font-medium">
+                    {new Date(selectedTable.qrIssuedAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}
+                  </span>
+                </div>
+                {selectedTable.occupiedSince && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Terisi Sejak</span>
+                    <span className="font-medium">
+                      {new Date(selectedTable.occupiedSince).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => tableActionMutation.mutate({ id: selectedTable.id, action: 'request_bill' })}
+                  disabled={!selectedTable.openBillId || tableActionMutation.isPending}
+                  data-testid="button-table-request-bill"
+                >
+                  <Receipt className="h-4 w-4 mr-1" />
+                  {TABLE_ACTION_LABELS.request_bill}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => tableActionMutation.mutate({ id: selectedTable.id, action: 'vacate' })}
+                  disabled={!!selectedTable.openBillId || selectedTable.status === 'free' || tableActionMutation.isPending}
+                  data-testid="button-table-vacate"
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  {TABLE_ACTION_LABELS.vacate}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => tableActionMutation.mutate({ id: selectedTable.id, action: 'clear' })}
+                  disabled={!!selectedTable.openBillId || selectedTable.status === 'free' || tableActionMutation.isPending}
+                  data-testid="button-table-clear"
+                >
+                  <Sparkles className="h-4 w-4 mr-1" />
+                  {TABLE_ACTION_LABELS.clear}
+                </Button>
+              </div>
+              <DialogFooter className="gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm(`Buat kode QR baru untuk meja ${selectedTable.number}? Kode QR yang sudah tercetak tidak akan berlaku lagi.`)) {
+                      qrCodesMutation.mutate({ tableIds: [selectedTable.id], rotate: true });
+                    }
+                  }}
+                  disabled={qrCodesMutation.isPending}
+                  data-testid="button-rotate-table-qr"
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Ganti QR
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm(`Hapus meja ${selectedTable.number}?`)) {
+                      deleteTableMutation.mutate(selectedTable.id);
+                    }
+                  }}
+                  disabled={deleteTableMutation.isPending}
+                  className="text-red-600"
+                  data-testid="button-delete-table"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Hapus
+                </Button>
+                <Button onClick={() => openEditForm(selectedTable)} data-testid="button-edit-table">
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* QR sheet */}
+      <Dialog open={qrDialogOpen} onOpenChange={setQrDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cetak QR Meja</DialogTitle>
+            <DialogDescription>Pilih meja yang akan dicetak dalam satu PDF (6 kartu per halaman A4)</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-72 space-y-2 overflow-y-auto rounded-md border p-3">
+            {tables.map(table => (
+              <label key={table.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={qrTableIds.includes(table.id)}
+                  onCheckedChange={(checked) => toggleQrTable(table.id, checked === true)}
+                  data-testid={`checkbox-qr-table-${table.number}`}
+                />
+                <span className="font-medium">Meja {table.number}</span>
+                <span className="text-muted-foreground">{table.area}</span>
+                {!table.isActive && <Badge variant="outline">Nonaktif</Badge>}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="rotate-qr">Buat kode baru</Label>
+              <p className="text-xs text-muted-foreground">Kode QR lama dari meja terpilih tidak berlaku lagi</p>
+            </div>
+            <Switch id="rotate-qr" checked={rotateQr} onCheckedChange={setRotateQr} data-testid="switch-rotate-qr" />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => qrCodesMutation.mutate({ tableIds: qrTableIds, rotate: rotateQr })}
+              disabled={qrTableIds.length === 0 || qrCodesMutation.isPending}
+              data-testid="button-download-table-qr"
+            >
+              {qrCodesMutation.isPending ? "Membuat PDF..." : `Unduh PDF (${qrTableIds.length})`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / edit form */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Meja" : "Tambah Meja"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="table-number">Nomor Meja</Label>
+                <Input
+                  id="table-number"
+                  value={formData.number}
+                  onChange={(e) => setFormData(prev => ({ ...prev, number: e.target.value }))}
+                  placeholder="Contoh: 12 atau A1"
+                  data-testid="input-table-number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="table-capacity">Kapasitas</Label>
+                <Input
+                  id="table-capacity"
+                  type="number"
+                  min={1}
+                  value={formData.capacity}
+                  onChange={(e) => setFormData(prev => ({ ...prev, capacity: parseInt(e.target.value) || 1 }))}
+                  data-testid="input-table-capacity"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="table-area">Area</Label>
+              <Input
+                id="table-area"
+                value={formData.area}
+                onChange={(e) => setFormData(prev => ({ ...prev, area: e.target.value }))}
+                placeholder="Contoh: Indoor, Outdoor, Lantai 2"
+                list="table-areas"
+                data-testid="input-table-area"
+              />
+              <datalist id="table-areas">
+                {areas.map(area => <option key={area} value={area} />)}
+              </datalist>
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="table-active">Aktif</Label>
+                <p className="text-xs text-muted-foreground">Meja nonaktif tidak bisa dipilih pelanggan</p>
+              </div>
+              <Switch
+                id="table-active"
+                checked={formData.isActive ?? true}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+                data-testid="switch-table-active"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSaveTable} disabled={saveTableMutation.isPending} data-testid="button-save-table">
+              {saveTableMutation.isPending ? "Menyimpan..." : "Simpan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,19 +1,66 @@
+import { useState } from "react";
 import { useLocation } from "wouter";
-import { ArrowLeft, Minus, Plus } from "lucide-react";
+import { ArrowLeft, Minus, Plus, Ticket, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { useCart } from "@/hooks/use-cart";
+import { useCart, getStoredCustomerName } from "@/hooks/use-cart";
+import { useToast } from "@/hooks/use-toast";
+import { fetchOrderQuote, getQuoteErrorMessage, useOrderQuote } from "@/hooks/use-order-quote";
 import { formatCurrency } from "@/lib/utils";
 import FoodPattern from "@/components/ui/food-pattern";
+import { formatModifiers } from "@shared/modifiers";
 
 export default function CartPage() {
   const [, setLocation] = useLocation();
-  const { cartItems, updateQuantity, updateNotes, subtotal, discount, total } = useCart();
+  const { cartItems, updateQuantity, updateNotes, subtotal, discount, total, voucherCode, setVoucherCode } = useCart();
+  const [voucherInput, setVoucherInput] = useState("");
+  const [isApplyingVoucher, setIsApplyingVoucher] = useState(false);
+  const { toast } = useToast();
+  const customerName = getStoredCustomerName();
+  const quoteItems = cartItems.map(item => ({
+    itemId: item.itemId ?? item.id,
+    quantity: item.quantity,
+    modifierOptionIds: item.modifiers?.map(modifier => modifier.optionId),
+  }));
+  const { data: quote, error: quoteError } = useOrderQuote(quoteItems, { voucherCode, customerName });
+
+  const handleApplyVoucher = async () => {
+    const code = voucherInput.trim().toUpperCase();
+    if (!code) return;
+
+    setIsApplyingVoucher(true);
+    try {
+      const result = await fetchOrderQuote(quoteItems, { voucherCode: code, customerName });
+      setVoucherCode(code);
+      setVoucherInput("");
+      toast({
+        title: "Voucher dipakai",
+        description: `Hemat ${formatCurrency(result.voucher?.amount ?? 0)}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Voucher tidak bisa dipakai",
+        description: getQuoteErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingVoucher(false);
+    }
+  };
 
   const handleProceedToPayment = () => {
     if (cartItems.length === 0) {
       return;
     }
+    if (voucherCode && quoteError) {
+      toast({
+        title: "Voucher tidak berlaku",
+        description: "Hapus voucher atau sesuaikan pesanan terlebih dahulu",
+        variant: "destructive",
+      });
+      return;
+    }
     setLocation("/payment");
   };
 
@@ -60,6 +107,11 @@ export default function CartPage() {
                 <h3 className="font-medium text-foreground" data-testid={`text-cart-name-${item.id}`}>
                   {item.name}
                 </h3>
+                {item.modifiers && item.modifiers.length > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid={`text-cart-modifiers-${item.id}`}>
+                    {formatModifiers(item.modifiers)}
+                  </p>
+                )}
                 <Textarea
                   placeholder="Catatan (opsional)"
                   value={item.notes || ""}
@@ -101,6 +153,51 @@ export default function CartPage() {
       {/* Order Summary */}
       {cartItems.length > 0 && (
         <div className="px-6 mb-20">
+          {/* Voucher */}
+          <div className="alonica-card p-4 mb-4">
+            {voucherCode ? (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center gap-2 font-medium" data-testid="text-voucher-code">
+                    <Ticket className="h-4 w-4 text-primary" />
+                    {voucherCode}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setVoucherCode(null)}
+                    data-testid="button-remove-voucher"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {quoteError && (
+                  <p className="text-sm text-destructive" data-testid="text-voucher-error">
+                    {getQuoteErrorMessage(quoteError)}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  value={voucherInput}
+                  onChange={(e) => setVoucherInput(e.target.value)}
+                  placeholder="Kode voucher"
+                  className="uppercase"
+                  data-testid="input-voucher-code"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleApplyVoucher}
+                  disabled={!voucherInput.trim() || isApplyingVoucher}
+                  data-testid="button-apply-voucher"
+                >
+                  Pakai
+                </Button>
+              </div>
+            )}
+          </div>
+
           <FoodPattern className="bg-primary rounded-2xl p-6 text-white">
             <div className="space-y-3">
               <div className="flex justify-between">
@@ -109,12 +206,30 @@ export default function CartPage() {
               </div>
               <div className="flex justify-between">
                 <span>Diskon</span>
-                <span data-testid="text-discount">{formatCurrency(discount)}</span>
+                <span data-testid="text-discount">{formatCurrency(quote?.discount ?? discount)}</span>
               </div>
+              {quote && quote.serviceCharge > 0 && (
+                <div className="flex justify-between">
+                  <span>Service ({quote.serviceChargeRate}%)</span>
+                  <span data-testid="text-service-charge">{formatCurrency(quote.serviceCharge)}</span>
+                </div>
+              )}
+              {quote && quote.tax > 0 && (
+                <div className="flex justify-between">
+                  <span>PB1 ({quote.taxRate}%{quote.taxInclusive ? ', termasuk' : ''})</span>
+                  <span data-testid="text-tax">{formatCurrency(quote.tax)}</span>
+                </div>
+              )}
+              {quote && quote.rounding !== 0 && (
+                <div className="flex justify-between">
+                  <span>Pembulatan</span>
+                  <span data-testid="text-rounding">{formatCurrency(quote.rounding)}</span>
+                </div>
+              )}
               <hr className="border-white/20" />
               <div className="flex justify-between text-xl font-semibold">
                 <span>Total</span>
-                <span data-testid="text-total">{formatCurrency(total)}</span>
+                <span data-testid="text-total">{formatCurrency(quote?.total ?? total)}</span>
               </div>
             </div>
           </FoodPattern>
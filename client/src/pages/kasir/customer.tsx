@@ -14,6 +14,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface Customer {
@@ -243,18 +244,19 @@ export default function CustomerSection() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [reservationDialogOpen, setReservationDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { connected } = useRealtime();
 
   // Get orders data to create customer summary
   const { data: orders = [], isLoading } = useQuery<any[]>({
     queryKey: ["/api/orders"],
-    refetchInterval: 5000,
+    refetchInterval: connected ? false : 5000,
     refetchOnWindowFocus: true,
   });
 
   // Get reservations data
   const { data: reservations = [], isLoading: isLoadingReservations } = useQuery<Reservation[]>({
     queryKey: ["/api/reservations"],
-    refetchInterval: 30000,
+    refetchInterval: connected ? false : 30000,
     refetchOnWindowFocus: true,
   });
 
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Calendar, Save, Eye, TrendingUp, DollarSign } from "lucide-react";
+import { Calendar, Save, Eye, TrendingUp, DollarSign, Printer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -14,7 +14,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/use-error-handler";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
-import { insertDailyReportSchema, type DailyReport, type InsertDailyReport } from "@shared/schema";
+import { smartPrintSalesReport } from "@/utils/thermal-print";
+import { insertDailyReportSchema, type DailyReport, type InsertDailyReport, type SalesReport } from "@shared/schema";
 
 // Form schema for daily reports
 const dailyReportFormSchema = insertDailyReportSchema.extend({
@@ -94,6 +95,16 @@ export default function DailyReportsSection() {
     submitReportMutation.mutate(data);
   };
 
+  // End-of-day report built by the server; an X-report while shifts of that day are still open
+  const printEndOfDayMutation = useMutation({
+    mutationFn: async (date: string) => {
+      const response = await apiRequest('GET', `/api/daily-reports/z-report?date=${date}`);
+      return response.json() as Promise<SalesReport>;
+    },
+    onSuccess: (report) => smartPrintSalesReport(report),
+    onError: createErrorHandler("Gagal mencetak laporan akhir hari")
+  });
+
   // Calculate real-time values
   const totalRevenueCash = form.watch("totalRevenueCash") || 0;
   const totalRevenueNonCash = form.watch("totalRevenueNonCash") || 0;
@@ -425,6 +436,39 @@ export default function DailyReportsSection() {
         </CardContent>
       </Card>
 
+      {/* End-of-day report */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            Laporan Akhir Hari (Z-Report)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center">
+            <Input
+              type="date"
+              value={selectedDate}
+              onChange={(e) => setSelectedDate(e.target.value)}
+              className="md:w-48"
+              data-testid="input-end-of-day-date"
+            />
+            <Button
+              variant="outline"
+              onClick={() => printEndOfDayMutation.mutate(selectedDate)}
+              disabled={!selectedDate || printEndOfDayMutation.isPending}
+              data-testid="button-print-end-of-day"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              {printEndOfDayMutation.isPending ? "Menyiapkan..." : "Cetak Laporan"}
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Penjualan per metode bayar dan kategori, diskon, refund, void, hapus item, dan kas seharusnya vs fisik
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Recent Reports */}
       {reports.length > 0 && (
         <Card>
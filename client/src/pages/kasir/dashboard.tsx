@@ -9,6 +9,7 @@ import ExpensesSection from "@/pages/kasir/expenses";
 import DailyReportsSection from "@/pages/kasir/daily-reports";
 import ShiftManagementSection from "@/pages/kasir/shift-management";
 import PrinterPage from "@/pages/printer";
+import ServiceRequestAlerts from "@/components/admin/service-requests";
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { useState } from "react";
@@ -122,6 +123,8 @@ export default function KasirDashboard() {
         </div>
       </div>
       
+      <ServiceRequestAlerts />
+
       {/* Mobile Sidebar Overlay */}
       {sidebarOpen && (
         <div 
@@ -10,16 +10,24 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Clock, DollarSign, TrendingUp, TrendingDown, User, AlertCircle } from "lucide-react";
+import { Clock, DollarSign, TrendingUp, TrendingDown, User, AlertCircle, EyeOff, Printer } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { formatCurrency } from "@/lib/utils";
-import type { Shift, InsertShift } from "@shared/schema";
+import { smartPrintSalesReport } from "@/utils/thermal-print";
+import { CASH_DENOMINATIONS, getCashCountTotal, getDenominationLabel } from "@shared/cash-count";
+import type { Shift, InsertShift, CashCountLine, ShiftCashSummary, SalesReport } from "@shared/schema";
+
+interface ShiftSummaryResponse {
+  blindClose: boolean;
+  summary: ShiftCashSummary | null;
+}
 
 export default function ShiftManagementSection() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [initialCash, setInitialCash] = useState(0);
-  const [finalCash, setFinalCash] = useState(0);
+  const [cashQuantities, setCashQuantities] = useState<number[]>(() => CASH_DENOMINATIONS.map(() => 0));
+  const [closedShift, setClosedShift] = useState<Shift | null>(null);
   const [notes, setNotes] = useState("");
   const [cashIn, setCashIn] = useState(0);
   const [cashOut, setCashOut] = useState(0);
@@ -31,6 +39,18 @@ export default function ShiftManagementSection() {
     retry: false
   });
 
+  // Expected cash for the drawer; withheld by the server while blind close is on
+  const { data: shiftSummary } = useQuery<ShiftSummaryResponse>({
+    queryKey: [`/api/shifts/${activeShift?.id}/summary`],
+    enabled: !!activeShift?.id
+  });
+
+  const cashCount: CashCountLine[] = CASH_DENOMINATIONS.map((denomination, index) => ({
+    ...denomination,
+    quantity: cashQuantities[index]
+  }));
+  const finalCash = getCashCountTotal(cashCount);
+
   // Open shift mutation
   const openShiftMutation = useMutation({
     mutationFn: async (data: { initialCash: number }) => {
@@ -46,6 +66,7 @@ export default function ShiftManagementSection() {
       });
       queryClient.invalidateQueries({ queryKey: ['/api/shifts/active'] });
       setInitialCash(0);
+      setClosedShift(null);
     },
     onError: (error: any) => {
       toast({
@@ -58,21 +79,24 @@ export default function ShiftManagementSection() {
 
   // Close shift mutation
   const closeShiftMutation = useMutation({
-    mutationFn: async (data: { finalCash: number; notes?: string }) => {
+    mutationFn: async (data: { cashCount: CashCountLine[]; notes?: string }) => {
       if (!activeShift?.id) throw new Error("No active shift");
       const response = await apiRequest('PUT', `/api/shifts/${activeShift.id}/close`, {
-        finalCash: data.finalCash,
+        cashCount: data.cashCount,
         notes: data.notes
       });
-      return response.json();
+      return response.json() as Promise<Shift>;
     },
-    onSuccess: () => {
+    onSuccess: (shift) => {
       toast({
         title: "Shift Ditutup",
-        description: "Shift berhasil ditutup. Laporan shift telah disimpan."
+        description: shift.varianceStatus === 'pending'
+          ? "Selisih kas melebihi batas dan menunggu persetujuan admin."
+          : "Shift berhasil ditutup. Laporan shift telah disimpan."
       });
       queryClient.invalidateQueries({ queryKey: ['/api/shifts/active'] });
-      setFinalCash(0);
+      setClosedShift(shift);
+      setCashQuantities(CASH_DENOMINATIONS.map(() => 0));
       setNotes("");
     },
     onError: (error: any) => {
@@ -107,6 +131,7 @@ export default function ShiftManagementSection() {
       setCashOut(0);
       setCashDescription("");
       queryClient.invalidateQueries({ queryKey: ['/api/cash-movements'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/shifts/${activeShift?.id}/summary`] });
     },
     onError: (error: any) => {
       toast({
@@ -130,15 +155,30 @@ export default function ShiftManagementSection() {
   };
 
   const handleCloseShift = () => {
-    if (isNaN(finalCash) || finalCash < 0) {
+    if (finalCash === 0 && !confirm("Kas fisik yang dihitung Rp0. Tetap tutup shift?")) {
+      return;
+    }
+    closeShiftMutation.mutate({ cashCount, notes: notes || undefined });
+  };
+
+  const handleCashQuantityChange = (index: number, value: string) => {
+    const quantity = parseInt(value, 10);
+    setCashQuantities(prev => prev.map((current, i) => i === index ? (isNaN(quantity) || quantity < 0 ? 0 : quantity) : current));
+  };
+
+  // X-report mid-shift, Z-report once the shift is closed
+  const handlePrintReport = async (shiftId: string, kind: 'x' | 'z') => {
+    try {
+      const response = await apiRequest('GET', `/api/shifts/${shiftId}/${kind}-report`);
+      const report: SalesReport = await response.json();
+      await smartPrintSalesReport(report);
+    } catch (error: any) {
       toast({
-        title: "Input Tidak Valid",
-        description: "Masukkan jumlah kas akhir yang valid",
+        title: kind === 'x' ? "Gagal Mencetak X-Report" : "Gagal Mencetak Z-Report",
+        description: error.message || "Terjadi kesalahan saat mengambil laporan shift",
         variant: "destructive"
       });
-      return;
     }
-    closeShiftMutation.mutate({ finalCash, notes: notes || undefined });
   };
 
   const handleCashMovement = (type: 'in' | 'out') => {
@@ -180,11 +220,11 @@ export default function ShiftManagementSection() {
     });
   };
 
-  const calculateCashDifference = () => {
-    if (!activeShift || !finalCash) return 0;
-    const expected = (activeShift.systemCash || activeShift.initialCash || 0);
-    return finalCash - expected;
-  };
+  const expectedCash = shiftSummary?.summary?.systemCash;
+  const cashDifference = expectedCash === undefined ? 0 : finalCash - expectedCash;
+
+  const getDifferenceClass = (difference: number) =>
+    difference > 0 ? 'text-green-600' : difference < 0 ? 'text-red-600' : 'text-foreground';
 
   if (loadingShift) {
     return (
@@ -207,6 +247,54 @@ export default function ShiftManagementSection() {
         </Badge>
       </div>
 
+      {!activeShift && closedShift && (
+        /* Result of the shift just closed */
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Hasil Closingan
+            </CardTitle>
+            <CardDescription>
+              ID Sesi: {closedShift.id}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Kas Sistem</p>
+                <p className="font-medium" data-testid="text-closed-system-cash">{formatCurrency(closedShift.systemCash || 0)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Kas Fisik</p>
+                <p className="font-medium" data-testid="text-closed-final-cash">{formatCurrency(closedShift.finalCash || 0)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Selisih</p>
+                <p className={`font-medium ${getDifferenceClass(closedShift.cashDifference || 0)}`} data-testid="text-closed-cash-difference">
+                  {formatCurrency(closedShift.cashDifference || 0)}
+                </p>
+              </div>
+            </div>
+            {closedShift.varianceStatus === 'pending' && (
+              <Badge variant="destructive" className="flex w-fit items-center gap-1" data-testid="badge-variance-pending">
+                <AlertCircle className="h-3 w-3" />
+                Selisih menunggu persetujuan admin
+              </Badge>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => handlePrintReport(closedShift.id, 'z')}
+              className="w-full"
+              data-testid="button-print-z-report"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Cetak Z-Report
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {!activeShift ? (
         /* Open Shift Card */
         <Card>
@@ -272,6 +360,15 @@ export default function ShiftManagementSection() {
                   <Badge variant="default">Aktif</Badge>
                 </div>
               </div>
+              <Button
+                variant="outline"
+                onClick={() => handlePrintReport(activeShift.id, 'x')}
+                className="w-full"
+                data-testid="button-print-x-report"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Cetak X-Report
+              </Button>
             </CardContent>
           </Card>
 
@@ -357,13 +454,26 @@ export default function ShiftManagementSection() {
             <CardContent className="space-y-6">
               <div className="grid gap-4 md:grid-cols-2">
                 <div className="space-y-2">
-                  <Label htmlFor="final-cash">Kas Fisik Dihitung (Rp)</Label>
-                  <CurrencyInput
-                    id="final-cash"
-                    value={finalCash}
-                    onValueChange={setFinalCash}
-                    data-testid="input-final-cash"
-                  />
+                  <Label>Hitung Kas Fisik per Pecahan</Label>
+                  <div className="space-y-2">
+                    {CASH_DENOMINATIONS.map((denomination, index) => (
+                      <div key={`${denomination.kind}-${denomination.denomination}`} className="grid grid-cols-3 items-center gap-2 text-sm">
+                        <span>{getDenominationLabel(denomination)}</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          inputMode="numeric"
+                          value={cashQuantities[index] || ''}
+                          placeholder="0"
+                          onChange={(e) => handleCashQuantityChange(index, e.target.value)}
+                          data-testid={`input-cash-count-${denomination.kind}-${denomination.denomination}`}
+                        />
+                        <span className="text-right text-muted-foreground">
+                          {formatCurrency(denomination.denomination * cashQuantities[index])}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
                 
                 <div className="space-y-2">
@@ -378,36 +488,45 @@ export default function ShiftManagementSection() {
                 </div>
               </div>
 
-              {finalCash && (
-                <div className="p-4 bg-muted/50 rounded-lg">
-                  <h4 className="font-medium mb-2">Ringkasan Kas</h4>
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <h4 className="font-medium mb-2">Ringkasan Kas</h4>
+                {expectedCash === undefined ? (
+                  <div className="space-y-2 text-sm">
+                    <div>
+                      <p className="text-muted-foreground">Kas Fisik</p>
+                      <p className="font-medium" data-testid="text-counted-cash">{formatCurrency(finalCash)}</p>
+                    </div>
+                    {shiftSummary?.blindClose && (
+                      <p className="flex items-center gap-1 text-muted-foreground" data-testid="text-blind-close">
+                        <EyeOff className="h-4 w-4" />
+                        Penutupan blind: kas sistem ditampilkan setelah shift ditutup
+                      </p>
+                    )}
+                  </div>
+                ) : (
                   <div className="grid grid-cols-3 gap-4 text-sm">
                     <div>
                       <p className="text-muted-foreground">Kas Tercatat</p>
-                      <p className="font-medium">{formatCurrency(activeShift.systemCash || activeShift.initialCash || 0)}</p>
+                      <p className="font-medium">{formatCurrency(expectedCash)}</p>
                     </div>
                     <div>
                       <p className="text-muted-foreground">Kas Fisik</p>
-                      <p className="font-medium">{formatCurrency(finalCash || 0)}</p>
+                      <p className="font-medium" data-testid="text-counted-cash">{formatCurrency(finalCash)}</p>
                     </div>
                     <div>
                       <p className="text-muted-foreground">Selisih</p>
                       <div className="flex items-center gap-1">
-                        {calculateCashDifference() !== 0 && (
+                        {cashDifference !== 0 && (
                           <AlertCircle className="h-4 w-4 text-yellow-500" />
                         )}
-                        <p className={`font-medium ${
-                          calculateCashDifference() > 0 ? 'text-green-600' : 
-                          calculateCashDifference() < 0 ? 'text-red-600' : 
-                          'text-foreground'
-                        }`}>
-                          {formatCurrency(calculateCashDifference())}
+                        <p className={`font-medium ${getDifferenceClass(cashDifference)}`}>
+                          {formatCurrency(cashDifference)}
                         </p>
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
 
               <Separator />
               
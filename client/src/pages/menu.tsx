@@ -1,23 +1,77 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Search, Mic, Plus, ChefHat, Coffee, Fish, Utensils, Soup, Cookie } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useCart } from "@/hooks/use-cart";
 import { useToast } from "@/hooks/use-toast";
 import Navbar from "@/components/layout/navbar";
+import ModifierDialog from "@/components/modifier-dialog";
 import { formatCurrency } from "@/lib/utils";
-import type { MenuItem, Category } from "@shared/schema";
+import { getModifierGroups, getModifierLineKey, getModifiersTotal } from "@shared/modifiers";
+import type { MenuItem, Category, OrderItemModifier } from "@shared/schema";
 
 export default function MenuPage() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
   const { addToCart, totalItems } = useCart();
   const { toast } = useToast();
   const sectionRefs = useRef<{ [key: string]: HTMLElement | null }>({});
+  const [scannedTable, setScannedTable] = useState<string | null>(null);
+  const [customerName, setCustomerName] = useState("");
+
+  // A scanned table QR code opens /menu?table=<token>: bind the order to that table
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('table');
+    if (!token) return;
+
+    const bindTable = async () => {
+      try {
+        const response = await fetch(`/api/tables/qr/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          toast({
+            title: "Kode QR tidak valid",
+            description: data.message || "Silakan pindai ulang kode QR di meja Anda",
+            variant: "destructive",
+          });
+          setLocation("/");
+          return;
+        }
+
+        const customer = JSON.parse(localStorage.getItem('alonica-customer') || 'null');
+        localStorage.setItem('alonica-customer', JSON.stringify({
+          name: customer?.name ?? "",
+          table: data.tableNumber,
+          tableToken: token,
+          tableSession: data.session
+        }));
+        window.history.replaceState(null, "", "/menu");
+        if (!customer?.name) {
+          setScannedTable(data.tableNumber);
+        }
+      } catch (error) {
+        toast({
+          title: "Gagal memeriksa meja",
+          description: "Periksa koneksi internet lalu coba lagi",
+          variant: "destructive",
+        });
+      }
+    };
+    bindTable();
+  }, []);
+
+  const handleSaveName = () => {
+    if (!customerName.trim()) return;
+    const customer = JSON.parse(localStorage.getItem('alonica-customer') || '{}');
+    localStorage.setItem('alonica-customer', JSON.stringify({ ...customer, name: customerName.trim() }));
+    setScannedTable(null);
+  };
 
   const { data: menuItems = [], isLoading: menuLoading } = useQuery<MenuItem[]>({
     queryKey: ["/api/menu"],
@@ -67,12 +121,23 @@ export default function MenuPage() {
   };
 
   const handleAddToCart = (item: MenuItem) => {
+    if (getModifierGroups(item).length > 0) {
+      setModifierItem(item);
+      return;
+    }
+    addItemWithModifiers(item, []);
+  };
+
+  const addItemWithModifiers = (item: MenuItem, modifiers: OrderItemModifier[]) => {
     addToCart({
-      id: item.id,
+      id: getModifierLineKey(item.id, modifiers),
+      itemId: item.id,
       name: item.name,
-      price: item.price,
-      image: item.image || undefined
+      price: item.price + getModifiersTotal(modifiers),
+      image: item.image || undefined,
+      modifiers: modifiers.length > 0 ? modifiers : undefined,
     });
+    setModifierItem(null);
 
     toast({
       title: "Ditambahkan ke keranjang",
@@ -222,6 +287,33 @@ export default function MenuPage() {
         )}
       </div>
 
+      <ModifierDialog
+        item={modifierItem}
+        onClose={() => setModifierItem(null)}
+        onConfirm={addItemWithModifiers}
+      />
+
+      <Dialog open={!!scannedTable}>
+        <DialogContent className="max-w-sm" onInteractOutside={(e) => e.preventDefault()}>
+          <DialogHeader>
+            <DialogTitle>Selamat datang di Meja {scannedTable}</DialogTitle>
+            <DialogDescription>Masukkan nama Anda untuk mulai memesan</DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="Nama Anda"
+            value={customerName}
+            onChange={(e) => setCustomerName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveName()}
+            data-testid="input-scanned-customer-name"
+          />
+          <DialogFooter>
+            <Button onClick={handleSaveName} disabled={!customerName.trim()} className="w-full" data-testid="button-save-customer-name">
+              Lanjut ke Menu
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Navbar totalItems={totalItems} />
     </div>
   );
@@ -1,26 +1,46 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { ArrowLeft, CreditCard, Check, Clock, CheckCircle, XCircle, RefreshCw } from "lucide-react";
+import { ArrowLeft, CreditCard, Check, Clock, CheckCircle, XCircle, RefreshCw, Landmark, Wallet, Copy, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useCart } from "@/hooks/use-cart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCart, getStoredCustomerName } from "@/hooks/use-cart";
+import { useOrderQuote } from "@/hooks/use-order-quote";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { formatCurrency } from "@/lib/utils";
-import type { OrderItem } from "@shared/schema";
+import { BANK_TRANSFER_BANK_LABELS, EWALLET_CHANNEL_LABELS, PAYMENT_METHOD_LABELS, isOnlinePaymentMethod, type OnlinePaymentMethod } from "@shared/payments";
+import type { BankTransferBank, EwalletChannel, OrderItem, PaymentGateway, PaymentMethod } from "@shared/schema";
 
 interface PaymentResponse {
   order: any;
   payment: {
-    qrisUrl?: string;
-    qrisString?: string;
+    method: OnlinePaymentMethod;
+    gateway: PaymentGateway;
+    channel: string | null;
+    qrisUrl?: string | null;
+    qrisString?: string | null;
+    vaNumber?: string | null;
+    deeplinkUrl?: string | null;
     expiryTime: string;
     transactionId: string;
     midtransOrderId: string;
-    snapToken?: string;
+    mock?: boolean;
   };
 }
 
+interface PaymentMethodsResponse {
+  gateway: PaymentGateway | null;
+  methods: PaymentMethod[];
+  payLater: boolean;
+}
+
+const METHOD_ICONS: Record<OnlinePaymentMethod, typeof CreditCard> = {
+  qris: CreditCard,
+  bank_transfer: Landmark,
+  ewallet: Wallet,
+};
+
 interface PaymentStatus {
   paymentStatus: 'pending' | 'paid' | 'failed' | 'expired';
   transactionStatus: string;
@@ -33,17 +53,44 @@ export default function PaymentPage() {
   const [orderId, setOrderId] = useState<string | null>(null);
   const [paymentData, setPaymentData] = useState<PaymentResponse | null>(null);
   const [paymentStatus, setPaymentStatus] = useState<'creating' | 'pending' | 'paid' | 'failed' | 'expired'>('creating');
-  const { cartItems, total, clearCart } = useCart();
+  const [selectedMethod, setSelectedMethod] = useState<OnlinePaymentMethod>('qris');
+  const [bank, setBank] = useState<BankTransferBank>('bca');
+  const [ewallet, setEwallet] = useState<EwalletChannel>('gopay');
+  const { cartItems, total: cartTotal, clearCart, voucherCode } = useCart();
+  const { data: quote } = useOrderQuote(cartItems.map(item => ({
+    itemId: item.itemId ?? item.id,
+    quantity: item.quantity,
+    modifierOptionIds: item.modifiers?.map(modifier => modifier.optionId),
+  })), {
+    voucherCode,
+    customerName: getStoredCustomerName(),
+  });
+  // The created order is authoritative once it exists; before that show the server quote
+  const total = paymentData?.order?.total ?? quote?.total ?? cartTotal;
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Online methods the store accepts; cash and card are only taken at the counter
+  const { data: paymentMethods } = useQuery<PaymentMethodsResponse>({
+    queryKey: ['/api/payments/methods'],
+  });
+  const onlineMethods = (paymentMethods?.methods ?? ['qris']).filter(isOnlinePaymentMethod);
+  const canPayLater = !!paymentMethods?.payLater && !!JSON.parse(localStorage.getItem('alonica-customer') || 'null')?.tableSession;
+
+  useEffect(() => {
+    if (onlineMethods.length > 0 && !onlineMethods.includes(selectedMethod)) {
+      setSelectedMethod(onlineMethods[0]);
+    }
+  }, [onlineMethods, selectedMethod]);
+
   const createOrderMutation = useMutation({
     mutationFn: async (orderData: any) => {
-      // Create order with Midtrans QRIS integration
+      // Create the order and its gateway payment in one request
       const orderPayload = {
         ...orderData,
-        paymentMethod: 'qris',
-        useMidtrans: true // Flag to use real Midtrans integration
+        paymentMethod: selectedMethod,
+        bank: selectedMethod === 'bank_transfer' ? bank : undefined,
+        ewallet: selectedMethod === 'ewallet' ? ewallet : undefined,
       };
       
       const response = await apiRequest('POST', '/api/orders', orderPayload);
@@ -58,7 +105,7 @@ export default function PaymentPage() {
       const receiptData = {
         ...data.order,
         orderDate: new Date().toISOString(),
-        paymentMethod: 'qris'
+        paymentMethod: data.payment.method
       };
       localStorage.setItem('alonica-receipt', JSON.stringify(receiptData));
       
@@ -78,6 +125,30 @@ export default function PaymentPage() {
     }
   });
 
+  // Eat first, pay at the counter: the order joins the table's open bill and goes straight to the kitchen
+  const payLaterMutation = useMutation({
+    mutationFn: async (orderData: any) => {
+      const response = await apiRequest('POST', '/api/orders/pay-later', orderData);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      clearCart();
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+      toast({
+        title: data.action === 'updated' ? "Pesanan ditambahkan ke tagihan meja" : "Pesanan diterima",
+        description: "Silakan bayar di kasir setelah selesai makan",
+      });
+      setLocation(`/track/${data.order.trackingToken}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Gagal mengirim pesanan",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
   // Real-time payment status checking
   const { data: paymentStatusData } = useQuery<PaymentStatus>({
     queryKey: ['/api/orders', orderId, 'payment-status'],
@@ -87,6 +158,48 @@ export default function PaymentPage() {
     staleTime: 0,
   });
 
+  // Give up on this payment and go back to choosing a method; the cart is kept
+  const cancelPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/orders/${orderId}/payment/cancel`, {
+        trackingToken: paymentData?.order.trackingToken,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setOrderId(null);
+      setPaymentData(null);
+      setPaymentStatus('creating');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Gagal membatalkan pembayaran",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Mock gateway only: pretend the customer paid so the flow can be tried without real money
+  const simulatePaymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/payments/mock/${paymentData?.payment.midtransOrderId}/simulate`, { status: 'paid' });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', orderId, 'payment-status'] });
+    }
+  });
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Disalin", description: text });
+    } catch {
+      toast({ title: "Gagal menyalin", variant: "destructive" });
+    }
+  };
+
   // Handle payment status updates
   useEffect(() => {
     if (paymentStatusData && orderId) {
@@ -122,7 +235,7 @@ export default function PaymentPage() {
     }
   }, [paymentStatusData, orderId, clearCart, setLocation, toast]);
 
-  const handleCreateOrder = async () => {
+  const handleCreateOrder = async (payLater = false) => {
     if (cartItems.length === 0) {
       toast({
         title: "Keranjang kosong",
@@ -144,21 +257,38 @@ export default function PaymentPage() {
       return;
     }
 
-    const { name, table } = JSON.parse(customerData);
+    const { name, table, tableToken, tableSession } = JSON.parse(customerData);
 
     // Convert cart items to order items
     const orderItems: OrderItem[] = cartItems.map(item => ({
-      itemId: item.id,
+      itemId: item.itemId ?? item.id,
       name: item.name,
       price: item.price,
       quantity: item.quantity,
-      notes: item.notes || ""
+      notes: item.notes || "",
+      modifiers: item.modifiers,
     }));
 
+    if (payLater) {
+      payLaterMutation.mutate({
+        customerName: name,
+        tableSession,
+        items: orderItems.map(item => ({
+          itemId: item.itemId,
+          quantity: item.quantity,
+          notes: item.notes,
+          modifierOptionIds: item.modifiers?.map(modifier => modifier.optionId),
+        })),
+      });
+      return;
+    }
+
     const orderData = {
       customerName: name,
       tableNumber: table,
+      tableToken,
       items: orderItems,
+      voucherCode: voucherCode || undefined,
     };
 
     createOrderMutation.mutate(orderData);
@@ -177,16 +307,63 @@ export default function PaymentPage() {
     if (paymentStatus === 'creating') {
       return (
         <div className="space-y-8">
-          {/* QRIS Payment Method - Always selected */}
+          {/* Payment methods enabled in the store settings */}
           <div>
             <h2 className="text-lg font-semibold text-foreground mb-4">Metode Pembayaran</h2>
-            <div className="w-full">
-              <div className="h-32 border-2 border-primary bg-primary/5 rounded-2xl flex flex-col items-center justify-center transition-all relative">
-                <Check className="absolute top-2 right-2 h-5 w-5 text-primary" />
-                <CreditCard className="h-8 w-8 text-primary mb-2" />
-                <span className="font-medium text-primary">QRIS Payment</span>
-              </div>
+            <div className="grid grid-cols-1 gap-3">
+              {onlineMethods.map(method => {
+                const Icon = METHOD_ICONS[method];
+                const isSelected = method === selectedMethod;
+                return (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => setSelectedMethod(method)}
+                    className={`h-20 border-2 rounded-2xl flex items-center gap-3 px-5 transition-all relative ${isSelected ? 'border-primary bg-primary/5' : 'border-border'}`}
+                    data-testid={`button-payment-method-${method}`}
+                  >
+                    {isSelected && <Check className="absolute top-2 right-2 h-5 w-5 text-primary" />}
+                    <Icon className={`h-7 w-7 ${isSelected ? 'text-primary' : 'text-muted-foreground'}`} />
+                    <span className={`font-medium ${isSelected ? 'text-primary' : 'text-foreground'}`}>{PAYMENT_METHOD_LABELS[method]}</span>
+                  </button>
+                );
+              })}
             </div>
+
+            {selectedMethod === 'bank_transfer' && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm text-muted-foreground">Pilih bank</p>
+                <Select value={bank} onValueChange={(value) => setBank(value as BankTransferBank)}>
+                  <SelectTrigger data-testid="select-bank">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BANK_TRANSFER_BANK_LABELS) as BankTransferBank[]).map(code => (
+                      <SelectItem key={code} value={code}>{BANK_TRANSFER_BANK_LABELS[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {selectedMethod === 'ewallet' && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm text-muted-foreground">Pilih e-wallet</p>
+                <div className="grid grid-cols-2 gap-3">
+                  {(Object.keys(EWALLET_CHANNEL_LABELS) as EwalletChannel[]).map(code => (
+                    <Button
+                      key={code}
+                      type="button"
+                      variant={ewallet === code ? "default" : "outline"}
+                      onClick={() => setEwallet(code)}
+                      data-testid={`button-ewallet-${code}`}
+                    >
+                      {EWALLET_CHANNEL_LABELS[code]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Total */}
@@ -200,8 +377,8 @@ export default function PaymentPage() {
           </div>
 
           <Button
-            onClick={handleCreateOrder}
-            disabled={createOrderMutation.isPending}
+            onClick={() => handleCreateOrder()}
+            disabled={createOrderMutation.isPending || payLaterMutation.isPending}
             className="w-full h-14 font-semibold rounded-xl"
             data-testid="button-create-payment"
           >
@@ -211,9 +388,37 @@ export default function PaymentPage() {
                 Membuat Pembayaran...
               </>
             ) : (
-              "Buat Pembayaran QRIS"
+              `Bayar dengan ${PAYMENT_METHOD_LABELS[selectedMethod]}`
             )}
           </Button>
+
+          {/* Only offered to customers who scanned their table's QR code */}
+          {canPayLater && (
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                onClick={() => handleCreateOrder(true)}
+                disabled={createOrderMutation.isPending || payLaterMutation.isPending}
+                className="w-full h-14 font-semibold rounded-xl"
+                data-testid="button-pay-later"
+              >
+                {payLaterMutation.isPending ? (
+                  <>
+                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                    Mengirim Pesanan...
+                  </>
+                ) : (
+                  <>
+                    <Clock className="h-4 w-4 mr-2" />
+                    Pesan Sekarang, Bayar Nanti di Kasir
+                  </>
+                )}
+              </Button>
+              <p className="text-xs text-center text-muted-foreground">
+                Pesanan tambahan masuk ke tagihan meja yang sama. Voucher dapat dipakai saat membayar di kasir
+              </p>
+            </div>
+          )}
         </div>
       );
     }
@@ -221,35 +426,87 @@ export default function PaymentPage() {
     if (paymentStatus === 'pending' && paymentData) {
       return (
         <div className="space-y-6">
-          {/* QR Code Display */}
-          <div className="alonica-card p-6 text-center" data-testid="qris-payment">
-            <div className="mb-4">
-              <h2 className="text-lg font-semibold text-foreground mb-2">Scan QR Code untuk Bayar</h2>
-              <p className="text-sm text-muted-foreground">
-                Gunakan aplikasi e-wallet atau mobile banking Anda
-              </p>
-            </div>
-
-            {/* Real Midtrans QRIS code or fallback */}
-            {paymentData.payment.qrisUrl ? (
-              <img 
-                src={paymentData.payment.qrisUrl} 
-                alt="QRIS Payment Code" 
-                className="w-48 h-48 mx-auto mb-4 rounded-xl border"
-                data-testid="img-qris-code"
-              />
-            ) : paymentData.payment.qrisString ? (
-              <div className="w-48 h-48 mx-auto mb-4 rounded-xl border bg-white flex items-center justify-center">
-                <p className="text-xs text-center p-2 font-mono break-all">
-                  {paymentData.payment.qrisString}
+          <div className="alonica-card p-6 text-center" data-testid={`${paymentData.payment.method}-payment`}>
+            {paymentData.payment.method === 'bank_transfer' ? (
+              <div className="mb-4 space-y-3">
+                <h2 className="text-lg font-semibold text-foreground">
+                  Transfer ke Virtual Account {BANK_TRANSFER_BANK_LABELS[paymentData.payment.channel as BankTransferBank] ?? ''}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Bayar lewat m-banking, internet banking atau ATM sesuai total di bawah
                 </p>
+                <div className="flex items-center justify-center gap-2">
+                  <span className="text-2xl font-mono font-bold tracking-wider" data-testid="text-va-number">
+                    {paymentData.payment.vaNumber}
+                  </span>
+                  {paymentData.payment.vaNumber && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => copyToClipboard(paymentData.payment.vaNumber!)}
+                      data-testid="button-copy-va-number"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
               </div>
-            ) : (
-              <div className="w-48 h-48 mx-auto mb-4 rounded-xl border bg-muted flex items-center justify-center">
-                <p className="text-sm text-muted-foreground text-center">
-                  QR Code akan muncul setelah pembayaran dibuat
-                </p>
+            ) : paymentData.payment.method === 'ewallet' ? (
+              <div className="mb-4 space-y-3">
+                <h2 className="text-lg font-semibold text-foreground">
+                  Bayar dengan {EWALLET_CHANNEL_LABELS[paymentData.payment.channel as EwalletChannel] ?? 'E-Wallet'}
+                </h2>
+                {paymentData.payment.deeplinkUrl ? (
+                  <Button asChild className="w-full" data-testid="button-open-ewallet">
+                    <a href={paymentData.payment.deeplinkUrl}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Buka Aplikasi {EWALLET_CHANNEL_LABELS[paymentData.payment.channel as EwalletChannel] ?? 'E-Wallet'}
+                    </a>
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Selesaikan pembayaran di aplikasi e-wallet Anda</p>
+                )}
+                {/* GoPay also returns a QR code for paying from another phone */}
+                {paymentData.payment.qrisUrl && (
+                  <img
+                    src={paymentData.payment.qrisUrl}
+                    alt="E-wallet Payment Code"
+                    className="w-48 h-48 mx-auto rounded-xl border"
+                    data-testid="img-ewallet-qr"
+                  />
+                )}
               </div>
+            ) : (
+              <>
+                <div className="mb-4">
+                  <h2 className="text-lg font-semibold text-foreground mb-2">Scan QR Code untuk Bayar</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Gunakan aplikasi e-wallet atau mobile banking Anda
+                  </p>
+                </div>
+
+                {/* Real gateway QRIS code or fallback */}
+                {paymentData.payment.qrisUrl ? (
+                  <img 
+                    src={paymentData.payment.qrisUrl} 
+                    alt="QRIS Payment Code" 
+                    className="w-48 h-48 mx-auto mb-4 rounded-xl border"
+                    data-testid="img-qris-code"
+                  />
+                ) : paymentData.payment.qrisString ? (
+                  <div className="w-48 h-48 mx-auto mb-4 rounded-xl border bg-white flex items-center justify-center">
+                    <p className="text-xs text-center p-2 font-mono break-all">
+                      {paymentData.payment.qrisString}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="w-48 h-48 mx-auto mb-4 rounded-xl border bg-muted flex items-center justify-center">
+                    <p className="text-sm text-muted-foreground text-center">
+                      QR Code akan muncul setelah pembayaran dibuat
+                    </p>
+                  </div>
+                )}
+              </>
             )}
 
             <div className="space-y-2 text-sm text-muted-foreground">
@@ -274,6 +531,28 @@ export default function PaymentPage() {
               Silakan lakukan pembayaran, status akan terupdate otomatis
             </p>
           </div>
+
+          {paymentData.payment.mock && (
+            <Button
+              onClick={() => simulatePaymentMutation.mutate()}
+              disabled={simulatePaymentMutation.isPending}
+              variant="secondary"
+              className="w-full"
+              data-testid="button-simulate-payment"
+            >
+              Simulasikan Pembayaran Berhasil (Mock)
+            </Button>
+          )}
+
+          <Button
+            onClick={() => cancelPaymentMutation.mutate()}
+            disabled={cancelPaymentMutation.isPending}
+            variant="outline"
+            className="w-full"
+            data-testid="button-change-payment-method"
+          >
+            Ganti Metode Pembayaran
+          </Button>
         </div>
       );
     }
@@ -334,7 +613,7 @@ export default function PaymentPage() {
             <ArrowLeft className="h-6 w-6" />
           </Button>
           <h1 className="text-2xl font-playfair font-bold text-primary" data-testid="text-page-title">
-            QRIS Payment
+            Pembayaran
           </h1>
         </div>
       </header>
@@ -1,10 +1,12 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { Check, Printer, ArrowLeft } from "lucide-react";
+import { Check, Printer, ArrowLeft, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { formatCurrency } from "@/lib/utils";
 import { printWithThermalSettings, getThermalPreference } from "@/utils/thermal-print";
-import type { Order } from "@shared/schema";
+import type { Order, PaymentMethod } from "@shared/schema";
+import { formatModifiers } from "@shared/modifiers";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
 
 interface ReceiptData extends Order {
   orderDate: string;
@@ -182,6 +184,11 @@ export default function SuccessPage() {
                   <p className="text-sm text-muted-foreground">
                     {item.quantity} x {formatCurrency(item.price)}
                   </p>
+                  {!!item.modifiers?.length && (
+                    <p className="text-xs text-muted-foreground" data-testid={`text-item-modifiers-${index}`}>
+                      {formatModifiers(item.modifiers)}
+                    </p>
+                  )}
                   {item.notes && (
                     <p className="text-xs text-muted-foreground italic" data-testid={`text-item-notes-${index}`}>
                       Catatan: {item.notes}
@@ -219,7 +226,7 @@ export default function SuccessPage() {
             <div>
               <p className="text-muted-foreground text-sm">Metode Pembayaran</p>
               <p className="font-medium text-foreground capitalize" data-testid="text-payment-method">
-                {receiptData.paymentMethod === 'qris' ? 'QRIS' : 'Cash'}
+                {PAYMENT_METHOD_LABELS[receiptData.paymentMethod as PaymentMethod] || 'QRIS'}
               </p>
             </div>
             <div>
@@ -243,6 +250,16 @@ export default function SuccessPage() {
 
         {/* Action Buttons */}
         <div className="max-w-md mx-auto mt-8 space-y-4 print-hide">
+          {receiptData.trackingToken && (
+            <Button
+              onClick={() => setLocation(`/track/${receiptData.trackingToken}`)}
+              className="w-full h-12 rounded-xl"
+              data-testid="button-track-order"
+            >
+              <MapPin className="h-5 w-5 mr-2" />
+              Lacak Pesanan
+            </Button>
+          )}
           <Button
             onClick={handlePrintReceipt}
             variant="outline"
@@ -0,0 +1,223 @@
+import { useLocation, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Clock, ChefHat, Bell, Plus, Receipt, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { formatModifiers } from "@shared/modifiers";
+import { ORDER_TRACKING_LABELS, ORDER_TRACKING_STEPS, SERVICE_REQUEST_LABELS } from "@shared/order-tracking";
+import type { OrderTracking, ServiceRequestType } from "@shared/schema";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+export default function TrackOrderPage() {
+  const [, params] = useRoute("/track/:token");
+  const [, setLocation] = useLocation();
+  const token = params?.token ?? "";
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const trackingKey = `/api/track/${token}`;
+
+  // Customers have no realtime channel; poll while the page is open
+  const { data: tracking, isLoading, error } = useQuery<OrderTracking>({
+    queryKey: [trackingKey],
+    enabled: !!token,
+    refetchInterval: (query) => {
+      const status = query.state.data?.orderStatus;
+      return status === 'served' || status === 'cancelled' ? 30000 : 10000;
+    },
+  });
+
+  const serviceRequestMutation = useMutation({
+    mutationFn: async (type: ServiceRequestType) => {
+      const response = await apiRequest('POST', `${trackingKey}/requests`, { type });
+      return response.json() as Promise<OrderTracking>;
+    },
+    onSuccess: (data, type) => {
+      queryClient.setQueryData([trackingKey], data);
+      toast({
+        title: type === 'request_bill' ? "Permintaan bill terkirim" : "Pelayan dipanggil",
+        description: "Staf kami akan segera datang ke meja Anda",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Gagal mengirim permintaan",
+        description: error.message || "Silakan coba lagi atau hubungi staf kami",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!tracking || error) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col justify-center items-center px-6 text-center">
+        <XCircle className="h-12 w-12 text-muted-foreground mb-4" />
+        <h1 className="page-title mb-2" data-testid="text-tracking-not-found">Pesanan tidak ditemukan</h1>
+        <p className="text-muted-foreground">Periksa kembali tautan pelacakan pesanan Anda</p>
+      </div>
+    );
+  }
+
+  const isCancelled = tracking.orderStatus === 'cancelled';
+  const currentStep = ORDER_TRACKING_STEPS.indexOf(tracking.orderStatus);
+  const stepTimes = [tracking.createdAt, tracking.preparingAt, tracking.readyAt, tracking.servedAt];
+  const readyItems = tracking.items.filter(item => item.ready).length;
+  const canRequestBill = tracking.payLater && tracking.paymentStatus !== 'paid' && tracking.paymentStatus !== 'refunded';
+  const minutesLeft = tracking.estimatedReadyAt
+    ? Math.max(1, Math.round((new Date(tracking.estimatedReadyAt).getTime() - Date.now()) / 60000))
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background pb-10">
+      {/* Header */}
+      <header className="bg-white shadow-sm px-6 py-4 sticky top-0 z-10">
+        <h1 className="page-title font-playfair text-primary text-center" data-testid="text-brand-header">
+          Alonica
+        </h1>
+      </header>
+
+      <div className="px-6 py-6 max-w-md mx-auto space-y-6">
+        <div className="text-center">
+          <p className="text-muted-foreground">Halo, {tracking.customerName}</p>
+          <h2 className="text-xl font-semibold" data-testid="text-tracking-table">Meja {tracking.tableNumber}</h2>
+          <p className="text-sm text-muted-foreground">Dipesan pukul {formatTime(tracking.createdAt)}</p>
+        </div>
+
+        {isCancelled ? (
+          <div className="alonica-card p-6 text-center" data-testid="text-order-cancelled">
+            <XCircle className="h-10 w-10 text-destructive mx-auto mb-2" />
+            <p className="font-semibold">{ORDER_TRACKING_LABELS.cancelled}</p>
+            <p className="text-sm text-muted-foreground">Silakan hubungi staf kami untuk informasi lebih lanjut</p>
+          </div>
+        ) : (
+          <>
+            {/* Estimated wait */}
+            {minutesLeft !== null && (
+              <div className="alonica-card p-5 text-center" data-testid="card-estimated-wait">
+                <Clock className="h-6 w-6 text-primary mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground">Perkiraan siap</p>
+                <p className="text-2xl font-bold text-primary" data-testid="text-estimated-ready">
+                  ±{minutesLeft} menit
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  sekitar pukul {formatTime(tracking.estimatedReadyAt!)}
+                  {tracking.ordersAhead > 0 && ` · ${tracking.ordersAhead} pesanan sebelum Anda`}
+                </p>
+              </div>
+            )}
+
+            {/* Status steps */}
+            <div className="alonica-card p-5">
+              <ol className="space-y-4">
+                {ORDER_TRACKING_STEPS.map((step, index) => {
+                  const done = index <= currentStep;
+                  return (
+                    <li key={step} className="flex items-center gap-3" data-testid={`step-${step}`}>
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                        done ? 'bg-primary text-white' : 'bg-muted text-muted-foreground'
+                      } ${index === currentStep ? 'ring-4 ring-primary/20' : ''}`}>
+                        {done ? <Check className="h-4 w-4" /> : <span className="text-sm">{index + 1}</span>}
+                      </div>
+                      <div className="flex-1">
+                        <p className={done ? 'font-medium' : 'text-muted-foreground'}>{ORDER_TRACKING_LABELS[step]}</p>
+                      </div>
+                      {done && stepTimes[index] && (
+                        <span className="text-xs text-muted-foreground">{formatTime(stepTimes[index]!)}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </>
+        )}
+
+        {/* Items */}
+        <div className="alonica-card p-5">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center gap-2">
+              <ChefHat className="h-4 w-4" />
+              Pesanan Anda
+            </h3>
+            {!isCancelled && (
+              <Badge variant="outline" data-testid="badge-items-ready">
+                {readyItems}/{tracking.items.length} siap
+              </Badge>
+            )}
+          </div>
+          <div className="space-y-3">
+            {tracking.items.map((item, index) => (
+              <div key={index} className="flex items-start justify-between gap-3" data-testid={`tracking-item-${index}`}>
+                <div>
+                  <p className="font-medium">{item.quantity}x {item.name}</p>
+                  {!!item.modifiers?.length && (
+                    <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  {item.notes && <p className="text-xs text-muted-foreground italic">Catatan: {item.notes}</p>}
+                </div>
+                {item.ready && !isCancelled ? (
+                  <Badge className="bg-green-100 text-green-800 shrink-0">Siap</Badge>
+                ) : (
+                  <Badge variant="outline" className="shrink-0">Diproses</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between border-t border-border mt-4 pt-3 font-semibold">
+            <span>Total</span>
+            <span data-testid="text-tracking-total">{formatCurrency(tracking.total)}</span>
+          </div>
+        </div>
+
+        {/* Service requests */}
+        {!isCancelled && (
+          <div className="grid gap-3" style={{ gridTemplateColumns: canRequestBill ? '1fr 1fr' : '1fr' }}>
+            {(['call_waiter', 'request_bill'] as ServiceRequestType[])
+              .filter(type => type === 'call_waiter' || canRequestBill)
+              .map(type => {
+                const requested = tracking.openRequests.includes(type);
+                return (
+                  <Button
+                    key={type}
+                    variant={type === 'call_waiter' ? 'default' : 'outline'}
+                    className="h-12 rounded-xl"
+                    onClick={() => serviceRequestMutation.mutate(type)}
+                    disabled={requested || serviceRequestMutation.isPending}
+                    data-testid={`button-${type.replace('_', '-')}`}
+                  >
+                    {type === 'call_waiter' ? <Bell className="h-4 w-4 mr-2" /> : <Receipt className="h-4 w-4 mr-2" />}
+                    {requested ? "Menunggu staf..." : SERVICE_REQUEST_LABELS[type]}
+                  </Button>
+                );
+              })}
+          </div>
+        )}
+
+        {/* Open bills take more rounds until the table pays */}
+        {!isCancelled && canRequestBill && (
+          <Button
+            variant="outline"
+            className="w-full h-12 rounded-xl"
+            onClick={() => setLocation("/menu")}
+            data-testid="button-add-items"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Pesanan
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -240,7 +240,7 @@ export default function WelcomePage() {
     }
   }, [user, setLocation]);
 
-  const handleStartOrder = () => {
+  const handleStartOrder = async () => {
     if (!customerName.trim() || !tableNumber.trim()) {
       toast({
         title: "Data tidak lengkap",
@@ -250,12 +250,24 @@ export default function WelcomePage() {
       return;
     }
 
-    // Validate table number is numeric and within valid range
-    const tableNum = parseInt(tableNumber.trim());
-    if (isNaN(tableNum) || tableNum < 1 || tableNum > 999) {
+    // Typed table numbers only work while the restaurant has no tables list; otherwise customers scan the table's QR code
+    let table: { tableId: string | null; tableNumber: string };
+    try {
+      const response = await fetch(`/api/tables/lookup?number=${encodeURIComponent(tableNumber.trim())}`);
+      const data = await response.json();
+      if (!response.ok) {
+        toast({
+          title: "Nomor meja tidak valid",
+          description: data.message || "Nomor meja tidak terdaftar",
+          variant: "destructive",
+        });
+        return;
+      }
+      table = data;
+    } catch (error) {
       toast({
-        title: "Nomor meja tidak valid",
-        description: "Nomor meja harus berupa angka (1-999)",
+        title: "Gagal memeriksa meja",
+        description: "Periksa koneksi internet lalu coba lagi",
         variant: "destructive",
       });
       return;
@@ -264,7 +276,7 @@ export default function WelcomePage() {
     // Store customer data
     localStorage.setItem('alonica-customer', JSON.stringify({
       name: customerName.trim(),
-      table: tableNumber.trim()
+      table: table.tableNumber
     }));
 
     setLocation("/menu");
@@ -0,0 +1,62 @@
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import type { TableQrCode } from '@shared/schema';
+
+const CARD_COLUMNS = 2;
+const CARD_ROWS = 3;
+const CARD_WIDTH = 90; // mm
+const CARD_HEIGHT = 88;
+const QR_SIZE = 58;
+
+// Scanning opens the customer menu already bound to the table
+export function getTableQrUrl(token: string): string {
+  return `${window.location.origin}/menu?table=${encodeURIComponent(token)}`;
+}
+
+/**
+ * A4 sheet of cut-out table cards, six per page: restaurant name, QR code and table number.
+ * Codes stop working once the table's token is rotated, so reprint after rotating.
+ */
+export async function downloadTableQrSheet(codes: TableQrCode[], restaurantName: string): Promise<void> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const marginX = (pageWidth - CARD_COLUMNS * CARD_WIDTH) / 2;
+  const marginY = (pageHeight - CARD_ROWS * CARD_HEIGHT) / 2;
+  const perPage = CARD_COLUMNS * CARD_ROWS;
+
+  for (let index = 0; index < codes.length; index++) {
+    const code = codes[index];
+    if (index > 0 && index % perPage === 0) {
+      doc.addPage();
+    }
+
+    const slot = index % perPage;
+    const x = marginX + (slot % CARD_COLUMNS) * CARD_WIDTH;
+    const y = marginY + Math.floor(slot / CARD_COLUMNS) * CARD_HEIGHT;
+    const centerX = x + CARD_WIDTH / 2;
+
+    // Dashed cut lines around each card
+    doc.setLineDashPattern([2, 2], 0);
+    doc.setDrawColor(180, 180, 180);
+    doc.rect(x, y, CARD_WIDTH, CARD_HEIGHT);
+    doc.setLineDashPattern([], 0);
+
+    doc.setFontSize(14);
+    doc.setTextColor(220, 38, 38); // Primary red color
+    doc.text(restaurantName, centerX, y + 9, { align: 'center' });
+
+    const qrImage = await QRCode.toDataURL(getTableQrUrl(code.token), { errorCorrectionLevel: 'M', margin: 1, width: 512 });
+    doc.addImage(qrImage, 'PNG', centerX - QR_SIZE / 2, y + 12, QR_SIZE, QR_SIZE);
+
+    doc.setFontSize(18);
+    doc.setTextColor(0, 0, 0);
+    doc.text(`Meja ${code.number}`, centerX, y + 77, { align: 'center' });
+
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`${code.area} · Pindai untuk melihat menu & memesan`, centerX, y + 83, { align: 'center' });
+  }
+
+  doc.save(`qr-meja-${new Date().toISOString().slice(0, 10)}.pdf`);
+}
@@ -3,6 +3,13 @@
  * Supports both Windows print dialog and direct Bluetooth printing
  */
 
+import { formatModifiers } from "@shared/modifiers";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { getDenominationLabel } from "@shared/cash-count";
+import { ESC_POS_COMMANDS, buildKitchenTicketCommands, buildPrintJobCommands, encodeEscPos, formatPrintDate as formatDate } from "@shared/escpos";
+import type { PaymentMethod, PrintJob, PrintSetting, SalesReport } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
 // Web Bluetooth API Type Definitions
 declare global {
   interface Navigator {
@@ -60,16 +67,50 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-// Format date
-function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat('id-ID', {
-    day: '2-digit',
-    month: 'long', 
-    year: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false
-  }).format(date);
+// Discount, service charge, tax and rounding rows printed between subtotal and total
+function getReceiptChargeLines(order: any): { label: string; amount: number }[] {
+  const lines: { label: string; amount: number }[] = [];
+
+  if (order.discount > 0) {
+    lines.push({ label: order.voucherCode ? `Diskon (${order.voucherCode})` : 'Diskon', amount: -order.discount });
+  }
+  if (order.serviceCharge > 0) {
+    lines.push({ label: `Service ${order.serviceChargeRate || 0}%`, amount: order.serviceCharge });
+  }
+  if (order.tax > 0) {
+    lines.push({ label: `PB1 ${order.taxRate || 0}%${order.taxInclusive ? ' (termasuk)' : ''}`, amount: order.tax });
+  }
+  if (order.rounding) {
+    lines.push({ label: 'Pembulatan', amount: order.rounding });
+  }
+
+  return lines;
+}
+
+// Cash prints as TUNAI; older orders without a method were QRIS
+function getPaymentMethodLabel(paymentMethod?: string): string {
+  if (paymentMethod === 'cash') return 'TUNAI';
+  return PAYMENT_METHOD_LABELS[paymentMethod as PaymentMethod] ?? 'QRIS';
+}
+
+// Every tender of a bill paid with more than one payment, followed by the cash handed over and change
+function getReceiptTenderLines(order: any): { label: string; amount: number }[] {
+  const payments: any[] = Array.isArray(order.payments) ? order.payments : [];
+  if (payments.length < 2) return [];
+
+  const lines = payments.map(payment => ({
+    label: payment.reference
+      ? `${getPaymentMethodLabel(payment.method)} (${payment.reference})`
+      : getPaymentMethodLabel(payment.method),
+    amount: payment.amount,
+  }));
+
+  const cashPayments = payments.filter(payment => payment.method === 'cash');
+  if (cashPayments.length > 0) {
+    lines.push({ label: 'Tunai Diterima', amount: cashPayments.reduce((sum, payment) => sum + (payment.cashReceived ?? payment.amount), 0) });
+    lines.push({ label: 'Kembalian', amount: cashPayments.reduce((sum, payment) => sum + (payment.change || 0), 0) });
+  }
+  return lines;
 }
 
 // Build simple HTML receipt
@@ -90,6 +131,7 @@ function buildReceiptHTML(order: any): string {
           <div style="font-size: 10px; color: #666;">
             ${item.quantity || 0}x ${formatCurrency(item.price || 0)}
           </div>
+          ${item.modifiers?.length ? `<div style="font-size: 10px; color: #666;">${escapeHTML(formatModifiers(item.modifiers))}</div>` : ''}
           ${item.notes ? `<div style="font-size: 9px; color: #888; font-style: italic;">Catatan: ${escapeHTML(item.notes)}</div>` : ''}
         </div>
       `;
@@ -175,6 +217,11 @@ function buildReceiptHTML(order: any): string {
           <span>Order ID:</span>
           <span>#${escapeHTML(order.id?.slice(-8)?.toUpperCase() || 'N/A')}</span>
         </div>
+        ${order.splitLabel ? `
+        <div class="row">
+          <span>Split Bill:</span>
+          <span>${escapeHTML(order.splitLabel)}</span>
+        </div>` : ''}
         
         <div class="separator"></div>
         
@@ -187,6 +234,11 @@ function buildReceiptHTML(order: any): string {
           <span>Subtotal:</span>
           <span>${formatCurrency(order.subtotal || 0)}</span>
         </div>
+        ${getReceiptChargeLines(order).map(line => `
+        <div class="row">
+          <span>${line.label}:</span>
+          <span>${formatCurrency(line.amount)}</span>
+        </div>`).join('')}
         
         <div class="row total">
           <span>Total:</span>
@@ -197,8 +249,18 @@ function buildReceiptHTML(order: any): string {
         
         <div class="row">
           <span>Metode Pembayaran:</span>
-          <span>${order.paymentMethod === 'cash' ? 'TUNAI' : 'QRIS'}</span>
+          <span>${getPaymentMethodLabel(order.paymentMethod)}</span>
         </div>
+        ${order.paymentReference ? `
+        <div class="row">
+          <span>Ref:</span>
+          <span>${escapeHTML(order.paymentReference)}</span>
+        </div>` : ''}
+        ${getReceiptTenderLines(order).map(line => `
+        <div class="row">
+          <span>${escapeHTML(line.label)}:</span>
+          <span>${formatCurrency(line.amount)}</span>
+        </div>`).join('')}
         
         <div class="row">
           <span>Status:</span>
@@ -223,26 +285,6 @@ function buildReceiptHTML(order: any): string {
   `;
 }
 
-// ESC/POS Commands for thermal printers
-const ESC = '\x1b';
-const GS = '\x1d';
-
-const ESC_POS_COMMANDS = {
-  INIT: ESC + '@',                    // Initialize printer
-  CENTER: ESC + 'a' + '\x01',         // Center align
-  LEFT: ESC + 'a' + '\x00',           // Left align
-  RIGHT: ESC + 'a' + '\x02',          // Right align
-  BOLD_ON: ESC + 'E' + '\x01',        // Bold on
-  BOLD_OFF: ESC + 'E' + '\x00',       // Bold off
-  UNDERLINE_ON: ESC + '-' + '\x01',   // Underline on
-  UNDERLINE_OFF: ESC + '-' + '\x00',  // Underline off
-  DOUBLE_HEIGHT: GS + '!' + '\x01',   // Double height
-  NORMAL_SIZE: GS + '!' + '\x00',     // Normal size
-  CUT_PAPER: GS + 'V' + '\x42' + '\x00', // Cut paper
-  LINE_FEED: '\n',
-  FORM_FEED: '\x0c'
-};
-
 /**
  * Connect to Bluetooth thermal printer
  */
@@ -356,6 +398,9 @@ function buildReceiptCommands(order: any): string {
   commands += `Customer: ${order.customerName || 'N/A'}\n`;
   commands += `Meja: ${order.tableNumber || 'N/A'}\n`;
   commands += `Order ID: #${order.id?.slice(-8)?.toUpperCase() || 'N/A'}\n`;
+  if (order.splitLabel) {
+    commands += `Split Bill: ${order.splitLabel}\n`;
+  }
   commands += '================================\n';
   
   // Items
@@ -375,6 +420,9 @@ function buildReceiptCommands(order: any): string {
       commands += `${itemName}\n`;
       commands += `  ${qty}x ${price}${' '.repeat(Math.max(0, 16 - total.length))}${total}\n`;
       
+      if (item.modifiers?.length) {
+        commands += `  ${formatModifiers(item.modifiers)}\n`;
+      }
       if (item.notes) {
         commands += `  Catatan: ${item.notes}\n`;
       }
@@ -385,13 +433,26 @@ function buildReceiptCommands(order: any): string {
   
   // Totals
   commands += `Subtotal:${' '.repeat(16)}${formatCurrency(order.subtotal || 0)}\n`;
+  getReceiptChargeLines(order).forEach(line => {
+    const label = `${line.label}:`;
+    const amount = formatCurrency(line.amount);
+    commands += `${label}${' '.repeat(Math.max(1, 32 - label.length - amount.length))}${amount}\n`;
+  });
   commands += ESC_POS_COMMANDS.BOLD_ON;
   commands += `TOTAL:${' '.repeat(18)}${formatCurrency(order.total || 0)}\n`;
   commands += ESC_POS_COMMANDS.BOLD_OFF;
   commands += '================================\n';
   
   // Payment info
-  commands += `Metode: ${order.paymentMethod === 'cash' ? 'TUNAI' : 'QRIS'}\n`;
+  commands += `Metode: ${getPaymentMethodLabel(order.paymentMethod)}\n`;
+  if (order.paymentReference) {
+    commands += `Ref: ${order.paymentReference}\n`;
+  }
+  getReceiptTenderLines(order).forEach(line => {
+    const label = `${line.label}:`;
+    const amount = formatCurrency(line.amount);
+    commands += `${label}${' '.repeat(Math.max(1, 32 - label.length - amount.length))}${amount}\n`;
+  });
   commands += `Status: ${order.status === 'completed' ? 'Selesai' : order.status === 'ready' ? 'Siap' : order.status === 'preparing' ? 'Diproses' : 'Pending'}\n`;
   commands += '================================\n';
   
@@ -423,8 +484,7 @@ export async function printReceiptBluetooth(order: any): Promise<boolean> {
 
   try {
     const commands = buildReceiptCommands(order);
-    const encoder = new TextEncoder();
-    const data = encoder.encode(commands);
+    const data = encodeEscPos(commands);
     
     await bluetoothCharacteristic!.writeValue(data);
     
@@ -437,6 +497,29 @@ export async function printReceiptBluetooth(order: any): Promise<boolean> {
   }
 }
 
+/**
+ * Print receipt on the active printer when it is a LAN printer; the server sends the ESC/POS bytes.
+ * Returns false when there is no network printer or it could not be reached
+ */
+export async function printReceiptNetwork(order: any): Promise<boolean> {
+  try {
+    const response = await apiRequest('GET', '/api/print-settings/active');
+    const setting: PrintSetting | null = await response.json();
+    if (setting?.connectionType !== 'network') {
+      return false;
+    }
+
+    const data = encodeEscPos(buildReceiptCommands(order));
+    await apiRequest('POST', `/api/print-settings/${setting.id}/print`, {
+      data: btoa(Array.from(data, byte => String.fromCharCode(byte)).join('')),
+    });
+    return true;
+  } catch (error) {
+    console.error('Network print error:', error);
+    return false;
+  }
+}
+
 /**
  * Simple receipt printing - open new window and print (fallback)
  */
@@ -459,9 +542,13 @@ export function printReceipt(order: any): void {
 }
 
 /**
- * Smart print function - tries Bluetooth first, fallback to Windows dialog
+ * Smart print function - tries the network printer, then Bluetooth, fallback to Windows dialog
  */
 export async function smartPrintReceipt(order: any): Promise<void> {
+  if (await printReceiptNetwork(order)) {
+    return; // Sent to the LAN printer
+  }
+
   if (isBluetoothPrinterConnected()) {
     const success = await printReceiptBluetooth(order);
     if (success) {
@@ -486,14 +573,15 @@ export function saveThermalPreference(paperSize: ThermalPaperSize): void {
 }
 
 /**
- * Build kitchen ticket HTML for printing
+ * Build kitchen ticket HTML for printing. A void ticket tells the station to stop making the items
  */
-function buildKitchenTicketHTML(order: any, station?: string, filteredItems?: any[]): string {
+function buildKitchenTicketHTML(order: any, station?: string, filteredItems?: any[], voided = false): string {
   const orderDate = new Date(order.createdAt);
-  const stationName = station === 'bar' ? 'BAR' : 'KITCHEN';
-  const itemsLabel = station === 'bar' ? 'DRINKS TO PREPARE:' : 'ITEMS TO PREPARE:';
-  const copyLabel = station === 'bar' ? '** BAR COPY **' : '** KITCHEN COPY **';
-  const instructions = station === 'bar' ? 'Please prepare drinks as ordered' : 'Please prepare items as ordered';
+  const stationName = escapeHTML((station || 'kitchen').toUpperCase());
+  const ticketLabel = voided ? 'VOID TICKET' : 'ORDER TICKET';
+  const itemsLabel = voided ? 'ITEMS TO CANCEL:' : 'ITEMS TO PREPARE:';
+  const copyLabel = voided ? `** VOID - ${stationName} COPY **` : `** ${stationName} COPY **`;
+  const instructions = voided ? 'Stop preparing the items above' : 'Please prepare items as ordered';
   
   // Use filtered items if provided, otherwise use all items
   const itemsToShow = filteredItems || order.items || [];
@@ -504,7 +592,9 @@ function buildKitchenTicketHTML(order: any, station?: string, filteredItems?: an
       <div class="item">
         <div style="display: flex; justify-content: space-between; font-weight: bold;">
           <span>${item.quantity}x ${escapeHTML(item.name || 'Item')}</span>
+          ${item.round > 1 ? `<span>ADD-ON #${item.round}</span>` : ''}
         </div>
+        ${(item.modifiers || []).map((modifier: any) => `<div style="font-size: 12px; font-weight: bold; padding-left: 12px;">+ ${escapeHTML(modifier.name)}</div>`).join('')}
         ${item.notes ? `<div style="font-size: 10px; color: #666; font-style: italic; margin-top: 2px;">Note: ${escapeHTML(item.notes)}</div>` : ''}
       </div>
     `;
@@ -576,7 +666,7 @@ function buildKitchenTicketHTML(order: any, station?: string, filteredItems?: an
       <body>
         <div class="header">
           <div class="station-name">ALONICA ${stationName}</div>
-          <div>${stationName} ORDER TICKET</div>
+          <div>${stationName} ${ticketLabel}</div>
           <div class="copy-label">${copyLabel}</div>
         </div>
         
@@ -623,75 +713,6 @@ function buildKitchenTicketHTML(order: any, station?: string, filteredItems?: an
   `;
 }
 
-/**
- * Convert order to ESC/POS kitchen ticket commands
- */
-function buildKitchenTicketCommands(order: any, station?: string, filteredItems?: any[]): string {
-  const orderDate = new Date(order.createdAt);
-  const stationName = station === 'bar' ? 'BAR' : 'KITCHEN';
-  const itemsLabel = station === 'bar' ? 'DRINKS TO PREPARE:' : 'ITEMS TO PREPARE:';
-  const copyLabel = station === 'bar' ? '** BAR COPY **' : '** KITCHEN COPY **';
-  
-  const itemsToShow = filteredItems || order.items || [];
-  
-  let commands = '';
-  
-  // Initialize printer
-  commands += ESC_POS_COMMANDS.INIT;
-  
-  // Header
-  commands += ESC_POS_COMMANDS.CENTER;
-  commands += ESC_POS_COMMANDS.BOLD_ON;
-  commands += ESC_POS_COMMANDS.DOUBLE_HEIGHT;
-  commands += `ALONICA ${stationName}\n`;
-  commands += ESC_POS_COMMANDS.NORMAL_SIZE;
-  commands += `${stationName} ORDER TICKET\n`;
-  commands += ESC_POS_COMMANDS.BOLD_OFF;
-  commands += copyLabel + '\n';
-  commands += '================================\n';
-  
-  // Order info
-  commands += ESC_POS_COMMANDS.LEFT;
-  commands += `Order ID: ${order.id?.slice(-8) || 'N/A'}\n`;
-  commands += `Customer: ${order.customerName || 'N/A'}\n`;
-  commands += `Table: ${order.tableNumber || 'N/A'}\n`;
-  commands += `Time: ${formatDate(orderDate)}\n`;
-  commands += '================================\n';
-  
-  // Items
-  commands += ESC_POS_COMMANDS.BOLD_ON;
-  commands += itemsLabel + '\n';
-  commands += ESC_POS_COMMANDS.BOLD_OFF;
-  commands += '--------------------------------\n';
-  
-  itemsToShow.forEach((item: any) => {
-    commands += ESC_POS_COMMANDS.BOLD_ON;
-    commands += `${item.quantity}x ${item.name || 'Item'}\n`;
-    commands += ESC_POS_COMMANDS.BOLD_OFF;
-    
-    if (item.notes) {
-      commands += `Note: ${item.notes}\n`;
-    }
-    commands += '--------------------------------\n';
-  });
-  
-  // Instructions
-  commands += ESC_POS_COMMANDS.CENTER;
-  commands += '********************************\n';
-  commands += station === 'bar' ? 'Please prepare drinks as ordered\n' : 'Please prepare items as ordered\n';
-  commands += '********************************\n';
-  
-  // Footer
-  commands += ESC_POS_COMMANDS.CENTER;
-  commands += `Kitchen Ticket - ${new Date().toLocaleTimeString('id-ID')}\n`;
-  
-  // Cut paper and feed
-  commands += '\n\n\n';
-  commands += ESC_POS_COMMANDS.CUT_PAPER;
-  
-  return commands;
-}
-
 /**
  * Print kitchen ticket via Bluetooth (direct printing)
  */
@@ -707,8 +728,7 @@ export async function printKitchenTicketBluetooth(order: any, station?: string,
 
   try {
     const commands = buildKitchenTicketCommands(order, station, filteredItems);
-    const encoder = new TextEncoder();
-    const data = encoder.encode(commands);
+    const data = encodeEscPos(commands);
     
     await bluetoothCharacteristic!.writeValue(data);
     
@@ -757,6 +777,537 @@ export async function smartPrintKitchenTicket(order: any, station?: string, filt
   printKitchenTicket(order, station, filteredItems);
 }
 
+/**
+ * Print a ticket from the print queue without prompts: Bluetooth when a printer is connected,
+ * else the print dialog. Throws when nothing was sent so the queue can mark the job failed
+ */
+export async function printQueuedKitchenTicket(job: PrintJob): Promise<void> {
+  if (isBluetoothPrinterConnected()) {
+    const data = encodeEscPos(buildPrintJobCommands(job));
+    await bluetoothCharacteristic!.writeValue(data);
+    return;
+  }
+
+  const order = { id: job.orderId, customerName: job.customerName, tableNumber: job.tableNumber, createdAt: job.createdAt };
+
+  const printWindow = window.open('', '_blank', 'width=320,height=600,scrollbars=yes');
+  if (!printWindow) {
+    throw new Error('Pop-up diblokir browser');
+  }
+  printWindow.document.write(buildKitchenTicketHTML(order, job.stationName, job.items, job.kind === 'void'));
+  printWindow.document.close();
+}
+
+/**
+ * Build purchase order HTML. 'a4' is the supplier copy, 'thermal' a short slip for receiving.
+ */
+function buildPurchaseOrderHTML(purchaseOrder: any, supplier: any, format: 'thermal' | 'a4' = 'a4'): string {
+  const createdDate = new Date(purchaseOrder.createdAt);
+  const items = Array.isArray(purchaseOrder.items) ? purchaseOrder.items : [];
+  const isThermal = format === 'thermal';
+
+  let itemsHTML = '';
+  items.forEach((item: any, index: number) => {
+    const lineTotal = (item.quantityOrdered || 0) * (item.unitPrice || 0);
+    itemsHTML += isThermal
+      ? `
+        <div class="item">
+          <div>${escapeHTML(item.name || 'Item')}</div>
+          <div class="row" style="font-size: 10px;">
+            <span>${item.quantityOrdered || 0} ${escapeHTML(item.unit || '')} x ${formatCurrency(item.unitPrice || 0)}</span>
+            <span>${formatCurrency(lineTotal)}</span>
+          </div>
+        </div>
+      `
+      : `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHTML(item.name || 'Item')}</td>
+          <td class="num">${item.quantityOrdered || 0} ${escapeHTML(item.unit || '')}</td>
+          <td class="num">${formatCurrency(item.unitPrice || 0)}</td>
+          <td class="num">${formatCurrency(lineTotal)}</td>
+        </tr>
+      `;
+  });
+
+  const supplierInfo = `
+    <div><strong>${escapeHTML(supplier?.name || 'Supplier')}</strong></div>
+    ${supplier?.contactName ? `<div>Up: ${escapeHTML(supplier.contactName)}</div>` : ''}
+    ${supplier?.phone ? `<div>Telp: ${escapeHTML(supplier.phone)}</div>` : ''}
+    ${supplier?.address ? `<div>${escapeHTML(supplier.address)}</div>` : ''}
+  `;
+
+  const styles = isThermal
+    ? `
+          body { margin: 0; padding: 8px; font-family: 'Courier New', monospace; font-size: 12px; line-height: 1.3; color: #000; background: #fff; width: 240px; max-width: 300px; }
+          .header { text-align: center; border-bottom: 1px solid #000; padding-bottom: 8px; margin-bottom: 8px; }
+          .title { font-size: 16px; font-weight: bold; margin-bottom: 4px; }
+          .row { display: flex; justify-content: space-between; margin-bottom: 2px; }
+          .item { margin-bottom: 6px; }
+          .separator { border-top: 1px dashed #000; margin: 8px 0; }
+          .total { font-weight: bold; font-size: 14px; }
+        `
+    : `
+          @page { size: A4; margin: 20mm; }
+          body { margin: 0; font-family: Arial, sans-serif; font-size: 12px; color: #000; background: #fff; }
+          .header { display: flex; justify-content: space-between; border-bottom: 2px solid #000; padding-bottom: 12px; margin-bottom: 16px; }
+          .title { font-size: 22px; font-weight: bold; }
+          .parties { display: flex; justify-content: space-between; margin-bottom: 16px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #000; padding: 6px; text-align: left; }
+          th { background: #eee; }
+          .num { text-align: right; }
+          .total { font-weight: bold; font-size: 14px; }
+          .signatures { display: flex; justify-content: space-between; margin-top: 48px; }
+          .signatures div { width: 200px; text-align: center; border-top: 1px solid #000; padding-top: 4px; }
+        `;
+
+  const body = isThermal
+    ? `
+        <div class="header">
+          <div class="title">PURCHASE ORDER</div>
+          <div>Alonica Restaurant</div>
+        </div>
+        <div class="row"><span>No:</span><span>${escapeHTML(purchaseOrder.poNumber || '')}</span></div>
+        <div class="row"><span>Tanggal:</span><span>${formatDate(createdDate)}</span></div>
+        <div class="separator"></div>
+        ${supplierInfo}
+        <div class="separator"></div>
+        ${itemsHTML}
+        <div class="separator"></div>
+        <div class="row total"><span>Total:</span><span>${formatCurrency(purchaseOrder.totalAmount || 0)}</span></div>
+      `
+    : `
+        <div class="header">
+          <div>
+            <div class="title">PURCHASE ORDER</div>
+            <div>No: ${escapeHTML(purchaseOrder.poNumber || '')}</div>
+            <div>Tanggal: ${formatDate(createdDate)}</div>
+            ${purchaseOrder.expectedDate ? `<div>Estimasi Tiba: ${formatDate(new Date(purchaseOrder.expectedDate))}</div>` : ''}
+          </div>
+          <div style="text-align: right;">
+            <div><strong>Alonica Restaurant</strong></div>
+            <div>Jl. Ratulangi No.14, Bantaeng</div>
+            <div>Telp: 0515-4545</div>
+          </div>
+        </div>
+        <div class="parties">
+          <div>
+            <div style="font-weight: bold; margin-bottom: 4px;">Kepada:</div>
+            ${supplierInfo}
+          </div>
+          <div style="text-align: right;">
+            ${supplier?.paymentTerms ? `<div>Pembayaran: ${escapeHTML(String(supplier.paymentTerms).toUpperCase().replace('_', ' '))}</div>` : ''}
+          </div>
+        </div>
+        <table>
+          <thead>
+            <tr><th>No</th><th>Item</th><th class="num">Jumlah</th><th class="num">Harga Satuan</th><th class="num">Subtotal</th></tr>
+          </thead>
+          <tbody>
+            ${itemsHTML}
+            <tr>
+              <td colspan="4" class="num total">Total</td>
+              <td class="num total">${formatCurrency(purchaseOrder.totalAmount || 0)}</td>
+            </tr>
+          </tbody>
+        </table>
+        ${purchaseOrder.notes ? `<p>Catatan: ${escapeHTML(purchaseOrder.notes)}</p>` : ''}
+        <div class="signatures">
+          <div>Dipesan oleh</div>
+          <div>Disetujui Supplier</div>
+        </div>
+      `;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${escapeHTML(purchaseOrder.poNumber || 'Purchase Order')}</title>
+        <style>${styles}</style>
+      </head>
+      <body>
+        ${body}
+        <script>
+          window.onload = function() {
+            window.print();
+            setTimeout(function() {
+              window.close();
+            }, 500);
+          };
+        </script>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Convert purchase order to ESC/POS thermal printer commands
+ */
+function buildPurchaseOrderCommands(purchaseOrder: any, supplier: any): string {
+  const items = Array.isArray(purchaseOrder.items) ? purchaseOrder.items : [];
+
+  let commands = '';
+  commands += ESC_POS_COMMANDS.INIT;
+
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += ESC_POS_COMMANDS.DOUBLE_HEIGHT;
+  commands += 'PURCHASE ORDER\n';
+  commands += ESC_POS_COMMANDS.NORMAL_SIZE;
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+  commands += 'Alonica Restaurant\n';
+  commands += '================================\n';
+
+  commands += ESC_POS_COMMANDS.LEFT;
+  commands += `No: ${purchaseOrder.poNumber || ''}\n`;
+  commands += `Tanggal: ${formatDate(new Date(purchaseOrder.createdAt))}\n`;
+  commands += `Supplier: ${supplier?.name || '-'}\n`;
+  if (supplier?.phone) {
+    commands += `Telp: ${supplier.phone}\n`;
+  }
+  commands += '--------------------------------\n';
+
+  items.forEach((item: any) => {
+    const lineTotal = formatCurrency((item.quantityOrdered || 0) * (item.unitPrice || 0));
+    commands += `${(item.name || 'Item').substring(0, 32)}\n`;
+    const qty = `  ${item.quantityOrdered || 0} ${item.unit || ''}`;
+    commands += `${qty}${' '.repeat(Math.max(1, 32 - qty.length - lineTotal.length))}${lineTotal}\n`;
+  });
+
+  commands += '--------------------------------\n';
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += `TOTAL:${' '.repeat(10)}${formatCurrency(purchaseOrder.totalAmount || 0)}\n`;
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+
+  commands += '\n\n\n';
+  commands += ESC_POS_COMMANDS.CUT_PAPER;
+
+  return commands;
+}
+
+/**
+ * Print purchase order in a new window (A4 supplier copy or thermal slip)
+ */
+export function printPurchaseOrder(purchaseOrder: any, supplier: any, format: 'thermal' | 'a4' = 'a4'): void {
+  try {
+    const poHTML = buildPurchaseOrderHTML(purchaseOrder, supplier, format);
+    const printWindow = window.open('', '_blank', format === 'a4' ? 'width=800,height=900,scrollbars=yes' : 'width=300,height=600,scrollbars=yes');
+
+    if (!printWindow) {
+      alert('Print blocked! Please allow popups for this site.');
+      return;
+    }
+
+    printWindow.document.write(poHTML);
+    printWindow.document.close();
+  } catch (error) {
+    console.error('Purchase order print error:', error);
+    alert('Error saat print purchase order. Silakan coba lagi.');
+  }
+}
+
+/**
+ * Smart purchase order print - thermal slip via Bluetooth when connected, fallback to print dialog
+ */
+export async function smartPrintPurchaseOrder(purchaseOrder: any, supplier: any): Promise<void> {
+  if (isBluetoothPrinterConnected()) {
+    try {
+      const data = encodeEscPos(buildPurchaseOrderCommands(purchaseOrder, supplier));
+      await bluetoothCharacteristic!.writeValue(data);
+      return;
+    } catch (error) {
+      console.error('Bluetooth purchase order print error:', error);
+    }
+  }
+
+  printPurchaseOrder(purchaseOrder, supplier, 'thermal');
+}
+
+// Label/value rows of a sales report, grouped into the sections printed on the slip
+interface ReportSection {
+  title: string;
+  rows: { label: string; value: string; bold?: boolean }[];
+}
+
+const CASH_VARIANCE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Menunggu Persetujuan Admin',
+  approved: 'Disetujui Admin',
+  rejected: 'Ditolak Admin',
+};
+
+function getSalesReportTitle(report: SalesReport): string {
+  return `${report.kind === 'x' ? 'X' : 'Z'}-REPORT ${report.scope === 'shift' ? 'SHIFT' : 'HARIAN'}`;
+}
+
+function getSalesReportInfo(report: SalesReport): ReportSection['rows'] {
+  const rows = [
+    { label: 'Kasir', value: report.cashierNames.join(', ') || '-' },
+  ];
+  if (report.shift) {
+    rows.push({ label: 'Shift', value: `#${report.shift.id.slice(-8).toUpperCase()}` });
+  } else {
+    rows.push({ label: 'Jumlah Shift', value: String(report.shiftCount) });
+  }
+  rows.push(
+    { label: 'Mulai', value: formatDate(new Date(report.periodStart)) },
+    { label: 'Sampai', value: formatDate(new Date(report.periodEnd)) },
+  );
+  return rows;
+}
+
+// Notes printed under the sections: open shifts, blind close and variance approval
+function getSalesReportNotes(report: SalesReport): string[] {
+  const notes: string[] = [];
+  if (report.scope === 'day' && report.openShifts > 0) {
+    notes.push(`${report.openShifts} shift masih terbuka`);
+  }
+  if (!report.cash) {
+    notes.push('Kas sistem disembunyikan (penutupan blind)');
+  }
+  if (report.shift?.blindClose) {
+    notes.push('Ditutup dengan penutupan blind');
+  }
+  const varianceLabel = report.shift ? CASH_VARIANCE_STATUS_LABELS[report.shift.varianceStatus] : undefined;
+  if (varianceLabel) {
+    notes.push(`Selisih: ${varianceLabel}`);
+  }
+  if (report.shift?.notes) {
+    notes.push(`Catatan: ${report.shift.notes}`);
+  }
+  return notes;
+}
+
+function getSalesReportSections(report: SalesReport): ReportSection[] {
+  const sections: ReportSection[] = [
+    {
+      title: 'PENJUALAN',
+      rows: [
+        { label: 'Jumlah Pesanan', value: String(report.totalOrders) },
+        { label: 'Penjualan Kotor', value: formatCurrency(report.grossSales) },
+        { label: 'Diskon', value: formatCurrency(-report.discounts) },
+        { label: 'Service', value: formatCurrency(report.serviceCharge) },
+        { label: 'Pajak', value: formatCurrency(report.tax) },
+        { label: 'Pembulatan', value: formatCurrency(report.rounding) },
+        { label: 'Penjualan Bersih', value: formatCurrency(report.netSales), bold: true },
+      ],
+    },
+    {
+      title: 'PEMBAYARAN',
+      rows: report.byPaymentMethod.map(line => ({
+        label: `${line.label} (${line.count})`,
+        value: formatCurrency(line.amount),
+      })),
+    },
+    {
+      title: 'KATEGORI',
+      rows: report.byCategory.map(line => ({
+        label: `${line.label} x${line.count}`,
+        value: formatCurrency(line.amount),
+      })),
+    },
+  ];
+
+  if (report.byDiscount.length > 0) {
+    sections.push({
+      title: 'DISKON',
+      rows: report.byDiscount.map(line => ({
+        label: `${line.label} (${line.count})`,
+        value: formatCurrency(-line.amount),
+      })),
+    });
+  }
+
+  sections.push({
+    title: 'REFUND, VOID & HAPUS ITEM',
+    rows: [
+      { label: `Refund (${report.refunds.count})`, value: formatCurrency(-report.refunds.amount) },
+      { label: `Void (${report.voids.count})`, value: formatCurrency(-report.voids.amount) },
+      { label: `Hapus Item (${report.deletions.count})`, value: formatCurrency(-report.deletions.amount) },
+    ],
+  });
+
+  const cashRows: ReportSection['rows'] = report.cash ? [
+    { label: 'Kas Awal', value: formatCurrency(report.cash.initialCash) },
+    { label: 'Penjualan Tunai', value: formatCurrency(report.cash.cashSales) },
+    { label: 'Refund Tunai', value: formatCurrency(-report.cash.cashRefunds) },
+    { label: 'Kas Masuk', value: formatCurrency(report.cash.cashIn) },
+    { label: 'Kas Keluar', value: formatCurrency(-report.cash.cashOut) },
+    { label: 'Pengeluaran', value: formatCurrency(-report.cash.cashExpenses) },
+    { label: 'Kas Seharusnya', value: formatCurrency(report.cash.systemCash), bold: true },
+  ] : [];
+  if (report.countedCash !== null) {
+    cashRows.push({ label: 'Kas Fisik', value: formatCurrency(report.countedCash), bold: true });
+  }
+  if (report.cashDifference !== null) {
+    cashRows.push({ label: 'Selisih', value: formatCurrency(report.cashDifference), bold: true });
+  }
+  if (cashRows.length > 0) {
+    sections.push({ title: 'KAS', rows: cashRows });
+  }
+
+  const countedLines = report.cashCount.filter(line => line.quantity > 0);
+  if (countedLines.length > 0) {
+    sections.push({
+      title: 'HITUNG KAS',
+      rows: countedLines.map(line => ({
+        label: `${getDenominationLabel(line)} x${line.quantity}`,
+        value: formatCurrency(line.denomination * line.quantity),
+      })),
+    });
+  }
+
+  return sections.filter(section => section.rows.length > 0);
+}
+
+/**
+ * Build X/Z-report HTML for a shift or a day
+ */
+function buildSalesReportHTML(report: SalesReport): string {
+  const title = getSalesReportTitle(report);
+  const infoHTML = getSalesReportInfo(report).map(row => `
+        <div class="row"><span>${row.label}:</span><span>${escapeHTML(row.value)}</span></div>`).join('');
+  const sectionsHTML = getSalesReportSections(report).map(section => `
+        <div style="font-weight: bold; margin-bottom: 4px;">${section.title}</div>
+        ${section.rows.map(row => `
+        <div class="row${row.bold ? ' total' : ''}">
+          <span>${escapeHTML(row.label)}</span>
+          <span>${row.value}</span>
+        </div>`).join('')}
+        <div class="separator"></div>`).join('');
+  const notesHTML = getSalesReportNotes(report).map(note => `
+        <div>${escapeHTML(note)}</div>`).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${title}</title>
+        <style>
+          body { margin: 0; padding: 8px; font-family: 'Courier New', monospace; font-size: 12px; line-height: 1.3; color: #000; background: #fff; width: 240px; max-width: 300px; }
+          .header { text-align: center; border-bottom: 1px solid #000; padding-bottom: 8px; margin-bottom: 8px; }
+          .title { font-size: 16px; font-weight: bold; margin-bottom: 4px; }
+          .row { display: flex; justify-content: space-between; margin-bottom: 2px; }
+          .separator { border-top: 1px dashed #000; margin: 8px 0; }
+          .total { font-weight: bold; }
+          .footer { text-align: center; margin-top: 12px; font-size: 10px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="title">${title}</div>
+          <div>Alonica Restaurant</div>
+        </div>
+        ${infoHTML}
+        <div class="separator"></div>
+        ${sectionsHTML}
+        ${notesHTML}
+        <div class="footer">
+          <div>Dicetak ${formatDate(new Date(report.generatedAt))}</div>
+        </div>
+        <script>
+          window.onload = function() {
+            window.print();
+            setTimeout(function() {
+              window.close();
+            }, 500);
+          };
+        </script>
+      </body>
+    </html>
+  `;
+}
+
+// One 32-column line with the label on the left and the value on the right
+function formatReportLine(label: string, value: string): string {
+  const width = 32 - value.length - 1;
+  return `${label.slice(0, width).padEnd(width)} ${value}\n`;
+}
+
+/**
+ * Convert X/Z-report to ESC/POS thermal printer commands
+ */
+function buildSalesReportCommands(report: SalesReport): string {
+  let commands = '';
+  commands += ESC_POS_COMMANDS.INIT;
+
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += ESC_POS_COMMANDS.DOUBLE_HEIGHT;
+  commands += `${getSalesReportTitle(report)}\n`;
+  commands += ESC_POS_COMMANDS.NORMAL_SIZE;
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+  commands += 'Alonica Restaurant\n';
+  commands += '================================\n';
+
+  commands += ESC_POS_COMMANDS.LEFT;
+  getSalesReportInfo(report).forEach(row => {
+    commands += formatReportLine(`${row.label}:`, row.value);
+  });
+  commands += '================================\n';
+
+  getSalesReportSections(report).forEach(section => {
+    commands += ESC_POS_COMMANDS.BOLD_ON;
+    commands += `${section.title}\n`;
+    commands += ESC_POS_COMMANDS.BOLD_OFF;
+    section.rows.forEach(row => {
+      const line = formatReportLine(row.label, row.value);
+      commands += row.bold ? ESC_POS_COMMANDS.BOLD_ON + line + ESC_POS_COMMANDS.BOLD_OFF : line;
+    });
+    commands += '--------------------------------\n';
+  });
+
+  getSalesReportNotes(report).forEach(note => {
+    commands += `${note}\n`;
+  });
+
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += `\nDicetak ${formatDate(new Date(report.generatedAt))}\n`;
+  commands += '\n\n\n';
+  commands += ESC_POS_COMMANDS.CUT_PAPER;
+
+  return commands;
+}
+
+/**
+ * Print X/Z-report in a new window (fallback)
+ */
+export function printSalesReport(report: SalesReport): void {
+  try {
+    const printWindow = window.open('', '_blank', 'width=300,height=600,scrollbars=yes');
+
+    if (!printWindow) {
+      alert('Print blocked! Please allow popups for this site.');
+      return;
+    }
+
+    printWindow.document.write(buildSalesReportHTML(report));
+    printWindow.document.close();
+  } catch (error) {
+    console.error('Sales report print error:', error);
+    alert('Error saat print laporan. Silakan coba lagi.');
+  }
+}
+
+/**
+ * Smart X/Z-report print - Bluetooth when connected, fallback to print dialog
+ */
+export async function smartPrintSalesReport(report: SalesReport): Promise<void> {
+  if (isBluetoothPrinterConnected()) {
+    try {
+      const data = encodeEscPos(buildSalesReportCommands(report));
+      await bluetoothCharacteristic!.writeValue(data);
+      return;
+    } catch (error) {
+      console.error('Bluetooth sales report print error:', error);
+    }
+  }
+
+  printSalesReport(report);
+}
+
 // Redirect old function to new kitchen print
 export function printWithThermalSettings(_paperSize?: ThermalPaperSize): void {
   // This function is now deprecated and should not be used
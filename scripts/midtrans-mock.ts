@@ -0,0 +1,126 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for the Midtrans Core API, for trying refunds without the sandbox.
+ * Point the server at it with MIDTRANS_API_BASE_URL=http://localhost:4010
+ *
+ * Like Midtrans, errors come back as HTTP 200 with the error in status_code/status_message.
+ * Transactions are created on first use as settled for MIDTRANS_MOCK_GROSS_AMOUNT (default 100000).
+ */
+
+interface MockTransaction {
+  transactionId: string;
+  grossAmount: number;
+  refunded: number;
+  refunds: Map<string, Record<string, unknown>>; // by refund_key
+}
+
+export interface MidtransMock {
+  url: string;
+  transactions: Map<string, MockTransaction>;
+  close: () => Promise<void>;
+}
+
+// Transaction ids starting with this are answered as unknown to Midtrans
+export const UNKNOWN_TRANSACTION_PREFIX = 'unknown-';
+
+function sendJson(res: http.ServerResponse, body: Record<string, unknown>) {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve(undefined);
+      }
+    });
+  });
+}
+
+export function startMidtransMock(port: number = 0, grossAmount: number = 100000): Promise<MidtransMock> {
+  const transactions = new Map<string, MockTransaction>();
+
+  const server = http.createServer(async (req, res) => {
+    // Core API requests authenticate with the server key as the basic auth user
+    if (!req.headers.authorization?.startsWith('Basic ')) {
+      return sendJson(res, { status_code: '401', status_message: 'Unauthorized transaction, please check client or server key' });
+    }
+
+    const match = req.method === 'POST' && req.url?.match(/^\/v2\/([^/]+)\/refund\/online\/direct$/);
+    if (!match) {
+      return sendJson(res, { status_code: '404', status_message: 'The requested resource is not found' });
+    }
+
+    const transactionId = decodeURIComponent(match[1]);
+    if (transactionId.startsWith(UNKNOWN_TRANSACTION_PREFIX)) {
+      return sendJson(res, { status_code: '404', status_message: "Transaction doesn't exist." });
+    }
+
+    const body = await readBody(req);
+    const amount = Number(body?.amount);
+    if (!body?.refund_key || !Number.isInteger(amount) || amount <= 0) {
+      return sendJson(res, { status_code: '400', status_message: 'One or more parameters in the payload is invalid.' });
+    }
+
+    let transaction = transactions.get(transactionId);
+    if (!transaction) {
+      transaction = { transactionId, grossAmount, refunded: 0, refunds: new Map() };
+      transactions.set(transactionId, transaction);
+    }
+
+    // A refund_key that was used before gets its first answer back, nothing is refunded again
+    const previous = transaction.refunds.get(body.refund_key);
+    if (previous) {
+      return sendJson(res, previous);
+    }
+
+    if (transaction.refunded + amount > transaction.grossAmount) {
+      return sendJson(res, { status_code: '412', status_message: 'Refund amount exceeds the transaction amount.' });
+    }
+
+    transaction.refunded += amount;
+    const result = {
+      status_code: '200',
+      status_message: 'Success, refund request is approved',
+      transaction_id: transactionId,
+      gross_amount: `${transaction.grossAmount}.00`,
+      currency: 'IDR',
+      payment_type: 'qris',
+      transaction_time: new Date().toISOString(),
+      transaction_status: transaction.refunded === transaction.grossAmount ? 'refund' : 'partial_refund',
+      refund_chargeback_id: transaction.refunds.size + 1,
+      refund_amount: `${amount}.00`,
+      refund_key: body.refund_key,
+    };
+    transaction.refunds.set(body.refund_key, result);
+    sendJson(res, result);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        transactions,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run on its own: npm run mock:midtrans
+if (process.argv[1]?.endsWith('midtrans-mock.ts')) {
+  const port = Number(process.env.MIDTRANS_MOCK_PORT) || 4010;
+  const grossAmount = Number(process.env.MIDTRANS_MOCK_GROSS_AMOUNT) || 100000;
+  startMidtransMock(port, grossAmount).then(({ url }) => {
+    console.log(`🧪 Midtrans mock listening on ${url}`);
+    console.log(`   Start the server with MIDTRANS_API_BASE_URL=${url}`);
+  });
+}
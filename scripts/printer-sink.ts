@@ -0,0 +1,87 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for a raw TCP (port 9100) ESC/POS printer, for trying network printing without one.
+ * Set a print setting to connection type network with the address it prints, e.g. 127.0.0.1:9100
+ * (loopback printers are only accepted outside production).
+ *
+ * Every connection that sends something other than status requests is kept as one print job.
+ * Status requests (DLE EOT 1, 2, 4) are answered from `status`.
+ */
+
+export interface PrinterSinkStatus {
+  offline?: boolean;
+  coverOpen?: boolean;
+  paperLow?: boolean;
+  paperOut?: boolean;
+}
+
+export interface PrinterSink {
+  connectionString: string;
+  jobs: Buffer[];
+  status: PrinterSinkStatus;
+  close: () => Promise<void>;
+}
+
+const DLE = 0x10;
+const EOT = 0x04;
+
+// Reply byte to DLE EOT n; bits 1 and 4 are always set
+function statusByte(request: number, status: PrinterSinkStatus): number {
+  if (request === 1) return 0x12 | (status.offline ? 0x08 : 0);
+  if (request === 2) return 0x12 | (status.coverOpen ? 0x04 : 0);
+  return 0x12 | (status.paperLow ? 0x0c : 0) | (status.paperOut ? 0x60 : 0);
+}
+
+export function startPrinterSink(port: number = 0): Promise<PrinterSink> {
+  const jobs: Buffer[] = [];
+  const status: PrinterSinkStatus = {};
+
+  const server = net.createServer((socket) => {
+    const printed: number[] = [];
+
+    socket.on('data', (chunk) => {
+      for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === DLE && chunk[i + 1] === EOT && chunk[i + 2] !== undefined) {
+          socket.write(Buffer.from([statusByte(chunk[i + 2], status)]));
+          i += 2;
+        } else {
+          printed.push(chunk[i]);
+        }
+      }
+    });
+    socket.on('end', () => {
+      if (printed.length > 0) jobs.push(Buffer.from(printed));
+      socket.end();
+    });
+    socket.on('error', () => {}); // a client hanging up mid-job is not the sink's problem
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        connectionString: `127.0.0.1:${boundPort}`,
+        jobs,
+        status,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run on its own: npm run mock:printer
+if (process.argv[1]?.endsWith('printer-sink.ts')) {
+  const port = Number(process.env.PRINTER_SINK_PORT) || 9100;
+  startPrinterSink(port).then((sink) => {
+    console.log(`🧪 Printer sink listening on ${sink.connectionString}`);
+    let printedJobs = 0;
+    setInterval(() => {
+      for (; printedJobs < sink.jobs.length; printedJobs++) {
+        console.log(`--- Job ${printedJobs + 1} (${sink.jobs[printedJobs].length} bytes) ---`);
+        console.log(sink.jobs[printedJobs].toString('latin1').replace(/[\x00-\x09\x0b-\x1f]/g, ''));
+      }
+    }, 500);
+  });
+}
@@ -0,0 +1,64 @@
+import assert from 'assert';
+import { startMidtransMock, UNKNOWN_TRANSACTION_PREFIX } from './midtrans-mock';
+
+/**
+ * Refunds through MidtransService against the local Midtrans mock: a partial refund,
+ * a retried refund_key, a refund over the paid amount and an unknown transaction.
+ * Run with: npm run test:midtrans-refund
+ */
+
+// Expected failures: keep the service's error logging out of the test output
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const logError = console.error;
+  console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.error = logError;
+  }
+}
+
+async function run() {
+  const mock = await startMidtransMock(0, 50000);
+  process.env.MIDTRANS_API_BASE_URL = mock.url;
+  process.env.MIDTRANS_SERVER_KEY = process.env.MIDTRANS_SERVER_KEY || 'SB-Mid-server-mock';
+  process.env.MIDTRANS_CLIENT_KEY = process.env.MIDTRANS_CLIENT_KEY || 'SB-Mid-client-mock';
+
+  const { MidtransService } = await import('../server/midtrans-service');
+  const midtrans = new MidtransService();
+
+  try {
+    const partial = await midtrans.refundTransaction({ transactionId: 'trx-1', refundKey: 'refund-1', amount: 20000, reason: 'Item habis' });
+    assert.equal(partial.success, true, 'partial refund succeeds');
+    assert.equal(partial.refundAmount, 20000);
+    assert.equal(partial.transactionStatus, 'partial_refund');
+    console.log('✅ Partial refund');
+
+    const retried = await midtrans.refundTransaction({ transactionId: 'trx-1', refundKey: 'refund-1', amount: 20000, reason: 'Item habis' });
+    assert.equal(retried.success, true, 'retried refund key succeeds');
+    assert.equal(mock.transactions.get('trx-1')?.refunded, 20000, 'retried refund key is not refunded twice');
+    console.log('✅ Retried refund key returns the first result');
+
+    const tooMuch = await quietly(() => midtrans.refundTransaction({ transactionId: 'trx-1', refundKey: 'refund-2', amount: 40000, reason: 'Void' }));
+    assert.equal(tooMuch.success, false, 'refund over the paid amount fails');
+    assert.match(tooMuch.error ?? '', /exceeds/);
+    console.log('✅ Refund over the paid amount is rejected');
+
+    const rest = await midtrans.refundTransaction({ transactionId: 'trx-1', refundKey: 'refund-3', amount: 30000, reason: 'Void' });
+    assert.equal(rest.success, true);
+    assert.equal(rest.transactionStatus, 'refund');
+    console.log('✅ Refunding the rest closes the transaction');
+
+    const unknown = await quietly(() => midtrans.refundTransaction({ transactionId: `${UNKNOWN_TRANSACTION_PREFIX}trx`, refundKey: 'refund-4', amount: 1000, reason: 'Void' }));
+    assert.equal(unknown.success, false);
+    assert.match(unknown.error ?? '', /doesn't exist/);
+    console.log('✅ Unknown transaction is reported');
+  } finally {
+    await mock.close();
+  }
+}
+
+run().catch((error) => {
+  console.error('❌ Midtrans refund test failed:', error);
+  process.exit(1);
+});
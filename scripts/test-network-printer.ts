@@ -0,0 +1,125 @@
+import assert from 'assert';
+import { startPrinterSink } from './printer-sink';
+import type { PrintJob, PrintSetting } from '../shared/schema';
+
+/**
+ * Network printing against the local printer sink: LAN-only printer addresses, the status check,
+ * and a pass of the print worker over a queue with a waiting ticket, a ticket cut off mid-print
+ * and a ticket for a printer that is off. The worker's storage calls are served from memory.
+ * Run with: npm run test:network-printer
+ */
+
+// Nothing is queried: the print job methods the worker uses are replaced below
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/network-printer-test';
+
+function makePrinter(id: string, connectionString: string): PrintSetting {
+  const now = new Date();
+  return {
+    id, name: `Printer ${id}`, printerType: 'thermal', paperSize: '58mm', isActive: false,
+    printHeader: true, printFooter: true, printLogo: true, fontSize: 12, lineSpacing: 1,
+    connectionType: 'network', connectionString, stationIds: ['station-bar'], createdAt: now, updatedAt: now,
+  };
+}
+
+function makeJob(id: string, printerId: string, customerName: string, status: string, updatedAt: Date): PrintJob {
+  return {
+    id, printerId, stationId: 'station-bar', stationName: 'Bar', orderId: `order-${id}`, customerName,
+    tableNumber: '5', kind: 'ticket', items: [{ itemId: 'item-1', name: 'Es Teh', price: 8000, quantity: 2 }],
+    status, attempts: status === 'printing' ? 1 : 0, error: null, printedAt: null, createdAt: updatedAt, updatedAt,
+  };
+}
+
+async function waitFor(check: () => boolean, what: string) {
+  for (let waited = 0; !check(); waited += 20) {
+    if (waited > 2000) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+async function run() {
+  const { storage } = await import('../server/storage');
+  const { parsePrinterAddress, getNetworkPrinterStatus, processNetworkPrintJobs } = await import('../server/network-printer');
+
+  assert.deepEqual(parsePrinterAddress('192.168.1.100'), { host: '192.168.1.100', port: 9100 });
+  assert.deepEqual(parsePrinterAddress(' 10.0.0.7:9101 '), { host: '10.0.0.7', port: 9101 });
+  assert.deepEqual(parsePrinterAddress('172.20.1.5'), { host: '172.20.1.5', port: 9100 });
+  for (const outside of ['8.8.8.8', '172.32.0.1', '169.254.169.254', 'localhost', 'printer.local', '192.168.1.100:70000']) {
+    assert.equal(parsePrinterAddress(outside), null, `${outside} is refused`);
+  }
+  assert.ok(parsePrinterAddress('127.0.0.1:9100'), 'loopback is allowed outside production');
+  console.log('✅ Only LAN printer addresses are accepted');
+
+  const sink = await startPrinterSink();
+  const offSink = await startPrinterSink();
+  await offSink.close(); // nothing listens on its port any more
+
+  try {
+    const address = parsePrinterAddress(sink.connectionString)!;
+    assert.equal((await getNetworkPrinterStatus(address)).online, true);
+    sink.status.paperOut = true;
+    assert.equal((await getNetworkPrinterStatus(address)).paperOut, true);
+    sink.status.paperOut = false;
+    const off = await getNetworkPrinterStatus(parsePrinterAddress(offSink.connectionString)!);
+    assert.equal(off.online, false);
+    assert.ok(off.error);
+    console.log('✅ Printer status is read from the status replies');
+
+    const printers = [makePrinter('bar', sink.connectionString), makePrinter('off', offSink.connectionString)];
+    const longAgo = new Date(Date.now() - 5 * 60 * 1000);
+    const jobs = new Map<string, PrintJob>([
+      ['cut-off', makeJob('cut-off', 'bar', 'Budi', 'printing', longAgo)],
+      ['waiting', makeJob('waiting', 'bar', 'Renée', 'pending', new Date())],
+      ['printer-off', makeJob('printer-off', 'off', 'Andi', 'pending', new Date())],
+    ]);
+    const update = (id: string, changes: Partial<PrintJob>) => {
+      const job = { ...jobs.get(id)!, updatedAt: new Date(), ...changes };
+      jobs.set(id, job);
+      return job;
+    };
+
+    Object.assign(storage, {
+      getPrintSettings: async () => printers,
+      requeueStalePrintJobs: async (printerIds: string[], claimedBefore: Date) =>
+        Array.from(jobs.values())
+          .filter(job => job.status === 'printing' && printerIds.includes(job.printerId!) && job.updatedAt < claimedBefore)
+          .map(job => update(job.id, { status: 'pending', error: 'Pencetakan terputus sebelum selesai' })),
+      getPendingPrintJobs: async (printerIds: string[]) =>
+        Array.from(jobs.values())
+          .filter(job => job.status === 'pending' && printerIds.includes(job.printerId!))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      claimPrintJob: async (id: string) =>
+        jobs.get(id)?.status === 'pending' ? update(id, { status: 'printing', attempts: jobs.get(id)!.attempts + 1 }) : undefined,
+      transitionPrintJob: async (id: string, fromStatuses: string[], changes: Partial<PrintJob>) =>
+        fromStatuses.includes(jobs.get(id)!.status) ? update(id, changes) : undefined,
+    });
+
+    await processNetworkPrintJobs();
+    // The requeued ticket waits out its retry delay like a failed attempt, and the ticket behind it waits too
+    assert.equal(jobs.get('cut-off')!.status, 'pending');
+    assert.equal(jobs.get('cut-off')!.error, 'Pencetakan terputus sebelum selesai');
+    assert.equal(jobs.get('waiting')!.status, 'pending');
+    assert.equal(jobs.get('printer-off')!.status, 'pending', 'a printer that is off gets another try');
+    assert.equal(jobs.get('printer-off')!.attempts, 1);
+    assert.match(jobs.get('printer-off')!.error ?? '', /Tidak dapat terhubung/);
+    assert.equal(sink.jobs.length, 0);
+    console.log('✅ A ticket cut off mid-print is queued again');
+
+    update('cut-off', { updatedAt: longAgo });
+    await processNetworkPrintJobs();
+    await waitFor(() => sink.jobs.length === 2, 'both bar tickets to print');
+    assert.equal(jobs.get('cut-off')!.status, 'printed');
+    assert.equal(jobs.get('waiting')!.status, 'printed');
+    assert.match(sink.jobs[0].toString('latin1'), /Customer: Budi/);
+    assert.match(sink.jobs[1].toString('latin1'), /Customer: Renée/, 'one byte per character, as the printer reads them');
+    assert.equal(jobs.get('printer-off')!.attempts, 1, 'the printer that is off waits before its next try');
+    console.log('✅ The worker prints the queued tickets in order');
+  } finally {
+    await sink.close();
+  }
+}
+
+// The server modules keep timers running (session cleanup, realtime heartbeat), so exit when done
+run().then(() => process.exit(0), (error) => {
+  console.error('❌ Network printer test failed:', error);
+  process.exit(1);
+});
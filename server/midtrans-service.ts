@@ -1,4 +1,29 @@
 import midtransClient from 'midtrans-client';
+import type { BankTransferBank, EwalletChannel } from '@shared/schema';
+
+export interface MidtransChargeParams {
+  orderId: string;
+  grossAmount: number;
+  customerDetails: {
+    name: string;
+    phone?: string;
+  };
+  itemDetails: Array<{
+    id: string;
+    name: string;
+    price: number;
+    quantity: number;
+  }>;
+}
+
+// Prefer Midtrans' own status_message over the client library's generic error text
+function getMidtransErrorMessage(error: unknown): string {
+  const apiResponse = (error as any)?.ApiResponse;
+  if (apiResponse?.status_message) {
+    return apiResponse.status_message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
 
 // Midtrans configuration
 export class MidtransService {
@@ -25,6 +50,12 @@ export class MidtransService {
       clientKey
     });
 
+    // MIDTRANS_API_BASE_URL points the Core API at another host, e.g. a local mock of the Midtrans API
+    const apiBaseUrl = process.env.MIDTRANS_API_BASE_URL?.replace(/\/+$/, '');
+    if (apiBaseUrl) {
+      this.coreApi.apiConfig.getCoreApiBaseUrl = () => apiBaseUrl;
+    }
+
     // Initialize Snap for payment page
     this.snap = new midtransClient.Snap({
       isProduction,
@@ -34,29 +65,40 @@ export class MidtransService {
   }
 
   // Create QRIS payment transaction
-  async createQRISPayment(params: {
-    orderId: string;
-    grossAmount: number;
-    customerDetails: {
-      name: string;
-      phone?: string;
-    };
-    itemDetails: Array<{
-      id: string;
-      name: string;
-      price: number;
-      quantity: number;
-    }>;
-  }) {
+  async createQRISPayment(params: MidtransChargeParams) {
+    return this.charge(params, {
+      payment_type: 'qris',
+      qris: {
+        acquirer: 'gopay' // Use GoPay as QRIS acquirer
+      }
+    });
+  }
+
+  // Create a bank transfer payment; the customer pays into the returned virtual account number
+  async createBankTransferPayment(params: MidtransChargeParams & { bank: BankTransferBank }) {
+    return this.charge(params, {
+      payment_type: 'bank_transfer',
+      bank_transfer: {
+        bank: params.bank
+      }
+    });
+  }
+
+  // Create an e-wallet payment; the returned deeplink opens the customer's GoPay/ShopeePay app
+  async createEwalletPayment(params: MidtransChargeParams & { ewallet: EwalletChannel }) {
+    return this.charge(params, {
+      payment_type: params.ewallet
+    });
+  }
+
+  // Send a Core API charge and pull out what the payment page needs for any payment type
+  private async charge(params: MidtransChargeParams, paymentOptions: Record<string, unknown>) {
     const transaction = {
       transaction_details: {
         order_id: params.orderId,
         gross_amount: params.grossAmount
       },
-      payment_type: 'qris',
-      qris: {
-        acquirer: 'gopay' // Use GoPay as QRIS acquirer
-      },
+      ...paymentOptions,
       customer_details: {
         first_name: params.customerDetails.name,
         phone: params.customerDetails.phone || ''
@@ -73,6 +115,7 @@ export class MidtransService {
       // Extract QRIS QR code - separate URL vs string to avoid frontend confusion
       let qrisUrl = null;
       let qrisString = null;
+      let deeplinkUrl = null;
       
       if (chargeResponse.actions) {
         const qrAction = chargeResponse.actions.find((action: any) => 
@@ -81,6 +124,10 @@ export class MidtransService {
         if (qrAction?.url) {
           qrisUrl = qrAction.url;
         }
+        const deeplinkAction = chargeResponse.actions.find((action: any) => action.name === 'deeplink-redirect');
+        if (deeplinkAction?.url) {
+          deeplinkUrl = deeplinkAction.url;
+        }
       }
       
       // Store qr_string separately if available
@@ -88,6 +135,9 @@ export class MidtransService {
         qrisString = chargeResponse.qr_string;
       }
 
+      // Permata returns its own field; the other banks share va_numbers
+      const vaNumber = chargeResponse.permata_va_number || chargeResponse.va_numbers?.[0]?.va_number || null;
+
       // Parse expiry time properly - Midtrans uses "YYYY-MM-DD HH:mm:ss" format
       let expiryTime = null;
       if (chargeResponse.expiry_time) {
@@ -97,20 +147,22 @@ export class MidtransService {
       }
 
       return {
-        success: true,
+        success: true as const,
         orderId: params.orderId,
-        transactionId: chargeResponse.transaction_id,
-        transactionStatus: chargeResponse.transaction_status,
+        transactionId: chargeResponse.transaction_id as string,
+        transactionStatus: chargeResponse.transaction_status as string,
         qrisUrl, // URL for direct access (may be null)
         qrisString, // Raw QR string for QR generation (may be null)
-        expiryTime,
+        vaNumber: vaNumber as string | null,
+        deeplinkUrl: deeplinkUrl as string | null,
+        expiryTime: expiryTime as string | null,
         grossAmount: chargeResponse.gross_amount
       };
     } catch (error) {
-      console.error('Midtrans QRIS payment error:', error);
+      console.error(`Midtrans ${String(paymentOptions.payment_type)} payment error:`, error);
       return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        success: false as const,
+        error: getMidtransErrorMessage(error)
       };
     }
   }
@@ -134,11 +186,72 @@ export class MidtransService {
       console.error('Midtrans status check error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: getMidtransErrorMessage(error)
       };
     }
   }
 
+  // Return money for a settled QRIS payment. Direct refund pays the customer back right away;
+  // sending the same refundKey again returns the first result instead of refunding twice
+  async refundTransaction(params: {
+    transactionId: string;
+    refundKey: string;
+    amount: number;
+    reason: string;
+  }) {
+    try {
+      const refundResponse = await this.coreApi.transaction.refundDirect(params.transactionId, {
+        refund_key: params.refundKey,
+        amount: params.amount,
+        reason: params.reason
+      });
+      return {
+        success: true,
+        refundKey: refundResponse.refund_key || params.refundKey,
+        transactionStatus: refundResponse.transaction_status,
+        refundAmount: Number(refundResponse.refund_amount ?? params.amount),
+        statusCode: refundResponse.status_code
+      };
+    } catch (error) {
+      console.error('Midtrans refund error:', error);
+      return {
+        success: false,
+        error: getMidtransErrorMessage(error)
+      };
+    }
+  }
+
+  // Cancel a transaction that hasn't been paid yet, e.g. when the customer abandons the payment page
+  async cancelTransaction(orderId: string) {
+    try {
+      const cancelResponse = await this.coreApi.transaction.cancel(orderId);
+      return {
+        success: true,
+        transactionStatus: cancelResponse.transaction_status
+      };
+    } catch (error) {
+      console.error('Midtrans cancel error:', error);
+      return {
+        success: false,
+        error: getMidtransErrorMessage(error)
+      };
+    }
+  }
+
+  // Map a Midtrans transaction_status to our order payment status
+  mapTransactionStatus(transactionStatus?: string): 'pending' | 'paid' | 'failed' | 'expired' {
+    if (transactionStatus === 'settlement' || transactionStatus === 'capture') {
+      return 'paid';
+    }
+    if (transactionStatus === 'deny' || transactionStatus === 'cancel' || transactionStatus === 'failure') {
+      return 'failed';
+    }
+    if (transactionStatus === 'expire') {
+      return 'expired';
+    }
+    return 'pending';
+  }
+
   // Verify webhook notification
   verifySignatureKey(orderId: string, statusCode: string, grossAmount: string, serverKey: string): string {
     const crypto = require('crypto');
@@ -177,21 +290,11 @@ export class MidtransService {
       throw new Error('Invalid signature key');
     }
 
-    // Determine payment status
-    let paymentStatus = 'pending';
-    if (transaction_status === 'settlement' || transaction_status === 'capture') {
-      paymentStatus = 'paid';
-    } else if (transaction_status === 'deny' || transaction_status === 'cancel' || transaction_status === 'failure') {
-      paymentStatus = 'failed';
-    } else if (transaction_status === 'expire') {
-      paymentStatus = 'expired';
-    }
-
     return {
       orderId: order_id,
       transactionStatus: transaction_status,
       fraudStatus: fraud_status,
-      paymentStatus,
+      paymentStatus: this.mapTransactionStatus(transaction_status),
       grossAmount: gross_amount,
       statusCode: status_code
     };
@@ -0,0 +1,201 @@
+import net from 'net';
+import { storage } from './storage';
+import { publishEvent } from './realtime';
+import { buildPrintJobCommands, encodeEscPos, ESC_POS_STATUS_REQUESTS } from '@shared/escpos';
+import type { NetworkPrinterStatus, PrintJob, PrintSetting } from '@shared/schema';
+
+// Raw ESC/POS over TCP ("port 9100" / JetDirect printing) for printers set up with connection type 'network'
+
+export const DEFAULT_PRINTER_PORT = 9100;
+// A queued ticket is tried this many times before it is left as failed on the print queue
+export const NETWORK_PRINT_MAX_ATTEMPTS = 3;
+
+const PRINTER_TIMEOUT_MS = Number(process.env.NETWORK_PRINTER_TIMEOUT_MS) || 5000;
+const WORKER_INTERVAL_MS = Number(process.env.NETWORK_PRINT_INTERVAL_MS) || 5000;
+// Wait before trying a failed ticket again, per attempt made so far
+const RETRY_DELAY_MS = 10 * 1000;
+// Printers that don't answer status requests are taken as online once this passes without a reply
+const STATUS_REPLY_MS = 1000;
+// A ticket still marked printing after this, far past the socket timeout, was cut off (e.g. by a restart)
+const STALE_PRINTING_MS = 60 * 1000;
+
+// Raised when a printer can't be reached or drops the connection; routes map it to 502
+export class PrinterConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrinterConnectionError";
+    Object.setPrototypeOf(this, PrinterConnectionError.prototype);
+  }
+}
+
+export interface PrinterAddress {
+  host: string;
+  port: number;
+}
+
+// Printers sit on the store's LAN, so only private IPv4 addresses (10/8, 172.16/12, 192.168/16) are
+// printed to and a print setting can't aim the server's connections anywhere else. Outside production
+// the loopback address is allowed too, for the printer sink (npm run mock:printer)
+function isPrinterHost(host: string): boolean {
+  if (!net.isIPv4(host)) return false;
+  const [a, b] = host.split('.').map(Number);
+  if (a === 127) return process.env.NODE_ENV !== 'production';
+  return a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+// "192.168.1.100" or "192.168.1.100:9100"; null for anything that isn't a LAN IP with an optional port
+export function parsePrinterAddress(connectionString: string | null | undefined): PrinterAddress | null {
+  const match = connectionString?.trim().match(/^([\d.]+)(?::(\d{1,5}))?$/);
+  if (!match || !isPrinterHost(match[1])) return null;
+
+  const port = match[2] ? Number(match[2]) : DEFAULT_PRINTER_PORT;
+  return port >= 1 && port <= 65535 ? { host: match[1], port } : null;
+}
+
+// Open a connection to the printer; the socket errors out if the printer doesn't answer in time
+function connectPrinter(address: PrinterAddress, onConnect: (socket: net.Socket) => void, onError: (error: PrinterConnectionError) => void): net.Socket {
+  const socket = net.createConnection({ host: address.host, port: address.port });
+  socket.setTimeout(PRINTER_TIMEOUT_MS);
+  socket.once('connect', () => onConnect(socket));
+  socket.once('timeout', () => socket.destroy(new Error('timeout')));
+  socket.on('error', (error: NodeJS.ErrnoException) => {
+    onError(new PrinterConnectionError(error.message === 'timeout'
+      ? `Printer ${address.host}:${address.port} tidak merespons`
+      : `Tidak dapat terhubung ke printer ${address.host}:${address.port} (${error.code || error.message})`));
+  });
+  return socket;
+}
+
+// Done once the bytes are handed to the network; raw 9100 printers don't acknowledge a job
+export function sendToNetworkPrinter(address: PrinterAddress, data: Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    connectPrinter(address, (socket) => socket.end(data, () => resolve()), reject);
+  });
+}
+
+// Direct prints (test pages, receipts) retry a few times before the error goes back to the screen
+export async function sendWithRetry(address: PrinterAddress, data: Uint8Array, attempts: number = NETWORK_PRINT_MAX_ATTEMPTS): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendToNetworkPrinter(address, data);
+    } catch (error) {
+      if (attempt >= attempts) throw error;
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+    }
+  }
+}
+
+// One reply byte per status request; a printer that sends nothing back is reachable, status unknown
+function decodePrinterStatus(reply: Buffer): Omit<NetworkPrinterStatus, 'checkedAt'> {
+  if (reply.length < ESC_POS_STATUS_REQUESTS.length) {
+    return { online: true };
+  }
+  return {
+    online: (reply[0] & 0x08) === 0,
+    coverOpen: (reply[1] & 0x04) !== 0,
+    paperLow: (reply[2] & 0x0c) !== 0,
+    paperOut: (reply[2] & 0x60) !== 0,
+  };
+}
+
+/**
+ * Connects and asks for the printer, offline cause and paper sensor status (DLE EOT 1, 2, 4).
+ * Never throws: an unreachable printer comes back as offline with the reason.
+ */
+export function getNetworkPrinterStatus(address: PrinterAddress): Promise<NetworkPrinterStatus> {
+  return new Promise((resolve) => {
+    let reply = Buffer.alloc(0);
+    let replyTimer: NodeJS.Timeout | undefined;
+    const finish = (status: Omit<NetworkPrinterStatus, 'checkedAt'>) => {
+      clearTimeout(replyTimer);
+      resolve({ ...status, checkedAt: new Date().toISOString() });
+    };
+
+    const socket = connectPrinter(address, (connected) => {
+      connected.write(encodeEscPos(ESC_POS_STATUS_REQUESTS.join('')));
+      replyTimer = setTimeout(() => connected.end(), STATUS_REPLY_MS);
+    }, (error) => finish({ online: false, error: error.message }));
+
+    socket.on('data', (chunk) => {
+      reply = Buffer.concat([reply, chunk]);
+      if (reply.length >= ESC_POS_STATUS_REQUESTS.length) socket.end();
+    });
+    socket.once('close', (hadError) => {
+      if (!hadError) finish(decodePrinterStatus(reply));
+    });
+  });
+}
+
+// Print one queued ticket; failures go back in the queue until the attempts run out.
+// Returns false when the printer could not take it
+async function printQueuedJob(job: PrintJob, printer: PrintSetting): Promise<boolean> {
+  const claimed = await storage.claimPrintJob(job.id);
+  if (!claimed) return true; // picked up by a KDS screen or cancelled meanwhile
+  publishEvent('print_job.changed', claimed);
+
+  let printed = true;
+  let result: PrintJob | undefined;
+  const address = parsePrinterAddress(printer.connectionString);
+  try {
+    if (!address) {
+      throw new PrinterConnectionError(`Alamat IP printer ${printer.name} belum diisi atau bukan IP jaringan lokal`);
+    }
+    await sendToNetworkPrinter(address, encodeEscPos(buildPrintJobCommands(claimed)));
+    result = await storage.transitionPrintJob(job.id, ['printing'], { status: 'printed', error: null, printedAt: new Date() });
+  } catch (error) {
+    printed = false;
+    const message = error instanceof Error ? error.message : 'Gagal mencetak';
+    const retry = address && claimed.attempts < NETWORK_PRINT_MAX_ATTEMPTS;
+    result = await storage.transitionPrintJob(job.id, ['printing'], { status: retry ? 'pending' : 'failed', error: message });
+  }
+  if (result) {
+    publishEvent('print_job.changed', result);
+  }
+  return printed;
+}
+
+let processing = false;
+
+/**
+ * One pass over the tickets queued for network printers. Jobs that failed wait a little longer
+ * after each attempt; a retry from the print queue clears the error and goes out right away.
+ * Tickets left printing by an interrupted pass are queued again first.
+ */
+export async function processNetworkPrintJobs(): Promise<void> {
+  if (processing) return; // an unreachable printer must not stack passes
+  processing = true;
+
+  try {
+    const printers = (await storage.getPrintSettings()).filter(printer => printer.connectionType === 'network');
+    const printerIds = printers.map(printer => printer.id);
+    const requeued = await storage.requeueStalePrintJobs(printerIds, new Date(Date.now() - STALE_PRINTING_MS));
+    requeued.forEach(job => publishEvent('print_job.changed', job));
+
+    const jobs = await storage.getPendingPrintJobs(printerIds);
+    const now = Date.now();
+    // A printer that failed, or has a ticket waiting to retry, keeps the tickets after it for a later pass
+    const heldPrinterIds = new Set<string>();
+
+    for (const job of jobs) {
+      const printer = printers.find(printer => printer.id === job.printerId);
+      if (!printer || heldPrinterIds.has(printer.id)) continue;
+
+      const waitingToRetry = job.error && now - new Date(job.updatedAt).getTime() < job.attempts * RETRY_DELAY_MS;
+      if (waitingToRetry || !await printQueuedJob(job, printer)) {
+        heldPrinterIds.add(printer.id);
+      }
+    }
+  } catch (error) {
+    console.error('Network print worker error:', error);
+    // Don't throw - the next interval tries again
+  } finally {
+    processing = false;
+  }
+}
+
+export function startNetworkPrintWorker(): () => void {
+  const timer = setInterval(processNetworkPrintJobs, WORKER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
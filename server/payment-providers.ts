@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import type { MidtransChargeParams, MidtransService } from './midtrans-service';
+import { ONLINE_PAYMENT_METHODS, type OnlinePaymentMethod } from '@shared/payments';
+import type { BankTransferBank, EwalletChannel, Order, PaymentGateway, PaymentMethod } from '@shared/schema';
+
+export const GATEWAY_PAYMENT_STATUSES = ['pending', 'paid', 'failed', 'expired'] as const;
+export type GatewayPaymentStatus = typeof GATEWAY_PAYMENT_STATUSES[number];
+
+export type ProviderResult<T> = ({ success: true } & T) | { success: false; error: string };
+
+interface ChargeBase {
+  amount: number;
+  customerName: string;
+  itemDetails: MidtransChargeParams['itemDetails'];
+}
+
+export type ChargeRequest = ChargeBase & (
+  | { method: 'qris' }
+  | { method: 'bank_transfer'; bank: BankTransferBank }
+  | { method: 'ewallet'; ewallet: EwalletChannel }
+);
+
+// What the customer needs to pay: a QR code, a virtual account number or an e-wallet deeplink
+export interface PaymentCharge {
+  gatewayOrderId: string;
+  transactionId: string | null;
+  transactionStatus: string | null;
+  qrisUrl: string | null;
+  qrisString: string | null;
+  vaNumber: string | null;
+  deeplinkUrl: string | null;
+  expiryTime: string;
+}
+
+export interface PaymentStatusResult {
+  paymentStatus: GatewayPaymentStatus;
+  transactionStatus: string;
+  grossAmount: number;
+}
+
+export interface GatewayRefundRequest {
+  transactionId: string;
+  refundKey: string;
+  amount: number;
+  reason: string;
+}
+
+export interface WebhookNotification {
+  gatewayOrderId: string;
+  paymentStatus: GatewayPaymentStatus;
+  transactionStatus: string;
+}
+
+/**
+ * A payment gateway the POS can charge through. Orders remember which gateway created
+ * them, so switching the store's gateway doesn't strand payments that are still open.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentGateway;
+  readonly methods: readonly OnlinePaymentMethod[];
+  // Payments of these methods can be returned with refund(); others are refunded by hand
+  readonly refundableMethods: readonly PaymentMethod[];
+  createCharge(request: ChargeRequest): Promise<ProviderResult<PaymentCharge>>;
+  getStatus(gatewayOrderId: string): Promise<ProviderResult<PaymentStatusResult>>;
+  cancel(gatewayOrderId: string): Promise<ProviderResult<{ transactionStatus: string }>>;
+  refund(request: GatewayRefundRequest): Promise<ProviderResult<{ refundKey: string }>>;
+  // Throws when the notification isn't signed by the gateway
+  verifyWebhook(body: any): WebhookNotification;
+}
+
+const PAYMENT_EXPIRY_MS = 15 * 60 * 1000;
+
+const createGatewayOrderId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+const defaultExpiryTime = () => new Date(Date.now() + PAYMENT_EXPIRY_MS).toISOString();
+
+export class MidtransPaymentProvider implements PaymentProvider {
+  readonly name = 'midtrans' as const;
+  readonly methods = ONLINE_PAYMENT_METHODS;
+  // Midtrans direct refund covers QRIS and e-wallets; virtual account transfers can't be sent back
+  readonly refundableMethods = ['qris', 'ewallet'] as const;
+
+  constructor(private midtransService: MidtransService) {}
+
+  async createCharge(request: ChargeRequest): Promise<ProviderResult<PaymentCharge>> {
+    const params: MidtransChargeParams = {
+      orderId: createGatewayOrderId('ALONICA'),
+      grossAmount: request.amount,
+      customerDetails: { name: request.customerName },
+      itemDetails: request.itemDetails,
+    };
+
+    const result = request.method === 'bank_transfer'
+      ? await this.midtransService.createBankTransferPayment({ ...params, bank: request.bank })
+      : request.method === 'ewallet'
+        ? await this.midtransService.createEwalletPayment({ ...params, ewallet: request.ewallet })
+        : await this.midtransService.createQRISPayment(params);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      gatewayOrderId: params.orderId,
+      transactionId: result.transactionId ?? null,
+      transactionStatus: result.transactionStatus ?? null,
+      qrisUrl: result.qrisUrl,
+      qrisString: result.qrisString,
+      vaNumber: result.vaNumber,
+      deeplinkUrl: result.deeplinkUrl,
+      expiryTime: result.expiryTime || defaultExpiryTime(),
+    };
+  }
+
+  async getStatus(gatewayOrderId: string): Promise<ProviderResult<PaymentStatusResult>> {
+    const status = await this.midtransService.getTransactionStatus(gatewayOrderId);
+    if (!status.success) {
+      return { success: false, error: status.error || 'Unknown error occurred' };
+    }
+
+    return {
+      success: true,
+      paymentStatus: this.midtransService.mapTransactionStatus(status.transactionStatus),
+      transactionStatus: status.transactionStatus,
+      grossAmount: Math.round(Number(status.grossAmount) || 0),
+    };
+  }
+
+  async cancel(gatewayOrderId: string): Promise<ProviderResult<{ transactionStatus: string }>> {
+    const result = await this.midtransService.cancelTransaction(gatewayOrderId);
+    if (!result.success) {
+      return { success: false, error: result.error || 'Unknown error occurred' };
+    }
+    return { success: true, transactionStatus: result.transactionStatus };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<ProviderResult<{ refundKey: string }>> {
+    const result = await this.midtransService.refundTransaction(request);
+    if (!result.success) {
+      return { success: false, error: result.error || 'Unknown error occurred' };
+    }
+    return { success: true, refundKey: result.refundKey };
+  }
+
+  verifyWebhook(body: any): WebhookNotification {
+    const notification = this.midtransService.processWebhookNotification(body);
+    return {
+      gatewayOrderId: notification.orderId,
+      paymentStatus: notification.paymentStatus,
+      transactionStatus: notification.transactionStatus,
+    };
+  }
+}
+
+interface MockTransaction {
+  amount: number;
+  method: OnlinePaymentMethod;
+  transactionId: string;
+  paymentStatus: GatewayPaymentStatus;
+}
+
+/**
+ * Local gateway for development and demos. Transactions live in memory and stay pending
+ * until they are settled through simulatePayment (POST /api/payments/mock/:id/simulate)
+ * or a webhook signed with MOCK_PAYMENT_WEBHOOK_SECRET.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  readonly methods = ONLINE_PAYMENT_METHODS;
+  readonly refundableMethods = ONLINE_PAYMENT_METHODS;
+
+  private transactions = new Map<string, MockTransaction>();
+
+  async createCharge(request: ChargeRequest): Promise<ProviderResult<PaymentCharge>> {
+    const gatewayOrderId = createGatewayOrderId('MOCK');
+    const transactionId = `mock-${crypto.randomUUID()}`;
+    this.transactions.set(gatewayOrderId, {
+      amount: request.amount,
+      method: request.method,
+      transactionId,
+      paymentStatus: 'pending',
+    });
+
+    return {
+      success: true,
+      gatewayOrderId,
+      transactionId,
+      transactionStatus: 'pending',
+      qrisUrl: null,
+      qrisString: request.method === 'qris' ? `MOCK QRIS ${gatewayOrderId} - Use for development only` : null,
+      // Looks like a VA number so the payment page renders it the same way
+      vaNumber: request.method === 'bank_transfer' ? `8808${String(Date.now()).slice(-8)}` : null,
+      deeplinkUrl: null,
+      expiryTime: defaultExpiryTime(),
+    };
+  }
+
+  async getStatus(gatewayOrderId: string): Promise<ProviderResult<PaymentStatusResult>> {
+    const transaction = this.transactions.get(gatewayOrderId);
+    if (!transaction) {
+      // Mock transactions don't survive a server restart
+      return { success: false, error: 'Unknown mock transaction' };
+    }
+    return {
+      success: true,
+      paymentStatus: transaction.paymentStatus,
+      transactionStatus: transaction.paymentStatus,
+      grossAmount: transaction.amount,
+    };
+  }
+
+  async cancel(gatewayOrderId: string): Promise<ProviderResult<{ transactionStatus: string }>> {
+    const transaction = this.transactions.get(gatewayOrderId);
+    if (!transaction || transaction.paymentStatus !== 'pending') {
+      return { success: false, error: 'Transaction cannot be cancelled' };
+    }
+    transaction.paymentStatus = 'failed';
+    return { success: true, transactionStatus: 'cancel' };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<ProviderResult<{ refundKey: string }>> {
+    return { success: true, refundKey: request.refundKey };
+  }
+
+  verifyWebhook(body: any): WebhookNotification {
+    const { order_id, transaction_status, signature_key } = body ?? {};
+    if (signature_key !== this.sign(order_id, transaction_status)) {
+      throw new Error('Invalid signature key');
+    }
+    if (!GATEWAY_PAYMENT_STATUSES.includes(transaction_status)) {
+      throw new Error(`Unknown mock transaction status: ${transaction_status}`);
+    }
+    return this.simulatePayment(order_id, transaction_status);
+  }
+
+  // Settle, fail or expire a pending mock transaction as the real gateway would
+  simulatePayment(gatewayOrderId: string, paymentStatus: GatewayPaymentStatus): WebhookNotification {
+    const transaction = this.transactions.get(gatewayOrderId);
+    if (transaction) {
+      transaction.paymentStatus = paymentStatus;
+    }
+    return { gatewayOrderId, paymentStatus, transactionStatus: paymentStatus };
+  }
+
+  private sign(gatewayOrderId: string, transactionStatus: string): string {
+    const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock-payment-secret';
+    return crypto.createHmac('sha256', secret).update(`${gatewayOrderId}${transactionStatus}`).digest('hex');
+  }
+}
+
+const providers = new Map<PaymentGateway, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getPaymentProvider(gateway: string | null | undefined): PaymentProvider | null {
+  return (gateway && providers.get(gateway as PaymentGateway)) || null;
+}
+
+// The store's chosen gateway; falls back to the mock gateway, which is only registered outside production
+export function getStorePaymentProvider(gateway: string | null | undefined): PaymentProvider | null {
+  return getPaymentProvider(gateway || 'midtrans') ?? getPaymentProvider('mock');
+}
+
+// Orders from before gateways were pluggable only carry a Midtrans order id; MOCK- ids were development orders
+export function getOrderPaymentGateway(order: Order): PaymentGateway | null {
+  if (order.paymentGateway) return order.paymentGateway as PaymentGateway;
+  if (!order.midtransOrderId) return null;
+  return order.midtransOrderId.startsWith('MOCK-') ? 'mock' : 'midtrans';
+}
+
+export function getOrderPaymentProvider(order: Order): PaymentProvider | null {
+  return getPaymentProvider(getOrderPaymentGateway(order));
+}
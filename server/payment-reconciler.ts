@@ -0,0 +1,171 @@
+import { storage } from "./storage";
+import { getOrderPaymentGateway, getOrderPaymentProvider, type PaymentProvider } from "./payment-providers";
+import type { Order, PaymentDiscrepancy, PaymentReconciliation } from "@shared/schema";
+
+// Applies a payment status change (stock, daily report, realtime push); returns false when it was already applied
+export type ApplyPaymentStatus = (order: Order, paymentStatus: string, transactionStatus?: string) => Promise<boolean>;
+
+export interface ReconcilerOptions {
+  applyPaymentStatus: ApplyPaymentStatus;
+  // Gateway whose settlements go into the daily report; null skips the report
+  reportProvider: PaymentProvider | null;
+}
+
+const RECONCILE_INTERVAL_MS = Number(process.env.PAYMENT_RECONCILE_INTERVAL_MS) || 60 * 1000;
+// Expired orders stay under watch this long in case the gateway settles a payment after our deadline
+const EXPIRED_LOOKBACK_MS = 60 * 60 * 1000;
+// Slack past paymentExpiredAt before we expire an order the gateway still reports as pending
+const EXPIRY_GRACE_MS = 2 * 60 * 1000;
+// Yesterday's report is built after this hour so late settlements are included
+const DAILY_REPORT_HOUR = 1;
+
+// 'YYYY-MM-DD' for the server's local day
+export function toReportDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * One reconciliation pass: ask each order's gateway about pending and recently expired
+ * payments and apply settlement/expire/cancel transitions. Orders past paymentExpiredAt
+ * that the gateway still reports as pending are expired here, so the deadline holds without
+ * a webhook. Orders whose status check fails are retried on the next pass, never expired.
+ */
+export async function reconcilePendingPayments({ applyPaymentStatus }: Pick<ReconcilerOptions, 'applyPaymentStatus'>): Promise<{ checked: number; updated: number }> {
+  const now = Date.now();
+  const orders = await storage.getGatewayOrdersToReconcile(new Date(now - EXPIRED_LOOKBACK_MS));
+  let updated = 0;
+
+  for (const order of orders) {
+    let paymentStatus = order.paymentStatus;
+    let transactionStatus = order.midtransTransactionStatus ?? undefined;
+
+    const provider = getOrderPaymentProvider(order);
+    if (provider) {
+      const status = await provider.getStatus(order.midtransOrderId!);
+      if (!status.success) {
+        // The customer may have paid during a gateway outage: leave the order as it is and ask
+        // again next pass, rather than expiring it and losing the settlement past the lookback
+        continue;
+      }
+      transactionStatus = status.transactionStatus;
+      paymentStatus = status.paymentStatus;
+    }
+
+    const deadline = order.paymentExpiredAt ? new Date(order.paymentExpiredAt).getTime() + EXPIRY_GRACE_MS : null;
+    if (paymentStatus === 'pending' && deadline !== null && deadline < now) {
+      paymentStatus = 'expired';
+    }
+
+    if (paymentStatus !== order.paymentStatus && await applyPaymentStatus(order, paymentStatus, transactionStatus)) {
+      console.log(`Reconciled payment for order ${order.id}: ${order.paymentStatus} -> ${paymentStatus}`);
+      updated++;
+    }
+  }
+
+  return { checked: orders.length, updated };
+}
+
+/**
+ * Compare a gateway's orders created on a day with its transactions and store the
+ * result (replacing an earlier run for the same day). Amounts are compared in rupiah.
+ */
+export async function buildPaymentReconciliation(provider: PaymentProvider, reportDate: string): Promise<PaymentReconciliation> {
+  const start = new Date(`${reportDate}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const orders = (await storage.getGatewayOrdersCreatedBetween(start, end))
+    .filter(order => getOrderPaymentGateway(order) === provider.name);
+  const discrepancies: PaymentDiscrepancy[] = [];
+  let matchedCount = 0;
+  let paidTotal = 0;
+  let settledTotal = 0;
+
+  for (const order of orders) {
+    const isPaid = order.paymentStatus === 'paid';
+    if (isPaid) paidTotal += order.total;
+
+    const base = {
+      orderId: order.id,
+      midtransOrderId: order.midtransOrderId!,
+      paymentStatus: order.paymentStatus,
+      amount: order.total,
+    };
+
+    const status = await provider.getStatus(order.midtransOrderId!);
+    if (!status.success) {
+      discrepancies.push({ ...base, type: 'status_unavailable', message: status.error });
+      continue;
+    }
+
+    const isSettled = status.paymentStatus === 'paid';
+    const midtransAmount = status.grossAmount;
+    const details = { ...base, midtransStatus: status.transactionStatus, midtransAmount };
+    if (isSettled) settledTotal += midtransAmount;
+
+    if (isPaid && !isSettled) {
+      discrepancies.push({ ...details, type: 'paid_not_settled' });
+    } else if (!isPaid && isSettled) {
+      discrepancies.push({ ...details, type: 'settled_not_paid' });
+    } else if (isSettled && midtransAmount !== order.total) {
+      discrepancies.push({ ...details, type: 'amount_mismatch' });
+    } else {
+      matchedCount++;
+    }
+  }
+
+  return storage.savePaymentReconciliation({
+    reportDate,
+    ordersChecked: orders.length,
+    matchedCount,
+    paidTotal,
+    settledTotal,
+    discrepancies,
+  });
+}
+
+/**
+ * Run the reconciler in the background: pending payments every interval, and
+ * yesterday's reconciliation report once per day. Returns a stop function.
+ */
+export function startPaymentReconciler(options: ReconcilerOptions): () => void {
+  let running = false;
+  let lastReportDate: string | null = null;
+
+  const tick = async () => {
+    if (running) return; // a slow gateway API must not stack passes
+    running = true;
+
+    try {
+      const result = await reconcilePendingPayments(options);
+      if (result.updated > 0) {
+        console.log(`Payment reconciler updated ${result.updated} of ${result.checked} orders`);
+      }
+
+      const now = new Date();
+      const yesterday = new Date(now);
+      yesterday.setDate(yesterday.getDate() - 1);
+      const reportDate = toReportDate(yesterday);
+
+      if (options.reportProvider && now.getHours() >= DAILY_REPORT_HOUR && lastReportDate !== reportDate) {
+        if (!await storage.getPaymentReconciliation(reportDate)) {
+          const report = await buildPaymentReconciliation(options.reportProvider, reportDate);
+          console.log(`Payment reconciliation for ${reportDate}: ${report.matchedCount}/${report.ordersChecked} matched, ${report.discrepancies.length} discrepancies`);
+        }
+        lastReportDate = reportDate;
+      }
+    } catch (error) {
+      console.error('Payment reconciler error:', error);
+      // Don't throw - the next interval tries again
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, RECONCILE_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
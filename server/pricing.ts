@@ -0,0 +1,293 @@
+import { storage } from "./storage";
+import type { InsertOrder, Order, OrderCharges, OrderItem, OrderItemInput, OrderItemModifier, RoundingRule, StoreProfile } from "@shared/schema";
+import { applyAutomaticPromotions, applyVoucher, isDiscountActive, type PromotionLine } from "@shared/discounts";
+import { getModifierGroups, getModifiersTotal, resolveModifiers } from "@shared/modifiers";
+import { resolvePrepStationId } from "@shared/kitchen";
+
+// Raised for invalid order input (unknown/unavailable menu items, bad modifier choices); routes map it to 400
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PricingError";
+    Object.setPrototypeOf(this, PricingError.prototype);
+  }
+}
+
+// Voucher accepted while pricing an order, recorded as a redemption together with the order
+export interface AppliedVoucher {
+  discountId: string;
+  code: string;
+  amount: number;
+}
+
+export interface PricingOptions {
+  voucherCode?: string | null;
+  customerName?: string | null; // identifies the customer for per-customer voucher limits
+}
+
+export interface PricedOrder {
+  items: OrderItem[];
+  charges: OrderCharges;
+  voucher?: AppliedVoucher;
+}
+
+export interface ChargeSettings {
+  taxRate: number;
+  taxInclusive: boolean;
+  serviceChargeRate: number;
+  serviceChargeTaxable: boolean;
+  roundingRule: RoundingRule;
+  taxExemptCategoryIds: string[];
+  serviceExemptCategoryIds: string[];
+}
+
+// No tax or service until the store configures them
+const DEFAULT_CHARGE_SETTINGS: ChargeSettings = {
+  taxRate: 0,
+  taxInclusive: false,
+  serviceChargeRate: 0,
+  serviceChargeTaxable: true,
+  roundingRule: 'none',
+  taxExemptCategoryIds: [],
+  serviceExemptCategoryIds: [],
+};
+
+export function getChargeSettingsFromProfile(profile?: StoreProfile): ChargeSettings {
+  if (!profile) return DEFAULT_CHARGE_SETTINGS;
+
+  return {
+    taxRate: profile.taxRate ?? 0,
+    taxInclusive: profile.taxInclusive ?? false,
+    serviceChargeRate: profile.serviceChargeRate ?? 0,
+    serviceChargeTaxable: profile.serviceChargeTaxable ?? true,
+    roundingRule: (profile.roundingRule as RoundingRule) || 'none',
+    taxExemptCategoryIds: Array.isArray(profile.taxExemptCategoryIds) ? profile.taxExemptCategoryIds : [],
+    serviceExemptCategoryIds: Array.isArray(profile.serviceExemptCategoryIds) ? profile.serviceExemptCategoryIds : [],
+  };
+}
+
+export async function getChargeSettings(): Promise<ChargeSettings> {
+  return getChargeSettingsFromProfile(await storage.getStoreProfile());
+}
+
+export function applyRounding(amount: number, rule: RoundingRule): number {
+  switch (rule) {
+    case 'nearest_100': return Math.round(amount / 100) * 100;
+    case 'nearest_500': return Math.round(amount / 500) * 500;
+    case 'nearest_1000': return Math.round(amount / 1000) * 1000;
+    case 'up_100': return Math.ceil(amount / 100) * 100;
+    case 'up_1000': return Math.ceil(amount / 1000) * 1000;
+    case 'down_100': return Math.floor(amount / 100) * 100;
+    default: return amount;
+  }
+}
+
+/**
+ * Compute service charge, tax (PB1) and rounding for priced lines. Charges are based on
+ * each line's amount after its discount. Service charge is always added on top; with
+ * inclusive tax the tax is carved out of the (price + service) amount instead of added.
+ */
+export function calculateCharges(
+  lines: { amount: number; discount?: number; categoryId?: string }[],
+  settings: ChargeSettings
+): OrderCharges {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const discount = lines.reduce((sum, line) => sum + (line.discount || 0), 0);
+  const serviceRate = settings.serviceChargeRate / 100;
+  const taxRate = settings.taxRate / 100;
+
+  let serviceCharge = 0;
+  let taxBase = 0;
+
+  for (const line of lines) {
+    const serviceable = !line.categoryId || !settings.serviceExemptCategoryIds.includes(line.categoryId);
+    const taxable = !line.categoryId || !settings.taxExemptCategoryIds.includes(line.categoryId);
+    const netAmount = line.amount - (line.discount || 0);
+    const lineService = serviceable ? netAmount * serviceRate : 0;
+
+    serviceCharge += lineService;
+    if (taxable) {
+      taxBase += netAmount + (settings.serviceChargeTaxable ? lineService : 0);
+    }
+  }
+
+  serviceCharge = Math.round(serviceCharge);
+  const tax = settings.taxInclusive
+    ? Math.round(taxBase - taxBase / (1 + taxRate))
+    : Math.round(taxBase * taxRate);
+
+  const unrounded = subtotal - discount + serviceCharge + (settings.taxInclusive ? 0 : tax);
+  const total = Math.max(0, applyRounding(unrounded, settings.roundingRule));
+
+  return {
+    subtotal,
+    discount,
+    serviceCharge,
+    tax,
+    rounding: total - unrounded,
+    total,
+    serviceChargeRate: settings.serviceChargeRate,
+    taxRate: settings.taxRate,
+    taxInclusive: settings.taxInclusive,
+  };
+}
+
+export function getCustomerKey(customerName?: string | null): string {
+  return (customerName || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Look up a voucher code and check its schedule, minimum spend and redemption limits
+async function findUsableVoucher(code: string, subtotal: number, customerName: string | null | undefined, at: Date) {
+  const voucher = await storage.getDiscountByCode(code);
+  if (!voucher) {
+    throw new PricingError(`Kode voucher ${code.toUpperCase()} tidak ditemukan`);
+  }
+  if (!isDiscountActive(voucher, at)) {
+    throw new PricingError(`Voucher ${voucher.code} tidak berlaku saat ini`);
+  }
+  if (voucher.minSpend && subtotal < voucher.minSpend) {
+    throw new PricingError(`Voucher ${voucher.code} berlaku untuk minimal belanja Rp${voucher.minSpend.toLocaleString('id-ID')}`);
+  }
+  if (voucher.usageLimit && await storage.countDiscountRedemptions(voucher.id) >= voucher.usageLimit) {
+    throw new PricingError(`Kuota voucher ${voucher.code} sudah habis`);
+  }
+  if (voucher.perCustomerLimit) {
+    const customerKey = getCustomerKey(customerName);
+    if (!customerKey) {
+      throw new PricingError(`Isi nama customer untuk memakai voucher ${voucher.code}`);
+    }
+    if (await storage.countDiscountRedemptions(voucher.id, customerKey) >= voucher.perCustomerLimit) {
+      throw new PricingError(`Voucher ${voucher.code} sudah dipakai maksimal oleh customer ini`);
+    }
+  }
+
+  return voucher;
+}
+
+/**
+ * Price requested order items from the menu (never trusting client prices), apply
+ * automatic promotions and an optional voucher, and compute the order charges.
+ * Throws PricingError for unknown or unavailable items, invalid modifier selections
+ * and unusable vouchers.
+ */
+export async function priceOrderItems(items: OrderItemInput[], options: PricingOptions = {}): Promise<PricedOrder> {
+  const lines: (PromotionLine & { name: string; notes: string; basePrice: number; modifiers: OrderItemModifier[]; stationId: string | null })[] = [];
+  const now = new Date();
+  const [categoryList, stations] = await Promise.all([storage.getCategories(), storage.getPrepStations()]);
+
+  for (const orderItem of items) {
+    const menuItem = await storage.getMenuItem(orderItem.itemId);
+    if (!menuItem || !menuItem.isAvailable) {
+      throw new PricingError(`Menu item ${orderItem.itemId} not found or unavailable`);
+    }
+
+    const optionIds = orderItem.modifierOptionIds ?? orderItem.modifiers?.map(modifier => modifier.optionId) ?? [];
+    const resolved = resolveModifiers(getModifierGroups(menuItem), optionIds);
+    if (resolved.error !== undefined) {
+      throw new PricingError(`${menuItem.name}: ${resolved.error}`);
+    }
+
+    lines.push({
+      itemId: menuItem.id,
+      name: menuItem.name,
+      price: menuItem.price + getModifiersTotal(resolved.modifiers),
+      basePrice: menuItem.price,
+      modifiers: resolved.modifiers,
+      quantity: orderItem.quantity,
+      notes: orderItem.notes || "",
+      categoryId: menuItem.categoryId,
+      stationId: resolvePrepStationId(menuItem, categoryList, stations),
+      discount: 0,
+      discountIds: [],
+    });
+  }
+
+  applyAutomaticPromotions(lines, await storage.getActiveDiscounts(), now);
+
+  let voucher: AppliedVoucher | undefined;
+  if (options.voucherCode?.trim()) {
+    const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+    const discount = await findUsableVoucher(options.voucherCode.trim(), subtotal, options.customerName, now);
+    const amount = applyVoucher(lines, discount);
+    if (amount <= 0) {
+      throw new PricingError(`Voucher ${discount.code} tidak berlaku untuk item di pesanan ini`);
+    }
+    voucher = { discountId: discount.id, code: discount.code!, amount };
+  }
+
+  const pricedItems: OrderItem[] = lines.map(line => ({
+    itemId: line.itemId,
+    name: line.name,
+    price: line.price,
+    basePrice: line.basePrice,
+    quantity: line.quantity,
+    notes: line.notes,
+    modifiers: line.modifiers.length > 0 ? line.modifiers : undefined,
+    categoryId: line.categoryId ?? undefined,
+    stationId: line.stationId ?? undefined,
+    discount: line.discount,
+    discountIds: line.discountIds,
+  }));
+
+  return { items: pricedItems, charges: await calculateOrderCharges(pricedItems), voucher };
+}
+
+// Save an order, counting its voucher against the voucher's limits in the same transaction.
+// Throws PricingError when concurrent checkouts used the voucher up after it was priced
+export async function createOrderWithVoucher(order: InsertOrder, voucher?: AppliedVoucher): Promise<Order> {
+  if (!voucher) return storage.createOrder(order);
+
+  const created = await storage.createOrderWithRedemption(order, {
+    discountId: voucher.discountId,
+    customerKey: getCustomerKey(order.customerName),
+    amount: voucher.amount,
+  });
+  if (!created) {
+    throw new PricingError(`Kuota voucher ${voucher.code} sudah habis`);
+  }
+  return created;
+}
+
+/**
+ * Charges for lines that already carry their price and discount (e.g. an open bill with
+ * items added over time). Lines stored before categoryId was recorded are looked up from the menu.
+ */
+export async function calculateOrderCharges(items: OrderItem[]): Promise<OrderCharges> {
+  const settings = await getChargeSettings();
+  const lines = [];
+
+  for (const item of items) {
+    let categoryId = item.categoryId;
+    if (!categoryId && item.itemId) {
+      categoryId = (await storage.getMenuItem(item.itemId))?.categoryId;
+    }
+    lines.push({ amount: (item.price || 0) * (item.quantity || 0), discount: item.discount || 0, categoryId });
+  }
+
+  return calculateCharges(lines, settings);
+}
+
+// Midtrans requires item_details to add up to gross_amount, so charges become extra lines
+export function buildPaymentItemDetails(items: OrderItem[], charges: OrderCharges) {
+  const details = items.map(item => ({
+    id: item.itemId,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+  }));
+
+  if (charges.discount > 0) {
+    details.push({ id: 'DISCOUNT', name: 'Diskon', price: -charges.discount, quantity: 1 });
+  }
+  if (charges.serviceCharge > 0) {
+    details.push({ id: 'SERVICE', name: `Service ${charges.serviceChargeRate}%`, price: charges.serviceCharge, quantity: 1 });
+  }
+  if (charges.tax > 0 && !charges.taxInclusive) {
+    details.push({ id: 'TAX', name: `PB1 ${charges.taxRate}%`, price: charges.tax, quantity: 1 });
+  }
+  if (charges.rounding !== 0) {
+    details.push({ id: 'ROUNDING', name: 'Pembulatan', price: charges.rounding, quantity: 1 });
+  }
+
+  return details;
+}
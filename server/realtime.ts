@@ -0,0 +1,114 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { getSession } from './auth-utils';
+import type { RealtimeEvent, RealtimeEventType } from '@shared/schema';
+
+// Path for the staff push channel. Everything else (e.g. Vite HMR) is left untouched.
+export const REALTIME_PATH = '/ws';
+
+// Only staff screens receive push events
+const ALLOWED_ROLES = ['admin', 'kasir'];
+
+interface RealtimeClient extends WebSocket {
+  isAlive?: boolean;
+  userId?: string;
+  role?: string;
+}
+
+const wss = new WebSocketServer({ noServer: true });
+
+// Parse the session token from the raw Cookie header (cookie-parser does not run on upgrades)
+const getSessionToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === 'session_token') {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+};
+
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+const handleUpgrade = async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+  const token = getSessionToken(req);
+  if (!token) {
+    return rejectUpgrade(socket, 401, 'Unauthorized');
+  }
+
+  try {
+    const session = await getSession(token);
+    if (!session || !ALLOWED_ROLES.includes(session.role)) {
+      return rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client = ws as RealtimeClient;
+      client.userId = session.userId;
+      client.role = session.role;
+      wss.emit('connection', client, req);
+    });
+  } catch (error) {
+    console.error('Realtime upgrade error:', error);
+    rejectUpgrade(socket, 500, 'Internal Server Error');
+  }
+};
+
+wss.on('connection', (ws: RealtimeClient) => {
+  ws.isAlive = true;
+  ws.on('pong', () => {
+    ws.isAlive = true;
+  });
+  ws.on('error', (error) => {
+    console.error('Realtime socket error:', error);
+  });
+});
+
+// Drop dead connections every 30 seconds
+const heartbeat = setInterval(() => {
+  wss.clients.forEach((ws) => {
+    const client = ws as RealtimeClient;
+    if (client.isAlive === false) {
+      client.terminate();
+      return;
+    }
+    client.isAlive = false;
+    client.ping();
+  });
+}, 30 * 1000);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+export const attachRealtime = (server: Server): void => {
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== REALTIME_PATH) return;
+
+    void handleUpgrade(req, socket, head);
+  });
+};
+
+// Broadcast an event to every connected staff client
+export const publishEvent = <T>(type: RealtimeEventType, payload: T): void => {
+  if (wss.clients.size === 0) return;
+
+  const event: RealtimeEvent<T> = {
+    type,
+    payload,
+    timestamp: new Date().toISOString(),
+  };
+  const message = JSON.stringify(event);
+
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+};
@@ -3,12 +3,26 @@ import { createServer, type Server } from "http";
 import rateLimit from 'express-rate-limit';
 import { ZodError } from 'zod';
 import { storage } from "./storage";
-import { insertOrderSchema, insertMenuItemSchema, insertInventoryItemSchema, insertMenuItemIngredientSchema, insertCategorySchema, insertStoreProfileSchema, insertReservationSchema, insertUserSchema, insertDiscountSchema, insertExpenseSchema, insertDailyReportSchema, insertPrintSettingSchema, insertShiftSchema, insertCashMovementSchema, insertRefundSchema, insertAuditLogSchema, type InsertOrder, type AuditLog } from "@shared/schema";
+import { insertOrderSchema, BankTransferBankEnum, EwalletChannelEnum, insertMenuItemSchema, insertInventoryItemSchema, insertMenuItemIngredientSchema, insertCategorySchema, insertStoreProfileSchema, insertReservationSchema, insertUserSchema, insertDiscountSchema, insertExpenseSchema, insertDailyReportSchema, insertPrintSettingSchema, insertShiftSchema, cashCountLineSchema, insertCashMovementSchema, insertRefundSchema, insertAuditLogSchema, insertSupplierSchema, insertTableSchema, TableActionEnum, type Order, type InsertOrder, type InsertOrderPayment, SplitBillModeEnum, type PaymentMethod, type InsertDiscount, type Refund, type OrderItem, type AuditLog, type PurchaseOrderItem, type MarginWarning, type MenuEngineeringItem, type SalesReport, type Notification, type TableQrCode, type OrderTracking, ServiceRequestTypeEnum, type ServiceRequestType, insertPrepStationSchema, PrepItemStatusEnum, type PrintJobKind, type PrintSetting, orderItemInputSchema, orderItemsInputSchema, type OrderItemInput } from "@shared/schema";
 import { z } from 'zod';
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { ObjectPermission, canAccessObject } from "./objectAcl";
 import { hashPassword, verifyPassword, createSession, getSession, deleteSession, type SessionData } from './auth-utils';
 import { MidtransService } from "./midtrans-service";
+import { MidtransPaymentProvider, MockPaymentProvider, GATEWAY_PAYMENT_STATUSES, getPaymentProvider, getStorePaymentProvider, getOrderPaymentProvider, registerPaymentProvider, type ChargeRequest, type PaymentProvider } from "./payment-providers";
+import { getEnabledPaymentMethods, getTenderTotals, isCounterPaymentMethod, isOnlinePaymentMethod } from "@shared/payments";
+import { getCashCountTotal, needsVarianceApproval } from "@shared/cash-count";
+import { buildOrderTracking, PREP_TIME_WINDOW_HOURS } from "@shared/order-tracking";
+import { getItemPrepStatus, isOrderPrepDone } from "@shared/kitchen";
+import { diffOrderLines, planKitchenTickets, PRINT_JOB_HISTORY_HOURS } from "@shared/print-jobs";
+import { TABLE_ACTIVITY_WINDOW_HOURS } from "@shared/tables";
+import { attachRealtime, publishEvent } from "./realtime";
+import { hasTableTokenSecret, signTableSession, signTableToken, verifyTableSession, verifyTableToken } from "./table-tokens";
+import { convertQuantity, normalizeUnit, roundQuantity } from "@shared/units";
+import { PricingError, priceOrderItems, calculateOrderCharges, buildPaymentItemDetails, createOrderWithVoucher } from "./pricing";
+import { buildPaymentReconciliation, reconcilePendingPayments, startPaymentReconciler, toReportDate } from "./payment-reconciler";
+import { PrinterConnectionError, getNetworkPrinterStatus, parsePrinterAddress, processNetworkPrintJobs, sendWithRetry, startNetworkPrintWorker, type PrinterAddress } from "./network-printer";
+import { buildTestPageCommands, encodeEscPos } from "@shared/escpos";
 
 // Initialize Midtrans service with production safety
 let midtransService: MidtransService | null = null;
@@ -23,7 +37,7 @@ try {
       console.error('Set MIDTRANS_SERVER_KEY and MIDTRANS_CLIENT_KEY environment variables');
       process.exit(1);
     }
-    console.log('ℹ️  Midtrans not configured - using mock QRIS for development');
+    console.log('ℹ️  Midtrans not configured - using the mock payment gateway for development');
   }
 } catch (error) {
   console.warn('⚠️  Midtrans service initialization failed:', error instanceof Error ? error.message : error);
@@ -31,7 +45,23 @@ try {
     console.error('🚨 CRITICAL: Payment service initialization failed in production');
     process.exit(1);
   }
-  console.log('ℹ️  Using mock QRIS for development');
+  console.log('ℹ️  Using the mock payment gateway for development');
+}
+
+// Production safety: table QR codes must not be signed with the built-in development secret
+if (process.env.NODE_ENV === 'production' && !hasTableTokenSecret()) {
+  console.error('🚨 CRITICAL: Table QR secret required in production environment');
+  console.error('Set TABLE_QR_SECRET or SESSION_SECRET environment variable');
+  process.exit(1);
+}
+
+// Gateways the store can pick in settings; the mock gateway never handles real money
+const mockPaymentProvider = new MockPaymentProvider();
+if (midtransService) {
+  registerPaymentProvider(new MidtransPaymentProvider(midtransService));
+}
+if (process.env.NODE_ENV !== 'production') {
+  registerPaymentProvider(mockPaymentProvider);
 }
 
 // Image file signature validation
@@ -70,6 +100,50 @@ const userStatusSchema = z.object({
   isActive: z.boolean()
 });
 
+// Shift closing takes a denomination count, or just the counted total from older clients
+const closeShiftSchema = z.object({
+  cashCount: z.array(cashCountLineSchema).min(1).optional(),
+  finalCash: z.number().int().nonnegative().optional(),
+  notes: z.string().max(500).optional(),
+}).refine(data => data.cashCount || data.finalCash !== undefined, {
+  message: "Final cash amount is required and must be a positive number",
+  path: ["finalCash"],
+});
+
+const tableActionSchema = z.object({
+  action: TableActionEnum
+});
+
+const serviceRequestSchema = z.object({
+  type: ServiceRequestTypeEnum
+});
+
+const orderItemsPrepStatusSchema = z.object({
+  itemIndexes: z.array(z.number().int().min(0)).min(1),
+  status: PrepItemStatusEnum
+});
+
+const printJobResultSchema = z.object({
+  success: z.boolean(),
+  error: z.string().max(500).optional()
+});
+
+// ESC/POS bytes built on the staff screen (e.g. a receipt) for the server to pass on to a LAN printer
+const networkPrintSchema = z.object({
+  data: z.string().min(1).max(200000).regex(/^[A-Za-z0-9+/]+={0,2}$/, "Data cetak harus base64")
+});
+
+const tableQrCodesSchema = z.object({
+  tableIds: z.array(z.string()).min(1),
+  rotate: z.boolean().default(false)
+});
+
+const payLaterOrderSchema = z.object({
+  customerName: z.string().trim().min(1),
+  tableSession: z.string().min(1),
+  items: orderItemsInputSchema
+});
+
 // Error handling utilities
 interface ApiError {
   message: string;
@@ -112,6 +186,174 @@ function handleApiError(res: Response, error: unknown, defaultMessage: string =
   return sendErrorResponse(res, 500, defaultMessage);
 }
 
+// Helper function to validate the lines of an order request before they are priced
+function parseOrderItems(items: unknown): { items: OrderItemInput[] } | { error: string } {
+  const result = orderItemsInputSchema.safeParse(items);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    return { error: `Invalid order items: ${issue.path.join('.')} ${issue.message}`.trim() };
+  }
+  return { items: result.data };
+}
+
+// Staff member taking an order, payment or refund, and the open shift it is counted on
+interface CashierContext {
+  cashierId: string;
+  shiftId: string | null;
+}
+
+// Helper function to look up the acting user's open shift; admins may take payments without one
+async function getCashierContext(req: Request): Promise<CashierContext> {
+  const currentUser = (req as any).user;
+  const activeShift = await storage.getActiveShift(currentUser.id);
+  return { cashierId: currentUser.id, shiftId: activeShift?.id ?? null };
+}
+
+// Table an order is taken at: a table from the tables list, or free text while the store has none
+interface TableRef {
+  tableId: string | null;
+  tableNumber: string;
+}
+
+// Helper function to match a table number to the tables list
+async function resolveTable(tableNumber: string): Promise<TableRef | { error: string }> {
+  const table = await storage.getTableByNumber(tableNumber);
+  if (table) {
+    return table.isActive
+      ? { tableId: table.id, tableNumber: table.number }
+      : { error: `Meja ${table.number} sedang tidak digunakan` };
+  }
+
+  const hasTables = (await storage.getTables()).length > 0;
+  return hasTables
+    ? { error: `Meja ${tableNumber.trim()} tidak terdaftar` }
+    : { tableId: null, tableNumber: tableNumber.trim() };
+}
+
+// Helper function to find the table a signed QR token was printed for
+async function resolveTableToken(token: string): Promise<TableRef | { error: string }> {
+  const qrToken = verifyTableToken(token);
+  const table = qrToken ? await storage.getTableByQrToken(qrToken) : undefined;
+  if (!table) {
+    return { error: "Kode QR meja tidak valid atau sudah diganti. Silakan pindai ulang kode QR di meja Anda" };
+  }
+  return table.isActive
+    ? { tableId: table.id, tableNumber: table.number }
+    : { error: `Meja ${table.number} sedang tidak digunakan` };
+}
+
+// Helper function to resolve the table of a customer order: once tables are set up, only a scanned QR code counts
+async function resolveCustomerTable(tableNumber: unknown, tableToken: unknown): Promise<TableRef | { error: string }> {
+  if (typeof tableToken === 'string' && tableToken) {
+    return resolveTableToken(tableToken);
+  }
+
+  if ((await storage.getTables()).length > 0) {
+    return { error: "Silakan pindai kode QR di meja Anda untuk memesan" };
+  }
+  return typeof tableNumber === 'string' && tableNumber.trim()
+    ? { tableId: null, tableNumber: tableNumber.trim() }
+    : { error: "Nomor meja wajib diisi" };
+}
+
+// Helper function to resolve the table session a customer got by scanning the table's QR code.
+// Sessions die with a reprinted code, an inactive table, or the guests being marked as gone
+async function resolveTableSession(session: string): Promise<TableRef | { error: string }> {
+  const verified = verifyTableSession(session);
+  const table = verified ? await storage.getTableByQrToken(verified.qrToken) : undefined;
+  if (!verified || !table || !table.isActive || (table.vacatedAt && verified.issuedAt <= table.vacatedAt)) {
+    return { error: "Sesi meja Anda sudah berakhir. Silakan pindai ulang kode QR di meja Anda" };
+  }
+  return { tableId: table.id, tableNumber: table.number };
+}
+
+// Helper function to add a round of items to an open bill. Lines are tagged with their round so the
+// kitchen can ticket just the new ones; charges are recomputed over the whole bill
+async function appendOpenBillRound(bill: Order, newItems: OrderItem[]): Promise<Order | undefined> {
+  const updated = await storage.addOpenBillRound(bill.id, newItems, calculateOrderCharges);
+  if (updated) {
+    await queueKitchenTickets(updated, (updated.items as OrderItem[]).slice(-newItems.length));
+  }
+  return updated;
+}
+
+// Helper function to open a table's bill. A table has one open bill, so when another device opened
+// it in the meantime the items join that bill as a new round instead
+async function openTableBill(order: InsertOrder): Promise<{ order: Order; action: 'created' | 'updated' } | undefined> {
+  const newOrder = await storage.createOpenBill(order);
+  if (newOrder) {
+    await queueKitchenTickets(newOrder, newOrder.items as OrderItem[]);
+    return { order: newOrder, action: 'created' };
+  }
+
+  const openBill = await storage.getOpenBillByTable(order.tableId ?? null, order.tableNumber);
+  const updated = openBill ? await appendOpenBillRound(openBill, order.items as OrderItem[]) : undefined;
+  return updated ? { order: updated, action: 'updated' } : undefined;
+}
+
+// Helper function to split order lines into tickets for the station printers and queue them.
+// Void tickets only go to stations that got a ticket for the order. A ticket that can't be
+// queued must not fail the order, so errors are logged and staff print from the KDS by hand
+async function queueKitchenTickets(order: Order, items: OrderItem[], kind: PrintJobKind = 'ticket'): Promise<void> {
+  try {
+    const printers = (await storage.getPrintSettings()).filter(printer => printer.stationIds.length > 0);
+    const lines = kind === 'void' ? items.filter(item => getItemPrepStatus(item) !== 'done') : items;
+    if (printers.length === 0 || lines.length === 0) return;
+
+    const [stations, categories, menuItems, orderJobs] = await Promise.all([
+      storage.getPrepStations(),
+      storage.getCategories(),
+      storage.getMenuItems(),
+      kind === 'void' ? storage.getPrintJobsByOrder(order.id) : Promise.resolve([]),
+    ]);
+    const ticketedStations = new Set(orderJobs.filter(job => job.kind === 'ticket').map(job => job.stationId));
+    const tickets = planKitchenTickets(lines, printers, stations, menuItems, categories)
+      .filter(ticket => kind !== 'void' || ticketedStations.has(ticket.stationId));
+
+    const jobs = await storage.createPrintJobs(tickets.map(ticket => ({
+      ...ticket,
+      orderId: order.id,
+      customerName: order.customerName,
+      tableNumber: order.tableNumber,
+      kind,
+    })));
+    jobs.forEach(job => publishEvent('print_job.changed', job));
+    void processNetworkPrintJobs();
+  } catch (error) {
+    console.error('Kitchen ticket queue error:', error);
+  }
+}
+
+// Helper function to find a printer the server prints to over the LAN, with its parsed address
+async function getNetworkPrinter(id: string): Promise<{ printer: PrintSetting; address: PrinterAddress } | { status: number; error: string }> {
+  const printer = await storage.getPrintSetting(id);
+  if (!printer) {
+    return { status: 404, error: "Print setting not found" };
+  }
+  if (printer.connectionType !== 'network') {
+    return { status: 400, error: "Printer ini tidak terhubung lewat jaringan" };
+  }
+  const address = parsePrinterAddress(printer.connectionString);
+  return address
+    ? { printer, address }
+    : { status: 400, error: "Alamat IP printer belum diisi atau bukan IP jaringan lokal (contoh: 192.168.1.100:9100)" };
+}
+
+// Helper function to build the public tracking view of an order, with its place in the kitchen queue
+async function getOrderTracking(order: Order): Promise<OrderTracking> {
+  const since = new Date(Date.now() - PREP_TIME_WINDOW_HOURS * 60 * 60 * 1000);
+  const [ordersAhead, averagePrepMinutes, openRequests] = await Promise.all([
+    storage.countKitchenOrdersAhead(order),
+    storage.getAveragePrepMinutes(since),
+    storage.getOpenServiceRequestsByOrder(order.id),
+  ]);
+  return buildOrderTracking(order, {
+    ordersAhead,
+    averagePrepMinutes,
+    openRequests: openRequests.map(request => request.type as ServiceRequestType),
+  });
+}
+
 // Helper function to update daily report when an order is paid
 async function updateDailyReportForOrder(orderId: string) {
   try {
@@ -138,8 +380,15 @@ async function updateDailyReportForOrder(orderId: string) {
     const cashOrders = paidOrders.filter(o => o.paymentMethod === 'cash');
     const nonCashOrders = paidOrders.filter(o => o.paymentMethod !== 'cash');
 
-    const totalRevenueCash = cashOrders.reduce((sum, o) => sum + (o.total || 0), 0);
-    const totalRevenueNonCash = nonCashOrders.reduce((sum, o) => sum + (o.total || 0), 0);
+    // Mixed-tender bills split their total between cash and non-cash by tender
+    const tenders = await storage.getOrderPaymentsByOrderIds(paidOrders.map(o => o.id));
+    let totalRevenueCash = 0;
+    let totalRevenueNonCash = 0;
+    for (const o of paidOrders) {
+      const totals = getTenderTotals(o, tenders.filter(t => t.orderId === o.id));
+      totalRevenueCash += totals.cash;
+      totalRevenueNonCash += totals.nonCash;
+    }
     const totalRevenue = totalRevenueCash + totalRevenueNonCash;
 
     // Check if daily report exists for this date
@@ -164,9 +413,9 @@ async function updateDailyReportForOrder(orderId: string) {
       });
     } else {
       // Create new report
-      // Find a kasir user to assign
+      // Assign the kasir who took the order, or any kasir for customer orders paid online
       const users = await storage.getAllUsers();
-      const kasirUser = users.find(u => u.role === 'kasir');
+      const kasirUser = users.find(u => u.id === order.cashierId) ?? users.find(u => u.role === 'kasir');
       
       if (kasirUser) {
         const shiftStart = new Date(reportDate);
@@ -197,6 +446,281 @@ async function updateDailyReportForOrder(orderId: string) {
   }
 }
 
+// Helper function to push the latest state of an order to connected staff screens
+async function publishOrderEvent(orderId: string, type: 'order.created' | 'order.status_changed' | 'order.updated' = 'order.updated') {
+  try {
+    const order = await storage.getOrder(orderId);
+    if (order) {
+      publishEvent(type, order);
+    }
+  } catch (error) {
+    console.error('Error publishing order event:', error);
+    // Don't throw - realtime push is best effort, clients fall back to polling
+  }
+}
+
+// Payment statuses an order may move out of; a paid order is never downgraded by a late or replayed notification
+const PAYMENT_TRANSITIONS: Record<string, string[]> = {
+  paid: ['pending', 'expired', 'failed'],
+  failed: ['pending'],
+  expired: ['pending'],
+};
+
+// Helper function to apply a payment status from a gateway webhook, the reconciler or a cancelled payment.
+// The update is conditional on the current status, so each transition runs its side effects once
+async function applyPaymentStatus(order: Order, paymentStatus: string, transactionStatus?: string): Promise<boolean> {
+  const fromStatuses = PAYMENT_TRANSITIONS[paymentStatus];
+  if (!fromStatuses?.includes(order.paymentStatus)) {
+    return false;
+  }
+
+  const updated = await storage.transitionOrderPayment(order.id, fromStatuses, {
+    paymentStatus,
+    midtransTransactionStatus: transactionStatus,
+    paidAt: paymentStatus === 'paid' ? new Date() : undefined
+  });
+  if (!updated) {
+    return false;
+  }
+
+  if (paymentStatus === 'paid') {
+    // Update order status when payment is confirmed
+    if (updated.orderStatus === 'queued') {
+      await storage.updateOrderStatus(order.id, 'preparing');
+    }
+    // Update daily report when payment is confirmed; stock was deducted with the payment update
+    await updateDailyReportForOrder(order.id);
+    // Online orders reach the station printers once paid; open bills were ticketed when ordered
+    if (!updated.payLater) {
+      await queueKitchenTickets(updated, updated.items as OrderItem[]);
+    }
+  }
+
+  await publishOrderEvent(order.id);
+  return true;
+}
+
+// Default margin threshold when no store profile has been saved yet
+const DEFAULT_MIN_MARGIN_PERCENT = 60;
+
+// Helper function to check the fields a promotion type needs; returns an error message or null
+function validatePromotionSettings(discount: Partial<InsertDiscount>): string | null {
+  if ((discount.type === 'buy_x_get_y' || discount.type === 'bundle') && !discount.buyQuantity) {
+    return discount.type === 'bundle' ? "Jumlah item per paket harus diisi" : "Jumlah beli (X) harus diisi";
+  }
+  if (discount.type === 'buy_x_get_y' && !discount.getQuantity) {
+    return "Jumlah gratis/diskon (Y) harus diisi";
+  }
+  if (!!discount.startTime !== !!discount.endTime) {
+    return "Jam mulai dan jam selesai happy hour harus diisi keduanya";
+  }
+  return null;
+}
+
+// Helper function to find menu items whose margin fell under the store's threshold after a price or cost change
+async function findMarginWarnings(params: { menuItemIds?: string[]; inventoryItemIds?: string[] }): Promise<MarginWarning[]> {
+  try {
+    const profile = await storage.getStoreProfile();
+    const threshold = profile?.minMarginPercent ?? DEFAULT_MIN_MARGIN_PERCENT;
+    const costs = await storage.getMenuItemCosts(params);
+
+    return costs
+      .filter(cost => cost.hasRecipe && cost.marginPercent < threshold)
+      .map(cost => ({
+        menuItemId: cost.menuItemId,
+        name: cost.name,
+        price: cost.price,
+        foodCost: cost.foodCost,
+        marginPercent: cost.marginPercent,
+        threshold,
+      }));
+  } catch (error) {
+    console.error('Error checking menu margins:', error);
+    // Don't throw - the price change itself already succeeded
+    return [];
+  }
+}
+
+// Payment choice from the customer payment page; virtual accounts and e-wallets also name the bank or wallet
+const onlinePaymentSchema = z.discriminatedUnion('paymentMethod', [
+  z.object({ paymentMethod: z.literal('qris') }),
+  z.object({ paymentMethod: z.literal('bank_transfer'), bank: BankTransferBankEnum }),
+  z.object({ paymentMethod: z.literal('ewallet'), ewallet: EwalletChannelEnum }),
+]);
+
+type OnlinePayment = z.infer<typeof onlinePaymentSchema>;
+
+// Helper function to turn the customer's payment choice into the method part of a gateway charge
+function toChargeMethod(payment: OnlinePayment) {
+  switch (payment.paymentMethod) {
+    case 'bank_transfer':
+      return { method: 'bank_transfer' as const, bank: payment.bank };
+    case 'ewallet':
+      return { method: 'ewallet' as const, ewallet: payment.ewallet };
+    default:
+      return { method: 'qris' as const };
+  }
+}
+
+// Helper function to get the bank or e-wallet stored as the order's payment channel
+function getPaymentChannel(payment: OnlinePayment): string | null {
+  if (payment.paymentMethod === 'bank_transfer') return payment.bank;
+  if (payment.paymentMethod === 'ewallet') return payment.ewallet;
+  return null;
+}
+
+type CounterTender = Omit<InsertOrderPayment, 'orderId' | 'createdBy'>;
+
+// Helper function to read the tenders of a counter payment (cash, QRIS stand or card on the EDC) from the request.
+// A bill can be split over several tenders that must add up to its total; requests without `tenders`
+// pay the whole bill with one method. Card tenders need the EDC approval code so they can be matched
+// with the bank settlement
+async function parseCounterTenders(body: any, total: number): Promise<{ paymentMethod: PaymentMethod; paymentReference: string | null; tenders: CounterTender[] } | { error: string }> {
+  const requested: any[] = Array.isArray(body.tenders) && body.tenders.length > 0
+    ? body.tenders
+    : [{ method: body.paymentMethod ?? 'cash', amount: total, reference: body.paymentReference, cashReceived: body.cashReceived }];
+
+  const enabledMethods = getEnabledPaymentMethods(await storage.getStoreProfile());
+  const tenders: CounterTender[] = [];
+  for (const tender of requested) {
+    const method = tender?.method;
+    if (typeof method !== 'string' || !isCounterPaymentMethod(method)) {
+      return { error: "Invalid payment method" };
+    }
+
+    // Cash is always accepted; other counter methods follow the store settings
+    if (method !== 'cash' && !enabledMethods.includes(method)) {
+      return { error: "Payment method is not available" };
+    }
+
+    // Only a bill with nothing left to pay (e.g. a 100% voucher) takes a zero tender
+    const amount = Number(tender.amount);
+    if (!Number.isInteger(amount) || amount < 0 || (amount === 0 && total > 0)) {
+      return { error: "Tender amount must be a positive whole number" };
+    }
+
+    if (method === 'cash') {
+      const cashReceived = tender.cashReceived == null ? amount : Number(tender.cashReceived);
+      if (!Number.isInteger(cashReceived) || cashReceived < amount) {
+        return { error: "Cash received is less than the cash amount" };
+      }
+      tenders.push({ method, amount, reference: null, cashReceived, change: cashReceived - amount });
+      continue;
+    }
+
+    const reference = typeof tender.reference === 'string' ? tender.reference.trim() : '';
+    if (method === 'card' && !reference) {
+      return { error: "EDC approval code is required for card payments" };
+    }
+    tenders.push({ method, amount, reference: reference || null, cashReceived: null, change: 0 });
+  }
+
+  const paid = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  if (paid !== total) {
+    return { error: `Tenders add up to ${paid} but the bill total is ${total}` };
+  }
+
+  const methods = new Set(tenders.map(tender => tender.method));
+  return {
+    paymentMethod: methods.size === 1 ? tenders[0].method : 'mixed',
+    // A single tender's reference is kept on the order; split bills keep them per tender
+    paymentReference: tenders.length === 1 ? tenders[0].reference ?? null : null,
+    tenders: tenders.filter(tender => tender.amount > 0),
+  };
+}
+
+// Helper function to summarise counter tenders for the payment part of an API response
+function summariseCounterPayment(paymentMethod: PaymentMethod, paymentReference: string | null, tenders: CounterTender[]) {
+  return {
+    method: paymentMethod,
+    reference: paymentReference,
+    received: tenders.reduce((sum, tender) => sum + (tender.cashReceived ?? tender.amount), 0),
+    change: tenders.reduce((sum, tender) => sum + (tender.change ?? 0), 0),
+    status: 'paid',
+  };
+}
+
+const splitBillSchema = z.object({
+  mode: SplitBillModeEnum,
+  // The unpaid parts wanted from now on; paid parts stay as they are
+  parts: z.array(z.object({
+    customerName: z.string().trim().max(100).optional(),
+    items: z.array(z.object({
+      lineIndex: z.number().int().nonnegative(),
+      quantity: z.number().int().positive(),
+    })).default([]),
+    amount: z.number().int().nonnegative().default(0),
+  })).max(20),
+});
+
+// Helper function to keep a bill's items from changing under a split bill. A split nobody has paid
+// into yet is dropped; once a part is paid the items are fixed. Returns an error message or null
+async function releaseBillSplitForEdit(orderId: string): Promise<string | null> {
+  return await storage.cancelUnpaidBillSplit(orderId)
+    ? null
+    : "Part of this bill is already paid through a split; settle the remaining parts first";
+}
+
+// Helper function to record an admin's decision on a shift closed outside the cash variance thresholds
+async function reviewCashVariance(notification: Notification, adminId: string, decision: 'approved' | 'rejected') {
+  const shift = notification.relatedId
+    ? await storage.updateShift(notification.relatedId, {
+        varianceStatus: decision,
+        varianceReviewedBy: adminId,
+        varianceReviewedAt: new Date()
+      })
+    : undefined;
+
+  const processed = decision === 'approved'
+    ? await storage.approveNotification(notification.id, adminId)
+    : await storage.rejectNotification(notification.id, adminId);
+  if (processed) {
+    publishEvent(decision === 'approved' ? 'notification.approved' : 'notification.rejected', processed);
+  }
+
+  await storage.createAuditLog({
+    performedBy: adminId,
+    action: `cash_variance_${decision}`,
+    targetType: 'shift',
+    targetId: notification.relatedId,
+    details: { notificationId: notification.id, ...(notification.relatedData as Record<string, number | string | null>) }
+  });
+  return shift;
+}
+
+// Helper function to keep the expected drawer cash from a kasir while blind close is on
+function withholdExpectedCash(report: SalesReport): SalesReport {
+  return { ...report, cash: null, cashDifference: null };
+}
+
+// Helper function to return a refund through the order's payment gateway; returns the gateway error or null on success
+async function sendGatewayRefund(provider: PaymentProvider, refund: Refund, order: Order, performedBy: string): Promise<string | null> {
+  const refundKey = refund.midtransRefundKey || refund.id;
+  await storage.updateRefund(refund.id, { midtransRefundKey: refundKey, midtransRefundStatus: 'pending', midtransRefundError: null });
+
+  const result = await provider.refund({
+    transactionId: order.midtransTransactionId!,
+    refundKey,
+    amount: refund.refundAmount,
+    reason: refund.reason,
+  });
+
+  if (!result.success) {
+    await storage.updateRefund(refund.id, { midtransRefundStatus: 'failed', midtransRefundError: result.error });
+    await storage.createAuditLog({
+      performedBy,
+      action: 'refund_gateway_failed',
+      targetType: 'refund',
+      targetId: refund.id,
+      details: { refundKey, gateway: provider.name, amount: refund.refundAmount, error: result.error }
+    });
+    return result.error;
+  }
+
+  await storage.updateRefund(refund.id, { midtransRefundStatus: 'succeeded', midtransRefundError: null });
+  return null;
+}
+
 // Auth middleware to protect admin routes
 async function requireAuth(req: Request, res: Response, next: NextFunction) {
   // Read session token from httpOnly cookie (secure against XSS)
@@ -258,6 +782,14 @@ function requireAdminOrKasir(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Helper function to tell whether a public route is being called from a signed-in admin or kasir session
+async function isStaffRequest(req: Request): Promise<boolean> {
+  const sessionToken = req.cookies?.session_token;
+  const session = sessionToken ? await getSession(sessionToken) : null;
+  const user = session ? await storage.getUser(session.userId) : undefined;
+  return !!user?.isActive && (user.role === 'admin' || user.role === 'kasir');
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Rate limiting middleware - relaxed for production POS system
   const generalLimiter = rateLimit({
@@ -290,49 +822,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ status: "healthy", timestamp: new Date().toISOString() });
   });
 
-  // Midtrans webhook endpoint (before rate limiting to avoid blocking payment notifications)
-  app.post("/api/payments/midtrans/webhook", async (req, res) => {
+  // Payment gateway webhooks, e.g. /api/payments/midtrans/webhook (before rate limiting to avoid blocking payment notifications)
+  app.post("/api/payments/:gateway/webhook", async (req, res) => {
     try {
-      if (!midtransService) {
+      const provider = getPaymentProvider(req.params.gateway);
+      if (!provider) {
         return res.status(500).json({ message: "Payment service not available" });
       }
 
-      // Process webhook notification
-      const notificationData = midtransService.processWebhookNotification(req.body);
+      // Verify the signature and read the notification
+      const notificationData = provider.verifyWebhook(req.body);
       
-      // Find order by Midtrans order ID
-      const order = await storage.getOrderByMidtransOrderId(notificationData.orderId);
+      // Find order by gateway order ID
+      const order = await storage.getOrderByMidtransOrderId(notificationData.gatewayOrderId);
       
       if (!order) {
-        console.warn(`Webhook received for unknown order: ${notificationData.orderId}`);
+        console.warn(`Webhook received for unknown order: ${notificationData.gatewayOrderId}`);
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // Update payment status
-      await storage.updateOrderPayment(order.id, {
-        paymentStatus: notificationData.paymentStatus,
-        midtransTransactionStatus: notificationData.transactionStatus,
-        paidAt: notificationData.paymentStatus === 'paid' ? new Date() : undefined
-      });
-
-      // Update order status when payment is confirmed
-      if (notificationData.paymentStatus === 'paid' && order.orderStatus === 'queued') {
-        await storage.updateOrderStatus(order.id, 'preparing');
-      }
-
-      // Update daily report when payment is confirmed
-      if (notificationData.paymentStatus === 'paid') {
-        await updateDailyReportForOrder(order.id);
-      }
+      // Update payment status; replayed notifications and ones the reconciler already applied are no-ops
+      const applied = await applyPaymentStatus(order, notificationData.paymentStatus, notificationData.transactionStatus);
 
-      console.log(`Payment ${notificationData.paymentStatus} for order ${order.id}`);
+      console.log(`Payment ${notificationData.paymentStatus} for order ${order.id}${applied ? '' : ' (no change)'}`);
       
-      // Return 200 to Midtrans to acknowledge successful processing
+      // Return 200 to the gateway to acknowledge successful processing
       res.status(200).json({ message: "Webhook processed successfully" });
     } catch (error) {
       console.error('Webhook processing error:', error);
       
-      // Return 500 for processing errors to allow Midtrans retries
+      // Return 500 for processing errors to allow gateway retries
       // Only return 200 for signature validation errors to prevent retry storms
       if (error instanceof Error && error.message.includes('Invalid signature')) {
         console.warn('Invalid webhook signature, returning 200 to prevent retries');
@@ -600,6 +1119,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const itemToDelete = items[itemIndex];
+
+      const splitError = await releaseBillSplitForEdit(orderId);
+      if (splitError) {
+        return res.status(409).json({ message: splitError });
+      }
       
       // Increment PIN usage if using generated PIN
       if (generatedPin) {
@@ -620,15 +1144,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Remove item from order
       const updatedItems = items.filter((_: any, index: number) => index !== itemIndex);
       
-      // Recalculate total
-      const newSubtotal = updatedItems.reduce((sum: number, item: any) => sum + (item.price * item.quantity), 0);
+      // Recalculate totals, including tax and service charge
+      const charges = await calculateOrderCharges(updatedItems);
       
       // Update order using replaceOpenBillItems
-      const updatedOrder = await storage.replaceOpenBillItems(orderId, updatedItems, newSubtotal);
+      const updatedOrder = await storage.replaceOpenBillItems(orderId, updatedItems, charges);
       
       if (!updatedOrder) {
         return res.status(500).json({ message: "Gagal mengupdate order" });
       }
+
+      // Return the deleted item's ingredients if they were already deducted
+      await storage.restoreStockForOrder(orderId, {
+        items: [{ itemId: itemToDelete.itemId, quantity: itemToDelete.quantity }],
+        referenceType: 'deletion',
+        performedBy: adminUser.id,
+        notes: `Hapus item ${itemToDelete.name}: ${reason}`
+      });
+      await queueKitchenTickets(updatedOrder, [itemToDelete], 'void');
       
       // Create audit log
       await storage.createAuditLog({
@@ -646,9 +1179,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ipAddress: req.ip || '',
         userAgent: req.get('user-agent') || ''
       });
-      
-      res.json({ 
-        success: true, 
+
+      publishEvent('order.updated', updatedOrder);
+
+      res.json({
+        success: true,
         message: "Item berhasil dihapus dan tercatat dalam audit log",
         updatedOrder
       });
@@ -1225,16 +1760,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Expected drawer cash for an open shift; hidden from the kasir while the store uses blind closing
+  app.get("/api/shifts/:id/summary", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) {
+        return sendErrorResponse(res, 404, "Shift not found");
+      }
+      if (currentUser.role !== 'admin' && shift.cashierId !== currentUser.id) {
+        return sendErrorResponse(res, 403, "You can only view your own shifts");
+      }
+
+      const profile = await storage.getStoreProfile();
+      const blindClose = !!profile?.blindShiftClose && shift.status === 'open';
+      const summary = blindClose && currentUser.role !== 'admin' ? null : await storage.getShiftCashSummary(shift.id);
+      res.json({ blindClose, summary });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to fetch shift summary");
+    }
+  });
+
   app.put("/api/shifts/:id/close", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
       const { id } = req.params;
       const currentUser = (req as any).user;
-      const { finalCash, notes } = req.body;
-      
-      // Validate finalCash is provided and is a number
-      if (typeof finalCash !== 'number' || finalCash < 0) {
-        return sendErrorResponse(res, 400, "Final cash amount is required and must be a positive number");
-      }
+      const { cashCount, finalCash: enteredFinalCash, notes } = closeShiftSchema.parse(req.body);
+
+      // A denomination count is the drawer total; a bare finalCash is still accepted
+      const finalCash = cashCount ? getCashCountTotal(cashCount) : enteredFinalCash!;
       
       // Get the shift to verify ownership (kasir can only close their own shifts)
       const shift = await storage.getShift(id);
@@ -1249,12 +1803,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (shift.status !== 'open') {
         return sendErrorResponse(res, 400, "Only open shifts can be closed");
       }
+
+      const profile = await storage.getStoreProfile();
       
       // Close the shift
-      const closedShift = await storage.closeShift(id, finalCash, notes);
+      let closedShift = await storage.closeShift(id, {
+        finalCash,
+        notes,
+        cashCount,
+        blindClose: !!profile?.blindShiftClose
+      });
       
       if (!closedShift) {
-        return sendErrorResponse(res, 404, "Shift not found");
+        return sendErrorResponse(res, 409, "Shift was already closed");
+      }
+
+      // Differences beyond the store's thresholds wait for an admin through the notifications flow
+      const cashDifference = closedShift.cashDifference || 0;
+      if (needsVarianceApproval(cashDifference, profile)) {
+        closedShift = await storage.updateShift(id, { varianceStatus: 'pending' }) ?? closedShift;
+        const notification = await storage.createNotification({
+          type: 'cash_variance',
+          title: `Selisih Kas Shift - ${currentUser.username}`,
+          message: `Kasir ${currentUser.username} menutup shift dengan selisih kas ${cashDifference > 0 ? 'lebih' : 'kurang'} Rp${Math.abs(cashDifference).toLocaleString('id-ID')}`,
+          requestedBy: currentUser.id,
+          relatedId: id,
+          relatedData: {
+            systemCash: closedShift.systemCash,
+            finalCash,
+            cashDifference,
+            notes: notes || null
+          },
+          status: 'pending',
+          isRead: false
+        });
+        publishEvent('notification.created', notification);
       }
       
       // Create audit log for shift closing
@@ -1265,7 +1848,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         targetId: shift.id,
         details: { 
           finalCash, 
-          cashDifference: closedShift.cashDifference,
+          cashDifference,
+          blindClose: closedShift.blindClose,
+          varianceStatus: closedShift.varianceStatus,
           notes 
         }
       });
@@ -1276,6 +1861,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Mid-shift X-report: sales so far without closing anything
+  app.get("/api/shifts/:id/x-report", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) {
+        return sendErrorResponse(res, 404, "Shift not found");
+      }
+      if (currentUser.role !== 'admin' && shift.cashierId !== currentUser.id) {
+        return sendErrorResponse(res, 403, "You can only view your own shifts");
+      }
+      if (shift.status !== 'open') {
+        return sendErrorResponse(res, 400, "X-report is only available for open shifts");
+      }
+
+      const [report, profile] = await Promise.all([
+        storage.getShiftSalesReport(shift.id),
+        storage.getStoreProfile(),
+      ]);
+      res.json(currentUser.role !== 'admin' && profile?.blindShiftClose ? withholdExpectedCash(report!) : report);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to build X-report");
+    }
+  });
+
+  // End-of-shift Z-report for a closed shift; the kasir sees it once their count is in
+  app.get("/api/shifts/:id/z-report", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) {
+        return sendErrorResponse(res, 404, "Shift not found");
+      }
+      if (currentUser.role !== 'admin' && shift.cashierId !== currentUser.id) {
+        return sendErrorResponse(res, 403, "You can only view your own shifts");
+      }
+      if (shift.status !== 'closed') {
+        return sendErrorResponse(res, 400, "Z-report is only available for closed shifts");
+      }
+
+      const report = await storage.getShiftSalesReport(shift.id);
+      res.json(report);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to build Z-report");
+    }
+  });
+
+  // Per-kasir orders, takings, refunds and cash differences over a period (Admin only)
+  app.get("/api/shifts/cashier-performance", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return sendErrorResponse(res, 400, "Invalid date range");
+      }
+
+      res.json(await storage.getCashierPerformance(startDate, endDate));
+    } catch (error) {
+      return handleApiError(res, error, "Failed to fetch cashier performance");
+    }
+  });
+
   // Cash Movement Management
   app.get("/api/cash-movements", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
@@ -1298,8 +1948,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const currentUser = (req as any).user;
       
-      // Cash movement schema already omits id and createdAt
-      const cashMovementInputSchema = insertCashMovementSchema;
+      // The movement is recorded against the acting user, not a cashierId sent by the client
+      const cashMovementInputSchema = insertCashMovementSchema.omit({ cashierId: true });
       const validatedData = cashMovementInputSchema.parse(req.body);
       
       // Verify the shift belongs to the current user (unless admin)
@@ -1314,7 +1964,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const movement = await storage.createCashMovement(validatedData);
+      const movement = await storage.createCashMovement({ ...validatedData, cashierId: currentUser.id });
       
       // Create audit log for cash movement
       await storage.createAuditLog({
@@ -1382,7 +2032,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requestedBy: true, 
         authorizedBy: true,
         authorizationCode: true,
-        processedAt: true 
+        processedAt: true,
+        processedBy: true,
+        shiftId: true,
+        midtransRefundKey: true,
+        midtransRefundStatus: true,
+        midtransRefundError: true
       });
       const validatedData = refundInputSchema.parse(req.body);
       
@@ -1517,13 +2172,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (refund.status !== 'approved') {
         return sendErrorResponse(res, 400, "Only approved refunds can be processed");
       }
+
+      // Gateway payments are returned through the gateway before the refund is marked completed
+      const order = await storage.getOrder(refund.orderId);
+      if (order?.midtransTransactionId) {
+        const provider = getOrderPaymentProvider(order);
+        if (!provider) {
+          return sendErrorResponse(res, 503, "Payment gateway is not configured");
+        }
+        const refundError = provider.refundableMethods.includes(order.paymentMethod as PaymentMethod)
+          ? await sendGatewayRefund(provider, refund, order, currentUser.id)
+          : null; // e.g. virtual account transfers, which the kasir returns by hand
+        if (refundError) {
+          return sendErrorResponse(res, 502, `Gateway refund failed: ${refundError}`);
+        }
+      }
       
-      // Process the refund
-      const processedRefund = await storage.processRefund(id);
+      // Process the refund; cash refunds come out of the processing kasir's shift drawer
+      const { shiftId } = await getCashierContext(req);
+      const processedRefund = await storage.processRefund(id, currentUser.id, shiftId);
       
       if (!processedRefund) {
         return sendErrorResponse(res, 404, "Refund not found");
       }
+
+      // Void and full refunds put the order's ingredients back into stock
+      if (refund.refundType === 'void' || refund.refundType === 'full_refund') {
+        await storage.restoreStockForOrder(refund.orderId, {
+          referenceType: 'refund',
+          referenceId: refund.id,
+          performedBy: currentUser.id,
+          notes: `${refund.refundType === 'void' ? 'Void' : 'Full refund'}: ${refund.reason}`
+        });
+      }
       
       // Create audit log
       await storage.createAuditLog({
@@ -1533,7 +2214,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         targetId: refund.id,
         details: {
           amount: refund.refundAmount,
-          refundType: refund.refundType
+          refundType: refund.refundType,
+          midtransRefundKey: processedRefund.midtransRefundKey
         }
       });
       
@@ -1601,6 +2283,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/discounts", requireAuth, requireAdmin, async (req, res) => {
     try {
       const validatedData = insertDiscountSchema.parse(req.body);
+      const settingsError = validatePromotionSettings(validatedData);
+      if (settingsError) {
+        return sendErrorResponse(res, 400, settingsError);
+      }
+      if (validatedData.code && await storage.getDiscountByCode(validatedData.code)) {
+        return sendErrorResponse(res, 400, `Kode voucher ${validatedData.code} sudah digunakan`);
+      }
       const discount = await storage.createDiscount(validatedData);
       res.status(201).json(discount);
     } catch (error) {
@@ -1612,6 +2301,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const validatedData = insertDiscountSchema.partial().parse(req.body);
+      const existingDiscount = await storage.getDiscount(id);
+      if (!existingDiscount) {
+        return sendErrorResponse(res, 404, "Discount not found");
+      }
+      const settingsError = validatePromotionSettings({ ...existingDiscount, ...validatedData } as Partial<InsertDiscount>);
+      if (settingsError) {
+        return sendErrorResponse(res, 400, settingsError);
+      }
+      if (validatedData.code) {
+        const existing = await storage.getDiscountByCode(validatedData.code);
+        if (existing && existing.id !== id) {
+          return sendErrorResponse(res, 400, `Kode voucher ${validatedData.code} sudah digunakan`);
+        }
+      }
       const discount = await storage.updateDiscount(id, validatedData);
       
       if (!discount) {
@@ -1642,8 +2345,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Public endpoint for active discounts (used by customer page and POS)
   app.get("/api/discounts/active", async (req, res) => {
     try {
+      // Voucher codes stay private; they only apply when entered at checkout
       const activeDiscounts = await storage.getActiveDiscounts();
-      res.json(activeDiscounts);
+      res.json(activeDiscounts.filter(discount => !discount.code));
     } catch (error) {
       return handleApiError(res, error, "Failed to fetch active discounts");
     }
@@ -1710,30 +2414,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Categories (public read access for customer menu, admin required for modifications)
-  app.get("/api/categories", async (req, res) => {
+  // Network printers: the server holds the raw TCP (port 9100) connection, so the LAN printer
+  // works from any staff device. Kitchen tickets for them go out through the print job queue
+  app.post("/api/print-settings/:id/test", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const categories = await storage.getCategories();
-      res.json(categories);
+      const target = await getNetworkPrinter(req.params.id);
+      if ('error' in target) {
+        return sendErrorResponse(res, target.status, target.error);
+      }
+
+      await sendWithRetry(target.address, encodeEscPos(buildTestPageCommands(target.printer)));
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      if (error instanceof PrinterConnectionError) {
+        return sendErrorResponse(res, 502, error.message);
+      }
+      return handleApiError(res, error, "Failed to send test print");
     }
   });
 
-  app.post("/api/categories", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/print-settings/:id/print", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      const validatedData = insertCategorySchema.parse(req.body);
-      const category = await storage.createCategory(validatedData);
-      res.status(201).json(category);
+      const { data } = networkPrintSchema.parse(req.body);
+      const target = await getNetworkPrinter(req.params.id);
+      if ('error' in target) {
+        return sendErrorResponse(res, target.status, target.error);
+      }
+
+      await sendWithRetry(target.address, Buffer.from(data, 'base64'));
+      res.json({ success: true });
     } catch (error) {
-      return handleApiError(res, error, "Failed to create category");
+      if (error instanceof PrinterConnectionError) {
+        return sendErrorResponse(res, 502, error.message);
+      }
+      return handleApiError(res, error, "Failed to print");
     }
   });
 
-  app.put("/api/categories/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.get("/api/print-settings/:id/status", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      const { id } = req.params;
-      const validatedData = insertCategorySchema.partial().parse(req.body);
+      const target = await getNetworkPrinter(req.params.id);
+      if ('error' in target) {
+        return sendErrorResponse(res, target.status, target.error);
+      }
+
+      res.json(await getNetworkPrinterStatus(target.address));
+    } catch (error) {
+      return handleApiError(res, error, "Failed to check printer status");
+    }
+  });
+
+  app.get("/api/print-settings/:id/jobs", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const jobs = await storage.getPrintJobsByPrinter(req.params.id);
+      res.json(jobs);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get printer jobs");
+    }
+  });
+
+  // Categories (public read access for customer menu, admin required for modifications)
+  app.get("/api/categories", async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/categories", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertCategorySchema.parse(req.body);
+      const category = await storage.createCategory(validatedData);
+      res.status(201).json(category);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to create category");
+    }
+  });
+
+  app.put("/api/categories/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertCategorySchema.partial().parse(req.body);
       const category = await storage.updateCategory(id, validatedData);
       
       if (!category) {
@@ -1821,8 +2584,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!item) {
         return sendErrorResponse(res, 404, "Menu item not found");
       }
+
+      const marginWarnings = validatedData.price !== undefined
+        ? await findMarginWarnings({ menuItemIds: [id] })
+        : [];
       
-      res.json(item);
+      res.json({ ...item, marginWarnings });
     } catch (error) {
       return handleApiError(res, error, "Failed to update menu item");
     }
@@ -1865,174 +2632,191 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price preview for carts: same pricing as order creation, so customer and kasir screens match the receipt
+  app.post("/api/orders/quote", async (req, res) => {
+    try {
+      const quoteSchema = z.object({
+        items: z.array(orderItemInputSchema),
+        voucherCode: z.string().optional(),
+        customerName: z.string().optional(),
+      });
+      const { items, voucherCode, customerName } = quoteSchema.parse(req.body);
+
+      const { items: pricedItems, charges, voucher } = await priceOrderItems(items, { voucherCode, customerName });
+      res.json({ items: pricedItems, ...charges, voucher: voucher ?? null });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return sendErrorResponse(res, 400, error.message);
+      }
+      return handleApiError(res, error, "Failed to price order");
+    }
+  });
+
+  // Public: eat first, pay at the counter. Orders from a scanned table join its open bill as a new
+  // round, so the kitchen only gets the new items and the table settles everything at once
+  app.post("/api/orders/pay-later", async (req, res) => {
+    try {
+      const { customerName, tableSession, items } = payLaterOrderSchema.parse(req.body);
+
+      const profile = await storage.getStoreProfile();
+      if (!profile?.selfOrderPayLater) {
+        return sendErrorResponse(res, 400, "Bayar nanti tidak tersedia. Silakan bayar saat memesan");
+      }
+
+      const table = await resolveTableSession(tableSession);
+      if ('error' in table) {
+        return sendErrorResponse(res, 400, table.error);
+      }
+
+      // Price items and compute tax/service server-side from actual menu item prices
+      const { items: itemDetails, charges } = await priceOrderItems(items);
+
+      const openBill = await storage.getOpenBillByTable(table.tableId, table.tableNumber);
+      if (openBill) {
+        const splitError = await releaseBillSplitForEdit(openBill.id);
+        if (splitError) {
+          return sendErrorResponse(res, 409, "Tagihan meja ini sedang dibayar. Silakan hubungi kasir");
+        }
+
+        const updatedOrder = await appendOpenBillRound(openBill, itemDetails);
+        if (!updatedOrder) {
+          return sendErrorResponse(res, 409, "Tagihan meja ini sudah ditutup. Silakan pindai ulang kode QR di meja Anda");
+        }
+        publishEvent('order.updated', updatedOrder);
+        return res.json({ success: true, order: updatedOrder, action: 'updated' });
+      }
+
+      const opened = await openTableBill({
+        customerName,
+        ...table,
+        items: itemDetails,
+        ...charges,
+        paymentMethod: "cash",
+        paymentStatus: "unpaid",
+        payLater: true,
+        orderStatus: "queued"
+      });
+      if (!opened) {
+        return sendErrorResponse(res, 409, "Tagihan meja ini sedang diproses. Silakan coba lagi");
+      }
+      publishEvent(opened.action === 'created' ? 'order.created' : 'order.updated', opened.order);
+      res.json({ success: true, order: opened.order, action: opened.action });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return sendErrorResponse(res, 400, error.message);
+      }
+      return handleApiError(res, error, "Failed to create pay-later order");
+    }
+  });
+
   // Public customer order creation endpoint (QRIS only)
   app.post("/api/orders", async (req, res) => {
     try {
-      const { customerName, tableNumber, items } = req.body;
+      const { customerName, tableNumber, tableToken, items, voucherCode } = req.body;
       
-      if (!customerName || !tableNumber || !items || !Array.isArray(items) || items.length === 0) {
+      if (!customerName || (!tableNumber && !tableToken) || !items || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({ message: "Customer name, table number, and items are required" });
       }
 
-      // Calculate total server-side by fetching actual menu item prices
-      let subtotal = 0;
-      const itemDetails = [];
-      
-      for (const orderItem of items) {
-        const menuItem = await storage.getMenuItem(orderItem.itemId);
-        if (!menuItem || !menuItem.isAvailable) {
-          return res.status(400).json({ message: `Menu item ${orderItem.itemId} not found or unavailable` });
-        }
-        
-        const itemTotal = menuItem.price * orderItem.quantity;
-        subtotal += itemTotal;
-        
-        itemDetails.push({
-          id: menuItem.id,
-          name: menuItem.name,
-          price: menuItem.price,
-          quantity: orderItem.quantity
-        });
+      const parsedItems = parseOrderItems(items);
+      if ('error' in parsedItems) {
+        return res.status(400).json({ message: parsedItems.error });
       }
 
-      // Validate request using Zod schema
-      const validatedOrder = insertOrderSchema.parse({
+      // Public endpoint only takes gateway payments (QRIS, virtual account, e-wallet) - no cash payments allowed
+      const payment = onlinePaymentSchema.parse({ ...req.body, paymentMethod: req.body.paymentMethod ?? 'qris' });
+      const profile = await storage.getStoreProfile();
+      if (!getEnabledPaymentMethods(profile).includes(payment.paymentMethod)) {
+        return res.status(400).json({ message: "Payment method is not available" });
+      }
+
+      const provider = getStorePaymentProvider(profile?.paymentGateway);
+      if (!provider || !provider.methods.includes(payment.paymentMethod)) {
+        return res.status(503).json({ message: "Payment service not available" });
+      }
+
+      const table = await resolveCustomerTable(tableNumber, tableToken);
+      if ('error' in table) {
+        return res.status(400).json({ message: table.error });
+      }
+
+      // Price items and compute tax/service server-side from actual menu item prices
+      const { items: pricedItems, charges, voucher } = await priceOrderItems(parsedItems.items, { voucherCode, customerName });
+
+      const baseOrder = {
         customerName,
-        tableNumber,
-        items,
-        subtotal,
-        total: subtotal, // Server calculates total
-        paymentMethod: 'qris', // Force QRIS for public endpoint
-        paymentStatus: 'pending',
-        orderStatus: 'queued' // Add required orderStatus field
-      });
+        ...table,
+        items: pricedItems,
+        ...charges,
+        voucherCode: voucher?.code ?? null,
+        paymentMethod: payment.paymentMethod,
+        paymentStatus: 'pending' as const,
+        orderStatus: 'queued' as const
+      };
 
-      const total = subtotal; // No discounts for now
-      
-      // Public endpoint only supports QRIS with Midtrans - no cash payments allowed
-      let orderData;
-      let responsePayload;
-      
-      if (midtransService) {
-        // Real Midtrans QRIS payment integration
-        const midtransOrderId = `ALONICA-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
-        
-        try {
-          // Create Midtrans QRIS payment
-          const midtransPayment = await midtransService.createQRISPayment({
-            orderId: midtransOrderId,
-            grossAmount: total,
-            customerDetails: {
-              name: customerName,
-              phone: undefined // We don't collect phone in the current flow
-            },
-            itemDetails: itemDetails
-          });
-          
-          if (!midtransPayment.success) {
-            throw new Error(midtransPayment.error || 'Failed to create Midtrans payment');
-          }
-          
-          // Create order with Midtrans payment data
-          orderData = {
-            customerName,
-            tableNumber,
-            items,
-            subtotal,
-            discount: 0,
-            total,
-            paymentMethod: 'qris' as const,
-            paymentStatus: 'pending' as const,
-            midtransOrderId: midtransOrderId,
-            midtransTransactionId: midtransPayment.transactionId,
-            qrisUrl: midtransPayment.qrisUrl,
-            qrisString: midtransPayment.qrisString,
-            paymentExpiredAt: midtransPayment.expiryTime ? new Date(midtransPayment.expiryTime) : new Date(Date.now() + 15 * 60 * 1000),
-            orderStatus: 'queued' as const
-          };
-
-          const order = await storage.createOrder(orderData);
-          
-          responsePayload = {
-            order,
-            payment: {
-              qrisUrl: midtransPayment.qrisUrl,
-              qrisString: midtransPayment.qrisString,
-              expiryTime: midtransPayment.expiryTime || new Date(Date.now() + 15 * 60 * 1000).toISOString(),
-              transactionId: midtransPayment.transactionId,
-              midtransOrderId: midtransOrderId,
-              // snapToken: midtransPayment.snapToken // Not available in QRIS response
-            }
-          };
-        } catch (midtransError) {
-          console.error('Midtrans payment creation error:', midtransError);
-          
-          // Create order with mock QRIS when Midtrans fails (development fallback)
-          orderData = {
-            customerName,
-            tableNumber,
-            items,
-            subtotal,
-            discount: 0,
-            total,
-            paymentMethod: 'qris' as const,
-            paymentStatus: 'pending' as const,
-            midtransOrderId: `MOCK-${Date.now()}`,
-            qrisUrl: null,
-            qrisString: null,
-            paymentExpiredAt: new Date(Date.now() + 15 * 60 * 1000),
-            orderStatus: 'queued' as const
-          };
-
-          const order = await storage.createOrder(orderData);
-          
-          responsePayload = {
-            order,
-            payment: {
-              qrisUrl: null,
-              qrisString: "MOCK QRIS - Use for development only",
-              expiryTime: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
-              transactionId: `mock-${Date.now()}`,
-              midtransOrderId: `MOCK-${Date.now()}`,
-              mock: true
-            }
-          };
-        }
-      } else {
-        // Fallback: Create order with mock QRIS when service unavailable
-        orderData = {
-          customerName,
-          tableNumber,
-          items,
-          subtotal,
-          discount: 0,
-          total,
-          paymentMethod: 'qris' as const,
-          paymentStatus: 'pending' as const,
-          midtransOrderId: `MOCK-${Date.now()}`,
-          qrisUrl: null,
-          qrisString: null,
-          paymentExpiredAt: new Date(Date.now() + 15 * 60 * 1000),
-          orderStatus: 'queued' as const
-        };
+      // Validate request using Zod schema before charging the customer
+      insertOrderSchema.parse(baseOrder);
 
-        const order = await storage.createOrder(orderData);
-        
-        responsePayload = {
-          order,
-          payment: {
-            qrisUrl: null,
-            qrisString: "MOCK QRIS - Use for development only",
-            expiryTime: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
-            transactionId: `mock-${Date.now()}`,
-            midtransOrderId: `MOCK-${Date.now()}`,
-            mock: true
-          }
-        };
+      const chargeRequest: ChargeRequest = {
+        ...toChargeMethod(payment),
+        amount: charges.total,
+        customerName,
+        itemDetails: buildPaymentItemDetails(pricedItems, charges),
+      };
+
+      let chargedBy = provider;
+      let charge = await provider.createCharge(chargeRequest);
+
+      // Development fallback: keep the ordering flow usable when the real gateway fails
+      if (!charge.success && provider !== mockPaymentProvider && process.env.NODE_ENV !== 'production') {
+        console.error(`${provider.name} payment creation error:`, charge.error);
+        chargedBy = mockPaymentProvider;
+        charge = await mockPaymentProvider.createCharge(chargeRequest);
+      }
+
+      if (!charge.success) {
+        console.error(`${provider.name} payment creation error:`, charge.error);
+        return res.status(502).json({ message: "Failed to create payment" });
       }
 
+      // A voucher used up meanwhile fails the order; the unpaid charge simply expires
+      const order = await createOrderWithVoucher({
+        ...baseOrder,
+        paymentGateway: chargedBy.name,
+        paymentChannel: getPaymentChannel(payment),
+        paymentReference: charge.vaNumber,
+        paymentActionUrl: charge.deeplinkUrl,
+        midtransOrderId: charge.gatewayOrderId,
+        midtransTransactionId: charge.transactionId,
+        qrisUrl: charge.qrisUrl,
+        qrisString: charge.qrisString,
+        paymentExpiredAt: new Date(charge.expiryTime),
+      }, voucher);
+
+      const responsePayload = {
+        order,
+        payment: {
+          method: payment.paymentMethod,
+          gateway: chargedBy.name,
+          channel: order.paymentChannel,
+          qrisUrl: charge.qrisUrl,
+          qrisString: charge.qrisString,
+          vaNumber: charge.vaNumber,
+          deeplinkUrl: charge.deeplinkUrl,
+          expiryTime: charge.expiryTime,
+          transactionId: charge.transactionId,
+          midtransOrderId: charge.gatewayOrderId,
+          mock: chargedBy === mockPaymentProvider
+        }
+      };
+
+      publishEvent('order.created', responsePayload.order);
+
       res.status(201).json(responsePayload);
     } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid order data", details: error.message });
       }
@@ -2041,71 +2825,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Separate admin-only endpoint for cash payments
+  // Separate admin-only endpoint for payments taken at the counter (cash, QRIS stand, card on the EDC)
   app.post("/api/orders/cash", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      const { customerName, tableNumber, items, cashReceived, change } = req.body;
+      const { customerName, tableNumber, items, voucherCode } = req.body;
       
       if (!customerName || !tableNumber || !items || !Array.isArray(items) || items.length === 0) {
         return res.status(400).json({ message: "Customer name, table number, and items are required" });
       }
 
-      // Calculate total server-side by fetching actual menu item prices
-      let subtotal = 0;
-      
-      for (const orderItem of items) {
-        const menuItem = await storage.getMenuItem(orderItem.itemId);
-        if (!menuItem || !menuItem.isAvailable) {
-          return res.status(400).json({ message: `Menu item ${orderItem.itemId} not found or unavailable` });
-        }
-        
-        const itemTotal = menuItem.price * orderItem.quantity;
-        subtotal += itemTotal;
+      const parsedItems = parseOrderItems(items);
+      if ('error' in parsedItems) {
+        return res.status(400).json({ message: parsedItems.error });
+      }
+
+      const table = await resolveTable(tableNumber);
+      if ('error' in table) {
+        return res.status(400).json({ message: table.error });
       }
 
-      const total = subtotal;
+      // Price items and compute tax/service server-side from actual menu item prices
+      const { items: pricedItems, charges, voucher } = await priceOrderItems(parsedItems.items, { voucherCode, customerName });
+
+      // Tenders are checked against the server-side total
+      const counterPayment = await parseCounterTenders(req.body, charges.total);
+      if ('error' in counterPayment) {
+        return res.status(400).json({ message: counterPayment.error });
+      }
+      const { paymentMethod, paymentReference, tenders } = counterPayment;
+      const cashier = await getCashierContext(req);
 
       // Validate cash payment data
       const validatedOrder = insertOrderSchema.parse({
         customerName,
-        tableNumber,
-        items,
-        subtotal,
-        total,
-        paymentMethod: 'cash',
-        paymentStatus: 'paid', // Cash payments are immediately paid
+        ...table,
+        items: pricedItems,
+        ...charges,
+        voucherCode: voucher?.code ?? null,
+        paymentMethod,
+        paymentReference,
+        paymentStatus: 'paid', // Counter payments are immediately paid
         orderStatus: 'queued' // Add required orderStatus field
       });
 
       const orderData = {
         customerName,
-        tableNumber,
-        items,
-        subtotal,
-        discount: 0,
-        total,
-        paymentMethod: 'cash' as const,
+        ...table,
+        items: pricedItems,
+        ...charges,
+        voucherCode: voucher?.code ?? null,
+        paymentMethod,
+        paymentReference,
         paymentStatus: 'paid' as const,
-        orderStatus: 'queued' as const
+        paidAt: new Date(),
+        orderStatus: 'queued' as const,
+        ...cashier
       };
 
-      const order = await storage.createOrder(orderData);
+      const order = await createOrderWithVoucher(orderData, voucher);
+      const payments = await storage.createOrderPayments(
+        tenders.map(tender => ({ ...tender, orderId: order.id, createdBy: cashier.cashierId, shiftId: cashier.shiftId }))
+      );
       
-      // Update daily report for this paid order
+      // Update daily report for this paid order; createOrder deducted its stock
       await updateDailyReportForOrder(order.id);
+      await queueKitchenTickets(order, pricedItems);
+
+      publishEvent('order.created', order);
       
       const responsePayload = {
-        order,
-        payment: {
-          method: 'cash',
-          received: cashReceived || total,
-          change: change || 0,
-          status: 'paid'
-        }
+        order: { ...order, payments },
+        payment: summariseCounterPayment(paymentMethod, paymentReference, tenders)
       };
 
       res.status(201).json(responsePayload);
     } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid order data", details: error.message });
       }
@@ -2128,11 +2925,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const previous = await storage.getOrder(id);
       const order = await storage.updateOrderStatus(id, status);
       
       if (!order) {
         return sendErrorResponse(res, 404, "Order not found");
       }
+
+      if (status === 'cancelled' && previous?.orderStatus !== 'cancelled') {
+        await queueKitchenTickets(order, order.items as OrderItem[], 'void');
+      }
+
+      publishEvent('order.status_changed', order);
       
       res.json(order);
     } catch (error) {
@@ -2140,6 +2944,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stations start, bump and recall single lines. The first line started puts the order in
+  // preparation; recalling a line of an order the expo already sent out takes it back
+  app.patch("/api/orders/:id/items/status", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { itemIndexes, status } = orderItemsPrepStatusSchema.parse(req.body);
+
+      const existing = await storage.getOrder(id);
+      if (!existing || existing.orderStatus === 'cancelled') {
+        return sendErrorResponse(res, 404, "Order not found");
+      }
+
+      let order = await storage.updateOrderItemsPrepStatus(id, itemIndexes, status);
+      if (!order) {
+        return sendErrorResponse(res, 404, "Order item not found");
+      }
+
+      const started = (order.items as OrderItem[]).some(item => getItemPrepStatus(item) !== 'queued');
+      const recalled = order.orderStatus === 'ready' && !isOrderPrepDone(order);
+      if ((order.orderStatus === 'queued' && started) || recalled) {
+        order = await storage.updateOrderStatus(id, 'preparing') ?? order;
+        publishEvent('order.status_changed', order);
+      } else {
+        publishEvent('order.updated', order);
+      }
+      res.json(order);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update order item");
+    }
+  });
+
+  // Expo sends an order out once every station has bumped its lines
+  app.post("/api/orders/:id/expo-ready", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getOrder(id);
+      if (!existing || existing.orderStatus === 'cancelled') {
+        return sendErrorResponse(res, 404, "Order not found");
+      }
+      if (!isOrderPrepDone(existing)) {
+        return sendErrorResponse(res, 409, "Masih ada item yang belum selesai di stasiun");
+      }
+
+      const order = await storage.updateOrderStatus(id, 'ready');
+      if (!order) {
+        return sendErrorResponse(res, 404, "Order not found");
+      }
+
+      publishEvent('order.status_changed', order);
+      res.json(order);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to mark order ready");
+    }
+  });
+
   // Create open bill (Admin/Kasir only)
   app.post("/api/orders/open-bill", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
@@ -2149,44 +3008,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer name, table number, and items are required" });
       }
 
-      // Calculate total server-side by fetching actual menu item prices
-      let subtotal = 0;
-      const itemDetails = [];
-      
-      for (const orderItem of items) {
-        const menuItem = await storage.getMenuItem(orderItem.itemId);
-        if (!menuItem || !menuItem.isAvailable) {
-          return res.status(400).json({ message: `Menu item ${orderItem.itemId} not found or unavailable` });
-        }
-        
-        const itemTotal = menuItem.price * orderItem.quantity;
-        subtotal += itemTotal;
-        
-        itemDetails.push({
-          itemId: menuItem.id,
-          name: menuItem.name,
-          price: menuItem.price,
-          quantity: orderItem.quantity,
-          notes: orderItem.notes || ""
-        });
+      const parsedItems = parseOrderItems(items);
+      if ('error' in parsedItems) {
+        return res.status(400).json({ message: parsedItems.error });
+      }
+
+      const table = await resolveTable(tableNumber);
+      if ('error' in table) {
+        return res.status(400).json({ message: table.error });
       }
 
+      // Price items and compute tax/service server-side from actual menu item prices
+      const { items: itemDetails, charges } = await priceOrderItems(parsedItems.items);
+
       const orderData: InsertOrder = {
         customerName: customerName.trim(),
-        tableNumber: tableNumber.trim(),
+        ...table,
         items: itemDetails,
-        subtotal,
-        discount: 0,
-        total: subtotal,
+        ...charges,
         paymentMethod: "cash", // Default for open bills
         paymentStatus: "unpaid", // Use unpaid for open bills
         payLater: true, // Mark as pay-later order
-        orderStatus: "queued" // Set status to queued for open bills
+        orderStatus: "queued", // Set status to queued for open bills
+        ...await getCashierContext(req)
       };
 
-      const newOrder = await storage.createOrder(orderData);
+      // Split bills start from a bill of their own, so a table with an open bill must settle that first
+      const newOrder = await storage.createOpenBill(orderData);
+      if (!newOrder) {
+        return res.status(409).json({ message: `Table ${table.tableNumber} already has an open bill; add the items to that bill` });
+      }
+      await queueKitchenTickets(newOrder, itemDetails);
+      publishEvent('order.created', newOrder);
       res.json({ success: true, order: newOrder });
     } catch (error) {
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Open bill creation error:', error);
       res.status(500).json({ message: "Failed to create open bill" });
     }
@@ -2218,6 +3076,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Customer name, table number, and items are required" });
       }
 
+      const parsedItems = parseOrderItems(items);
+      if ('error' in parsedItems) {
+        return res.status(400).json({ message: parsedItems.error });
+      }
+
+      const table = await resolveTable(tableNumber);
+      if ('error' in table) {
+        return res.status(400).json({ message: table.error });
+      }
+
       // Check if we're replacing a specific bill or if there's already an open bill for this table
       let existingOpenBill = null;
       if (mode === 'replace' && billId) {
@@ -2227,54 +3095,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } else if (mode === 'create') {
         // Check for existing open bill for this table (for smart appending)
-        existingOpenBill = await storage.getOpenBillByTable(tableNumber.trim());
+        existingOpenBill = await storage.getOpenBillByTable(table.tableId, table.tableNumber);
       }
 
-      // Calculate total server-side by fetching actual menu item prices
-      let subtotal = 0;
-      const itemDetails = [];
-      
-      for (const orderItem of items) {
-        const menuItem = await storage.getMenuItem(orderItem.itemId);
-        if (!menuItem || !menuItem.isAvailable) {
-          return res.status(400).json({ message: `Menu item ${orderItem.itemId} not found or unavailable` });
+      if (existingOpenBill) {
+        const splitError = await releaseBillSplitForEdit(existingOpenBill.id);
+        if (splitError) {
+          return res.status(409).json({ message: splitError });
         }
-        
-        const itemTotal = menuItem.price * orderItem.quantity;
-        subtotal += itemTotal;
-        
-        itemDetails.push({
-          itemId: menuItem.id,
-          name: menuItem.name,
-          price: menuItem.price,
-          quantity: orderItem.quantity,
-          notes: orderItem.notes || ""
-        });
       }
 
+      // Price items and compute tax/service server-side from actual menu item prices
+      const { items: itemDetails, charges } = await priceOrderItems(parsedItems.items);
+
       if (existingOpenBill) {
         if (mode === 'replace') {
           // When replacing, replace the entire bill content
-          const updatedOrder = await storage.replaceOpenBillItems(existingOpenBill.id, itemDetails, subtotal);
+          const updatedOrder = await storage.replaceOpenBillItems(existingOpenBill.id, itemDetails, charges);
           if (updatedOrder) {
+            // Stations get void tickets for lines taken off and tickets for lines put on
+            const { added, removed } = diffOrderLines(existingOpenBill.items as OrderItem[], itemDetails);
+            await queueKitchenTickets(updatedOrder, removed, 'void');
+            await queueKitchenTickets(updatedOrder, added);
+            publishEvent('order.updated', updatedOrder);
             res.json({ 
               success: true, 
               order: updatedOrder,
               action: 'updated',
-              message: `Berhasil mengupdate open bill meja ${tableNumber}` 
+              message: `Berhasil mengupdate open bill meja ${table.tableNumber}` 
             });
           } else {
             res.status(500).json({ message: "Failed to update open bill" });
           }
         } else {
-          // When creating and bill exists for table, add items to existing bill
-          const updatedOrder = await storage.updateOpenBillItems(existingOpenBill.id, itemDetails, subtotal);
+          // When creating and bill exists for table, add items to existing bill as a new round.
+          // Charges are recomputed over the whole bill so service/tax stay consistent.
+          const updatedOrder = await appendOpenBillRound(existingOpenBill, itemDetails);
           if (updatedOrder) {
+            publishEvent('order.updated', updatedOrder);
             res.json({ 
               success: true, 
               order: updatedOrder,
               action: 'updated',
-              message: `Berhasil menambah item ke open bill meja ${tableNumber}` 
+              message: `Berhasil menambah item ke open bill meja ${table.tableNumber}` 
             });
           } else {
             res.status(500).json({ message: "Failed to update open bill" });
@@ -2284,232 +3147,1186 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create new open bill
         const orderData: InsertOrder = {
           customerName: customerName.trim(),
-          tableNumber: tableNumber.trim(),
+          ...table,
           items: itemDetails,
-          subtotal,
-          discount: 0,
-          total: subtotal,
+          ...charges,
           paymentMethod: "cash",
           paymentStatus: "pending",
           payLater: true,
-          orderStatus: "queued"
+          orderStatus: "queued",
+          ...await getCashierContext(req)
         };
 
-        const newOrder = await storage.createOrder(orderData);
+        const opened = await openTableBill(orderData);
+        if (!opened) {
+          return res.status(409).json({ message: "Open bill for this table is being updated, please try again" });
+        }
+        publishEvent(opened.action === 'created' ? 'order.created' : 'order.updated', opened.order);
         res.json({ 
           success: true, 
-          order: newOrder,
-          action: 'created',
-          message: `Berhasil membuat open bill baru untuk meja ${tableNumber}` 
+          order: opened.order,
+          action: opened.action,
+          message: opened.action === 'created'
+            ? `Berhasil membuat open bill baru untuk meja ${table.tableNumber}`
+            : `Berhasil menambah item ke open bill meja ${table.tableNumber}`
         });
       }
     } catch (error) {
-      console.error('Smart open bill creation error:', error);
-      res.status(500).json({ message: "Failed to process open bill" });
+      if (error instanceof PricingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Smart open bill creation error:', error);
+      res.status(500).json({ message: "Failed to process open bill" });
+    }
+  });
+
+  // Submit open bill (convert to pending) (Admin/Kasir only)
+  app.patch("/api/orders/:id/submit", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (order.orderStatus !== 'queued') {
+        return res.status(400).json({ message: "Only open bills can be submitted" });
+      }
+      
+      const updatedOrder = await storage.updateOrderStatus(id, 'pending');
+      if (updatedOrder) {
+        publishEvent('order.status_changed', updatedOrder);
+      }
+      res.json({ success: true, order: updatedOrder });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to submit open bill" });
+    }
+  });
+
+  // Pay open bill (update existing order, NOT create new) (Admin/Kasir only)
+  app.post("/api/orders/:id/pay", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const order = await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const counterPayment = await parseCounterTenders(req.body, order.total);
+      if ('error' in counterPayment) {
+        return res.status(400).json({ message: counterPayment.error });
+      }
+      const { paymentMethod, paymentReference, tenders } = counterPayment;
+      
+      // Verify this is an open bill (payLater = true)
+      if (!order.payLater) {
+        return res.status(400).json({ message: "This is not an open bill" });
+      }
+      
+      // Verify it's not already paid
+      if (order.paymentStatus === 'paid') {
+        return res.status(400).json({ message: "Bill already paid" });
+      }
+
+      // Paying the whole bill replaces a split nobody has paid into yet
+      const splitError = await releaseBillSplitForEdit(id);
+      if (splitError) {
+        return res.status(409).json({ message: splitError });
+      }
+      
+      // Update payment info WITHOUT changing orderStatus
+      // The order was already sent to kitchen when bill was created
+      // We ONLY update payment status, NOT create duplicate order
+      // The bill moves to the kasir and shift that took the payment
+      // Conditional on the bill still being unpaid: of two kasir devices paying at once, one gets
+      // "already paid" and records no tenders, so the shift's cash isn't counted twice
+      const cashier = await getCashierContext(req);
+      const paidOrder = await storage.transitionOrderPayment(id, ['unpaid', 'pending'], {
+        paymentStatus: 'paid',
+        paymentMethod,
+        paymentReference,
+        paidAt: new Date(),
+        ...cashier
+      });
+      if (!paidOrder) {
+        return res.status(400).json({ message: "Bill already paid" });
+      }
+      const payments = await storage.createOrderPayments(
+        tenders.map(tender => ({ ...tender, orderId: id, createdBy: cashier.cashierId, shiftId: cashier.shiftId }))
+      );
+      
+      // Update daily report for this paid order; the payment update deducted its stock
+      await updateDailyReportForOrder(id);
+      
+      const updatedOrder = await storage.getOrder(id);
+      if (updatedOrder) {
+        publishEvent('order.updated', updatedOrder);
+      }
+      
+      res.json({ 
+        success: true, 
+        order: updatedOrder && { ...updatedOrder, payments },
+        payment: summariseCounterPayment(paymentMethod, paymentReference, tenders)
+      });
+    } catch (error) {
+      console.error('Pay open bill error:', error);
+      res.status(500).json({ message: "Failed to pay open bill" });
+    }
+  });
+
+  // Tenders recorded for a counter payment, for reprinting receipts (Admin/Kasir only)
+  app.get("/api/orders/:id/payments", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const payments = await storage.getOrderPayments(order.id);
+      res.json(payments);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to fetch order payments");
+    }
+  });
+
+  // Open split bill session of an open bill, or null (Admin/Kasir only)
+  app.get("/api/orders/:id/split", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const split = await storage.getOpenBillSplit(req.params.id);
+      res.json(split ?? null);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to fetch split bill");
+    }
+  });
+
+  // Start a split bill or change its unpaid parts; amounts are worked out here from the bill (Admin/Kasir only)
+  app.put("/api/orders/:id/split", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { mode, parts } = splitBillSchema.parse(req.body);
+
+      const order = await storage.getOrder(req.params.id);
+      if (!order || !order.payLater) {
+        return sendErrorResponse(res, 404, "Open bill not found");
+      }
+      if (order.paymentStatus === 'paid') {
+        return sendErrorResponse(res, 400, "Bill already paid");
+      }
+
+      // Paid parts are read, and the new parts allocated around them, under the split's lock
+      const split = await storage.saveBillSplit(order.id, { mode, createdBy: (req as any).user?.id }, parts);
+      if ('error' in split) {
+        return sendErrorResponse(res, split.status, split.error);
+      }
+      res.json(split);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to save split bill");
+    }
+  });
+
+  // Cancel a split bill before anyone has paid into it (Admin/Kasir only)
+  app.delete("/api/orders/:id/split", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const split = await storage.getOpenBillSplit(req.params.id);
+      if (!split) {
+        return sendErrorResponse(res, 404, "Split bill not found");
+      }
+      if (!await storage.cancelUnpaidBillSplit(req.params.id)) {
+        return sendErrorResponse(res, 409, "Split bill has paid parts and can't be cancelled");
+      }
+      res.json({ success: true });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to cancel split bill");
+    }
+  });
+
+  // Pay one part of a split bill at the counter; the bill is closed when the last part is paid (Admin/Kasir only)
+  app.post("/api/orders/:id/split/parts/:partId/pay", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id, partId } = req.params;
+
+      const split = await storage.getOpenBillSplit(id);
+      const part = split?.parts.find(candidate => candidate.id === partId);
+      if (!split || !part) {
+        return sendErrorResponse(res, 404, "Split part not found");
+      }
+      if (part.paymentStatus === 'paid') {
+        return sendErrorResponse(res, 409, "Split part already paid");
+      }
+      if (part.amount <= 0) {
+        return sendErrorResponse(res, 400, "Split part has nothing to pay");
+      }
+
+      const counterPayment = await parseCounterTenders(req.body, part.amount);
+      if ('error' in counterPayment) {
+        return sendErrorResponse(res, 400, counterPayment.error);
+      }
+      const { paymentMethod, paymentReference, tenders } = counterPayment;
+
+      // Whether this was the last part is decided in storage, against the parts as they are now
+      const cashier = await getCashierContext(req);
+      const paid = await storage.payBillSplitPart(
+        id,
+        part.id,
+        { paymentMethod, paymentReference, ...cashier },
+        tenders.map(tender => ({ ...tender, createdBy: cashier.cashierId, shiftId: cashier.shiftId }))
+      );
+      if ('error' in paid) {
+        return sendErrorResponse(res, paid.status, paid.error);
+      }
+      if (paid.completed) {
+        await updateDailyReportForOrder(id);
+      }
+      publishEvent('order.updated', paid.order);
+
+      res.json({
+        success: true,
+        completed: paid.completed,
+        split: paid.split,
+        part: paid.part,
+        order: { ...paid.order, payments: paid.payments },
+        payment: summariseCounterPayment(paymentMethod, paymentReference, tenders)
+      });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to pay split part");
+    }
+  });
+
+  // Payment status check endpoint (public access for customers)
+  app.get("/api/orders/:id/payment-status", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const order = await storage.getOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // If payment is still pending and the order went through a gateway, ask the gateway
+      const provider = getOrderPaymentProvider(order);
+      if (order.paymentStatus === 'pending' && order.midtransOrderId && provider) {
+        const statusResult = await provider.getStatus(order.midtransOrderId);
+        
+        if (statusResult.success) {
+          // Same transition path as the webhook and reconciler, so a concurrent update applies once
+          const newPaymentStatus = statusResult.paymentStatus;
+          if (newPaymentStatus !== order.paymentStatus) {
+            await applyPaymentStatus(order, newPaymentStatus, statusResult.transactionStatus);
+          }
+
+          return res.json({
+            paymentStatus: newPaymentStatus,
+            transactionStatus: statusResult.transactionStatus,
+            orderId: order.id,
+            total: order.total
+          });
+        }
+      }
+
+      // Return current status from database
+      res.json({
+        paymentStatus: order.paymentStatus,
+        transactionStatus: order.midtransTransactionStatus,
+        orderId: order.id,
+        total: order.total
+      });
+    } catch (error) {
+      console.error('Payment status check error:', error);
+      res.status(500).json({ message: "Failed to check payment status" });
+    }
+  });
+
+
+  // Cancel a pending gateway payment, e.g. when the customer wants to pay another way (the customer, with the order's tracking token, or staff)
+  app.post("/api/orders/:id/payment/cancel", async (req, res) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      // Order ids show up in links and receipts; only the customer holding the order's tracking token, or staff, may cancel
+      const { trackingToken } = req.body ?? {};
+      if ((typeof trackingToken !== 'string' || trackingToken !== order.trackingToken) && !await isStaffRequest(req)) {
+        return res.status(403).json({ message: "Not allowed to cancel this payment" });
+      }
+
+      const provider = getOrderPaymentProvider(order);
+      if (order.paymentStatus !== 'pending' || !order.midtransOrderId || !provider) {
+        return res.status(400).json({ message: "Only pending gateway payments can be cancelled" });
+      }
+
+      const result = await provider.cancel(order.midtransOrderId);
+      if (!result.success) {
+        return res.status(502).json({ message: `Failed to cancel payment: ${result.error}` });
+      }
+
+      await applyPaymentStatus(order, 'failed', result.transactionStatus);
+      res.json({ paymentStatus: 'failed', orderId: order.id });
+    } catch (error) {
+      console.error('Payment cancel error:', error);
+      res.status(500).json({ message: "Failed to cancel payment" });
+    }
+  });
+
+  // Payment methods the store accepts (public access for the customer payment page and the cashier)
+  app.get("/api/payments/methods", async (req, res) => {
+    try {
+      const profile = await storage.getStoreProfile();
+      const provider = getStorePaymentProvider(profile?.paymentGateway);
+      res.json({
+        gateway: provider?.name ?? null,
+        methods: getEnabledPaymentMethods(profile).filter(method =>
+          isCounterPaymentMethod(method) || (isOnlinePaymentMethod(method) && provider?.methods.includes(method))
+        ),
+        payLater: profile?.selfOrderPayLater ?? false,
+      });
+    } catch (error) {
+      console.error('Payment methods error:', error);
+      res.status(500).json({ message: "Failed to get payment methods" });
+    }
+  });
+
+  // Settle, fail or expire a mock gateway payment (development only; the mock gateway isn't registered in production)
+  app.post("/api/payments/mock/:gatewayOrderId/simulate", async (req, res) => {
+    try {
+      if (!getPaymentProvider('mock')) {
+        return res.status(404).json({ message: "Mock payment gateway not available" });
+      }
+
+      const { status } = z.object({ status: z.enum(GATEWAY_PAYMENT_STATUSES) }).parse(req.body);
+      const order = await storage.getOrderByMidtransOrderId(req.params.gatewayOrderId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const notification = mockPaymentProvider.simulatePayment(req.params.gatewayOrderId, status);
+      const applied = await applyPaymentStatus(order, notification.paymentStatus, notification.transactionStatus);
+      res.json({ paymentStatus: notification.paymentStatus, applied });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to simulate payment");
+    }
+  });
+
+  // Get Midtrans client configuration for frontend
+  app.get("/api/payments/config", async (req, res) => {
+    try {
+      if (!midtransService) {
+        return res.status(500).json({ message: "Payment service not available" });
+      }
+
+      const config = midtransService.getClientConfig();
+      res.json(config);
+    } catch (error) {
+      console.error('Payment config error:', error);
+      res.status(500).json({ message: "Failed to get payment config" });
+    }
+  });
+
+  // Inventory (admin access required for all operations)
+  app.get("/api/inventory", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 100;
+      const category = req.query.category as string;
+      const offset = (page - 1) * limit;
+      
+      const result = await storage.getPaginatedInventoryItems({ offset, limit, category });
+      res.json({ ...result, page, limit, totalPages: Math.ceil(result.total / limit) });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/inventory", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const validatedData = insertInventoryItemSchema.parse(req.body);
+      const item = await storage.createInventoryItem(validatedData);
+      res.status(201).json(item);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to create inventory item");
+    }
+  });
+
+  app.put("/api/inventory/:id", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const currentUser = (req as any).user;
+      const { currentStock, ...validatedData } = insertInventoryItemSchema.partial().parse(req.body);
+
+      const existing = await storage.getInventoryItem(id);
+      if (!existing) {
+        return sendErrorResponse(res, 404, "Inventory item not found");
+      }
+
+      // Stock changes go through the ledger so every number has a reason
+      if (currentStock !== undefined) {
+        await storage.correctInventoryStock(id, currentStock, currentUser.id);
+      }
+
+      const item = await storage.updateInventoryItem(id, validatedData);
+      
+      if (!item) {
+        return sendErrorResponse(res, 404, "Inventory item not found");
+      }
+
+      // A new ingredient price changes the food cost of every recipe using it
+      const marginWarnings = validatedData.pricePerUnit !== undefined && validatedData.pricePerUnit !== existing.pricePerUnit
+        ? await findMarginWarnings({ inventoryItemIds: [id] })
+        : [];
+      
+      res.json({ ...item, marginWarnings });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update inventory item");
+    }
+  });
+
+  // Stock ledger across all inventory items
+  app.get("/api/inventory/movements", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const type = req.query.type as string;
+      const offset = (page - 1) * limit;
+
+      const result = await storage.getInventoryMovements({ type, offset, limit });
+      res.json({ ...result, page, limit, totalPages: Math.ceil(result.total / limit) });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get inventory movements");
+    }
+  });
+
+  // Record a manual stock movement (goods received, wastage, correction)
+  app.post("/api/inventory/:id/movements", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const currentUser = (req as any).user;
+
+      const movementSchema = z.object({
+        type: z.enum(['purchase', 'waste', 'adjustment']),
+        quantity: z.number().refine((value) => value !== 0, "Quantity cannot be zero"),
+        notes: z.string().optional(),
+      });
+      const { type, quantity, notes } = movementSchema.parse(req.body);
+
+      // Purchases always add stock and waste always removes it; adjustments keep their sign
+      const signedQuantity = type === 'purchase' ? Math.abs(quantity) : type === 'waste' ? -Math.abs(quantity) : quantity;
+
+      const movement = await storage.recordInventoryMovement({
+        inventoryItemId: id,
+        type,
+        quantity: signedQuantity,
+        referenceType: 'manual',
+        notes: notes || null,
+        performedBy: currentUser.id,
+      });
+
+      if (!movement) {
+        return sendErrorResponse(res, 404, "Inventory item not found");
+      }
+
+      res.status(201).json(movement);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to record inventory movement");
+    }
+  });
+
+  // Stock-take (opname): post variances between physical counts and system stock
+  app.post("/api/inventory/stock-take", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+
+      const stockTakeSchema = z.object({
+        counts: z.array(z.object({
+          inventoryItemId: z.string().min(1),
+          countedStock: z.number().min(0),
+        })).min(1, "At least one count is required"),
+        notes: z.string().optional(),
+      });
+      const { counts, notes } = stockTakeSchema.parse(req.body);
+
+      const lines = await storage.applyStockTake(counts, currentUser.id, notes);
+
+      // One audit entry per counted line
+      for (const line of lines) {
+        await storage.createAuditLog({
+          performedBy: currentUser.id,
+          action: 'stock_take',
+          targetType: 'inventory',
+          targetId: line.inventoryItemId,
+          details: {
+            itemName: line.inventoryItemName,
+            expected: line.expected,
+            counted: line.counted,
+            variance: line.variance,
+            unit: line.unit,
+            movementId: line.movementId,
+            notes
+          },
+          ipAddress: req.ip || '',
+          userAgent: req.get('user-agent') || ''
+        });
+      }
+
+      res.status(201).json({
+        lines,
+        adjusted: lines.filter(line => line.variance !== 0).length
+      });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to apply stock-take");
+    }
+  });
+
+  // Stock ledger for an inventory item (why currentStock changed)
+  app.get("/api/inventory/:id/movements", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const offset = (page - 1) * limit;
+
+      const result = await storage.getInventoryMovements({ inventoryItemId: id, offset, limit });
+      res.json({ ...result, page, limit, totalPages: Math.ceil(result.total / limit) });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get inventory movements");
+    }
+  });
+
+  // Low stock alerts (admin access required)
+  app.get("/api/inventory/low-stock", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const lowStockItems = await storage.getLowStockItems();
+      res.json(lowStockItems);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Order tracking: public, by the unguessable token in the customer's tracking link
+  app.get("/api/track/:token", async (req, res) => {
+    try {
+      const order = await storage.getOrderByTrackingToken(req.params.token);
+      if (!order) {
+        return sendErrorResponse(res, 404, "Pesanan tidak ditemukan");
+      }
+      res.json(await getOrderTracking(order));
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get order tracking");
+    }
+  });
+
+  // Customer calls a waiter or asks for the bill; calling again while staff are on their way is a no-op
+  app.post("/api/track/:token/requests", async (req, res) => {
+    try {
+      const { type } = serviceRequestSchema.parse(req.body);
+      const order = await storage.getOrderByTrackingToken(req.params.token);
+      if (!order) {
+        return sendErrorResponse(res, 404, "Pesanan tidak ditemukan");
+      }
+
+      const activeSince = Date.now() - TABLE_ACTIVITY_WINDOW_HOURS * 60 * 60 * 1000;
+      if (order.orderStatus === 'cancelled' || order.createdAt.getTime() < activeSince) {
+        return sendErrorResponse(res, 400, "Pesanan ini sudah tidak aktif. Silakan hubungi staf kami");
+      }
+
+      const openRequests = await storage.getOpenServiceRequestsByOrder(order.id);
+      if (!openRequests.some(request => request.type === type)) {
+        const request = await storage.createServiceRequest({
+          type,
+          orderId: order.id,
+          tableId: order.tableId,
+          tableNumber: order.tableNumber,
+          customerName: order.customerName,
+        });
+        publishEvent('service_request.created', request);
+
+        // A bill request on a running open bill also shows on the floor plan
+        const isOpenBill = order.payLater && order.paymentStatus !== 'paid' && order.paymentStatus !== 'refunded';
+        if (type === 'request_bill' && order.tableId && isOpenBill) {
+          const table = await storage.setTableState(order.tableId, { billRequestedAt: new Date() });
+          publishEvent('table.changed', table);
+        }
+      }
+
+      res.status(201).json(await getOrderTracking(order));
+    } catch (error) {
+      return handleApiError(res, error, "Failed to send request");
+    }
+  });
+
+  app.get("/api/service-requests", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const requests = await storage.getOpenServiceRequests();
+      res.json(requests);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get service requests");
+    }
+  });
+
+  app.post("/api/service-requests/:id/resolve", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+      const request = await storage.resolveServiceRequest(req.params.id, currentUser.id);
+      if (!request) {
+        return sendErrorResponse(res, 404, "Permintaan tidak ditemukan atau sudah ditangani");
+      }
+
+      publishEvent('service_request.resolved', request);
+      res.json(request);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to resolve service request");
+    }
+  });
+
+  // Tables: floor plan with live status for staff
+  app.get("/api/tables", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const tableList = await storage.getTablesWithStatus();
+      res.json(tableList);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get tables");
+    }
+  });
+
+  // Public check of a table number typed by a customer; only stores without a tables list accept typed numbers
+  app.get("/api/tables/lookup", async (req, res) => {
+    try {
+      const table = await resolveCustomerTable(req.query.number, undefined);
+      if ('error' in table) {
+        return sendErrorResponse(res, 400, table.error);
+      }
+      res.json(table);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to look up table");
+    }
+  });
+
+  // Public: the table a scanned QR code belongs to, with a session for ordering more rounds later
+  app.get("/api/tables/qr/:token", async (req, res) => {
+    try {
+      const table = await resolveTableToken(req.params.token);
+      if ('error' in table) {
+        return sendErrorResponse(res, 404, table.error);
+      }
+      const qrToken = verifyTableToken(req.params.token)!;
+      res.json({ ...table, session: signTableSession({ qrToken }) });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to look up table");
+    }
+  });
+
+  // Signed QR tokens for printing; rotate replaces the tokens first so earlier prints stop working
+  app.post("/api/tables/qr-codes", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { tableIds, rotate } = tableQrCodesSchema.parse(req.body);
+      const codes: TableQrCode[] = [];
+
+      for (const tableId of tableIds) {
+        const table = rotate ? await storage.rotateTableQrToken(tableId) : await storage.getTable(tableId);
+        if (!table) {
+          return sendErrorResponse(res, 404, "Table not found");
+        }
+        codes.push({ tableId: table.id, number: table.number, area: table.area, token: signTableToken(table), qrIssuedAt: table.qrIssuedAt });
+      }
+
+      if (rotate) {
+        publishEvent('table.changed', { tableIds });
+      }
+      res.json(codes);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to generate table QR codes");
+    }
+  });
+
+  app.post("/api/tables", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertTableSchema.parse(req.body);
+      if (await storage.getTableByNumber(validatedData.number)) {
+        return sendErrorResponse(res, 409, `Meja ${validatedData.number} sudah ada`);
+      }
+
+      const table = await storage.createTable(validatedData);
+      publishEvent('table.changed', table);
+      res.status(201).json(table);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to create table");
+    }
+  });
+
+  app.put("/api/tables/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertTableSchema.partial().parse(req.body);
+      if (validatedData.number) {
+        const sameNumber = await storage.getTableByNumber(validatedData.number);
+        if (sameNumber && sameNumber.id !== id) {
+          return sendErrorResponse(res, 409, `Meja ${sameNumber.number} sudah ada`);
+        }
+      }
+
+      const table = await storage.updateTable(id, validatedData);
+      if (!table) {
+        return sendErrorResponse(res, 404, "Table not found");
+      }
+
+      publishEvent('table.changed', table);
+      res.json(table);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update table");
+    }
+  });
+
+  // Staff move a table through its service: guests asked for the bill, left, or the table was cleaned
+  app.post("/api/tables/:id/actions", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { action } = tableActionSchema.parse(req.body);
+      const table = (await storage.getTablesWithStatus()).find(t => t.id === id);
+      if (!table) {
+        return sendErrorResponse(res, 404, "Table not found");
+      }
+
+      let updated;
+      if (action === 'request_bill') {
+        if (!table.openBillId) {
+          return sendErrorResponse(res, 400, "Meja ini tidak memiliki open bill");
+        }
+        updated = await storage.setTableState(id, { billRequestedAt: new Date() });
+      } else if (action === 'vacate') {
+        if (table.openBillId) {
+          return sendErrorResponse(res, 400, "Open bill meja ini belum dibayar");
+        }
+        updated = await storage.setTableState(id, { vacatedAt: new Date(), billRequestedAt: null });
+      } else {
+        if (table.openBillId) {
+          return sendErrorResponse(res, 400, "Open bill meja ini belum dibayar");
+        }
+        updated = await storage.setTableState(id, { clearedAt: new Date(), vacatedAt: null, billRequestedAt: null });
+      }
+
+      publishEvent('table.changed', updated);
+      res.json(updated);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update table status");
+    }
+  });
+
+  app.delete("/api/tables/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      // Tables with order history are deactivated instead of deleted
+      if (await storage.hasTableOrders(id)) {
+        return sendErrorResponse(res, 400, "Meja memiliki riwayat pesanan, nonaktifkan saja");
+      }
+
+      const deleted = await storage.deleteTable(id);
+      if (!deleted) {
+        return sendErrorResponse(res, 404, "Table not found");
+      }
+
+      publishEvent('table.changed', { id, deleted: true });
+      res.status(204).send();
+    } catch (error) {
+      return handleApiError(res, error, "Failed to delete table");
+    }
+  });
+
+  // Prep stations for the kitchen display; categories and menu items pick one
+  app.get("/api/prep-stations", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const stations = await storage.getPrepStations();
+      res.json(stations);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get prep stations");
+    }
+  });
+
+  app.post("/api/prep-stations", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertPrepStationSchema.parse(req.body);
+      const station = await storage.createPrepStation(validatedData);
+      publishEvent('prep_station.changed', { stationId: station.id });
+      res.status(201).json(station);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to create prep station");
+    }
+  });
+
+  app.put("/api/prep-stations/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertPrepStationSchema.partial().parse(req.body);
+      const station = await storage.updatePrepStation(id, validatedData);
+
+      if (!station) {
+        return sendErrorResponse(res, 404, "Prep station not found");
+      }
+
+      publishEvent('prep_station.changed', { stationId: id });
+      res.json(station);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update prep station");
+    }
+  });
+
+  // Lines already routed here keep the station id; the KDS shows them under the default station
+  app.delete("/api/prep-stations/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deletePrepStation(id);
+      if (!deleted) {
+        return sendErrorResponse(res, 404, "Prep station not found");
+      }
+
+      publishEvent('prep_station.changed', { stationId: id });
+      res.status(204).send();
+    } catch (error) {
+      return handleApiError(res, error, "Failed to delete prep station");
+    }
+  });
+
+  // Print jobs: kitchen tickets queued for station printers. A KDS screen that serves a printer
+  // claims its jobs, prints them and reports back; the rest show up as missed on every screen
+  app.get("/api/print-jobs", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const jobs = await storage.getPrintJobs(new Date(Date.now() - PRINT_JOB_HISTORY_HOURS * 60 * 60 * 1000));
+      res.json(jobs);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get print jobs");
+    }
+  });
+
+  app.post("/api/print-jobs/:id/claim", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const job = await storage.claimPrintJob(req.params.id);
+      if (!job) {
+        return sendErrorResponse(res, 409, "Tiket sudah diambil perangkat lain");
+      }
+
+      publishEvent('print_job.changed', job);
+      res.json(job);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to claim print job");
+    }
+  });
+
+  app.post("/api/print-jobs/:id/result", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const { success, error } = printJobResultSchema.parse(req.body);
+      const job = await storage.transitionPrintJob(req.params.id, ['printing'], success
+        ? { status: 'printed', error: null, printedAt: new Date() }
+        : { status: 'failed', error: error || "Printer tidak merespons" });
+      if (!job) {
+        return sendErrorResponse(res, 409, "Tiket ini tidak sedang dicetak");
+      }
+
+      publishEvent('print_job.changed', job);
+      res.json(job);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to record print result");
+    }
+  });
+
+  // Sends a ticket back to its printer: failed and stuck jobs, or a printed one as a reprint
+  app.post("/api/print-jobs/:id/retry", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const job = await storage.transitionPrintJob(req.params.id, ['printing', 'printed', 'failed', 'cancelled'], { status: 'pending', error: null });
+      if (!job) {
+        return sendErrorResponse(res, 409, "Tiket masih menunggu dicetak");
+      }
+
+      publishEvent('print_job.changed', job);
+      void processNetworkPrintJobs();
+      res.json(job);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to retry print job");
+    }
+  });
+
+  app.post("/api/print-jobs/:id/cancel", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const job = await storage.transitionPrintJob(req.params.id, ['pending', 'failed'], { status: 'cancelled' });
+      if (!job) {
+        return sendErrorResponse(res, 409, "Tiket sudah dicetak atau sedang dicetak");
+      }
+
+      publishEvent('print_job.changed', job);
+      res.json(job);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to cancel print job");
     }
   });
 
-  // Submit open bill (convert to pending) (Admin/Kasir only)
-  app.patch("/api/orders/:id/submit", requireAuth, requireAdminOrKasir, async (req, res) => {
+  // Suppliers
+  app.get("/api/suppliers", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      const order = await storage.getOrder(id);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-      
-      if (order.orderStatus !== 'queued') {
-        return res.status(400).json({ message: "Only open bills can be submitted" });
-      }
-      
-      const updatedOrder = await storage.updateOrderStatus(id, 'pending');
-      res.json({ success: true, order: updatedOrder });
+      const supplierList = await storage.getSuppliers();
+      res.json(supplierList);
     } catch (error) {
-      res.status(500).json({ message: "Failed to submit open bill" });
+      return handleApiError(res, error, "Failed to get suppliers");
     }
   });
 
-  // Pay open bill (update existing order, NOT create new) (Admin/Kasir only)
-  app.post("/api/orders/:id/pay", requireAuth, requireAdminOrKasir, async (req, res) => {
+  app.post("/api/suppliers", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { paymentMethod, cashReceived, change } = req.body;
-      
-      const order = await storage.getOrder(id);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-      
-      // Verify this is an open bill (payLater = true)
-      if (!order.payLater) {
-        return res.status(400).json({ message: "This is not an open bill" });
-      }
-      
-      // Verify it's not already paid
-      if (order.paymentStatus === 'paid') {
-        return res.status(400).json({ message: "Bill already paid" });
-      }
-      
-      // Update payment info WITHOUT changing orderStatus
-      // The order was already sent to kitchen when bill was created
-      // We ONLY update payment status, NOT create duplicate order
-      await storage.updateOrderPayment(id, {
-        paymentStatus: 'paid',
-        paidAt: new Date()
-      });
-      
-      // Update daily report for this paid order
-      await updateDailyReportForOrder(id);
-      
-      const updatedOrder = await storage.getOrder(id);
-      
-      res.json({ 
-        success: true, 
-        order: updatedOrder,
-        payment: {
-          method: paymentMethod || 'cash',
-          received: cashReceived || order.total,
-          change: change || 0,
-          status: 'paid'
-        }
-      });
+      const validatedData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(validatedData);
+      res.status(201).json(supplier);
     } catch (error) {
-      console.error('Pay open bill error:', error);
-      res.status(500).json({ message: "Failed to pay open bill" });
+      return handleApiError(res, error, "Failed to create supplier");
     }
   });
 
-  // Payment status check endpoint (public access for customers)
-  app.get("/api/orders/:id/payment-status", async (req, res) => {
+  app.put("/api/suppliers/:id", requireAuth, requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const order = await storage.getOrder(id);
-      
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      const validatedData = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(id, validatedData);
+
+      if (!supplier) {
+        return sendErrorResponse(res, 404, "Supplier not found");
       }
 
-      // If payment is still pending and we have a Midtrans order ID, check with Midtrans
-      if (order.paymentStatus === 'pending' && order.midtransOrderId && midtransService) {
-        const statusResult = await midtransService.getTransactionStatus(order.midtransOrderId);
-        
-        if (statusResult.success) {
-          // Update payment status based on Midtrans response
-          let newPaymentStatus = order.paymentStatus;
-          let orderStatus = order.orderStatus;
-          
-          if (statusResult.transactionStatus === 'settlement' || statusResult.transactionStatus === 'capture') {
-            newPaymentStatus = 'paid';
-            orderStatus = 'preparing'; // Move order to preparing when paid
-          } else if (statusResult.transactionStatus === 'deny' || 
-                     statusResult.transactionStatus === 'cancel' || 
-                     statusResult.transactionStatus === 'failure') {
-            newPaymentStatus = 'failed';
-          } else if (statusResult.transactionStatus === 'expire') {
-            newPaymentStatus = 'expired';
-          }
+      res.json(supplier);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to update supplier");
+    }
+  });
 
-          // Update order if status changed
-          if (newPaymentStatus !== order.paymentStatus) {
-            await storage.updateOrderPayment(id, {
-              paymentStatus: newPaymentStatus,
-              midtransTransactionStatus: statusResult.transactionStatus,
-              paidAt: newPaymentStatus === 'paid' ? new Date() : undefined
-            });
-            
-            // Update order status if paid
-            if (newPaymentStatus === 'paid' && orderStatus !== order.orderStatus) {
-              await storage.updateOrderStatus(id, orderStatus);
-            }
-          }
+  app.delete("/api/suppliers/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
 
-          return res.json({
-            paymentStatus: newPaymentStatus,
-            transactionStatus: statusResult.transactionStatus,
-            orderId: order.id,
-            total: order.total
-          });
-        }
+      // Suppliers with purchase history are deactivated instead of deleted
+      const supplierOrders = await storage.getPurchaseOrders({ supplierId: id });
+      if (supplierOrders.length > 0) {
+        return sendErrorResponse(res, 400, "Supplier memiliki purchase order, nonaktifkan saja");
       }
 
-      // Return current status from database
-      res.json({
-        paymentStatus: order.paymentStatus,
-        transactionStatus: order.midtransTransactionStatus,
-        orderId: order.id,
-        total: order.total
-      });
+      const deleted = await storage.deleteSupplier(id);
+      if (!deleted) {
+        return sendErrorResponse(res, 404, "Supplier not found");
+      }
+
+      res.status(204).send();
     } catch (error) {
-      console.error('Payment status check error:', error);
-      res.status(500).json({ message: "Failed to check payment status" });
+      return handleApiError(res, error, "Failed to delete supplier");
     }
   });
 
+  // Purchase Orders
+  // Reorder suggestions: every low-stock item topped up to maxStock, grouped by supplier
+  const buildReorderSuggestions = async () => {
+    const lowStockItems = await storage.getLowStockItems();
+    const groups = new Map<string | null, PurchaseOrderItem[]>();
+
+    for (const item of lowStockItems) {
+      const quantity = roundQuantity(item.maxStock - item.currentStock);
+      if (quantity <= 0) continue;
+
+      const key = item.supplierId || null;
+      const lines = groups.get(key) || [];
+      lines.push({
+        inventoryItemId: item.id,
+        name: item.name,
+        unit: item.unit,
+        quantityOrdered: quantity,
+        quantityReceived: 0,
+        unitPrice: item.pricePerUnit,
+      });
+      groups.set(key, lines);
+    }
 
-  // Get Midtrans client configuration for frontend
-  app.get("/api/payments/config", async (req, res) => {
+    return Array.from(groups.entries()).map(([supplierId, items]) => ({
+      supplierId,
+      items,
+      totalAmount: items.reduce((sum, line) => sum + line.quantityOrdered * line.unitPrice, 0),
+    }));
+  };
+
+  app.get("/api/purchase-orders", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      if (!midtransService) {
-        return res.status(500).json({ message: "Payment service not available" });
-      }
+      const status = req.query.status as string | undefined;
+      const supplierId = req.query.supplierId as string | undefined;
+      const purchaseOrderList = await storage.getPurchaseOrders({ status, supplierId });
+      res.json(purchaseOrderList);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get purchase orders");
+    }
+  });
 
-      const config = midtransService.getClientConfig();
-      res.json(config);
+  app.get("/api/purchase-orders/suggestions", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const suggestions = await buildReorderSuggestions();
+      res.json(suggestions);
     } catch (error) {
-      console.error('Payment config error:', error);
-      res.status(500).json({ message: "Failed to get payment config" });
+      return handleApiError(res, error, "Failed to get reorder suggestions");
     }
   });
 
-  // Inventory (admin access required for all operations)
-  app.get("/api/inventory", requireAuth, requireAdminOrKasir, async (req, res) => {
+  // Create draft purchase orders from low-stock suggestions (one per supplier)
+  app.post("/api/purchase-orders/generate", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 100;
-      const category = req.query.category as string;
-      const offset = (page - 1) * limit;
-      
-      const result = await storage.getPaginatedInventoryItems({ offset, limit, category });
-      res.json({ ...result, page, limit, totalPages: Math.ceil(result.total / limit) });
+      const currentUser = (req as any).user;
+      const { supplierIds } = z.object({ supplierIds: z.array(z.string()).optional() }).parse(req.body || {});
+
+      const suggestions = await buildReorderSuggestions();
+      const created = [];
+
+      for (const suggestion of suggestions) {
+        // Items without a linked supplier must be assigned before they can be reordered
+        if (!suggestion.supplierId) continue;
+        if (supplierIds && !supplierIds.includes(suggestion.supplierId)) continue;
+
+        const purchaseOrder = await storage.createPurchaseOrder({
+          supplierId: suggestion.supplierId,
+          status: 'draft',
+          items: suggestion.items,
+          totalAmount: suggestion.totalAmount,
+          notes: 'Dibuat otomatis dari stok menipis',
+          createdBy: currentUser.id,
+        });
+        created.push(purchaseOrder);
+      }
+
+      res.status(201).json(created);
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      return handleApiError(res, error, "Failed to generate purchase orders");
     }
   });
 
-  app.post("/api/inventory", requireAuth, requireAdminOrKasir, async (req, res) => {
+  app.post("/api/purchase-orders", requireAuth, requireAdmin, async (req, res) => {
     try {
-      const validatedData = insertInventoryItemSchema.parse(req.body);
-      const item = await storage.createInventoryItem(validatedData);
-      res.status(201).json(item);
+      const currentUser = (req as any).user;
+      const purchaseOrderInputSchema = z.object({
+        supplierId: z.string().min(1),
+        items: z.array(z.object({
+          inventoryItemId: z.string().min(1),
+          quantityOrdered: z.number().positive(),
+          unitPrice: z.number().int().min(0).optional(),
+        })).min(1, "At least one item is required"),
+        notes: z.string().optional(),
+      });
+      const { supplierId, items, notes } = purchaseOrderInputSchema.parse(req.body);
+
+      const supplier = await storage.getSupplier(supplierId);
+      if (!supplier) {
+        return sendErrorResponse(res, 404, "Supplier not found");
+      }
+
+      const lines: PurchaseOrderItem[] = [];
+      for (const item of items) {
+        const inventoryItem = await storage.getInventoryItem(item.inventoryItemId);
+        if (!inventoryItem) {
+          return sendErrorResponse(res, 400, `Inventory item ${item.inventoryItemId} not found`);
+        }
+        lines.push({
+          inventoryItemId: inventoryItem.id,
+          name: inventoryItem.name,
+          unit: inventoryItem.unit,
+          quantityOrdered: item.quantityOrdered,
+          quantityReceived: 0,
+          unitPrice: item.unitPrice ?? inventoryItem.pricePerUnit,
+        });
+      }
+
+      const purchaseOrder = await storage.createPurchaseOrder({
+        supplierId,
+        status: 'draft',
+        items: lines,
+        totalAmount: lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitPrice, 0),
+        notes: notes || null,
+        createdBy: currentUser.id,
+      });
+
+      res.status(201).json(purchaseOrder);
     } catch (error) {
-      return handleApiError(res, error, "Failed to create inventory item");
+      return handleApiError(res, error, "Failed to create purchase order");
     }
   });
 
-  app.put("/api/inventory/:id", requireAuth, requireAdminOrKasir, async (req, res) => {
+  // Mark a draft as sent to the supplier, or cancel it
+  app.patch("/api/purchase-orders/:id/status", requireAuth, requireAdmin, async (req, res) => {
     try {
       const { id } = req.params;
-      const validatedData = insertInventoryItemSchema.partial().parse(req.body);
-      const item = await storage.updateInventoryItem(id, validatedData);
-      
-      if (!item) {
-        return sendErrorResponse(res, 404, "Inventory item not found");
+      const { status } = z.object({ status: z.enum(['ordered', 'cancelled']) }).parse(req.body);
+
+      const purchaseOrder = await storage.getPurchaseOrder(id);
+      if (!purchaseOrder) {
+        return sendErrorResponse(res, 404, "Purchase order not found");
       }
-      
-      res.json(item);
+
+      if (status === 'ordered' && purchaseOrder.status !== 'draft') {
+        return sendErrorResponse(res, 400, "Only draft purchase orders can be ordered");
+      }
+
+      if (status === 'cancelled' && !['draft', 'ordered'].includes(purchaseOrder.status)) {
+        return sendErrorResponse(res, 400, "Only draft or ordered purchase orders can be cancelled");
+      }
+
+      let updateData: { status: 'ordered' | 'cancelled'; orderedAt?: Date; expectedDate?: Date } = { status };
+      if (status === 'ordered') {
+        const supplier = await storage.getSupplier(purchaseOrder.supplierId);
+        const orderedAt = new Date();
+        const expectedDate = new Date(orderedAt);
+        expectedDate.setDate(expectedDate.getDate() + (supplier?.leadTimeDays || 0));
+        updateData = { status, orderedAt, expectedDate };
+      }
+
+      const updated = await storage.updatePurchaseOrder(id, updateData);
+      res.json(updated);
     } catch (error) {
-      return handleApiError(res, error, "Failed to update inventory item");
+      return handleApiError(res, error, "Failed to update purchase order status");
     }
   });
 
-  // Low stock alerts (admin access required)
-  app.get("/api/inventory/low-stock", requireAuth, requireAdminOrKasir, async (req, res) => {
+  // Receive goods: posts stock and updates weighted average cost
+  app.post("/api/purchase-orders/:id/receive", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
-      const lowStockItems = await storage.getLowStockItems();
-      res.json(lowStockItems);
+      const { id } = req.params;
+      const currentUser = (req as any).user;
+      const receiveSchema = z.object({
+        items: z.array(z.object({
+          inventoryItemId: z.string().min(1),
+          quantity: z.number().positive(),
+          unitPrice: z.number().int().min(0).optional(),
+        })).min(1, "At least one received item is required"),
+      });
+      const { items } = receiveSchema.parse(req.body);
+
+      const purchaseOrder = await storage.getPurchaseOrder(id);
+      if (!purchaseOrder) {
+        return sendErrorResponse(res, 404, "Purchase order not found");
+      }
+
+      if (!['ordered', 'partially_received'].includes(purchaseOrder.status)) {
+        return sendErrorResponse(res, 400, "Only ordered purchase orders can be received");
+      }
+
+      const updated = await storage.receivePurchaseOrder(id, items, currentUser.id);
+
+      await storage.createAuditLog({
+        performedBy: currentUser.id,
+        action: 'purchase_order_received',
+        targetType: 'purchase_order',
+        targetId: id,
+        details: {
+          poNumber: purchaseOrder.poNumber,
+          items,
+          status: updated?.status
+        },
+        ipAddress: req.ip || '',
+        userAgent: req.get('user-agent') || ''
+      });
+
+      // Receiving re-averages ingredient prices, which can squeeze menu margins
+      const marginWarnings = await findMarginWarnings({ inventoryItemIds: items.map(item => item.inventoryItemId) });
+
+      res.json({ ...updated, marginWarnings });
     } catch (error) {
-      res.status(500).json({ message: "Internal server error" });
+      return handleApiError(res, error, "Failed to receive purchase order");
     }
   });
 
@@ -2531,10 +4348,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         menuItemId: id
       });
+
+      const inventoryItem = await storage.getInventoryItem(validatedData.inventoryItemId);
+      if (!inventoryItem) {
+        return sendErrorResponse(res, 404, "Inventory item not found");
+      }
+
+      // The recipe unit must convert to the stock unit, otherwise deductions would be off by the unit factor
+      if (convertQuantity(1, validatedData.unit, inventoryItem.unit, inventoryItem) === null) {
+        const hint = validatedData.unit === 'pack' || normalizeUnit(inventoryItem.unit) === 'pack'
+          ? ' (atur isi pack pada item inventory)'
+          : '';
+        return sendErrorResponse(res, 400, `Unit ${validatedData.unit} tidak bisa dikonversi ke ${inventoryItem.unit}${hint}`);
+      }
+
       const ingredient = await storage.createMenuItemIngredient(validatedData);
-      res.status(201).json(ingredient);
+      const marginWarnings = await findMarginWarnings({ menuItemIds: [id] });
+      res.status(201).json({ ...ingredient, marginWarnings });
     } catch (error) {
-      res.status(400).json({ message: "Invalid ingredient data" });
+      return handleApiError(res, error, "Invalid ingredient data");
     }
   });
 
@@ -2553,6 +4385,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Menu Costing & Engineering
+  app.get("/api/analytics/menu-costing", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const profile = await storage.getStoreProfile();
+      const threshold = profile?.minMarginPercent ?? DEFAULT_MIN_MARGIN_PERCENT;
+      const items = await storage.getMenuItemCosts();
+      res.json({ items, threshold });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get menu costing");
+    }
+  });
+
+  // Classic menu engineering matrix: popularity vs unit margin over paid orders in the period
+  app.get("/api/analytics/menu-engineering", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return sendErrorResponse(res, 400, "Invalid date range");
+      }
+
+      const [costs, allOrders, profile] = await Promise.all([
+        storage.getMenuItemCosts(),
+        storage.getOrders(),
+        storage.getStoreProfile(),
+      ]);
+      const paidOrders = allOrders.filter(order => {
+        const createdAt = new Date(order.createdAt);
+        return order.paymentStatus === 'paid' && createdAt >= startDate && createdAt <= endDate;
+      });
+
+      const sold = new Map<string, { quantity: number; revenue: number }>();
+      for (const order of paidOrders) {
+        for (const orderItem of (Array.isArray(order.items) ? order.items : []) as OrderItem[]) {
+          const entry = sold.get(orderItem.itemId) || { quantity: 0, revenue: 0 };
+          entry.quantity += orderItem.quantity || 0;
+          entry.revenue += (orderItem.price || 0) * (orderItem.quantity || 0) - (orderItem.discount || 0);
+          sold.set(orderItem.itemId, entry);
+        }
+      }
+
+      const totalSold = costs.reduce((sum, cost) => sum + (sold.get(cost.menuItemId)?.quantity || 0), 0);
+      const totalMargin = costs.reduce((sum, cost) => sum + cost.margin * (sold.get(cost.menuItemId)?.quantity || 0), 0);
+
+      // An item is popular when it sells at least 70% of an even share; profitable when its
+      // unit margin beats the sales-weighted average margin
+      const popularityThreshold = costs.length > 0 ? (100 / costs.length) * 0.7 : 0;
+      const marginThreshold = totalSold > 0 ? Math.round(totalMargin / totalSold) : 0;
+
+      const items: MenuEngineeringItem[] = costs.map(cost => {
+        const { quantity = 0, revenue = 0 } = sold.get(cost.menuItemId) || {};
+        const popularityPercent = totalSold > 0 ? Math.round((quantity / totalSold) * 1000) / 10 : 0;
+        const isPopular = popularityPercent >= popularityThreshold && quantity > 0;
+        const isProfitable = cost.margin >= marginThreshold;
+
+        return {
+          ...cost,
+          quantitySold: quantity,
+          revenue,
+          totalMargin: cost.margin * quantity,
+          popularityPercent,
+          classification: isPopular
+            ? (isProfitable ? 'star' : 'plowhorse')
+            : (isProfitable ? 'puzzle' : 'dog'),
+        };
+      });
+
+      res.json({
+        items,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        totalSold,
+        popularityThreshold: Math.round(popularityThreshold * 10) / 10,
+        marginThreshold,
+        minMarginPercent: profile?.minMarginPercent ?? DEFAULT_MIN_MARGIN_PERCENT,
+      });
+    } catch (error) {
+      return handleApiError(res, error, "Failed to get menu engineering report");
+    }
+  });
+
   // Stock validation and management
   app.post("/api/orders/validate-stock", async (req, res) => {
     try {
@@ -2582,6 +4498,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/store-profile", requireAuth, requireAdmin, async (req, res) => {
     try {
       const validatedData = insertStoreProfileSchema.parse(req.body);
+      if (validatedData.paymentGateway === 'mock' && !getPaymentProvider('mock')) {
+        return res.status(400).json({ message: "Mock payment gateway is not available in production" });
+      }
       const profile = await storage.createStoreProfile(validatedData);
       res.status(201).json(profile);
     } catch (error) {
@@ -2593,6 +4512,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const validatedData = insertStoreProfileSchema.partial().parse(req.body);
+      // The mock gateway is only registered outside production, so it can't be picked there
+      if (validatedData.paymentGateway === 'mock' && !getPaymentProvider('mock')) {
+        return res.status(400).json({ message: "Mock payment gateway is not available in production" });
+      }
       const profile = await storage.updateStoreProfile(id, validatedData);
       
       if (!profile) {
@@ -2654,6 +4577,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       const reservation = await storage.createReservation(validatedData);
+      publishEvent('reservation.changed', reservation);
       res.status(201).json(reservation);
     } catch (error) {
       console.error('Reservation creation error:', error);
@@ -2675,6 +4599,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!reservation) {
         return res.status(404).json({ message: "Reservation not found" });
       }
+
+      publishEvent('reservation.changed', reservation);
       
       res.json(reservation);
     } catch (error) {
@@ -2690,6 +4616,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deleted) {
         return res.status(404).json({ message: "Reservation not found" });
       }
+
+      publishEvent('reservation.changed', { id, deleted: true });
       
       res.status(204).send();
     } catch (error) {
@@ -3113,6 +5041,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // End-of-day report for a date (YYYY-MM-DD, default today); an X-report until the day's shifts are closed
+  app.get("/api/daily-reports/z-report", requireAuth, requireAdminOrKasir, async (req, res) => {
+    try {
+      const currentUser = (req as any).user;
+      const start = req.query.date ? new Date(`${req.query.date}T00:00:00`) : new Date();
+      if (isNaN(start.getTime())) {
+        return sendErrorResponse(res, 400, "Invalid date");
+      }
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start);
+      end.setHours(23, 59, 59, 999);
+
+      const [report, profile] = await Promise.all([
+        storage.getDailySalesReport(start, end),
+        storage.getStoreProfile(),
+      ]);
+      const hideCash = currentUser.role !== 'admin' && !!profile?.blindShiftClose && report.openShifts > 0;
+      res.json(hideCash ? withholdExpectedCash(report) : report);
+    } catch (error) {
+      handleApiError(res, error, "Failed to build end-of-day report");
+    }
+  });
+
   // Update daily report
   app.put("/api/daily-reports/:id", requireAuth, requireAdminOrKasir, async (req, res) => {
     try {
@@ -3340,6 +5291,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isRead: false
       });
 
+      publishEvent('notification.created', notification);
+
       res.json({ 
         success: true, 
         message: "Permintaan penghapusan telah dikirim ke admin untuk persetujuan",
@@ -3374,6 +5327,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return sendErrorResponse(res, 400, "Notification already processed");
       }
 
+      if (notification.type === 'cash_variance') {
+        const shift = await reviewCashVariance(notification, admin.id, 'approved');
+        return res.json({ success: true, message: "Selisih kas shift disetujui", shift });
+      }
+
       if (notification.type !== 'deletion_request') {
         return sendErrorResponse(res, 400, "Invalid notification type");
       }
@@ -3409,13 +5367,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return sendErrorResponse(res, 400, "Item not found at specified index");
       }
 
+      const splitError = await releaseBillSplitForEdit(orderId);
+      if (splitError) {
+        return sendErrorResponse(res, 409, splitError);
+      }
+
       items.splice(itemIndex, 1);
 
-      // Recalculate subtotal
-      const newSubtotal = items.reduce((sum: number, item: any) => sum + ((item.price || 0) * (item.quantity || 0)), 0);
+      // Recalculate totals, including tax and service charge
+      const charges = await calculateOrderCharges(items);
 
       // Update the order
-      await storage.replaceOpenBillItems(orderId, items, newSubtotal);
+      await storage.replaceOpenBillItems(orderId, items, charges);
+
+      // Return the deleted item's ingredients if they were already deducted
+      await storage.restoreStockForOrder(orderId, {
+        items: [{ itemId: deletedItem.itemId, quantity: deletedItem.quantity || 1 }],
+        referenceType: 'deletion',
+        referenceId: notification.id,
+        performedBy: admin.id,
+        notes: `Hapus item ${deletedItem.name || 'Unknown Item'}: ${reason || 'Tidak ada alasan'}`
+      });
+      await queueKitchenTickets(order, [deletedItem], 'void');
 
       // Create deletion log
       await storage.createDeletionLog({
@@ -3429,11 +5402,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Approve notification
-      await storage.approveNotification(id, admin.id);
+      const approvedNotification = await storage.approveNotification(id, admin.id);
 
       // Get updated order
       const updatedOrder = await storage.getOrder(orderId);
 
+      if (approvedNotification) {
+        publishEvent('notification.approved', approvedNotification);
+      }
+      if (updatedOrder) {
+        publishEvent('order.updated', updatedOrder);
+      }
+
       res.json({ 
         success: true, 
         message: "Item berhasil dihapus dari open bill",
@@ -3468,8 +5448,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return sendErrorResponse(res, 400, "Notification already processed");
       }
 
+      if (notification.type === 'cash_variance') {
+        const shift = await reviewCashVariance(notification, admin.id, 'rejected');
+        return res.json({ success: true, message: "Selisih kas shift ditolak", shift });
+      }
+
       // Reject notification
-      await storage.rejectNotification(id, admin.id);
+      const rejectedNotification = await storage.rejectNotification(id, admin.id);
+      if (rejectedNotification) {
+        publishEvent('notification.rejected', rejectedNotification);
+      }
 
       res.json({ 
         success: true, 
@@ -3517,6 +5505,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payment reconciliation against the Midtrans gateway (Admin only)
+  app.get("/api/payments/reconciliations", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const reports = await storage.getPaymentReconciliations();
+      res.json(reports);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to fetch payment reconciliations");
+    }
+  });
+
+  // Build (or rebuild) the report for a day, defaulting to yesterday
+  app.post("/api/payments/reconciliations", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const provider = getPaymentProvider('midtrans');
+      if (!provider) {
+        return sendErrorResponse(res, 503, "Payment service not available");
+      }
+
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      const { date } = z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(),
+      }).parse(req.body);
+
+      const report = await buildPaymentReconciliation(provider, date ?? toReportDate(yesterday));
+      res.json(report);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to build payment reconciliation");
+    }
+  });
+
+  // Run a reconciliation pass now instead of waiting for the background interval
+  app.post("/api/payments/reconcile", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const result = await reconcilePendingPayments({ applyPaymentStatus });
+      res.json(result);
+    } catch (error) {
+      return handleApiError(res, error, "Failed to reconcile payments");
+    }
+  });
+
+  // Catch payments whose webhook never arrived and enforce payment expiry server-side
+  startPaymentReconciler({ applyPaymentStatus, reportProvider: getPaymentProvider('midtrans') });
+
+  // Send tickets queued for LAN printers, retrying ones the printer didn't take
+  startNetworkPrintWorker();
+
   const httpServer = createServer(app);
+
+  // Push channel for kitchen, approvals and cashier screens (replaces polling)
+  attachRealtime(httpServer);
+
   return httpServer;
 }
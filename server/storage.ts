@@ -1,7 +1,24 @@
-import { type User, type InsertUser, type Category, type InsertCategory, type MenuItem, type InsertMenuItem, type Order, type InsertOrder, type InventoryItem, type InsertInventoryItem, type MenuItemIngredient, type InsertMenuItemIngredient, type StoreProfile, type InsertStoreProfile, type Reservation, type InsertReservation, type Discount, type InsertDiscount, type Expense, type InsertExpense, type DailyReport, type InsertDailyReport, type PrintSetting, type InsertPrintSetting, type Shift, type InsertShift, type CashMovement, type InsertCashMovement, type Refund, type InsertRefund, type AuditLog, type InsertAuditLog, type Notification, type InsertNotification, type DeletionLog, type InsertDeletionLog, type DeletionPin, type InsertDeletionPin, type StockDeductionResult, users, categories, menuItems, orders, inventoryItems, menuItemIngredients, storeProfile, reservations, discounts, expenses, dailyReports, printSettings, shifts, cashMovements, refunds, auditLogs, notifications, deletionLogs, deletionPins } from "@shared/schema";
+import { type User, type InsertUser, type Category, type InsertCategory, type MenuItem, type InsertMenuItem, type Order, type InsertOrder, type OrderPayment, type InsertOrderPayment, type BillSplit, type BillSplitPart, type InsertBillSplitPart, type BillSplitWithParts, type SplitPartPayment, type SplitBillMode, type InventoryItem, type InsertInventoryItem, type MenuItemIngredient, type InsertMenuItemIngredient, type StoreProfile, type InsertStoreProfile, type Reservation, type InsertReservation, type Discount, type InsertDiscount, type DiscountRedemption, type InsertDiscountRedemption, type Expense, type InsertExpense, type DailyReport, type InsertDailyReport, type PaymentReconciliation, type InsertPaymentReconciliation, type PrintSetting, type InsertPrintSetting, type PrintJob, type InsertPrintJob, type PrintJobStatus, type Shift, type InsertShift, type CashMovement, type InsertCashMovement, type Refund, type InsertRefund, type AuditLog, type InsertAuditLog, type Notification, type InsertNotification, type ServiceRequest, type InsertServiceRequest, type PrepStation, type InsertPrepStation, type PrepItemStatus, type DeletionLog, type InsertDeletionLog, type DeletionPin, type InsertDeletionPin, type Table, type InsertTable, type TableWithStatus, type Supplier, type InsertSupplier, type PurchaseOrder, type InsertPurchaseOrder, type PurchaseOrderItem, type StockDeductionResult, type CashierPerformance, type SalesReport, type SalesReportLine, type SalesReportTally, type PaymentMethod, type CashCountLine, type ShiftCashSummary, type StockTakeLine, type MenuItemCosting, type OrderCharges, type OrderItem, type InventoryMovement, type InsertInventoryMovement, users, categories, menuItems, orders, orderPayments, billSplits, billSplitParts, inventoryItems, menuItemIngredients, storeProfile, reservations, discounts, discountRedemptions, expenses, dailyReports, paymentReconciliations, printSettings, printJobs, shifts, cashMovements, refunds, auditLogs, notifications, serviceRequests, prepStations, deletionLogs, deletionPins, inventoryMovements, tables, suppliers, purchaseOrders } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, gte, lte } from "drizzle-orm";
+import { eq, ne, desc, sql, gte, lte, lt, and, or, isNull, isNotNull, inArray, notInArray } from "drizzle-orm";
 import { randomUUID } from "crypto";
+import { convertQuantity, roundQuantity, type PackDefinition } from "@shared/units";
+import { getTenderTotals, PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { compareTables, describeTable, normalizeTableNumber, TABLE_ACTIVITY_WINDOW_HOURS } from "@shared/tables";
+import { isSplitSettled, planSplitParts, type SplitPartRequest, type SplitPlanError } from "@shared/split-bills";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Recipe quantity expressed in the inventory item's stock unit (e.g. 150 g of a kg-stocked item -> 0.15)
+function toStockQuantity(ingredient: { quantityNeeded: number; unit: string }, item: { unit: string } & PackDefinition): number {
+  const converted = convertQuantity(ingredient.quantityNeeded, ingredient.unit, item.unit, item);
+  if (converted === null) {
+    // Legacy recipe rows created before unit validation; deduct as-is rather than skipping
+    console.warn(`Cannot convert ${ingredient.unit} to ${item.unit}, using recipe quantity unconverted`);
+    return ingredient.quantityNeeded;
+  }
+  return roundQuantity(converted);
+}
 
 export interface IStorage {
   // Users
@@ -35,19 +52,40 @@ export interface IStorage {
   getOrderByMidtransOrderId(midtransOrderId: string): Promise<Order | undefined>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  getOrderByTrackingToken(trackingToken: string): Promise<Order | undefined>;
+  countKitchenOrdersAhead(order: Pick<Order, 'id' | 'createdAt'>): Promise<number>;
+  getAveragePrepMinutes(since: Date): Promise<number | null>;
+  updateOrderItemsPrepStatus(id: string, itemIndexes: number[], status: PrepItemStatus): Promise<Order | undefined>;
   updateOrderPayment(id: string, paymentData: {
     paymentStatus?: string;
     paymentMethod?: string;
+    paymentReference?: string | null;
     midtransTransactionId?: string;
     midtransTransactionStatus?: string;
     qrisUrl?: string;
     qrisString?: string;
     paymentExpiredAt?: Date;
     paidAt?: Date;
+    cashierId?: string | null;
+    shiftId?: string | null;
   }): Promise<Order | undefined>;
-  updateOpenBillItems(id: string, newItems: any[], additionalSubtotal: number): Promise<Order | undefined>;
-  replaceOpenBillItems(id: string, newItems: any[], newSubtotal: number): Promise<Order | undefined>;
-  getOpenBillByTable(tableNumber: string): Promise<Order | undefined>;
+  transitionOrderPayment(id: string, fromStatuses: string[], paymentData: { paymentStatus: string; midtransTransactionStatus?: string; paidAt?: Date; paymentMethod?: string; paymentReference?: string | null; cashierId?: string | null; shiftId?: string | null }): Promise<Order | undefined>;
+  getGatewayOrdersToReconcile(expiredSince: Date): Promise<Order[]>;
+  getGatewayOrdersCreatedBetween(start: Date, end: Date): Promise<Order[]>;
+  getOrderPayments(orderId: string): Promise<OrderPayment[]>;
+  getOrderPaymentsByOrderIds(orderIds: string[]): Promise<OrderPayment[]>;
+  createOrderPayments(payments: InsertOrderPayment[]): Promise<OrderPayment[]>;
+
+  // Split bills
+  getOpenBillSplit(orderId: string): Promise<BillSplitWithParts | undefined>;
+  saveBillSplit(orderId: string, split: { mode: SplitBillMode; createdBy?: string }, requestedParts: SplitPartRequest[]): Promise<BillSplitWithParts | SplitPlanError>;
+  payBillSplitPart(orderId: string, partId: string, payment: { paymentMethod: string; paymentReference: string | null; cashierId: string | null; shiftId: string | null }, tenders: Omit<InsertOrderPayment, 'orderId' | 'splitPartId'>[]): Promise<SplitPartPayment | SplitPlanError>;
+  cancelUnpaidBillSplit(orderId: string): Promise<boolean>;
+
+  createOpenBill(order: InsertOrder): Promise<Order | undefined>;
+  addOpenBillRound(id: string, newItems: OrderItem[], getCharges: (items: OrderItem[]) => Promise<OrderCharges>): Promise<Order | undefined>;
+  replaceOpenBillItems(id: string, newItems: any[], charges: OrderCharges): Promise<Order | undefined>;
+  getOpenBillByTable(tableId: string | null, tableNumber: string): Promise<Order | undefined>;
 
   // Inventory
   getInventoryItems(): Promise<InventoryItem[]>;
@@ -60,12 +98,52 @@ export interface IStorage {
   getMenuItemIngredients(menuItemId: string): Promise<MenuItemIngredient[]>;
   createMenuItemIngredient(ingredient: InsertMenuItemIngredient): Promise<MenuItemIngredient>;
   deleteMenuItemIngredient(id: string): Promise<boolean>;
+  getMenuItemCosts(params?: { menuItemIds?: string[]; inventoryItemIds?: string[] }): Promise<MenuItemCosting[]>;
 
   // Stock Management
   validateStockAvailability(orderItems: { itemId: string; quantity: number }[]): Promise<StockDeductionResult>;
   deductStock(orderItems: { itemId: string; quantity: number }[]): Promise<StockDeductionResult>;
+  deductStockForOrder(orderId: string, performedBy?: string): Promise<StockDeductionResult>;
+  restoreStockForOrder(orderId: string, params: { items?: { itemId: string; quantity: number }[]; referenceType: string; referenceId?: string; performedBy?: string; notes?: string }): Promise<InventoryMovement[]>;
+  getInventoryMovements(params: { inventoryItemId?: string; type?: string; limit?: number; offset?: number }): Promise<{ movements: InventoryMovement[]; total: number }>;
+  recordInventoryMovement(movement: Omit<InsertInventoryMovement, 'stockBefore' | 'stockAfter'>): Promise<InventoryMovement | undefined>;
+  applyStockTake(counts: { inventoryItemId: string; countedStock: number }[], performedBy: string, notes?: string): Promise<StockTakeLine[]>;
+  correctInventoryStock(inventoryItemId: string, stock: number, performedBy: string): Promise<InventoryMovement | undefined>;
   getLowStockItems(): Promise<InventoryItem[]>;
 
+  // Tables
+  getTables(): Promise<Table[]>;
+  getTable(id: string): Promise<Table | undefined>;
+  getTableByNumber(number: string): Promise<Table | undefined>;
+  getTableByQrToken(qrToken: string): Promise<Table | undefined>;
+  createTable(table: InsertTable): Promise<Table>;
+  updateTable(id: string, table: Partial<InsertTable>): Promise<Table | undefined>;
+  setTableState(id: string, state: Partial<Pick<Table, 'billRequestedAt' | 'vacatedAt' | 'clearedAt'>>): Promise<Table | undefined>;
+  rotateTableQrToken(id: string): Promise<Table | undefined>;
+  deleteTable(id: string): Promise<boolean>;
+  hasTableOrders(id: string): Promise<boolean>;
+  getTablesWithStatus(): Promise<TableWithStatus[]>;
+
+  // Prep stations
+  getPrepStations(): Promise<PrepStation[]>;
+  createPrepStation(station: InsertPrepStation): Promise<PrepStation>;
+  updatePrepStation(id: string, station: Partial<InsertPrepStation>): Promise<PrepStation | undefined>;
+  deletePrepStation(id: string): Promise<boolean>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<boolean>;
+
+  // Purchase Orders
+  getPurchaseOrders(params?: { status?: string; supplierId?: string }): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  createPurchaseOrder(purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber'>): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, purchaseOrder: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: string, receipts: { inventoryItemId: string; quantity: number; unitPrice?: number }[], performedBy: string): Promise<PurchaseOrder | undefined>;
+
   // Store Profile
   getStoreProfile(): Promise<StoreProfile | undefined>;
   createStoreProfile(profile: InsertStoreProfile): Promise<StoreProfile>;
@@ -86,6 +164,12 @@ export interface IStorage {
   createDiscount(discount: InsertDiscount): Promise<Discount>;
   updateDiscount(id: string, discount: Partial<InsertDiscount>): Promise<Discount | undefined>;
   deleteDiscount(id: string): Promise<boolean>;
+  getDiscountByCode(code: string): Promise<Discount | undefined>;
+  // Redemptions on orders that failed, expired or were cancelled don't count
+  countDiscountRedemptions(discountId: string, customerKey?: string): Promise<number>;
+  createDiscountRedemption(redemption: InsertDiscountRedemption): Promise<DiscountRedemption>;
+  // Saves the order and its voucher redemption together; undefined when the voucher's limits are used up
+  createOrderWithRedemption(order: InsertOrder, redemption: Omit<InsertDiscountRedemption, 'orderId'>): Promise<Order | undefined>;
   
   // Expenses
   getExpenses(): Promise<Expense[]>;
@@ -107,6 +191,11 @@ export interface IStorage {
   updateDailyReport(id: string, report: Partial<InsertDailyReport>): Promise<DailyReport | undefined>;
   deleteDailyReport(id: string): Promise<boolean>;
 
+  // Payment Reconciliation
+  getPaymentReconciliations(limit?: number): Promise<PaymentReconciliation[]>;
+  getPaymentReconciliation(reportDate: string): Promise<PaymentReconciliation | undefined>;
+  savePaymentReconciliation(report: InsertPaymentReconciliation): Promise<PaymentReconciliation>;
+
   // Print Settings
   getPrintSettings(): Promise<PrintSetting[]>;
   getActivePrintSetting(): Promise<PrintSetting | undefined>;
@@ -116,6 +205,16 @@ export interface IStorage {
   setActivePrintSetting(id: string): Promise<PrintSetting | undefined>;
   deletePrintSetting(id: string): Promise<boolean>;
 
+  // Print jobs
+  getPrintJobs(since: Date): Promise<PrintJob[]>;
+  getPrintJobsByOrder(orderId: string): Promise<PrintJob[]>;
+  getPrintJobsByPrinter(printerId: string, limit?: number): Promise<PrintJob[]>;
+  getPendingPrintJobs(printerIds: string[]): Promise<PrintJob[]>;
+  createPrintJobs(jobs: InsertPrintJob[]): Promise<PrintJob[]>;
+  claimPrintJob(id: string): Promise<PrintJob | undefined>;
+  requeueStalePrintJobs(printerIds: string[], claimedBefore: Date): Promise<PrintJob[]>;
+  transitionPrintJob(id: string, fromStatuses: PrintJobStatus[], update: { status: PrintJobStatus; error?: string | null; printedAt?: Date }): Promise<PrintJob | undefined>;
+
   // Shifts
   getShifts(): Promise<Shift[]>;
   getPaginatedShifts(params: { limit?: number; offset?: number; cashierId?: string; status?: string }): Promise<{ shifts: Shift[]; total: number }>;
@@ -124,7 +223,11 @@ export interface IStorage {
   getShift(id: string): Promise<Shift | undefined>;
   createShift(shift: InsertShift): Promise<Shift>;
   updateShift(id: string, shift: Partial<InsertShift>): Promise<Shift | undefined>;
-  closeShift(id: string, finalCash: number, notes?: string): Promise<Shift | undefined>;
+  getShiftCashSummary(id: string): Promise<ShiftCashSummary | undefined>;
+  closeShift(id: string, close: { finalCash: number; notes?: string; cashCount?: CashCountLine[]; blindClose: boolean }): Promise<Shift | undefined>;
+  getCashierPerformance(start: Date, end: Date): Promise<CashierPerformance[]>;
+  getShiftSalesReport(id: string): Promise<SalesReport | undefined>;
+  getDailySalesReport(start: Date, end: Date): Promise<SalesReport>;
 
   // Cash Movements
   getCashMovements(): Promise<CashMovement[]>;
@@ -141,7 +244,7 @@ export interface IStorage {
   createRefund(refund: InsertRefund): Promise<Refund>;
   updateRefund(id: string, refund: Partial<InsertRefund>): Promise<Refund | undefined>;
   authorizeRefund(id: string, authorizedBy: string, authCode: string): Promise<Refund | undefined>;
-  processRefund(id: string): Promise<Refund | undefined>;
+  processRefund(id: string, processedBy: string, shiftId: string | null): Promise<Refund | undefined>;
 
   // Audit Logs
   getAuditLogs(): Promise<AuditLog[]>;
@@ -150,6 +253,12 @@ export interface IStorage {
   getAuditLogsByAction(action: string): Promise<AuditLog[]>;
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
 
+  // Service requests
+  createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest>;
+  getOpenServiceRequests(): Promise<ServiceRequest[]>;
+  getOpenServiceRequestsByOrder(orderId: string): Promise<ServiceRequest[]>;
+  resolveServiceRequest(id: string, resolvedBy: string): Promise<ServiceRequest | undefined>;
+
   // Notifications
   getNotifications(): Promise<Notification[]>;
   getPaginatedNotifications(params: { limit?: number; offset?: number; status?: string; isRead?: boolean }): Promise<{ notifications: Notification[]; total: number }>;
@@ -327,7 +436,7 @@ export class MemStorage {
         currentStock: 15,
         minStock: 5,
         maxStock: 30,
-        unit: "liter",
+        unit: "l",
         pricePerUnit: 18000,
         supplier: "Toko Sembako",
         createdAt: new Date()
@@ -366,7 +475,7 @@ export class MemStorage {
 
   async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
     const id = randomUUID();
-    const menuItem: MenuItem = { ...item, id, createdAt: new Date(), image: item.image || null, description: item.description || null, isAvailable: item.isAvailable ?? true };
+    const menuItem: MenuItem = { ...item, id, createdAt: new Date(), image: item.image || null, description: item.description || null, isAvailable: item.isAvailable ?? true, modifierGroups: item.modifierGroups ?? [] };
     this.menuItems.set(id, menuItem);
     return menuItem;
   }
@@ -439,6 +548,14 @@ export class MemStorage {
 }
 */
 
+// Station progress of a line; it keeps the first time it was started and finished
+function withPrepStatus(line: OrderItem, status: PrepItemStatus, now: string): OrderItem {
+  const { startedAt, readyAt, ...item } = line;
+  if (status === 'queued') return { ...item, prepStatus: status };
+  if (status === 'cooking') return { ...item, prepStatus: status, startedAt: startedAt ?? now };
+  return { ...item, prepStatus: status, startedAt: startedAt ?? now, readyAt: readyAt ?? now };
+}
+
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -590,33 +707,33 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db.insert(orders).values(order).returning();
+    return db.transaction(async (tx) => this.insertOrder(tx, order));
+  }
+
+  // Orders taken as paid (counter payments) deduct their stock in the same transaction
+  private async insertOrder(tx: DbTransaction, order: InsertOrder): Promise<Order> {
+    const [newOrder] = await tx.insert(orders).values(order).returning();
+    if (newOrder.paymentStatus === 'paid') {
+      await this.deductStockInTransaction(tx, newOrder.id, newOrder.cashierId ?? undefined);
+    }
     return newOrder;
   }
 
   async updateOrderStatus(id: string, orderStatus: string): Promise<Order | undefined> {
+    // Keep the first time each step was reached; orders served straight away count as ready then too
+    const reachedAt = {
+      preparing: { preparingAt: sql`coalesce(${orders.preparingAt}, now())` },
+      ready: { readyAt: sql`coalesce(${orders.readyAt}, now())` },
+      served: { readyAt: sql`coalesce(${orders.readyAt}, now())`, servedAt: sql`coalesce(${orders.servedAt}, now())` },
+    }[orderStatus] ?? {};
+
     const [updated] = await db
       .update(orders)
-      .set({ orderStatus, updatedAt: new Date() })
+      .set({ orderStatus, ...reachedAt, updatedAt: new Date() })
       .where(eq(orders.id, id))
       .returning();
     
-    // If order is completed, deduct stock automatically
-    if (updated && orderStatus === 'served') {
-      try {
-        const orderItems = Array.isArray(updated.items) ? updated.items : [];
-        const stockResult = await this.deductStock(orderItems.map((item: any) => ({
-          itemId: item.itemId,
-          quantity: item.quantity
-        })));
-        
-        console.log('Stock deduction result:', stockResult);
-      } catch (error) {
-        console.error('Failed to deduct stock for completed order:', error);
-        // Don't fail the order completion if stock deduction fails
-      }
-    }
-    
+    // Stock is deducted when the order is paid (see deductStockForOrder), not when served
     return updated || undefined;
   }
 
@@ -625,79 +742,375 @@ export class DatabaseStorage implements IStorage {
     return order || undefined;
   }
 
+  async getOrderByTrackingToken(trackingToken: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.trackingToken, trackingToken));
+    return order || undefined;
+  }
+
+  // Orders the kitchen works on before this one: placed earlier, not ready yet, and not waiting on a gateway payment
+  async countKitchenOrdersAhead(order: Pick<Order, 'id' | 'createdAt'>): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .where(and(
+        inArray(orders.orderStatus, ['queued', 'preparing']),
+        // Open bills stay 'pending' until the table pays, but are cooking all the same
+        or(eq(orders.payLater, true), notInArray(orders.paymentStatus, ['pending', 'failed', 'expired'])),
+        lt(orders.createdAt, order.createdAt),
+        gte(orders.createdAt, new Date(order.createdAt.getTime() - 24 * 60 * 60 * 1000)),
+        sql`${orders.id} <> ${order.id}`
+      ));
+    return count;
+  }
+
+  // Average minutes from order to ready for orders that became ready since the given time
+  async getAveragePrepMinutes(since: Date): Promise<number | null> {
+    const [{ minutes }] = await db
+      .select({ minutes: sql<number | null>`avg(extract(epoch from (${orders.readyAt} - ${orders.createdAt})) / 60)::float` })
+      .from(orders)
+      .where(and(isNotNull(orders.readyAt), gte(orders.readyAt, since)));
+    return minutes === null ? null : Math.round(minutes);
+  }
+
+  // Station progress of single lines; each keeps the first time it was started and finished
+  // The order stays locked while its lines are rewritten, so stations bumping lines at once don't undo each other
+  async updateOrderItemsPrepStatus(id: string, itemIndexes: number[], status: PrepItemStatus): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for('update');
+      if (!order || itemIndexes.some(index => !(order.items as OrderItem[])[index])) return undefined;
+
+      const now = new Date().toISOString();
+      const items = (order.items as OrderItem[]).map((line, index) =>
+        itemIndexes.includes(index) ? withPrepStatus(line, status, now) : line);
+
+      const [updated] = await tx
+        .update(orders)
+        .set({ items, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
   async updateOrderPayment(id: string, paymentData: {
     paymentStatus?: string;
+    paymentMethod?: string;
+    paymentReference?: string | null;
     midtransTransactionId?: string;
     midtransTransactionStatus?: string;
     qrisUrl?: string;
     paymentExpiredAt?: Date;
     paidAt?: Date;
+    cashierId?: string | null;
+    shiftId?: string | null;
   }): Promise<Order | undefined> {
-    const [updated] = await db
-      .update(orders)
-      .set({ 
-        ...paymentData,
-        updatedAt: new Date() 
-      })
-      .where(eq(orders.id, id))
-      .returning();
-    return updated || undefined;
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({ 
+          ...paymentData,
+          updatedAt: new Date() 
+        })
+        .where(eq(orders.id, id))
+        .returning();
+      if (updated && paymentData.paymentStatus === 'paid') {
+        await this.deductStockInTransaction(tx, id, paymentData.cashierId ?? undefined);
+      }
+      return updated || undefined;
+    });
   }
 
-  async updateOpenBillItems(id: string, newItems: any[], additionalSubtotal: number): Promise<Order | undefined> {
-    const currentOrder = await this.getOrder(id);
-    // Allow adding items as long as it's an open bill and not paid yet
-    // (regardless of order status - could be pending, preparing, etc.)
-    if (!currentOrder || !currentOrder.payLater || currentOrder.paymentStatus === 'paid') {
-      return undefined;
-    }
+  // Conditional on the current payment status so a replayed webhook, a webhook/reconciler race or two
+  // kasir devices paying the same bill apply once.
+  // A transition to paid deducts the order's stock in the same transaction
+  async transitionOrderPayment(id: string, fromStatuses: string[], paymentData: { paymentStatus: string; midtransTransactionStatus?: string; paidAt?: Date; paymentMethod?: string; paymentReference?: string | null; cashierId?: string | null; shiftId?: string | null }): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(orders)
+        .set({ ...paymentData, updatedAt: new Date() })
+        .where(and(eq(orders.id, id), inArray(orders.paymentStatus, fromStatuses)))
+        .returning();
+      if (updated && paymentData.paymentStatus === 'paid') {
+        await this.deductStockInTransaction(tx, id, paymentData.cashierId ?? undefined);
+      }
+      return updated || undefined;
+    });
+  }
 
-    const existingItems = Array.isArray(currentOrder.items) ? currentOrder.items : [];
-    const updatedItems = [...existingItems, ...newItems];
-    const newSubtotal = currentOrder.subtotal + additionalSubtotal;
-    const newTotal = newSubtotal; // No discount for now
+  // Pending gateway orders, plus ones that expired recently in case the gateway settled them late
+  async getGatewayOrdersToReconcile(expiredSince: Date): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(and(
+        isNotNull(orders.midtransOrderId),
+        or(
+          eq(orders.paymentStatus, 'pending'),
+          and(eq(orders.paymentStatus, 'expired'), gte(orders.paymentExpiredAt, expiredSince))
+        )
+      ))
+      .orderBy(orders.createdAt);
+  }
 
-    const [updated] = await db
-      .update(orders)
-      .set({ 
-        items: updatedItems,
-        subtotal: newSubtotal,
-        total: newTotal,
-        updatedAt: new Date() 
-      })
-      .where(eq(orders.id, id))
-      .returning();
-    return updated || undefined;
+  async getGatewayOrdersCreatedBetween(start: Date, end: Date): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(and(
+        isNotNull(orders.midtransOrderId),
+        gte(orders.createdAt, start),
+        lt(orders.createdAt, end)
+      ))
+      .orderBy(orders.createdAt);
   }
 
-  async replaceOpenBillItems(id: string, newItems: any[], newSubtotal: number): Promise<Order | undefined> {
-    const currentOrder = await this.getOrder(id);
-    // Allow replacing items as long as it's an open bill and not paid yet
-    // (regardless of order status - could be pending, preparing, etc.)
-    if (!currentOrder || !currentOrder.payLater || currentOrder.paymentStatus === 'paid') {
-      return undefined;
-    }
+  async getOrderPayments(orderId: string): Promise<OrderPayment[]> {
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(eq(orderPayments.orderId, orderId))
+      .orderBy(orderPayments.createdAt);
+  }
+
+  async getOrderPaymentsByOrderIds(orderIds: string[]): Promise<OrderPayment[]> {
+    if (orderIds.length === 0) return [];
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(inArray(orderPayments.orderId, orderIds))
+      .orderBy(orderPayments.createdAt);
+  }
+
+  async createOrderPayments(payments: InsertOrderPayment[]): Promise<OrderPayment[]> {
+    if (payments.length === 0) return [];
+    return await db.insert(orderPayments).values(payments).returning();
+  }
+
+  async getOpenBillSplit(orderId: string): Promise<BillSplitWithParts | undefined> {
+    const [split] = await db
+      .select()
+      .from(billSplits)
+      .where(and(eq(billSplits.orderId, orderId), eq(billSplits.status, 'open')))
+      .limit(1);
+    if (!split) return undefined;
+
+    const parts = await db
+      .select()
+      .from(billSplitParts)
+      .where(eq(billSplitParts.splitId, split.id))
+      .orderBy(billSplitParts.partNumber);
+    return { ...split, parts };
+  }
+
+  // Replaces the unpaid parts of the order's open split (starting one if needed); paid parts are never touched.
+  // The bill, the split and its parts stay locked while the new parts are planned: a part paid meanwhile
+  // is either counted as paid here, or its payment finds the unpaid row gone
+  async saveBillSplit(orderId: string, split: { mode: SplitBillMode; createdBy?: string }, requestedParts: SplitPartRequest[]): Promise<BillSplitWithParts | SplitPlanError> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order || order.paymentStatus === 'paid') {
+        return { error: "Bill already paid", status: 400 };
+      }
+
+      let [session] = await tx
+        .select()
+        .from(billSplits)
+        .where(and(eq(billSplits.orderId, orderId), eq(billSplits.status, 'open')))
+        .for('update');
+
+      const currentParts = session
+        ? await tx.select().from(billSplitParts).where(eq(billSplitParts.splitId, session.id)).for('update')
+        : [];
+      const plan = planSplitParts(
+        order,
+        split.mode,
+        session?.mode as SplitBillMode | undefined,
+        currentParts.filter(part => part.paymentStatus === 'paid'),
+        requestedParts
+      );
+      if ('error' in plan) {
+        return plan;
+      }
+
+      if (session) {
+        [session] = await tx.update(billSplits).set({ mode: split.mode }).where(eq(billSplits.id, session.id)).returning();
+      } else {
+        [session] = await tx.insert(billSplits).values({ orderId, mode: split.mode, createdBy: split.createdBy }).returning();
+      }
+
+      await tx
+        .delete(billSplitParts)
+        .where(and(eq(billSplitParts.splitId, session.id), eq(billSplitParts.paymentStatus, 'unpaid')));
+      if (plan.parts.length > 0) {
+        await tx.insert(billSplitParts).values(plan.parts.map(part => ({ ...part, splitId: session.id, paymentStatus: 'unpaid' })));
+      }
+
+      const parts = await tx
+        .select()
+        .from(billSplitParts)
+        .where(eq(billSplitParts.splitId, session.id))
+        .orderBy(billSplitParts.partNumber);
+      return { ...session, parts };
+    });
+  }
+
+  // Pays one part with its tenders. The bill and its split stay locked throughout, so two kasir devices
+  // can't both take a part, a whole-bill payment can't slip in between, and whoever pays the last part
+  // sees every other part paid and closes the bill: the order takes the combined tenders and deducts stock
+  async payBillSplitPart(orderId: string, partId: string, payment: { paymentMethod: string; paymentReference: string | null; cashierId: string | null; shiftId: string | null }, tenders: Omit<InsertOrderPayment, 'orderId' | 'splitPartId'>[]): Promise<SplitPartPayment | SplitPlanError> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for('update');
+      if (!order || order.paymentStatus === 'paid') {
+        return { error: "Bill already paid", status: 409 };
+      }
+
+      const [session] = await tx
+        .select()
+        .from(billSplits)
+        .where(and(eq(billSplits.orderId, orderId), eq(billSplits.status, 'open')))
+        .for('update');
+      const [part] = session
+        ? await tx
+            .update(billSplitParts)
+            .set({ paymentMethod: payment.paymentMethod, paymentReference: payment.paymentReference, paidBy: payment.cashierId, paymentStatus: 'paid', paidAt: new Date() })
+            .where(and(eq(billSplitParts.id, partId), eq(billSplitParts.splitId, session.id), eq(billSplitParts.paymentStatus, 'unpaid')))
+            .returning()
+        : [];
+      if (!session || !part) {
+        return { error: "Split part already paid or changed; reload the split bill", status: 409 };
+      }
+
+      const payments = tenders.length > 0
+        ? await tx.insert(orderPayments).values(tenders.map(tender => ({ ...tender, orderId, splitPartId: part.id }))).returning()
+        : [];
+      const parts = await tx
+        .select()
+        .from(billSplitParts)
+        .where(eq(billSplitParts.splitId, session.id))
+        .orderBy(billSplitParts.partNumber);
+      if (!isSplitSettled(order, parts)) {
+        return { split: { ...session, parts }, part, payments, order, completed: false };
+      }
 
-    const newTotal = newSubtotal; // No discount for now
+      const [split] = await tx
+        .update(billSplits)
+        .set({ status: 'completed', completedAt: new Date() })
+        .where(eq(billSplits.id, session.id))
+        .returning();
+      const methods = new Set(parts.map(candidate => candidate.paymentMethod));
+      const [paidOrder] = await tx
+        .update(orders)
+        .set({
+          paymentStatus: 'paid',
+          paymentMethod: methods.size === 1 ? payment.paymentMethod : 'mixed',
+          paymentReference: null,
+          paidAt: new Date(),
+          cashierId: payment.cashierId,
+          shiftId: payment.shiftId,
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, orderId))
+        .returning();
+      await this.deductStockInTransaction(tx, orderId, payment.cashierId ?? undefined);
+      return { split: { ...split, parts }, part, payments, order: paidOrder, completed: true };
+    });
+  }
+
+  // A split nobody has paid into yet is dropped when the bill is edited or paid whole. The split is
+  // locked first, so a part paid at the same time is either seen here or refused by payBillSplitPart.
+  // False when a part is already paid
+  async cancelUnpaidBillSplit(orderId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx
+        .select()
+        .from(billSplits)
+        .where(and(eq(billSplits.orderId, orderId), eq(billSplits.status, 'open')))
+        .for('update');
+      if (!session) return true;
+
+      const [paidPart] = await tx
+        .select({ id: billSplitParts.id })
+        .from(billSplitParts)
+        .where(and(eq(billSplitParts.splitId, session.id), eq(billSplitParts.paymentStatus, 'paid')))
+        .limit(1);
+      if (paidPart) return false;
+
+      await tx.update(billSplits).set({ status: 'cancelled' }).where(eq(billSplits.id, session.id));
+      return true;
+    });
+  }
+
+  // A table has at most one open bill (orders_unique_open_bill_per_table); undefined when another
+  // device opened one for the table first
+  async createOpenBill(order: InsertOrder): Promise<Order | undefined> {
+    const [newOrder] = await db.insert(orders).values(order).onConflictDoNothing().returning();
+    return newOrder || undefined;
+  }
 
+  // Adds a round of lines to an open bill. The bill stays locked while the round number and the
+  // charges over the combined lines (from getCharges) are worked out, so rounds sent at once all land.
+  // A bill the kitchen had finished goes back in the queue with its earlier rounds marked done
+  async addOpenBillRound(id: string, newItems: OrderItem[], getCharges: (items: OrderItem[]) => Promise<OrderCharges>): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(orders).where(eq(orders.id, id)).for('update');
+      // Allow adding items as long as it's an open bill and not paid yet
+      // (regardless of order status - could be pending, preparing, etc.)
+      if (!bill || !bill.payLater || bill.paymentStatus === 'paid') {
+        return undefined;
+      }
+
+      const existingItems = Array.isArray(bill.items) ? bill.items as OrderItem[] : [];
+      const round = Math.max(1, ...existingItems.map(item => item.round ?? 1)) + 1;
+      const now = new Date().toISOString();
+      const backToKitchen = bill.orderStatus === 'ready' || bill.orderStatus === 'served';
+      const items = [
+        ...(backToKitchen ? existingItems.map(line => withPrepStatus(line, 'done', now)) : existingItems),
+        ...newItems.map(item => ({ ...item, round, sentAt: now })),
+      ];
+      const charges = await getCharges(items);
+
+      const [updated] = await tx
+        .update(orders)
+        .set({
+          items,
+          ...charges,
+          ...(backToKitchen ? { orderStatus: 'queued' } : {}),
+          updatedAt: new Date()
+        })
+        .where(eq(orders.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  async replaceOpenBillItems(id: string, newItems: any[], charges: OrderCharges): Promise<Order | undefined> {
+    // Allow replacing items as long as it's an open bill and not paid yet
+    // (regardless of order status - could be pending, preparing, etc.); checked in the
+    // update itself so a bill paid in the meantime is left alone
     const [updated] = await db
       .update(orders)
       .set({ 
         items: newItems,
-        subtotal: newSubtotal,
-        total: newTotal,
+        ...charges,
         updatedAt: new Date() 
       })
-      .where(eq(orders.id, id))
+      .where(and(eq(orders.id, id), eq(orders.payLater, true), ne(orders.paymentStatus, 'paid')))
       .returning();
     return updated || undefined;
   }
 
-  async getOpenBillByTable(tableNumber: string): Promise<Order | undefined> {
+  // Bills of tables set up in the tables list match on tableId; free-text table numbers
+  // (stores without a tables list) still match on the number
+  async getOpenBillByTable(tableId: string | null, tableNumber: string): Promise<Order | undefined> {
     const [order] = await db
       .select()
       .from(orders)
-      .where(sql`${orders.tableNumber} = ${tableNumber} AND ${orders.payLater} = true AND ${orders.paymentStatus} != 'paid'`)
+      .where(and(
+        tableId ? eq(orders.tableId, tableId) : and(isNull(orders.tableId), eq(orders.tableNumber, tableNumber)),
+        eq(orders.payLater, true),
+        sql`${orders.paymentStatus} NOT IN ('paid', 'refunded')`,
+        sql`${orders.orderStatus} != 'cancelled'`
+      ))
       .orderBy(desc(orders.createdAt))
       .limit(1);
     return order || undefined;
@@ -763,6 +1176,56 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Recipe costing: food cost per menu item from ingredient quantities and current inventory prices.
+  // inventoryItemIds narrows the result to menu items whose recipe uses any of those ingredients.
+  async getMenuItemCosts(params: { menuItemIds?: string[]; inventoryItemIds?: string[] } = {}): Promise<MenuItemCosting[]> {
+    const items = await db.select().from(menuItems).orderBy(menuItems.name);
+    const lines = await db
+      .select({
+        menuItemId: menuItemIngredients.menuItemId,
+        inventoryItemId: inventoryItems.id,
+        name: inventoryItems.name,
+        unit: inventoryItems.unit,
+        quantityNeeded: menuItemIngredients.quantityNeeded,
+        recipeUnit: menuItemIngredients.unit,
+        packSize: inventoryItems.packSize,
+        packUnit: inventoryItems.packUnit,
+        pricePerUnit: inventoryItems.pricePerUnit,
+      })
+      .from(menuItemIngredients)
+      .innerJoin(inventoryItems, eq(menuItemIngredients.inventoryItemId, inventoryItems.id));
+
+    const linesByMenuItem = new Map<string, MenuItemCosting['ingredients']>();
+    for (const { menuItemId, recipeUnit, packSize, packUnit, ...line } of lines) {
+      const recipe = linesByMenuItem.get(menuItemId) || [];
+      // pricePerUnit is per stock unit, so cost the recipe quantity after converting it
+      const quantityNeeded = toStockQuantity({ quantityNeeded: line.quantityNeeded, unit: recipeUnit }, { unit: line.unit, packSize, packUnit });
+      recipe.push({ ...line, quantityNeeded, cost: Math.round(quantityNeeded * line.pricePerUnit) });
+      linesByMenuItem.set(menuItemId, recipe);
+    }
+
+    return items
+      .filter(item => !params.menuItemIds || params.menuItemIds.includes(item.id))
+      .filter(item => !params.inventoryItemIds ||
+        (linesByMenuItem.get(item.id) || []).some(line => params.inventoryItemIds!.includes(line.inventoryItemId)))
+      .map(item => {
+        const ingredients = linesByMenuItem.get(item.id) || [];
+        const foodCost = ingredients.reduce((sum, line) => sum + line.cost, 0);
+        const margin = item.price - foodCost;
+        return {
+          menuItemId: item.id,
+          name: item.name,
+          categoryId: item.categoryId,
+          price: item.price,
+          foodCost,
+          margin,
+          marginPercent: item.price > 0 ? Math.round((margin / item.price) * 1000) / 10 : 0,
+          hasRecipe: ingredients.length > 0,
+          ingredients,
+        };
+      });
+  }
+
   // Stock Management methods
   async validateStockAvailability(orderItems: { itemId: string; quantity: number }[]): Promise<StockDeductionResult> {
     const insufficientStock: StockDeductionResult['insufficientStock'] = [];
@@ -773,11 +1236,11 @@ export class DatabaseStorage implements IStorage {
       const ingredients = await this.getMenuItemIngredients(orderItem.itemId);
       
       for (const ingredient of ingredients) {
-        const requiredQuantity = ingredient.quantityNeeded * orderItem.quantity;
-        
         // Check current stock
         const inventoryItem = await this.getInventoryItem(ingredient.inventoryItemId);
         if (!inventoryItem) continue;
+
+        const requiredQuantity = roundQuantity(toStockQuantity(ingredient, inventoryItem) * orderItem.quantity);
         
         if (inventoryItem.currentStock < requiredQuantity) {
           insufficientStock.push({
@@ -791,7 +1254,7 @@ export class DatabaseStorage implements IStorage {
             inventoryItemId: inventoryItem.id,
             inventoryItemName: inventoryItem.name,
             deducted: requiredQuantity,
-            newStock: inventoryItem.currentStock - requiredQuantity
+            newStock: roundQuantity(inventoryItem.currentStock - requiredQuantity)
           });
         }
       }
@@ -818,7 +1281,10 @@ export class DatabaseStorage implements IStorage {
       const ingredients = await this.getMenuItemIngredients(orderItem.itemId);
       
       for (const ingredient of ingredients) {
-        const deductQuantity = ingredient.quantityNeeded * orderItem.quantity;
+        const inventoryItem = await this.getInventoryItem(ingredient.inventoryItemId);
+        if (!inventoryItem) continue;
+
+        const deductQuantity = roundQuantity(toStockQuantity(ingredient, inventoryItem) * orderItem.quantity);
         
         const [updated] = await db
           .update(inventoryItems)
@@ -845,6 +1311,273 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Deduct recipe ingredients for a paid order. Idempotent: the order is claimed via
+  // stockDeductedAt inside the transaction, so repeated payment confirmations are no-ops.
+  // Stock is deducted even when insufficient (the sale already happened); shortfalls are
+  // reported in insufficientStock and logged.
+  async deductStockForOrder(orderId: string, performedBy?: string): Promise<StockDeductionResult> {
+    return db.transaction(async (tx) => this.deductStockInTransaction(tx, orderId, performedBy));
+  }
+
+  // Payment updates call this inside their own transaction, so an order is never paid without its stock moving
+  private async deductStockInTransaction(tx: DbTransaction, orderId: string, performedBy?: string): Promise<StockDeductionResult> {
+    const [order] = await tx
+      .update(orders)
+      .set({ stockDeductedAt: new Date() })
+      .where(and(eq(orders.id, orderId), isNull(orders.stockDeductedAt)))
+      .returning();
+
+    if (!order) {
+      return { success: true, deductions: [] };
+    }
+
+    const orderItems = Array.isArray(order.items) ? (order.items as OrderItem[]) : [];
+    const requirements = await this.getIngredientRequirements(tx, orderItems);
+
+    const insufficientStock: StockDeductionResult['insufficientStock'] = [];
+    const deductions: StockDeductionResult['deductions'] = [];
+
+    for (const [inventoryItemId, required] of Array.from(requirements.entries())) {
+      const movement = await this.applyInventoryMovement(tx, {
+        inventoryItemId,
+        type: 'sale',
+        quantity: -required,
+        referenceType: 'order',
+        referenceId: order.id,
+        notes: `Order ${order.customerName} - Meja ${order.tableNumber}`,
+        performedBy: performedBy ?? null,
+      });
+      if (!movement) continue;
+
+      if (movement.item.currentStock < 0) {
+        insufficientStock.push({
+          inventoryItemId,
+          inventoryItemName: movement.item.name,
+          required,
+          available: movement.movement.stockBefore
+        });
+      }
+
+      deductions.push({
+        inventoryItemId,
+        inventoryItemName: movement.item.name,
+        deducted: required,
+        newStock: movement.item.currentStock
+      });
+    }
+
+    if (insufficientStock.length > 0) {
+      console.warn(`Stock went negative for order ${order.id}:`, insufficientStock);
+    }
+
+    return {
+      success: true,
+      insufficientStock: insufficientStock.length > 0 ? insufficientStock : undefined,
+      deductions
+    };
+  }
+
+  // Put ingredients back after a void/full refund (no items = whole order) or an item deletion.
+  // Only orders whose stock was deducted and not already restored in full are restored.
+  async restoreStockForOrder(orderId: string, params: { items?: { itemId: string; quantity: number }[]; referenceType: string; referenceId?: string; performedBy?: string; notes?: string }): Promise<InventoryMovement[]> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for('update');
+
+      if (!order || !order.stockDeductedAt || order.stockRestoredAt) {
+        return [];
+      }
+
+      let restoreItems = params.items;
+      if (!restoreItems) {
+        // Full restore is marked separately: the deduction claim stays, so a payment event
+        // replayed after a void can't deduct again, and the order can't be restored twice
+        restoreItems = Array.isArray(order.items) ? (order.items as OrderItem[]) : [];
+        await tx
+          .update(orders)
+          .set({ stockRestoredAt: new Date() })
+          .where(eq(orders.id, orderId));
+      }
+
+      const requirements = await this.getIngredientRequirements(tx, restoreItems);
+      const movements: InventoryMovement[] = [];
+
+      for (const [inventoryItemId, quantity] of Array.from(requirements.entries())) {
+        const result = await this.applyInventoryMovement(tx, {
+          inventoryItemId,
+          type: 'sale_reversal',
+          quantity,
+          referenceType: params.referenceType,
+          referenceId: params.referenceId ?? orderId,
+          notes: params.notes ?? null,
+          performedBy: params.performedBy ?? null,
+        });
+        if (result) movements.push(result.movement);
+      }
+
+      return movements;
+    });
+  }
+
+  async getInventoryMovements(params: { inventoryItemId?: string; type?: string; limit?: number; offset?: number }): Promise<{ movements: InventoryMovement[]; total: number }> {
+    const { limit = 50, offset = 0, inventoryItemId, type } = params;
+
+    const conditions = [];
+    if (inventoryItemId) conditions.push(eq(inventoryMovements.inventoryItemId, inventoryItemId));
+    if (type) conditions.push(eq(inventoryMovements.type, type));
+
+    const whereClause = conditions.length > 0 ? sql`${sql.join(conditions, sql` AND `)}` : undefined;
+
+    const [movements, [{ count }]] = await Promise.all([
+      db.select().from(inventoryMovements).where(whereClause).orderBy(desc(inventoryMovements.createdAt)).limit(limit).offset(offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(inventoryMovements).where(whereClause)
+    ]);
+
+    return { movements, total: count };
+  }
+
+  async recordInventoryMovement(movement: Omit<InsertInventoryMovement, 'stockBefore' | 'stockAfter'>): Promise<InventoryMovement | undefined> {
+    return db.transaction(async (tx) => {
+      const result = await this.applyInventoryMovement(tx, movement);
+      return result?.movement;
+    });
+  }
+
+  // A stock figure typed in on the item edit form, posted as an 'adjustment' for the difference.
+  // Worked out with the item locked, like a stock take, so a sale in between isn't undone
+  async correctInventoryStock(inventoryItemId: string, stock: number, performedBy: string): Promise<InventoryMovement | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, inventoryItemId))
+        .for('update');
+
+      const variance = current ? roundQuantity(stock - current.currentStock) : 0;
+      if (variance === 0) return undefined;
+
+      const result = await this.applyInventoryMovement(tx, {
+        inventoryItemId,
+        type: 'adjustment',
+        quantity: variance,
+        referenceType: 'manual_edit',
+        notes: 'Koreksi stok melalui edit item',
+        performedBy,
+      });
+      return result?.movement;
+    });
+  }
+
+  // Post the variance between physical counts and system stock as 'stock_take' movements.
+  // All lines share one reference ID so a single opname session can be traced in the ledger.
+  async applyStockTake(counts: { inventoryItemId: string; countedStock: number }[], performedBy: string, notes?: string): Promise<StockTakeLine[]> {
+    const stockTakeId = randomUUID();
+
+    return db.transaction(async (tx) => {
+      const lines: StockTakeLine[] = [];
+
+      for (const count of counts) {
+        const [current] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.id, count.inventoryItemId))
+          .for('update');
+
+        if (!current) continue;
+
+        const line: StockTakeLine = {
+          inventoryItemId: current.id,
+          inventoryItemName: current.name,
+          unit: current.unit,
+          expected: current.currentStock,
+          counted: count.countedStock,
+          variance: roundQuantity(count.countedStock - current.currentStock),
+        };
+
+        if (line.variance !== 0) {
+          const result = await this.applyInventoryMovement(tx, {
+            inventoryItemId: current.id,
+            type: 'stock_take',
+            quantity: line.variance,
+            referenceType: 'stock_take',
+            referenceId: stockTakeId,
+            notes: notes ?? null,
+            performedBy,
+          });
+          line.movementId = result?.movement.id;
+        }
+
+        lines.push(line);
+      }
+
+      return lines;
+    });
+  }
+
+  // Sum recipe ingredient quantities per inventory item (in its stock unit) for a list of ordered menu items
+  private async getIngredientRequirements(tx: DbTransaction, orderItems: { itemId: string; quantity: number }[]): Promise<Map<string, number>> {
+    const requirements = new Map<string, number>();
+
+    for (const orderItem of orderItems) {
+      if (!orderItem?.itemId) continue;
+
+      const ingredients = await tx
+        .select({
+          inventoryItemId: menuItemIngredients.inventoryItemId,
+          quantityNeeded: menuItemIngredients.quantityNeeded,
+          unit: menuItemIngredients.unit,
+          stockUnit: inventoryItems.unit,
+          packSize: inventoryItems.packSize,
+          packUnit: inventoryItems.packUnit,
+        })
+        .from(menuItemIngredients)
+        .innerJoin(inventoryItems, eq(menuItemIngredients.inventoryItemId, inventoryItems.id))
+        .where(eq(menuItemIngredients.menuItemId, orderItem.itemId));
+
+      for (const ingredient of ingredients) {
+        const perPortion = toStockQuantity(ingredient, { unit: ingredient.stockUnit, packSize: ingredient.packSize, packUnit: ingredient.packUnit });
+        const quantity = perPortion * (orderItem.quantity || 0);
+        requirements.set(ingredient.inventoryItemId, roundQuantity((requirements.get(ingredient.inventoryItemId) || 0) + quantity));
+      }
+    }
+
+    return requirements;
+  }
+
+  // Lock the inventory row, apply a signed stock change and record it in the ledger
+  private async applyInventoryMovement(tx: DbTransaction, movement: Omit<InsertInventoryMovement, 'stockBefore' | 'stockAfter'>): Promise<{ item: InventoryItem; movement: InventoryMovement } | undefined> {
+    const [current] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, movement.inventoryItemId))
+      .for('update');
+
+    if (!current) return undefined;
+
+    // The row is locked, so the new stock can be computed here and rounded to the catalog precision
+    const quantity = roundQuantity(movement.quantity);
+    const [item] = await tx
+      .update(inventoryItems)
+      .set({ currentStock: roundQuantity(current.currentStock + quantity) })
+      .where(eq(inventoryItems.id, current.id))
+      .returning();
+
+    const [created] = await tx
+      .insert(inventoryMovements)
+      .values({
+        ...movement,
+        quantity,
+        stockBefore: current.currentStock,
+        stockAfter: item.currentStock,
+      })
+      .returning();
+
+    return { item, movement: created };
+  }
+
   async getLowStockItems(): Promise<InventoryItem[]> {
     const items = await db
       .select()
@@ -978,7 +1711,7 @@ export class DatabaseStorage implements IStorage {
         currentStock: 15,
         minStock: 5,
         maxStock: 30,
-        unit: "liter",
+        unit: "l",
         pricePerUnit: 18000,
         supplier: "Toko Sembako"
       }
@@ -989,12 +1722,12 @@ export class DatabaseStorage implements IStorage {
     // Seed menu item ingredients (recipes)
     const ingredientMappings = [
       // Nasi Goreng ingredients
-      { menuItemId: createdMenuItems[0].id, inventoryItemId: createdInventoryItems[0].id, quantityNeeded: 200, unit: "gram" }, // Beras
-      { menuItemId: createdMenuItems[0].id, inventoryItemId: createdInventoryItems[1].id, quantityNeeded: 50, unit: "gram" }, // Telur
+      { menuItemId: createdMenuItems[0].id, inventoryItemId: createdInventoryItems[0].id, quantityNeeded: 200, unit: "g" }, // Beras
+      { menuItemId: createdMenuItems[0].id, inventoryItemId: createdInventoryItems[1].id, quantityNeeded: 50, unit: "g" }, // Telur
       { menuItemId: createdMenuItems[0].id, inventoryItemId: createdInventoryItems[2].id, quantityNeeded: 20, unit: "ml" }, // Minyak
       
       // Mie Kering ingredients
-      { menuItemId: createdMenuItems[1].id, inventoryItemId: createdInventoryItems[1].id, quantityNeeded: 50, unit: "gram" }, // Telur
+      { menuItemId: createdMenuItems[1].id, inventoryItemId: createdInventoryItems[1].id, quantityNeeded: 50, unit: "g" }, // Telur
       { menuItemId: createdMenuItems[1].id, inventoryItemId: createdInventoryItems[2].id, quantityNeeded: 15, unit: "ml" }, // Minyak
       
       // Coffee and tea typically don't use tracked inventory for simplicity
@@ -1014,6 +1747,265 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Table methods
+  async getTables(): Promise<Table[]> {
+    const tableList = await db.select().from(tables);
+    return tableList.sort(compareTables);
+  }
+
+  async getTable(id: string): Promise<Table | undefined> {
+    const [table] = await db.select().from(tables).where(eq(tables.id, id));
+    return table || undefined;
+  }
+
+  async getTableByNumber(number: string): Promise<Table | undefined> {
+    const [table] = await db.select().from(tables).where(eq(tables.number, normalizeTableNumber(number)));
+    return table || undefined;
+  }
+
+  async getTableByQrToken(qrToken: string): Promise<Table | undefined> {
+    const [table] = await db.select().from(tables).where(eq(tables.qrToken, qrToken));
+    return table || undefined;
+  }
+
+  async createTable(table: InsertTable): Promise<Table> {
+    const [newTable] = await db.insert(tables).values({ ...table, number: normalizeTableNumber(table.number) }).returning();
+    return newTable;
+  }
+
+  async updateTable(id: string, table: Partial<InsertTable>): Promise<Table | undefined> {
+    const [updated] = await db
+      .update(tables)
+      .set({ ...table, ...(table.number ? { number: normalizeTableNumber(table.number) } : {}), updatedAt: new Date() })
+      .where(eq(tables.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setTableState(id: string, state: Partial<Pick<Table, 'billRequestedAt' | 'vacatedAt' | 'clearedAt'>>): Promise<Table | undefined> {
+    const [updated] = await db
+      .update(tables)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(tables.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // A new token invalidates every QR code printed for the table so far
+  async rotateTableQrToken(id: string): Promise<Table | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(tables)
+      .set({ qrToken: randomUUID(), qrIssuedAt: now, updatedAt: now })
+      .where(eq(tables.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTable(id: string): Promise<boolean> {
+    const result = await db.delete(tables).where(eq(tables.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async hasTableOrders(id: string): Promise<boolean> {
+    const [order] = await db.select({ id: orders.id }).from(orders).where(eq(orders.tableId, id)).limit(1);
+    return !!order;
+  }
+
+  // Each table's status comes from its orders since it was last cleared, within the activity window
+  async getTablesWithStatus(): Promise<TableWithStatus[]> {
+    const windowStart = new Date(Date.now() - TABLE_ACTIVITY_WINDOW_HOURS * 60 * 60 * 1000);
+    const [tableList, recentOrders] = await Promise.all([
+      this.getTables(),
+      db.select().from(orders)
+        .where(and(isNotNull(orders.tableId), gte(orders.createdAt, windowStart)))
+        .orderBy(orders.createdAt),
+    ]);
+
+    return tableList.map(table => describeTable(
+      table,
+      recentOrders.filter(order => order.tableId === table.id && (!table.clearedAt || order.createdAt > table.clearedAt))
+    ));
+  }
+
+  // Prep station methods
+  async getPrepStations(): Promise<PrepStation[]> {
+    return await db.select().from(prepStations).orderBy(prepStations.sortOrder, prepStations.name);
+  }
+
+  async createPrepStation(station: InsertPrepStation): Promise<PrepStation> {
+    return db.transaction(async (tx) => {
+      if (station.isDefault) {
+        await tx.update(prepStations).set({ isDefault: false, updatedAt: new Date() }).where(eq(prepStations.isDefault, true));
+      }
+      const [newStation] = await tx.insert(prepStations).values(station).returning();
+      return newStation;
+    });
+  }
+
+  // Only one station is the default; choosing another moves the flag
+  async updatePrepStation(id: string, station: Partial<InsertPrepStation>): Promise<PrepStation | undefined> {
+    return db.transaction(async (tx) => {
+      if (station.isDefault) {
+        await tx
+          .update(prepStations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(and(eq(prepStations.isDefault, true), sql`${prepStations.id} <> ${id}`));
+      }
+      const [updated] = await tx
+        .update(prepStations)
+        .set({ ...station, updatedAt: new Date() })
+        .where(eq(prepStations.id, id))
+        .returning();
+      return updated || undefined;
+    });
+  }
+
+  // Categories and menu items routed here fall back to the default station
+  async deletePrepStation(id: string): Promise<boolean> {
+    const result = await db.delete(prepStations).where(eq(prepStations.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Supplier methods
+  async getSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(suppliers.name);
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier || undefined;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
+    return newSupplier;
+  }
+
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [updated] = await db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    const result = await db.delete(suppliers).where(eq(suppliers.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Purchase Order methods
+  async getPurchaseOrders(params: { status?: string; supplierId?: string } = {}): Promise<PurchaseOrder[]> {
+    const conditions = [];
+    if (params.status) conditions.push(eq(purchaseOrders.status, params.status));
+    if (params.supplierId) conditions.push(eq(purchaseOrders.supplierId, params.supplierId));
+
+    const whereClause = conditions.length > 0 ? sql`${sql.join(conditions, sql` AND `)}` : undefined;
+
+    return await db.select().from(purchaseOrders).where(whereClause).orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [purchaseOrder] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return purchaseOrder || undefined;
+  }
+
+  async createPurchaseOrder(purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber'>): Promise<PurchaseOrder> {
+    // PO number: PO-YYYYMMDD-NNNN, sequence restarts every day
+    const now = new Date();
+    const datePart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+    const prefix = `PO-${datePart}-`;
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(purchaseOrders)
+      .where(sql`${purchaseOrders.poNumber} LIKE ${prefix + '%'}`);
+
+    const [newPurchaseOrder] = await db
+      .insert(purchaseOrders)
+      .values({ ...purchaseOrder, poNumber: `${prefix}${String(count + 1).padStart(4, '0')}` })
+      .returning();
+    return newPurchaseOrder;
+  }
+
+  async updatePurchaseOrder(id: string, purchaseOrder: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> {
+    const [updated] = await db
+      .update(purchaseOrders)
+      .set({ ...purchaseOrder, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Post received goods as 'purchase' movements and re-price stock at weighted average cost:
+  // newPrice = (stock * oldPrice + received * receivedPrice) / (stock + received)
+  async receivePurchaseOrder(id: string, receipts: { inventoryItemId: string; quantity: number; unitPrice?: number }[], performedBy: string): Promise<PurchaseOrder | undefined> {
+    return db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+
+      if (!purchaseOrder) return undefined;
+
+      const lines = (Array.isArray(purchaseOrder.items) ? purchaseOrder.items : []) as PurchaseOrderItem[];
+
+      for (const receipt of receipts) {
+        const line = lines.find(l => l.inventoryItemId === receipt.inventoryItemId);
+        if (!line || receipt.quantity <= 0) continue;
+
+        const unitPrice = receipt.unitPrice ?? line.unitPrice;
+
+        const [current] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.id, receipt.inventoryItemId))
+          .for('update');
+        if (!current) continue;
+
+        const stockOnHand = Math.max(current.currentStock, 0);
+        const averageCost = Math.round(
+          (stockOnHand * current.pricePerUnit + receipt.quantity * unitPrice) / (stockOnHand + receipt.quantity)
+        );
+
+        await tx
+          .update(inventoryItems)
+          .set({ pricePerUnit: averageCost })
+          .where(eq(inventoryItems.id, current.id));
+
+        await this.applyInventoryMovement(tx, {
+          inventoryItemId: current.id,
+          type: 'purchase',
+          quantity: receipt.quantity,
+          referenceType: 'purchase_order',
+          referenceId: purchaseOrder.id,
+          notes: `Penerimaan ${purchaseOrder.poNumber}`,
+          performedBy,
+        });
+
+        line.quantityReceived = roundQuantity(line.quantityReceived + receipt.quantity);
+        line.unitPrice = unitPrice;
+      }
+
+      const fullyReceived = lines.every(l => l.quantityReceived >= l.quantityOrdered);
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({
+          items: lines,
+          totalAmount: lines.reduce((sum, l) => sum + l.quantityOrdered * l.unitPrice, 0),
+          status: fullyReceived ? 'received' : 'partially_received',
+          receivedAt: fullyReceived ? new Date() : purchaseOrder.receivedAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      return updated || undefined;
+    });
+  }
+
   // Store Profile methods
   async getStoreProfile(): Promise<StoreProfile | undefined> {
     const [profile] = await db.select().from(storeProfile).where(eq(storeProfile.isActive, true)).limit(1);
@@ -1118,6 +2110,62 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  async getDiscountByCode(code: string): Promise<Discount | undefined> {
+    const [discount] = await db.select().from(discounts).where(eq(discounts.code, code.trim().toUpperCase()));
+    return discount || undefined;
+  }
+
+  async countDiscountRedemptions(discountId: string, customerKey?: string): Promise<number> {
+    return this.countRedemptions(db, discountId, customerKey);
+  }
+
+  private async countRedemptions(executor: typeof db | DbTransaction, discountId: string, customerKey?: string): Promise<number> {
+    const conditions = [
+      eq(discountRedemptions.discountId, discountId),
+      sql`${orders.paymentStatus} NOT IN ('failed', 'expired')`,
+      sql`${orders.orderStatus} <> 'cancelled'`,
+    ];
+    if (customerKey) {
+      conditions.push(eq(discountRedemptions.customerKey, customerKey));
+    }
+
+    const [result] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(discountRedemptions)
+      .innerJoin(orders, eq(discountRedemptions.orderId, orders.id))
+      .where(and(...conditions));
+    return result?.count ?? 0;
+  }
+
+  async createDiscountRedemption(redemption: InsertDiscountRedemption): Promise<DiscountRedemption> {
+    const [created] = await db.insert(discountRedemptions).values(redemption).returning();
+    return created;
+  }
+
+  // The discount row is locked while its limits are counted, so concurrent checkouts queue up
+  // behind each other instead of all passing the count before any redemption is saved
+  async createOrderWithRedemption(order: InsertOrder, redemption: Omit<InsertDiscountRedemption, 'orderId'>): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      const [discount] = await tx
+        .select()
+        .from(discounts)
+        .where(eq(discounts.id, redemption.discountId))
+        .for('update');
+      if (!discount) return undefined;
+
+      if (discount.usageLimit && await this.countRedemptions(tx, discount.id) >= discount.usageLimit) {
+        return undefined;
+      }
+      if (discount.perCustomerLimit && await this.countRedemptions(tx, discount.id, redemption.customerKey) >= discount.perCustomerLimit) {
+        return undefined;
+      }
+
+      const newOrder = await this.insertOrder(tx, order);
+      await tx.insert(discountRedemptions).values({ ...redemption, orderId: newOrder.id });
+      return newOrder;
+    });
+  }
+
   // Expense methods
   async getExpenses(): Promise<Expense[]> {
     return await db.select().from(expenses).orderBy(desc(expenses.createdAt));
@@ -1240,6 +2288,29 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Payment Reconciliation methods
+  async getPaymentReconciliations(limit: number = 30): Promise<PaymentReconciliation[]> {
+    return await db.select().from(paymentReconciliations).orderBy(desc(paymentReconciliations.reportDate)).limit(limit);
+  }
+
+  async getPaymentReconciliation(reportDate: string): Promise<PaymentReconciliation | undefined> {
+    const [report] = await db.select().from(paymentReconciliations).where(eq(paymentReconciliations.reportDate, reportDate));
+    return report || undefined;
+  }
+
+  // One report per day; re-running a day replaces its figures
+  async savePaymentReconciliation(report: InsertPaymentReconciliation): Promise<PaymentReconciliation> {
+    const [saved] = await db
+      .insert(paymentReconciliations)
+      .values(report)
+      .onConflictDoUpdate({
+        target: paymentReconciliations.reportDate,
+        set: { ...report, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
   // Print Setting methods
   async getPrintSettings(): Promise<PrintSetting[]> {
     return await db.select().from(printSettings).orderBy(desc(printSettings.createdAt));
@@ -1287,6 +2358,68 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Print job methods
+  // Recent jobs plus any older ones that never printed, newest first
+  async getPrintJobs(since: Date): Promise<PrintJob[]> {
+    return await db
+      .select()
+      .from(printJobs)
+      .where(or(gte(printJobs.createdAt, since), inArray(printJobs.status, ['pending', 'printing', 'failed'])))
+      .orderBy(desc(printJobs.createdAt));
+  }
+
+  async getPrintJobsByOrder(orderId: string): Promise<PrintJob[]> {
+    return await db.select().from(printJobs).where(eq(printJobs.orderId, orderId)).orderBy(printJobs.createdAt);
+  }
+
+  async getPrintJobsByPrinter(printerId: string, limit: number = 50): Promise<PrintJob[]> {
+    return await db.select().from(printJobs).where(eq(printJobs.printerId, printerId)).orderBy(desc(printJobs.createdAt)).limit(limit);
+  }
+
+  // Oldest first, so tickets come out of each printer in the order they were queued
+  async getPendingPrintJobs(printerIds: string[]): Promise<PrintJob[]> {
+    if (printerIds.length === 0) return [];
+    return await db
+      .select()
+      .from(printJobs)
+      .where(and(eq(printJobs.status, 'pending'), inArray(printJobs.printerId, printerIds)))
+      .orderBy(printJobs.createdAt);
+  }
+
+  async createPrintJobs(jobs: InsertPrintJob[]): Promise<PrintJob[]> {
+    if (jobs.length === 0) return [];
+    return await db.insert(printJobs).values(jobs).returning();
+  }
+
+  // Conditional on the job still waiting, so two printing devices never both take the same ticket
+  async claimPrintJob(id: string): Promise<PrintJob | undefined> {
+    const [claimed] = await db
+      .update(printJobs)
+      .set({ status: 'printing', attempts: sql`${printJobs.attempts} + 1`, updatedAt: new Date() })
+      .where(and(eq(printJobs.id, id), eq(printJobs.status, 'pending')))
+      .returning();
+    return claimed || undefined;
+  }
+
+  // Tickets claimed before the given time and never reported back go back in the queue
+  async requeueStalePrintJobs(printerIds: string[], claimedBefore: Date): Promise<PrintJob[]> {
+    if (printerIds.length === 0) return [];
+    return await db
+      .update(printJobs)
+      .set({ status: 'pending', error: 'Pencetakan terputus sebelum selesai', updatedAt: new Date() })
+      .where(and(eq(printJobs.status, 'printing'), inArray(printJobs.printerId, printerIds), lt(printJobs.updatedAt, claimedBefore)))
+      .returning();
+  }
+
+  async transitionPrintJob(id: string, fromStatuses: PrintJobStatus[], update: { status: PrintJobStatus; error?: string | null; printedAt?: Date }): Promise<PrintJob | undefined> {
+    const [updated] = await db
+      .update(printJobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(printJobs.id, id), inArray(printJobs.status, fromStatuses)))
+      .returning();
+    return updated || undefined;
+  }
+
   // Shift methods
   async getShifts(): Promise<Shift[]> {
     return await db.select().from(shifts).orderBy(desc(shifts.startTime));
@@ -1339,65 +2472,60 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async closeShift(id: string, finalCash: number, notes?: string): Promise<Shift | undefined> {
-    // First get the current shift data
-    const currentShift = await this.getShift(id);
-    if (!currentShift) {
-      return undefined;
-    }
+  async getShiftCashSummary(id: string): Promise<ShiftCashSummary | undefined> {
+    const shift = await this.getShift(id);
+    return shift ? this.buildShiftCashSummary(shift, shift.endTime ?? new Date()) : undefined;
+  }
 
-    const shiftStart = currentShift.startTime;
-    const shiftEnd = new Date();
-    const cashierId = currentShift.cashierId;
-    
-    // Get orders paid during shift period (proper revenue recognition timing)
+  // Orders, tenders and refunds are linked to the shift that took them, so a second
+  // kasir working at the same time doesn't end up in this drawer
+  private async buildShiftCashSummary(shift: Shift, shiftEnd: Date): Promise<ShiftCashSummary> {
     const shiftOrders = await db.select().from(orders)
-      .where(sql`${orders.paidAt} >= ${shiftStart} 
-                 AND ${orders.paidAt} <= ${shiftEnd} 
-                 AND ${orders.paymentStatus} = 'paid' 
-                 AND ${orders.orderStatus} = 'served'`);
+      .where(and(eq(orders.shiftId, shift.id), inArray(orders.paymentStatus, ['paid', 'refunded'])));
+    const shiftTenders = await db.select().from(orderPayments).where(eq(orderPayments.shiftId, shift.id));
 
     // Get cash movements for this shift
-    const cashMovements = await this.getCashMovementsByShift(id);
+    const cashMovements = await this.getCashMovementsByShift(shift.id);
     
     // Get expenses during this shift by this cashier (recorded_by field)
     const shiftExpenses = await db.select().from(expenses)
-      .where(sql`${expenses.createdAt} >= ${shiftStart} 
+      .where(sql`${expenses.createdAt} >= ${shift.startTime} 
                  AND ${expenses.createdAt} <= ${shiftEnd} 
-                 AND ${expenses.recordedBy} = ${cashierId}`);
+                 AND ${expenses.recordedBy} = ${shift.cashierId}`);
 
-    // Get refunds during this shift by this cashier
+    // Refunds paid out during this shift
     const shiftRefunds = await db.select().from(refunds)
-      .where(sql`${refunds.createdAt} >= ${shiftStart} 
-                 AND ${refunds.createdAt} <= ${shiftEnd} 
-                 AND ${refunds.requestedBy} = ${cashierId}
-                 AND ${refunds.status} = 'processed'`);
-
-    // Calculate order totals
-    let grossRevenue = 0;
-    let grossCashRevenue = 0;
-    let grossNonCashRevenue = 0;
-    const totalOrders = shiftOrders.length;
-
-    for (const order of shiftOrders) {
-      const orderTotal = order.total || 0;
-      grossRevenue += orderTotal;
-      
-      if (order.paymentMethod === 'cash') {
-        grossCashRevenue += orderTotal;
+      .where(and(eq(refunds.shiftId, shift.id), eq(refunds.status, 'completed')));
+
+    // Tenders count on the shift that took them (a split bill may be paid across shifts);
+    // orders without tenders count in full on the shift that closed them
+    let cashSales = 0;
+    let nonCashSales = 0;
+    for (const tender of shiftTenders) {
+      if (tender.method === 'cash') {
+        cashSales += tender.amount;
       } else {
-        grossNonCashRevenue += orderTotal;
+        nonCashSales += tender.amount;
       }
     }
 
+    const orderIdsWithTenders = new Set(
+      (await this.getOrderPaymentsByOrderIds(shiftOrders.map(order => order.id))).map(tender => tender.orderId)
+    );
+    for (const order of shiftOrders.filter(order => !orderIdsWithTenders.has(order.id))) {
+      const { cash, nonCash } = getTenderTotals(order);
+      cashSales += cash;
+      nonCashSales += nonCash;
+    }
+
     // Calculate cash movements
     let cashIn = 0;
     let cashOut = 0;
     for (const movement of cashMovements) {
       const amount = movement.amount || 0;
-      if (movement.type === 'cash_in') {
+      if (movement.type === 'in') {
         cashIn += amount;
-      } else if (movement.type === 'cash_out') {
+      } else if (movement.type === 'out') {
         cashOut += amount;
       }
     }
@@ -1405,53 +2533,367 @@ export class DatabaseStorage implements IStorage {
     // Calculate cash expenses
     const cashExpenses = shiftExpenses.reduce((sum, expense) => sum + (expense.amount || 0), 0);
     
-    // Classify refunds by type (cash vs non-cash)
+    // A refund comes out of the drawer up to the cash the customer originally paid;
+    // the rest went back through the gateway or the EDC
     let cashRefunds = 0;
     let nonCashRefunds = 0;
-    
+
+    const refundedOrderIds = Array.from(new Set(shiftRefunds.map(refund => refund.orderId)));
+    const refundedOrders = refundedOrderIds.length > 0
+      ? await db.select().from(orders).where(inArray(orders.id, refundedOrderIds))
+      : [];
+    const refundedTenders = await this.getOrderPaymentsByOrderIds(refundedOrderIds);
     for (const refund of shiftRefunds) {
       const refundAmount = refund.refundAmount || 0;
-      // Check refund type - if it's 'cash' or original order was cash payment
-      if (refund.refundType === 'cash') {
-        cashRefunds += refundAmount;
-      } else {
-        nonCashRefunds += refundAmount;
-      }
+      const order = refundedOrders.find(o => o.id === refund.orderId);
+      const orderCash = order ? getTenderTotals(order, refundedTenders.filter(t => t.orderId === order.id)).cash : 0;
+      const cashPart = Math.min(refundAmount, orderCash);
+      cashRefunds += cashPart;
+      nonCashRefunds += refundAmount - cashPart;
+    }
+
+    // System cash: initial + cash sales - cash refunds + cash in - cash out - cash expenses
+    const initialCash = shift.initialCash || 0;
+    return {
+      initialCash,
+      totalOrders: shiftOrders.length,
+      cashSales,
+      nonCashSales,
+      cashRefunds,
+      nonCashRefunds,
+      cashIn,
+      cashOut,
+      cashExpenses,
+      systemCash: initialCash + cashSales - cashRefunds + cashIn - cashOut - cashExpenses,
+    };
+  }
+
+  async closeShift(id: string, close: { finalCash: number; notes?: string; cashCount?: CashCountLine[]; blindClose: boolean }): Promise<Shift | undefined> {
+    // First get the current shift data
+    const currentShift = await this.getShift(id);
+    if (!currentShift) {
+      return undefined;
     }
-    
-    const totalRefunds = cashRefunds + nonCashRefunds;
 
-    // Calculate net revenue (subtract all refunds from gross revenue)
-    const totalRevenue = grossRevenue - totalRefunds;
-    const totalCashRevenue = grossCashRevenue - cashRefunds; // Only subtract cash refunds from cash revenue
-    const totalNonCashRevenue = grossNonCashRevenue - nonCashRefunds; // Only subtract non-cash refunds from non-cash revenue
+    const shiftEnd = new Date();
+    const summary = await this.buildShiftCashSummary(currentShift, shiftEnd);
 
-    // Calculate system cash: initial + cash sales + cash in - cash out - cash expenses
-    // Note: cashRefunds already subtracted from totalCashRevenue above
-    const initialCash = currentShift.initialCash || 0;
-    const systemCash = initialCash + totalCashRevenue + cashIn - cashOut - cashExpenses;
-    const cashDifference = finalCash - systemCash;
+    // Net revenue: cash refunds only come off cash revenue, non-cash refunds off non-cash revenue
+    const totalCashRevenue = summary.cashSales - summary.cashRefunds;
+    const totalNonCashRevenue = summary.nonCashSales - summary.nonCashRefunds;
 
+    // Conditional on the shift still being open so a double submit closes it once
     const [updated] = await db
       .update(shifts)
       .set({ 
-        finalCash,
+        finalCash: close.finalCash,
         endTime: shiftEnd,
         status: 'closed',
-        notes,
-        totalOrders,
-        totalRevenue,
+        notes: close.notes,
+        cashCount: close.cashCount ?? null,
+        blindClose: close.blindClose,
+        totalOrders: summary.totalOrders,
+        totalRevenue: totalCashRevenue + totalNonCashRevenue,
         totalCashRevenue,
         totalNonCashRevenue,
-        systemCash,
-        cashDifference,
+        systemCash: summary.systemCash,
+        cashDifference: close.finalCash - summary.systemCash,
         updatedAt: new Date()
       })
-      .where(eq(shifts.id, id))
+      .where(and(eq(shifts.id, id), eq(shifts.status, 'open')))
       .returning();
     return updated || undefined;
   }
 
+  // Mid-shift X-report or, once the shift is closed, its Z-report
+  async getShiftSalesReport(id: string): Promise<SalesReport | undefined> {
+    const shift = await this.getShift(id);
+    if (!shift) {
+      return undefined;
+    }
+
+    const periodEnd = shift.endTime ?? new Date();
+    const [shiftOrders, shiftRefunds, shiftDeletions, summary] = await Promise.all([
+      db.select().from(orders).where(and(eq(orders.shiftId, id), inArray(orders.paymentStatus, ['paid', 'refunded']))),
+      db.select().from(refunds).where(and(eq(refunds.shiftId, id), eq(refunds.status, 'completed'))),
+      db.select().from(deletionLogs).where(and(
+        eq(deletionLogs.requestedBy, shift.cashierId),
+        gte(deletionLogs.createdAt, shift.startTime),
+        lte(deletionLogs.createdAt, periodEnd)
+      )),
+      this.buildShiftCashSummary(shift, periodEnd),
+    ]);
+
+    return this.buildSalesReport({
+      scope: 'shift',
+      periodStart: shift.startTime,
+      periodEnd,
+      shifts: [shift],
+      summaries: [summary],
+      orders: shiftOrders,
+      refunds: shiftRefunds,
+      deletions: shiftDeletions,
+    });
+  }
+
+  // End-of-day report over what was paid, refunded and deleted between start and end, with
+  // the cash of every shift started in that period
+  async getDailySalesReport(start: Date, end: Date): Promise<SalesReport> {
+    const [dayOrders, dayRefunds, dayDeletions, dayShifts] = await Promise.all([
+      db.select().from(orders).where(and(
+        inArray(orders.paymentStatus, ['paid', 'refunded']),
+        gte(orders.paidAt, start),
+        lte(orders.paidAt, end)
+      )),
+      db.select().from(refunds).where(and(
+        eq(refunds.status, 'completed'),
+        gte(refunds.processedAt, start),
+        lte(refunds.processedAt, end)
+      )),
+      db.select().from(deletionLogs).where(and(gte(deletionLogs.createdAt, start), lte(deletionLogs.createdAt, end))),
+      db.select().from(shifts).where(and(gte(shifts.startTime, start), lte(shifts.startTime, end))).orderBy(shifts.startTime),
+    ]);
+    const summaries = await Promise.all(dayShifts.map(shift => this.buildShiftCashSummary(shift, shift.endTime ?? new Date())));
+
+    return this.buildSalesReport({
+      scope: 'day',
+      periodStart: start,
+      periodEnd: end,
+      shifts: dayShifts,
+      summaries,
+      orders: dayOrders,
+      refunds: dayRefunds,
+      deletions: dayDeletions,
+    });
+  }
+
+  // Payment methods are the tenders of the report's orders, so they add up to its net sales even
+  // when a split bill was paid across shifts; orders without tenders count once under their
+  // paymentMethod. The cash section follows the tenders taken on the shifts, as the drawer does
+  private async buildSalesReport(data: {
+    scope: SalesReport['scope'];
+    periodStart: Date;
+    periodEnd: Date;
+    shifts: Shift[];
+    summaries: ShiftCashSummary[];
+    orders: Order[];
+    refunds: Refund[];
+    deletions: DeletionLog[];
+  }): Promise<SalesReport> {
+    const orderIds = data.orders.map(order => order.id);
+    const cashierIds = Array.from(new Set(data.shifts.map(shift => shift.cashierId)));
+    const [allCategories, allMenuItems, cashiers, redemptions, orderTenders] = await Promise.all([
+      db.select().from(categories),
+      db.select({ id: menuItems.id, categoryId: menuItems.categoryId }).from(menuItems),
+      cashierIds.length > 0 ? db.select().from(users).where(inArray(users.id, cashierIds)) : Promise.resolve([]),
+      orderIds.length > 0
+        ? db.select({ discountId: discountRedemptions.discountId, name: discounts.name, amount: discountRedemptions.amount })
+            .from(discountRedemptions)
+            .innerJoin(discounts, eq(discountRedemptions.discountId, discounts.id))
+            .where(inArray(discountRedemptions.orderId, orderIds))
+        : Promise.resolve([]),
+      this.getOrderPaymentsByOrderIds(orderIds),
+    ]);
+
+    const addLine = (lines: Map<string, SalesReportLine>, key: string, label: string, count: number, amount: number) => {
+      const line = lines.get(key) ?? { key, label, count: 0, amount: 0 };
+      line.count += count;
+      line.amount += amount;
+      lines.set(key, line);
+    };
+    const methodLabel = (method: string) => PAYMENT_METHOD_LABELS[method as PaymentMethod] ?? method;
+
+    const byPaymentMethod = new Map<string, SalesReportLine>();
+    for (const tender of orderTenders) {
+      addLine(byPaymentMethod, tender.method, methodLabel(tender.method), 1, tender.amount);
+    }
+    const orderIdsWithTenders = new Set(orderTenders.map(tender => tender.orderId));
+    for (const order of data.orders.filter(order => !orderIdsWithTenders.has(order.id))) {
+      addLine(byPaymentMethod, order.paymentMethod, methodLabel(order.paymentMethod), 1, order.total);
+    }
+
+    // Older order lines don't carry their category, so fall back to the menu item's
+    const byCategory = new Map<string, SalesReportLine>();
+    for (const order of data.orders) {
+      for (const item of (Array.isArray(order.items) ? order.items as OrderItem[] : [])) {
+        const categoryId = item.categoryId ?? allMenuItems.find(menuItem => menuItem.id === item.itemId)?.categoryId;
+        const category = allCategories.find(c => c.id === categoryId);
+        addLine(
+          byCategory,
+          category?.id ?? 'other',
+          category?.name ?? 'Lainnya',
+          item.quantity,
+          item.price * item.quantity - (item.discount || 0)
+        );
+      }
+    }
+
+    const byDiscount = new Map<string, SalesReportLine>();
+    for (const redemption of redemptions) {
+      addLine(byDiscount, redemption.discountId, redemption.name, 1, redemption.amount);
+    }
+
+    const refundTally: SalesReportTally = { count: 0, amount: 0 };
+    const voidTally: SalesReportTally = { count: 0, amount: 0 };
+    for (const refund of data.refunds) {
+      const tally = refund.refundType === 'void' ? voidTally : refundTally;
+      tally.count++;
+      tally.amount += refund.refundAmount;
+    }
+
+    const cash: ShiftCashSummary = {
+      initialCash: 0,
+      totalOrders: 0,
+      cashSales: 0,
+      nonCashSales: 0,
+      cashRefunds: 0,
+      nonCashRefunds: 0,
+      cashIn: 0,
+      cashOut: 0,
+      cashExpenses: 0,
+      systemCash: 0,
+    };
+    for (const summary of data.summaries) {
+      for (const key of Object.keys(cash) as (keyof ShiftCashSummary)[]) {
+        cash[key] += summary[key];
+      }
+    }
+
+    // Counts of the same note or coin across the day's shifts add up
+    const cashCount = new Map<string, CashCountLine>();
+    for (const line of data.shifts.flatMap(shift => shift.cashCount ?? [])) {
+      const key = `${line.kind}-${line.denomination}`;
+      const counted = cashCount.get(key) ?? { ...line, quantity: 0 };
+      counted.quantity += line.quantity;
+      cashCount.set(key, counted);
+    }
+
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const openShifts = data.shifts.filter(shift => shift.status === 'open').length;
+    const counted = data.shifts.length > 0 && openShifts === 0;
+
+    return {
+      kind: openShifts === 0 && data.periodEnd <= new Date() ? 'z' : 'x',
+      scope: data.scope,
+      periodStart: data.periodStart,
+      periodEnd: data.periodEnd,
+      generatedAt: new Date(),
+      shift: data.scope === 'shift' ? data.shifts[0] : null,
+      cashierNames: cashierIds.map(id => cashiers.find(user => user.id === id)?.username ?? 'Unknown User'),
+      shiftCount: data.shifts.length,
+      openShifts,
+      totalOrders: data.orders.length,
+      grossSales: sum(data.orders.map(order => order.subtotal)),
+      discounts: sum(data.orders.map(order => order.discount)),
+      serviceCharge: sum(data.orders.map(order => order.serviceCharge)),
+      tax: sum(data.orders.map(order => order.tax)),
+      rounding: sum(data.orders.map(order => order.rounding)),
+      netSales: sum(data.orders.map(order => order.total)),
+      byPaymentMethod: Array.from(byPaymentMethod.values()).sort((a, b) => b.amount - a.amount),
+      byCategory: Array.from(byCategory.values()).sort((a, b) => b.amount - a.amount),
+      byDiscount: Array.from(byDiscount.values()).sort((a, b) => b.amount - a.amount),
+      refunds: refundTally,
+      voids: voidTally,
+      deletions: {
+        count: data.deletions.length,
+        amount: sum(data.deletions.map(deletion => deletion.itemPrice * deletion.itemQuantity)),
+      },
+      cash,
+      countedCash: counted ? sum(data.shifts.map(shift => shift.finalCash || 0)) : null,
+      cashDifference: counted ? sum(data.shifts.map(shift => shift.cashDifference || 0)) : null,
+      cashCount: Array.from(cashCount.values()),
+    };
+  }
+
+  // Takings per staff member between start and end. Tenders are credited to whoever took them,
+  // orders without tenders (gateway payments) to whoever closed the order
+  async getCashierPerformance(start: Date, end: Date): Promise<CashierPerformance[]> {
+    const [paidOrders, periodTenders, periodRefunds, periodShifts, staff] = await Promise.all([
+      db.select().from(orders).where(and(
+        isNotNull(orders.cashierId),
+        inArray(orders.paymentStatus, ['paid', 'refunded']),
+        gte(orders.paidAt, start),
+        lte(orders.paidAt, end)
+      )),
+      db.select().from(orderPayments).where(and(
+        isNotNull(orderPayments.createdBy),
+        gte(orderPayments.createdAt, start),
+        lte(orderPayments.createdAt, end)
+      )),
+      db.select().from(refunds).where(and(
+        eq(refunds.status, 'completed'),
+        isNotNull(refunds.processedBy),
+        gte(refunds.processedAt, start),
+        lte(refunds.processedAt, end)
+      )),
+      db.select().from(shifts).where(and(gte(shifts.startTime, start), lte(shifts.startTime, end))),
+      db.select().from(users),
+    ]);
+
+    const performance = new Map<string, CashierPerformance>();
+    const entryFor = (cashierId: string) => {
+      let entry = performance.get(cashierId);
+      if (!entry) {
+        entry = {
+          cashierId,
+          username: staff.find(user => user.id === cashierId)?.username ?? 'Unknown User',
+          shifts: 0,
+          orders: 0,
+          revenue: 0,
+          cashRevenue: 0,
+          nonCashRevenue: 0,
+          averageOrder: 0,
+          refunds: 0,
+          refundAmount: 0,
+          cashDifference: 0,
+        };
+        performance.set(cashierId, entry);
+      }
+      return entry;
+    };
+
+    for (const tender of periodTenders) {
+      const entry = entryFor(tender.createdBy!);
+      if (tender.method === 'cash') {
+        entry.cashRevenue += tender.amount;
+      } else {
+        entry.nonCashRevenue += tender.amount;
+      }
+    }
+
+    const orderIdsWithTenders = new Set(
+      (await this.getOrderPaymentsByOrderIds(paidOrders.map(order => order.id))).map(tender => tender.orderId)
+    );
+    for (const order of paidOrders) {
+      const entry = entryFor(order.cashierId!);
+      entry.orders++;
+      if (!orderIdsWithTenders.has(order.id)) {
+        const { cash, nonCash } = getTenderTotals(order);
+        entry.cashRevenue += cash;
+        entry.nonCashRevenue += nonCash;
+      }
+    }
+
+    for (const refund of periodRefunds) {
+      const entry = entryFor(refund.processedBy!);
+      entry.refunds++;
+      entry.refundAmount += refund.refundAmount;
+    }
+
+    for (const shift of periodShifts) {
+      const entry = entryFor(shift.cashierId);
+      entry.shifts++;
+      entry.cashDifference += shift.status === 'closed' ? shift.cashDifference || 0 : 0;
+    }
+
+    return Array.from(performance.values())
+      .map(entry => {
+        const revenue = entry.cashRevenue + entry.nonCashRevenue;
+        return { ...entry, revenue, averageOrder: entry.orders > 0 ? Math.round(revenue / entry.orders) : 0 };
+      })
+      .sort((a, b) => b.revenue - a.revenue);
+  }
+
   // Cash Movement methods
   async getCashMovements(): Promise<CashMovement[]> {
     return await db.select().from(cashMovements).orderBy(desc(cashMovements.createdAt));
@@ -1527,12 +2969,14 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async processRefund(id: string): Promise<Refund | undefined> {
+  async processRefund(id: string, processedBy: string, shiftId: string | null): Promise<Refund | undefined> {
     const [updated] = await db
       .update(refunds)
       .set({ 
         status: 'completed',
         processedAt: new Date(),
+        processedBy,
+        shiftId,
         updatedAt: new Date()
       })
       .where(eq(refunds.id, id))
@@ -1575,6 +3019,33 @@ export class DatabaseStorage implements IStorage {
     return newLog;
   }
 
+  // Service requests
+  async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
+    const [newRequest] = await db.insert(serviceRequests).values(request).returning();
+    return newRequest;
+  }
+
+  async getOpenServiceRequests(): Promise<ServiceRequest[]> {
+    return db.select().from(serviceRequests)
+      .where(eq(serviceRequests.status, 'open'))
+      .orderBy(serviceRequests.createdAt);
+  }
+
+  async getOpenServiceRequestsByOrder(orderId: string): Promise<ServiceRequest[]> {
+    return db.select().from(serviceRequests)
+      .where(and(eq(serviceRequests.orderId, orderId), eq(serviceRequests.status, 'open')))
+      .orderBy(serviceRequests.createdAt);
+  }
+
+  async resolveServiceRequest(id: string, resolvedBy: string): Promise<ServiceRequest | undefined> {
+    const [resolved] = await db
+      .update(serviceRequests)
+      .set({ status: 'resolved', resolvedBy, resolvedAt: new Date() })
+      .where(and(eq(serviceRequests.id, id), eq(serviceRequests.status, 'open')))
+      .returning();
+    return resolved || undefined;
+  }
+
   // Notifications
   async getNotifications(): Promise<Notification[]> {
     return db.select().from(notifications).orderBy(desc(notifications.createdAt));
@@ -1856,10 +3327,25 @@ class MemStorage implements IStorage {
   async getOrderByMidtransOrderId(midtransOrderId: string): Promise<any | undefined> { return undefined; }
   async createOrder(order: any): Promise<any> { const id = randomUUID(); const newOrder = { ...order, id }; this.orders.set(id, newOrder); return newOrder; }
   async updateOrderStatus(id: string, status: string): Promise<any | undefined> { return undefined; }
+  async getOrderByTrackingToken(trackingToken: string): Promise<any | undefined> { return undefined; }
+  async countKitchenOrdersAhead(order: any): Promise<number> { return 0; }
+  async getAveragePrepMinutes(since: Date): Promise<number | null> { return null; }
+  async updateOrderItemsPrepStatus(id: string, itemIndexes: number[], status: PrepItemStatus): Promise<any | undefined> { return undefined; }
   async updateOrderPayment(id: string, paymentData: any): Promise<any | undefined> { return undefined; }
-  async updateOpenBillItems(id: string, newItems: any[], additionalSubtotal: number): Promise<any | undefined> { return undefined; }
-  async replaceOpenBillItems(id: string, newItems: any[], newSubtotal: number): Promise<any | undefined> { return undefined; }
-  async getOpenBillByTable(tableNumber: string): Promise<any | undefined> { return undefined; }
+  async transitionOrderPayment(id: string, fromStatuses: string[], paymentData: any): Promise<any | undefined> { return undefined; }
+  async getGatewayOrdersToReconcile(expiredSince: Date): Promise<any[]> { return []; }
+  async getGatewayOrdersCreatedBetween(start: Date, end: Date): Promise<any[]> { return []; }
+  async getOrderPayments(orderId: string): Promise<any[]> { return []; }
+  async getOrderPaymentsByOrderIds(orderIds: string[]): Promise<any[]> { return []; }
+  async createOrderPayments(payments: any[]): Promise<any[]> { return payments.map(payment => ({ ...payment, id: randomUUID(), createdAt: new Date() })); }
+  async getOpenBillSplit(orderId: string): Promise<any | undefined> { return undefined; }
+  async saveBillSplit(orderId: string, split: any, requestedParts: any[]): Promise<any> { throw new Error('Split bills not supported in MemStorage fallback'); }
+  async payBillSplitPart(orderId: string, partId: string, payment: any, tenders: any[]): Promise<any> { throw new Error('Split bills not supported in MemStorage fallback'); }
+  async cancelUnpaidBillSplit(orderId: string): Promise<boolean> { return true; }
+  async createOpenBill(order: any): Promise<any | undefined> { return this.createOrder(order); }
+  async addOpenBillRound(id: string, newItems: any[], getCharges: (items: any[]) => Promise<OrderCharges>): Promise<any | undefined> { return undefined; }
+  async replaceOpenBillItems(id: string, newItems: any[], charges: OrderCharges): Promise<any | undefined> { return undefined; }
+  async getOpenBillByTable(tableId: string | null, tableNumber: string): Promise<any | undefined> { return undefined; }
 
   // Inventory methods (stub implementations)
   async getInventoryItems(): Promise<any[]> { return []; }
@@ -1876,8 +3362,46 @@ class MemStorage implements IStorage {
   // Stock Management methods (stub implementations)
   async validateStockAvailability(orderItems: { itemId: string; quantity: number }[]): Promise<any> { return { success: true, deductions: [] }; }
   async deductStock(orderItems: { itemId: string; quantity: number }[]): Promise<any> { return { success: true, deductions: [] }; }
+  async deductStockForOrder(orderId: string, performedBy?: string): Promise<any> { return { success: true, deductions: [] }; }
+  async restoreStockForOrder(orderId: string, params: any): Promise<any[]> { return []; }
+  async getInventoryMovements(params: any): Promise<{ movements: any[]; total: number }> { return { movements: [], total: 0 }; }
+  async recordInventoryMovement(movement: any): Promise<any> { throw new Error('Inventory movements not supported in MemStorage fallback'); }
+  async applyStockTake(counts: any[], performedBy: string, notes?: string): Promise<any[]> { throw new Error('Stock-take not supported in MemStorage fallback'); }
+  async correctInventoryStock(inventoryItemId: string, stock: number, performedBy: string): Promise<any> { throw new Error('Inventory movements not supported in MemStorage fallback'); }
+  async getMenuItemCosts(params?: { menuItemIds?: string[]; inventoryItemIds?: string[] }): Promise<any[]> { return []; }
   async getLowStockItems(): Promise<any[]> { return []; }
 
+  // Tables (not supported in MemStorage; orders keep their free-text table number)
+  async getTables(): Promise<any[]> { return []; }
+  async getTable(id: string): Promise<any | undefined> { return undefined; }
+  async getTableByNumber(number: string): Promise<any | undefined> { return undefined; }
+  async getTableByQrToken(qrToken: string): Promise<any | undefined> { return undefined; }
+  async createTable(table: any): Promise<any> { throw new Error('Tables not supported in MemStorage fallback'); }
+  async updateTable(id: string, table: any): Promise<any | undefined> { throw new Error('Tables not supported in MemStorage fallback'); }
+  async setTableState(id: string, state: any): Promise<any | undefined> { throw new Error('Tables not supported in MemStorage fallback'); }
+  async rotateTableQrToken(id: string): Promise<any | undefined> { throw new Error('Tables not supported in MemStorage fallback'); }
+  async deleteTable(id: string): Promise<boolean> { throw new Error('Tables not supported in MemStorage fallback'); }
+  async hasTableOrders(id: string): Promise<boolean> { return false; }
+  async getTablesWithStatus(): Promise<any[]> { return []; }
+
+  // Prep stations (not supported in MemStorage)
+  async getPrepStations(): Promise<any[]> { return []; }
+  async createPrepStation(station: any): Promise<any> { throw new Error('Prep stations not supported in MemStorage fallback'); }
+  async updatePrepStation(id: string, station: any): Promise<any | undefined> { throw new Error('Prep stations not supported in MemStorage fallback'); }
+  async deletePrepStation(id: string): Promise<boolean> { throw new Error('Prep stations not supported in MemStorage fallback'); }
+
+  // Suppliers & Purchase Orders (not supported in MemStorage)
+  async getSuppliers(): Promise<any[]> { return []; }
+  async getSupplier(id: string): Promise<any | undefined> { return undefined; }
+  async createSupplier(supplier: any): Promise<any> { throw new Error('Suppliers not supported in MemStorage fallback'); }
+  async updateSupplier(id: string, supplier: any): Promise<any | undefined> { throw new Error('Suppliers not supported in MemStorage fallback'); }
+  async deleteSupplier(id: string): Promise<boolean> { throw new Error('Suppliers not supported in MemStorage fallback'); }
+  async getPurchaseOrders(params?: any): Promise<any[]> { return []; }
+  async getPurchaseOrder(id: string): Promise<any | undefined> { return undefined; }
+  async createPurchaseOrder(purchaseOrder: any): Promise<any> { throw new Error('Purchase orders not supported in MemStorage fallback'); }
+  async updatePurchaseOrder(id: string, purchaseOrder: any): Promise<any | undefined> { throw new Error('Purchase orders not supported in MemStorage fallback'); }
+  async receivePurchaseOrder(id: string, receipts: any[], performedBy: string): Promise<any | undefined> { throw new Error('Purchase orders not supported in MemStorage fallback'); }
+
   // Store Profile methods (stub implementations)
   async getStoreProfile(): Promise<any | undefined> { return undefined; }
   async createStoreProfile(profile: any): Promise<any> { const id = randomUUID(); const newProfile = { ...profile, id }; this.storeProfile.set(id, newProfile); return newProfile; }
@@ -1923,6 +3447,14 @@ class MemStorage implements IStorage {
     return this.discounts.delete(id);
   }
 
+  async getDiscountByCode(code: string): Promise<any | undefined> {
+    return Array.from(this.discounts.values()).find(d => d.code === code.trim().toUpperCase());
+  }
+
+  async countDiscountRedemptions(discountId: string, customerKey?: string): Promise<number> { return 0; }
+  async createDiscountRedemption(redemption: any): Promise<any> { throw new Error('Voucher redemptions not supported in MemStorage fallback'); }
+  async createOrderWithRedemption(order: any, redemption: any): Promise<any | undefined> { throw new Error('Voucher redemptions not supported in MemStorage fallback'); }
+
   // Expense methods
   async getExpenses(): Promise<any[]> {
     return Array.from(this.expenses.values()).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -2010,6 +3542,11 @@ class MemStorage implements IStorage {
     return this.dailyReports.delete(id);
   }
 
+  // Payment Reconciliation methods
+  async getPaymentReconciliations(limit?: number): Promise<any[]> { return []; }
+  async getPaymentReconciliation(reportDate: string): Promise<any | undefined> { return undefined; }
+  async savePaymentReconciliation(report: any): Promise<any> { throw new Error('Payment reconciliation not supported in MemStorage fallback'); }
+
   // Print Setting methods
   async getPrintSettings(): Promise<any[]> {
     return Array.from(this.printSettings.values()).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -2025,7 +3562,7 @@ class MemStorage implements IStorage {
 
   async createPrintSetting(setting: any): Promise<any> {
     const id = randomUUID();
-    const newSetting = { ...setting, id, createdAt: new Date(), updatedAt: new Date() };
+    const newSetting = { stationIds: [], ...setting, id, createdAt: new Date(), updatedAt: new Date() };
     this.printSettings.set(id, newSetting);
     return newSetting;
   }
@@ -2060,6 +3597,17 @@ class MemStorage implements IStorage {
     return this.printSettings.delete(id);
   }
 
+  // Print jobs (not supported in MemStorage)
+  async getPrintJobs(since: Date): Promise<any[]> { return []; }
+  async getPrintJobsByOrder(orderId: string): Promise<any[]> { return []; }
+  async getPrintJobsByPrinter(printerId: string, limit?: number): Promise<any[]> { return []; }
+  async getPendingPrintJobs(printerIds: string[]): Promise<any[]> { return []; }
+  async createPrintJobs(jobs: any[]): Promise<any[]> { throw new Error('Print jobs not supported in MemStorage fallback'); }
+  async claimPrintJob(id: string): Promise<any | undefined> { return undefined; }
+  async requeueStalePrintJobs(printerIds: string[], claimedBefore: Date): Promise<any[]> { return []; }
+  async transitionPrintJob(id: string, fromStatuses: string[], update: any): Promise<any | undefined> { return undefined; }
+
+
   // Stub implementations for new methods (MemStorage fallback)
   async getShifts(): Promise<any[]> { return []; }
   async getPaginatedShifts(params: any): Promise<{ shifts: any[]; total: number }> { return { shifts: [], total: 0 }; }
@@ -2068,7 +3616,11 @@ class MemStorage implements IStorage {
   async getShift(id: string): Promise<any | undefined> { return undefined; }
   async createShift(shift: any): Promise<any> { throw new Error('Shift management not supported in MemStorage fallback'); }
   async updateShift(id: string, shift: any): Promise<any | undefined> { throw new Error('Shift management not supported in MemStorage fallback'); }
-  async closeShift(id: string, finalCash: number, notes?: string): Promise<any | undefined> { throw new Error('Shift management not supported in MemStorage fallback'); }
+  async getShiftCashSummary(id: string): Promise<ShiftCashSummary | undefined> { return undefined; }
+  async closeShift(id: string, close: any): Promise<any | undefined> { throw new Error('Shift management not supported in MemStorage fallback'); }
+  async getCashierPerformance(start: Date, end: Date): Promise<CashierPerformance[]> { return []; }
+  async getShiftSalesReport(id: string): Promise<SalesReport | undefined> { return undefined; }
+  async getDailySalesReport(start: Date, end: Date): Promise<SalesReport> { throw new Error('Sales reports not supported in MemStorage fallback'); }
 
   async getCashMovements(): Promise<any[]> { return []; }
   async getCashMovementsByShift(shiftId: string): Promise<any[]> { return []; }
@@ -2083,7 +3635,7 @@ class MemStorage implements IStorage {
   async createRefund(refund: any): Promise<any> { throw new Error('Refunds not supported in MemStorage fallback'); }
   async updateRefund(id: string, refund: any): Promise<any | undefined> { throw new Error('Refunds not supported in MemStorage fallback'); }
   async authorizeRefund(id: string, authorizedBy: string, authCode: string): Promise<any | undefined> { throw new Error('Refunds not supported in MemStorage fallback'); }
-  async processRefund(id: string): Promise<any | undefined> { throw new Error('Refunds not supported in MemStorage fallback'); }
+  async processRefund(id: string, processedBy: string, shiftId: string | null): Promise<any | undefined> { throw new Error('Refunds not supported in MemStorage fallback'); }
 
   async getAuditLogs(): Promise<any[]> { return []; }
   async getPaginatedAuditLogs(params: any): Promise<{ logs: any[]; total: number }> { return { logs: [], total: 0 }; }
@@ -2091,6 +3643,12 @@ class MemStorage implements IStorage {
   async getAuditLogsByAction(action: string): Promise<any[]> { return []; }
   async createAuditLog(log: any): Promise<any> { throw new Error('Audit logs not supported in MemStorage fallback'); }
   
+  // Service requests (not supported in MemStorage)
+  async createServiceRequest(request: any): Promise<any> { throw new Error('Service requests not supported in MemStorage fallback'); }
+  async getOpenServiceRequests(): Promise<any[]> { return []; }
+  async getOpenServiceRequestsByOrder(orderId: string): Promise<any[]> { return []; }
+  async resolveServiceRequest(id: string, resolvedBy: string): Promise<any | undefined> { return undefined; }
+
   // Notifications (not supported in MemStorage)
   async getNotifications(): Promise<any[]> { throw new Error('Notifications not supported in MemStorage fallback'); }
   async getPaginatedNotifications(params: any): Promise<{ notifications: any[]; total: number }> { throw new Error('Notifications not supported in MemStorage fallback'); }
@@ -2297,6 +3855,11 @@ class FallbackStorage implements IStorage {
     );
   }
 
+  async getDiscountByCode(code: string): Promise<Discount | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getDiscountByCode(code) : this.dbStorage.getDiscountByCode(code)); }
+  async countDiscountRedemptions(discountId: string, customerKey?: string): Promise<number> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.countDiscountRedemptions(discountId, customerKey) : this.dbStorage.countDiscountRedemptions(discountId, customerKey)); }
+  async createDiscountRedemption(redemption: InsertDiscountRedemption): Promise<DiscountRedemption> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createDiscountRedemption(redemption) : this.dbStorage.createDiscountRedemption(redemption)); }
+  async createOrderWithRedemption(order: InsertOrder, redemption: Omit<InsertDiscountRedemption, 'orderId'>): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createOrderWithRedemption(order, redemption) : this.dbStorage.createOrderWithRedemption(order, redemption)); }
+
   // Expense methods
   async getExpenses(): Promise<any[]> {
     return this.withFallback(async () => 
@@ -2349,10 +3912,25 @@ class FallbackStorage implements IStorage {
   async getOrderByMidtransOrderId(midtransOrderId: string): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOrderByMidtransOrderId(midtransOrderId) : this.dbStorage.getOrderByMidtransOrderId(midtransOrderId)); }
   async createOrder(order: any): Promise<any> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createOrder(order) : this.dbStorage.createOrder(order)); }
   async updateOrderStatus(id: string, status: string): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateOrderStatus(id, status) : this.dbStorage.updateOrderStatus(id, status)); }
+  async getOrderByTrackingToken(trackingToken: string): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOrderByTrackingToken(trackingToken) : this.dbStorage.getOrderByTrackingToken(trackingToken)); }
+  async countKitchenOrdersAhead(order: Pick<Order, 'id' | 'createdAt'>): Promise<number> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.countKitchenOrdersAhead(order) : this.dbStorage.countKitchenOrdersAhead(order)); }
+  async getAveragePrepMinutes(since: Date): Promise<number | null> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getAveragePrepMinutes(since) : this.dbStorage.getAveragePrepMinutes(since)); }
+  async updateOrderItemsPrepStatus(id: string, itemIndexes: number[], status: PrepItemStatus): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateOrderItemsPrepStatus(id, itemIndexes, status) : this.dbStorage.updateOrderItemsPrepStatus(id, itemIndexes, status)); }
   async updateOrderPayment(id: string, paymentData: any): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateOrderPayment(id, paymentData) : this.dbStorage.updateOrderPayment(id, paymentData)); }
-  async updateOpenBillItems(id: string, newItems: any[], additionalSubtotal: number): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateOpenBillItems(id, newItems, additionalSubtotal) : this.dbStorage.updateOpenBillItems(id, newItems, additionalSubtotal)); }
-  async replaceOpenBillItems(id: string, newItems: any[], newSubtotal: number): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.replaceOpenBillItems(id, newItems, newSubtotal) : this.dbStorage.replaceOpenBillItems(id, newItems, newSubtotal)); }
-  async getOpenBillByTable(tableNumber: string): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOpenBillByTable(tableNumber) : this.dbStorage.getOpenBillByTable(tableNumber)); }
+  async transitionOrderPayment(id: string, fromStatuses: string[], paymentData: { paymentStatus: string; midtransTransactionStatus?: string; paidAt?: Date; paymentMethod?: string; paymentReference?: string | null; cashierId?: string | null; shiftId?: string | null }): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.transitionOrderPayment(id, fromStatuses, paymentData) : this.dbStorage.transitionOrderPayment(id, fromStatuses, paymentData)); }
+  async getGatewayOrdersToReconcile(expiredSince: Date): Promise<Order[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getGatewayOrdersToReconcile(expiredSince) : this.dbStorage.getGatewayOrdersToReconcile(expiredSince)); }
+  async getGatewayOrdersCreatedBetween(start: Date, end: Date): Promise<Order[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getGatewayOrdersCreatedBetween(start, end) : this.dbStorage.getGatewayOrdersCreatedBetween(start, end)); }
+  async getOrderPayments(orderId: string): Promise<OrderPayment[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOrderPayments(orderId) : this.dbStorage.getOrderPayments(orderId)); }
+  async getOrderPaymentsByOrderIds(orderIds: string[]): Promise<OrderPayment[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOrderPaymentsByOrderIds(orderIds) : this.dbStorage.getOrderPaymentsByOrderIds(orderIds)); }
+  async createOrderPayments(payments: InsertOrderPayment[]): Promise<OrderPayment[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createOrderPayments(payments) : this.dbStorage.createOrderPayments(payments)); }
+  async getOpenBillSplit(orderId: string): Promise<BillSplitWithParts | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOpenBillSplit(orderId) : this.dbStorage.getOpenBillSplit(orderId)); }
+  async saveBillSplit(orderId: string, split: { mode: SplitBillMode; createdBy?: string }, requestedParts: SplitPartRequest[]): Promise<BillSplitWithParts | SplitPlanError> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.saveBillSplit(orderId, split, requestedParts) : this.dbStorage.saveBillSplit(orderId, split, requestedParts)); }
+  async payBillSplitPart(orderId: string, partId: string, payment: { paymentMethod: string; paymentReference: string | null; cashierId: string | null; shiftId: string | null }, tenders: Omit<InsertOrderPayment, 'orderId' | 'splitPartId'>[]): Promise<SplitPartPayment | SplitPlanError> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.payBillSplitPart(orderId, partId, payment, tenders) : this.dbStorage.payBillSplitPart(orderId, partId, payment, tenders)); }
+  async cancelUnpaidBillSplit(orderId: string): Promise<boolean> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.cancelUnpaidBillSplit(orderId) : this.dbStorage.cancelUnpaidBillSplit(orderId)); }
+  async createOpenBill(order: InsertOrder): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createOpenBill(order) : this.dbStorage.createOpenBill(order)); }
+  async addOpenBillRound(id: string, newItems: OrderItem[], getCharges: (items: OrderItem[]) => Promise<OrderCharges>): Promise<Order | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.addOpenBillRound(id, newItems, getCharges) : this.dbStorage.addOpenBillRound(id, newItems, getCharges)); }
+  async replaceOpenBillItems(id: string, newItems: any[], charges: OrderCharges): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.replaceOpenBillItems(id, newItems, charges) : this.dbStorage.replaceOpenBillItems(id, newItems, charges)); }
+  async getOpenBillByTable(tableId: string | null, tableNumber: string): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOpenBillByTable(tableId, tableNumber) : this.dbStorage.getOpenBillByTable(tableId, tableNumber)); }
 
   // Inventory methods (stub)
   async getInventoryItems(): Promise<any[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getInventoryItems() : this.dbStorage.getInventoryItems()); }
@@ -2369,8 +3947,48 @@ class FallbackStorage implements IStorage {
   // Stock Management methods (stub)
   async validateStockAvailability(orderItems: { itemId: string; quantity: number }[]): Promise<any> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.validateStockAvailability(orderItems) : this.dbStorage.validateStockAvailability(orderItems)); }
   async deductStock(orderItems: { itemId: string; quantity: number }[]): Promise<any> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.deductStock(orderItems) : this.dbStorage.deductStock(orderItems)); }
+  async deductStockForOrder(orderId: string, performedBy?: string): Promise<StockDeductionResult> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.deductStockForOrder(orderId, performedBy) : this.dbStorage.deductStockForOrder(orderId, performedBy)); }
+  async restoreStockForOrder(orderId: string, params: { items?: { itemId: string; quantity: number }[]; referenceType: string; referenceId?: string; performedBy?: string; notes?: string }): Promise<InventoryMovement[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.restoreStockForOrder(orderId, params) : this.dbStorage.restoreStockForOrder(orderId, params)); }
+  async getInventoryMovements(params: { inventoryItemId?: string; type?: string; limit?: number; offset?: number }): Promise<{ movements: InventoryMovement[]; total: number }> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getInventoryMovements(params) : this.dbStorage.getInventoryMovements(params)); }
+  async recordInventoryMovement(movement: Omit<InsertInventoryMovement, 'stockBefore' | 'stockAfter'>): Promise<InventoryMovement | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.recordInventoryMovement(movement) : this.dbStorage.recordInventoryMovement(movement)); }
+  async applyStockTake(counts: { inventoryItemId: string; countedStock: number }[], performedBy: string, notes?: string): Promise<StockTakeLine[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.applyStockTake(counts, performedBy, notes) : this.dbStorage.applyStockTake(counts, performedBy, notes)); }
+  async correctInventoryStock(inventoryItemId: string, stock: number, performedBy: string): Promise<InventoryMovement | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.correctInventoryStock(inventoryItemId, stock, performedBy) : this.dbStorage.correctInventoryStock(inventoryItemId, stock, performedBy)); }
+  async getMenuItemCosts(params?: { menuItemIds?: string[]; inventoryItemIds?: string[] }): Promise<any[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getMenuItemCosts(params) : this.dbStorage.getMenuItemCosts(params)); }
   async getLowStockItems(): Promise<any[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getLowStockItems() : this.dbStorage.getLowStockItems()); }
 
+  // Table methods
+  async getTables(): Promise<Table[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getTables() : this.dbStorage.getTables()); }
+  async getTable(id: string): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getTable(id) : this.dbStorage.getTable(id)); }
+  async getTableByNumber(number: string): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getTableByNumber(number) : this.dbStorage.getTableByNumber(number)); }
+  async getTableByQrToken(qrToken: string): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getTableByQrToken(qrToken) : this.dbStorage.getTableByQrToken(qrToken)); }
+  async createTable(table: InsertTable): Promise<Table> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createTable(table) : this.dbStorage.createTable(table)); }
+  async updateTable(id: string, table: Partial<InsertTable>): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateTable(id, table) : this.dbStorage.updateTable(id, table)); }
+  async setTableState(id: string, state: Partial<Pick<Table, 'billRequestedAt' | 'vacatedAt' | 'clearedAt'>>): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.setTableState(id, state) : this.dbStorage.setTableState(id, state)); }
+  async rotateTableQrToken(id: string): Promise<Table | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.rotateTableQrToken(id) : this.dbStorage.rotateTableQrToken(id)); }
+  async deleteTable(id: string): Promise<boolean> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.deleteTable(id) : this.dbStorage.deleteTable(id)); }
+  async hasTableOrders(id: string): Promise<boolean> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.hasTableOrders(id) : this.dbStorage.hasTableOrders(id)); }
+  async getTablesWithStatus(): Promise<TableWithStatus[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getTablesWithStatus() : this.dbStorage.getTablesWithStatus()); }
+
+  // Prep station methods
+  async getPrepStations(): Promise<PrepStation[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPrepStations() : this.dbStorage.getPrepStations()); }
+  async createPrepStation(station: InsertPrepStation): Promise<PrepStation> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createPrepStation(station) : this.dbStorage.createPrepStation(station)); }
+  async updatePrepStation(id: string, station: Partial<InsertPrepStation>): Promise<PrepStation | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updatePrepStation(id, station) : this.dbStorage.updatePrepStation(id, station)); }
+  async deletePrepStation(id: string): Promise<boolean> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.deletePrepStation(id) : this.dbStorage.deletePrepStation(id)); }
+
+  // Supplier methods
+  async getSuppliers(): Promise<Supplier[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getSuppliers() : this.dbStorage.getSuppliers()); }
+  async getSupplier(id: string): Promise<Supplier | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getSupplier(id) : this.dbStorage.getSupplier(id)); }
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createSupplier(supplier) : this.dbStorage.createSupplier(supplier)); }
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updateSupplier(id, supplier) : this.dbStorage.updateSupplier(id, supplier)); }
+  async deleteSupplier(id: string): Promise<boolean> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.deleteSupplier(id) : this.dbStorage.deleteSupplier(id)); }
+
+  // Purchase Order methods
+  async getPurchaseOrders(params?: { status?: string; supplierId?: string }): Promise<PurchaseOrder[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPurchaseOrders(params) : this.dbStorage.getPurchaseOrders(params)); }
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPurchaseOrder(id) : this.dbStorage.getPurchaseOrder(id)); }
+  async createPurchaseOrder(purchaseOrder: Omit<InsertPurchaseOrder, 'poNumber'>): Promise<PurchaseOrder> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createPurchaseOrder(purchaseOrder) : this.dbStorage.createPurchaseOrder(purchaseOrder)); }
+  async updatePurchaseOrder(id: string, purchaseOrder: Partial<InsertPurchaseOrder>): Promise<PurchaseOrder | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.updatePurchaseOrder(id, purchaseOrder) : this.dbStorage.updatePurchaseOrder(id, purchaseOrder)); }
+  async receivePurchaseOrder(id: string, receipts: { inventoryItemId: string; quantity: number; unitPrice?: number }[], performedBy: string): Promise<PurchaseOrder | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.receivePurchaseOrder(id, receipts, performedBy) : this.dbStorage.receivePurchaseOrder(id, receipts, performedBy)); }
+
   // Store Profile methods (stub)
   async getStoreProfile(): Promise<any | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getStoreProfile() : this.dbStorage.getStoreProfile()); }
   async createStoreProfile(profile: any): Promise<any> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createStoreProfile(profile) : this.dbStorage.createStoreProfile(profile)); }
@@ -2429,6 +4047,11 @@ class FallbackStorage implements IStorage {
     );
   }
 
+  // Payment Reconciliation methods
+  async getPaymentReconciliations(limit?: number): Promise<PaymentReconciliation[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPaymentReconciliations(limit) : this.dbStorage.getPaymentReconciliations(limit)); }
+  async getPaymentReconciliation(reportDate: string): Promise<PaymentReconciliation | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPaymentReconciliation(reportDate) : this.dbStorage.getPaymentReconciliation(reportDate)); }
+  async savePaymentReconciliation(report: InsertPaymentReconciliation): Promise<PaymentReconciliation> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.savePaymentReconciliation(report) : this.dbStorage.savePaymentReconciliation(report)); }
+
   // Print Setting methods
   async getPrintSettings(): Promise<any[]> {
     return this.withFallback(async () => 
@@ -2472,6 +4095,17 @@ class FallbackStorage implements IStorage {
     );
   }
 
+  // Print job methods
+  async getPrintJobs(since: Date): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPrintJobs(since) : this.dbStorage.getPrintJobs(since)); }
+  async getPrintJobsByOrder(orderId: string): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPrintJobsByOrder(orderId) : this.dbStorage.getPrintJobsByOrder(orderId)); }
+  async getPrintJobsByPrinter(printerId: string, limit?: number): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPrintJobsByPrinter(printerId, limit) : this.dbStorage.getPrintJobsByPrinter(printerId, limit)); }
+  async getPendingPrintJobs(printerIds: string[]): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getPendingPrintJobs(printerIds) : this.dbStorage.getPendingPrintJobs(printerIds)); }
+  async createPrintJobs(jobs: InsertPrintJob[]): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createPrintJobs(jobs) : this.dbStorage.createPrintJobs(jobs)); }
+  async claimPrintJob(id: string): Promise<PrintJob | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.claimPrintJob(id) : this.dbStorage.claimPrintJob(id)); }
+  async requeueStalePrintJobs(printerIds: string[], claimedBefore: Date): Promise<PrintJob[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.requeueStalePrintJobs(printerIds, claimedBefore) : this.dbStorage.requeueStalePrintJobs(printerIds, claimedBefore)); }
+  async transitionPrintJob(id: string, fromStatuses: PrintJobStatus[], update: { status: PrintJobStatus; error?: string | null; printedAt?: Date }): Promise<PrintJob | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.transitionPrintJob(id, fromStatuses, update) : this.dbStorage.transitionPrintJob(id, fromStatuses, update)); }
+
+
   // Shift management delegation methods
   async getShifts(): Promise<any[]> {
     return this.withFallback(async () => 
@@ -2511,9 +4145,33 @@ class FallbackStorage implements IStorage {
     );
   }
 
-  async closeShift(id: string, finalCash: number, notes?: string): Promise<any | undefined> {
+  async getShiftCashSummary(id: string): Promise<ShiftCashSummary | undefined> {
     return this.withFallback(async () => 
-      this.usingMemStorage ? this.memStorage.closeShift(id, finalCash, notes) : this.dbStorage.closeShift(id, finalCash, notes)
+      this.usingMemStorage ? this.memStorage.getShiftCashSummary(id) : this.dbStorage.getShiftCashSummary(id)
+    );
+  }
+
+  async closeShift(id: string, close: { finalCash: number; notes?: string; cashCount?: CashCountLine[]; blindClose: boolean }): Promise<any | undefined> {
+    return this.withFallback(async () => 
+      this.usingMemStorage ? this.memStorage.closeShift(id, close) : this.dbStorage.closeShift(id, close)
+    );
+  }
+
+  async getCashierPerformance(start: Date, end: Date): Promise<CashierPerformance[]> {
+    return this.withFallback(async () => 
+      this.usingMemStorage ? this.memStorage.getCashierPerformance(start, end) : this.dbStorage.getCashierPerformance(start, end)
+    );
+  }
+
+  async getShiftSalesReport(id: string): Promise<SalesReport | undefined> {
+    return this.withFallback(async () => 
+      this.usingMemStorage ? this.memStorage.getShiftSalesReport(id) : this.dbStorage.getShiftSalesReport(id)
+    );
+  }
+
+  async getDailySalesReport(start: Date, end: Date): Promise<SalesReport> {
+    return this.withFallback(async () => 
+      this.usingMemStorage ? this.memStorage.getDailySalesReport(start, end) : this.dbStorage.getDailySalesReport(start, end)
     );
   }
 
@@ -2591,9 +4249,9 @@ class FallbackStorage implements IStorage {
     );
   }
 
-  async processRefund(id: string): Promise<any | undefined> {
+  async processRefund(id: string, processedBy: string, shiftId: string | null): Promise<any | undefined> {
     return this.withFallback(async () => 
-      this.usingMemStorage ? this.memStorage.processRefund(id) : this.dbStorage.processRefund(id)
+      this.usingMemStorage ? this.memStorage.processRefund(id, processedBy, shiftId) : this.dbStorage.processRefund(id, processedBy, shiftId)
     );
   }
 
@@ -2624,6 +4282,12 @@ class FallbackStorage implements IStorage {
     );
   }
 
+  // Service requests
+  async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.createServiceRequest(request) : this.dbStorage.createServiceRequest(request)); }
+  async getOpenServiceRequests(): Promise<ServiceRequest[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOpenServiceRequests() : this.dbStorage.getOpenServiceRequests()); }
+  async getOpenServiceRequestsByOrder(orderId: string): Promise<ServiceRequest[]> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.getOpenServiceRequestsByOrder(orderId) : this.dbStorage.getOpenServiceRequestsByOrder(orderId)); }
+  async resolveServiceRequest(id: string, resolvedBy: string): Promise<ServiceRequest | undefined> { return this.withFallback(async () => this.usingMemStorage ? this.memStorage.resolveServiceRequest(id, resolvedBy) : this.dbStorage.resolveServiceRequest(id, resolvedBy)); }
+
   // Notifications
   async getNotifications(): Promise<any[]> {
     return this.withFallback(async () => 
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import type { Table } from '@shared/schema';
+
+// A table QR token is "<qrToken>.<signature>": the table's current random token, signed so
+// codes can't be made up from a table number and a reprint (new qrToken) voids the old ones
+
+// The built-in secret is only for development; production refuses to start without a real one
+export function hasTableTokenSecret(): boolean {
+  return !!(process.env.TABLE_QR_SECRET || process.env.SESSION_SECRET);
+}
+
+function getSecret(): string {
+  return process.env.TABLE_QR_SECRET || process.env.SESSION_SECRET || 'table-qr-secret';
+}
+
+function sign(qrToken: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(`table:${qrToken}`).digest('base64url');
+}
+
+export function signTableToken(table: Pick<Table, 'qrToken'>): string {
+  return `${table.qrToken}.${sign(table.qrToken)}`;
+}
+
+// Returns the table's qrToken when the signature matches, null for anything malformed or forged
+export function verifyTableToken(token: string): string | null {
+  const [qrToken, signature, ...rest] = token.trim().split('.');
+  if (!qrToken || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(qrToken));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? qrToken : null;
+}
+
+// Scanning a table QR code starts a session, "<qrToken>.<issued ms>.<signature>", that lets the
+// customer add rounds to the table's open bill until it expires or the guests are marked as gone
+export const TABLE_SESSION_HOURS = 4;
+
+function signSession(qrToken: string, issuedAt: number): string {
+  return crypto.createHmac('sha256', getSecret()).update(`session:${qrToken}:${issuedAt}`).digest('base64url');
+}
+
+export function signTableSession(table: Pick<Table, 'qrToken'>, issuedAt: Date = new Date()): string {
+  return `${table.qrToken}.${issuedAt.getTime()}.${signSession(table.qrToken, issuedAt.getTime())}`;
+}
+
+export function verifyTableSession(session: string): { qrToken: string; issuedAt: Date } | null {
+  const [qrToken, issued, signature, ...rest] = session.trim().split('.');
+  const issuedAt = Number(issued);
+  if (!qrToken || !signature || !Number.isFinite(issuedAt) || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(signSession(qrToken, issuedAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  // Sessions are only ever issued by this server, so one from the future is not genuine
+  const age = Date.now() - issuedAt;
+  return age >= 0 && age < TABLE_SESSION_HOURS * 60 * 60 * 1000 ? { qrToken, issuedAt: new Date(issuedAt) } : null;
+}
@@ -0,0 +1,38 @@
+import type { CashCountLine, StoreProfile } from "./schema";
+
+// Rupiah notes and coins in the drawer, largest first; Rp1.000 exists as both
+export const CASH_DENOMINATIONS: ReadonlyArray<Pick<CashCountLine, 'denomination' | 'kind'>> = [
+  { denomination: 100000, kind: 'note' },
+  { denomination: 50000, kind: 'note' },
+  { denomination: 20000, kind: 'note' },
+  { denomination: 10000, kind: 'note' },
+  { denomination: 5000, kind: 'note' },
+  { denomination: 2000, kind: 'note' },
+  { denomination: 1000, kind: 'note' },
+  { denomination: 1000, kind: 'coin' },
+  { denomination: 500, kind: 'coin' },
+  { denomination: 200, kind: 'coin' },
+  { denomination: 100, kind: 'coin' },
+];
+
+export const DEFAULT_CASH_SHORTAGE_THRESHOLD = 10000;
+export const DEFAULT_CASH_OVERAGE_THRESHOLD = 10000;
+
+export function getCashCountTotal(lines: Pick<CashCountLine, 'denomination' | 'quantity'>[]): number {
+  return lines.reduce((sum, line) => sum + line.denomination * line.quantity, 0);
+}
+
+export function getDenominationLabel(line: Pick<CashCountLine, 'denomination' | 'kind'>): string {
+  const amount = `Rp${line.denomination.toLocaleString('id-ID')}`;
+  return line.kind === 'coin' ? `${amount} (koin)` : amount;
+}
+
+// A shift closed further short or over than the store allows waits for an admin to approve it
+export function needsVarianceApproval(
+  cashDifference: number,
+  profile?: Pick<StoreProfile, 'cashShortageThreshold' | 'cashOverageThreshold'> | null
+): boolean {
+  const shortageThreshold = profile?.cashShortageThreshold ?? DEFAULT_CASH_SHORTAGE_THRESHOLD;
+  const overageThreshold = profile?.cashOverageThreshold ?? DEFAULT_CASH_OVERAGE_THRESHOLD;
+  return cashDifference < 0 ? -cashDifference > shortageThreshold : cashDifference > overageThreshold;
+}
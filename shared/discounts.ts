@@ -0,0 +1,232 @@
+import type { Discount } from "./schema";
+
+// Menu item fields needed to match discount targeting
+export interface DiscountTarget {
+  id: string;
+  categoryId?: string | null;
+}
+
+export interface AppliedDiscount {
+  discount: Discount;
+  unitAmount: number; // rupiah off one unit
+}
+
+// Order line as seen by the promotion engine; discount accumulates as promotions apply
+export interface PromotionLine {
+  itemId: string;
+  categoryId?: string | null;
+  price: number;
+  quantity: number;
+  discount: number;
+  discountIds: string[];
+}
+
+// Per-unit discounts; the other types are evaluated across the whole order
+const ITEM_DISCOUNT_TYPES = ['percentage', 'fixed'];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Happy hour window: allowed days and a time-of-day range that may pass midnight
+function isWithinSchedule(discount: Discount, at: Date): boolean {
+  if (Array.isArray(discount.activeDays) && discount.activeDays.length > 0 && !discount.activeDays.includes(at.getDay())) {
+    return false;
+  }
+  if (!discount.startTime || !discount.endTime) return true;
+
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(discount.startTime);
+  const end = toMinutes(discount.endTime);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+// Active flag, the optional start/end dates and the happy hour schedule
+export function isDiscountActive(discount: Discount, at: Date = new Date()): boolean {
+  if (!discount.isActive) return false;
+  if (discount.startDate && new Date(discount.startDate) > at) return false;
+  if (discount.endDate && new Date(discount.endDate) < at) return false;
+  return isWithinSchedule(discount, at);
+}
+
+export function discountAppliesTo(discount: Discount, item: DiscountTarget): boolean {
+  if (discount.applyToAll) return true;
+
+  const menuItemIds = Array.isArray(discount.menuItemIds) ? discount.menuItemIds as string[] : [];
+  const categoryIds = Array.isArray(discount.categoryIds) ? discount.categoryIds as string[] : [];
+
+  if (menuItemIds.includes(item.id)) return true;
+  return !!item.categoryId && categoryIds.includes(item.categoryId);
+}
+
+// Rupiah off one unit, never more than the unit price
+export function getDiscountUnitAmount(discount: Discount, unitPrice: number): number {
+  const amount = discount.type === 'percentage'
+    ? Math.round(unitPrice * discount.value / 100)
+    : discount.value;
+  return Math.min(Math.max(0, amount), unitPrice);
+}
+
+/**
+ * Pick the automatic item discount giving the largest reduction on one unit of an item.
+ * Discounts don't stack; ties go to the first discount in the list (newest first from storage).
+ * Pass the order subtotal to enforce minimum spend; previews without one skip that check.
+ */
+export function findBestDiscount(discounts: Discount[], item: DiscountTarget, unitPrice: number, at: Date = new Date(), subtotal?: number): AppliedDiscount | null {
+  let best: AppliedDiscount | null = null;
+
+  for (const discount of discounts) {
+    if (discount.code || !ITEM_DISCOUNT_TYPES.includes(discount.type)) continue;
+    if (subtotal !== undefined && discount.minSpend && subtotal < discount.minSpend) continue;
+    if (!isDiscountActive(discount, at) || !discountAppliesTo(discount, item)) continue;
+
+    const unitAmount = getDiscountUnitAmount(discount, unitPrice);
+    if (unitAmount > 0 && (!best || unitAmount > best.unitAmount)) {
+      best = { discount, unitAmount };
+    }
+  }
+
+  return best;
+}
+
+function addLineDiscount(line: PromotionLine, amount: number, discountId: string) {
+  if (amount <= 0) return;
+  line.discount += amount;
+  if (!line.discountIds.includes(discountId)) line.discountIds.push(discountId);
+}
+
+// Spread an amount over lines proportionally to their weights; the last line takes the remainder
+function allocate(lines: PromotionLine[], weights: number[], amount: number, discountId: string) {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0 || amount <= 0) return;
+
+  let remaining = amount;
+  lines.forEach((line, index) => {
+    const share = index === lines.length - 1 ? remaining : Math.round(amount * weights[index] / totalWeight);
+    addLineDiscount(line, Math.min(share, remaining), discountId);
+    remaining -= Math.min(share, remaining);
+  });
+}
+
+// Discount one group of units (most expensive first) gets; returns the rupiah saved
+function applyGroupPromotion(discount: Discount, groupUnits: PromotionLine[], buy: number): number {
+  if (discount.type === 'buy_x_get_y') {
+    let saved = 0;
+    for (const unit of groupUnits.slice(buy)) {
+      const amount = Math.round(unit.price * Math.min(discount.value, 100) / 100);
+      addLineDiscount(unit, amount, discount.id);
+      saved += amount;
+    }
+    return saved;
+  }
+
+  const regularPrice = groupUnits.reduce((sum, unit) => sum + unit.price, 0);
+  const amount = Math.max(0, regularPrice - discount.value);
+  allocate(groupUnits, groupUnits.map(unit => unit.price), amount, discount.id);
+  return amount;
+}
+
+/**
+ * Buy X get Y and bundle pricing over the given lines. Units are taken most expensive
+ * first; in each buy-X-get-Y group the cheapest Y units get value% off, and each full
+ * bundle is charged the bundle price. Returns the rupiah saved.
+ *
+ * Groups are counted, not built unit by unit: a run of groups made of one line's units
+ * is discounted in one step, so the work grows with the number of lines, not the quantity.
+ */
+function applyMultiItemPromotion(discount: Discount, lines: PromotionLine[]): number {
+  const buy = discount.buyQuantity || 0;
+  const get = discount.type === 'buy_x_get_y' ? discount.getQuantity || 0 : 0;
+  const groupSize = buy + get;
+  if (buy <= 0 || (discount.type === 'buy_x_get_y' && get <= 0)) return 0;
+
+  const sorted = [...lines].sort((a, b) => b.price - a.price);
+  const totalUnits = sorted.reduce((sum, line) => sum + line.quantity, 0);
+  let groupsLeft = Math.floor(totalUnits / groupSize);
+  let saved = 0;
+  let lineIndex = 0;
+  let used = 0; // units of sorted[lineIndex] already in a group
+
+  while (groupsLeft > 0) {
+    const line = sorted[lineIndex];
+    const sameLineGroups = Math.min(groupsLeft, Math.floor((line.quantity - used) / groupSize));
+
+    if (sameLineGroups > 0) {
+      const perGroup = discount.type === 'buy_x_get_y'
+        ? get * Math.round(line.price * Math.min(discount.value, 100) / 100)
+        : Math.max(0, line.price * groupSize - discount.value);
+      addLineDiscount(line, perGroup * sameLineGroups, discount.id);
+      saved += perGroup * sameLineGroups;
+      groupsLeft -= sameLineGroups;
+      used += sameLineGroups * groupSize;
+    } else {
+      // The group straddles lines: take its units one by one
+      const groupUnits: PromotionLine[] = [];
+      while (groupUnits.length < groupSize) {
+        if (used === sorted[lineIndex].quantity) {
+          lineIndex++;
+          used = 0;
+          continue;
+        }
+        groupUnits.push(sorted[lineIndex]);
+        used++;
+      }
+      saved += applyGroupPromotion(discount, groupUnits, buy);
+      groupsLeft--;
+    }
+
+    if (used === sorted[lineIndex].quantity) {
+      lineIndex++;
+      used = 0;
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Apply automatic promotions to order lines: the best item discount per line, then
+ * buy-X-get-Y and bundle promotions on lines no item discount touched. Lines are
+ * updated in place.
+ */
+export function applyAutomaticPromotions(lines: PromotionLine[], discounts: Discount[], at: Date = new Date()) {
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+  for (const line of lines) {
+    const applied = findBestDiscount(discounts, { id: line.itemId, categoryId: line.categoryId }, line.price, at, subtotal);
+    if (applied) addLineDiscount(line, applied.unitAmount * line.quantity, applied.discount.id);
+  }
+
+  for (const discount of discounts) {
+    if (discount.code || ITEM_DISCOUNT_TYPES.includes(discount.type)) continue;
+    if (discount.minSpend && subtotal < discount.minSpend) continue;
+    if (!isDiscountActive(discount, at)) continue;
+
+    const eligible = lines.filter(line => line.discount === 0 && discountAppliesTo(discount, { id: line.itemId, categoryId: line.categoryId }));
+    applyMultiItemPromotion(discount, eligible);
+  }
+}
+
+/**
+ * Apply a voucher on top of automatic promotions. Percentage and fixed vouchers take
+ * their value off the targeted lines' remaining amount once per order; buy-X-get-Y and
+ * bundle vouchers use lines without another discount. Returns the rupiah saved
+ * (0 when nothing in the order qualifies). Validity and limits are checked by the caller.
+ */
+export function applyVoucher(lines: PromotionLine[], voucher: Discount): number {
+  const targeted = lines.filter(line => discountAppliesTo(voucher, { id: line.itemId, categoryId: line.categoryId }));
+
+  if (!ITEM_DISCOUNT_TYPES.includes(voucher.type)) {
+    return applyMultiItemPromotion(voucher, targeted.filter(line => line.discount === 0));
+  }
+
+  const remaining = targeted.map(line => line.price * line.quantity - line.discount);
+  const base = remaining.reduce((sum, amount) => sum + amount, 0);
+  const amount = voucher.type === 'percentage'
+    ? Math.round(base * Math.min(voucher.value, 100) / 100)
+    : Math.min(voucher.value, base);
+
+  allocate(targeted, remaining, amount, voucher.id);
+  return Math.max(0, amount);
+}
@@ -0,0 +1,157 @@
+/**
+ * ESC/POS command streams shared by the browser (Bluetooth) and the server (network printers)
+ */
+
+import type { PrintJob, PrintSetting } from "./schema";
+
+// ESC/POS Commands for thermal printers
+const ESC = '\x1b';
+const GS = '\x1d';
+
+export const ESC_POS_COMMANDS = {
+  INIT: ESC + '@',                    // Initialize printer
+  CENTER: ESC + 'a' + '\x01',         // Center align
+  LEFT: ESC + 'a' + '\x00',           // Left align
+  RIGHT: ESC + 'a' + '\x02',          // Right align
+  BOLD_ON: ESC + 'E' + '\x01',        // Bold on
+  BOLD_OFF: ESC + 'E' + '\x00',       // Bold off
+  UNDERLINE_ON: ESC + '-' + '\x01',   // Underline on
+  UNDERLINE_OFF: ESC + '-' + '\x00',  // Underline off
+  DOUBLE_HEIGHT: GS + '!' + '\x01',   // Double height
+  NORMAL_SIZE: GS + '!' + '\x00',     // Normal size
+  CUT_PAPER: GS + 'V' + '\x42' + '\x00', // Cut paper
+  LINE_FEED: '\n',
+  FORM_FEED: '\x0c'
+};
+
+// Real-time status requests (DLE EOT n): printer, offline cause and roll paper sensor
+export const ESC_POS_STATUS_REQUESTS = ['\x10\x04\x01', '\x10\x04\x02', '\x10\x04\x04'];
+
+// Printers read one byte per character, so commands go out as latin1 whatever the printer is
+// connected by; characters outside it print as '?' instead of several bytes of junk
+export function encodeEscPos(commands: string): Uint8Array {
+  return Uint8Array.from(commands, char => {
+    const code = char.charCodeAt(0);
+    return code <= 0xff ? code : 0x3f;
+  });
+}
+
+export function formatPrintDate(date: Date): string {
+  return new Intl.DateTimeFormat('id-ID', {
+    day: '2-digit',
+    month: 'long', 
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  }).format(date);
+}
+
+/**
+ * Convert order to ESC/POS kitchen ticket commands
+ */
+export function buildKitchenTicketCommands(order: any, station?: string, filteredItems?: any[], voided = false): string {
+  const orderDate = new Date(order.createdAt);
+  const stationName = (station || 'kitchen').toUpperCase();
+  const ticketLabel = voided ? 'VOID TICKET' : 'ORDER TICKET';
+  const itemsLabel = voided ? 'ITEMS TO CANCEL:' : 'ITEMS TO PREPARE:';
+  const copyLabel = voided ? `** VOID - ${stationName} COPY **` : `** ${stationName} COPY **`;
+  const instructions = voided ? 'Stop preparing the items above' : 'Please prepare items as ordered';
+  
+  const itemsToShow = filteredItems || order.items || [];
+  
+  let commands = '';
+  
+  // Initialize printer
+  commands += ESC_POS_COMMANDS.INIT;
+  
+  // Header
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += ESC_POS_COMMANDS.DOUBLE_HEIGHT;
+  commands += `ALONICA ${stationName}\n`;
+  commands += ESC_POS_COMMANDS.NORMAL_SIZE;
+  commands += `${stationName} ${ticketLabel}\n`;
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+  commands += copyLabel + '\n';
+  commands += '================================\n';
+  
+  // Order info
+  commands += ESC_POS_COMMANDS.LEFT;
+  commands += `Order ID: ${order.id?.slice(-8) || 'N/A'}\n`;
+  commands += `Customer: ${order.customerName || 'N/A'}\n`;
+  commands += `Table: ${order.tableNumber || 'N/A'}\n`;
+  commands += `Time: ${formatPrintDate(orderDate)}\n`;
+  commands += '================================\n';
+  
+  // Items
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += itemsLabel + '\n';
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+  commands += '--------------------------------\n';
+  
+  itemsToShow.forEach((item: any) => {
+    commands += ESC_POS_COMMANDS.BOLD_ON;
+    commands += `${item.quantity}x ${item.name || 'Item'}\n`;
+    commands += ESC_POS_COMMANDS.BOLD_OFF;
+    if (item.round > 1) {
+      commands += `  ADD-ON #${item.round}\n`;
+    }
+    
+    (item.modifiers || []).forEach((modifier: any) => {
+      commands += `  + ${modifier.name}\n`;
+    });
+    if (item.notes) {
+      commands += `Note: ${item.notes}\n`;
+    }
+    commands += '--------------------------------\n';
+  });
+  
+  // Instructions
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += '********************************\n';
+  commands += instructions + '\n';
+  commands += '********************************\n';
+  
+  // Footer
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += `Kitchen Ticket - ${new Date().toLocaleTimeString('id-ID')}\n`;
+  
+  // Cut paper and feed
+  commands += '\n\n\n';
+  commands += ESC_POS_COMMANDS.CUT_PAPER;
+  
+  return commands;
+}
+
+
+// Kitchen ticket for a queued print job, as the station printer gets it
+export function buildPrintJobCommands(job: Pick<PrintJob, 'orderId' | 'customerName' | 'tableNumber' | 'createdAt' | 'stationName' | 'items' | 'kind'>): string {
+  const order = { id: job.orderId, customerName: job.customerName, tableNumber: job.tableNumber, createdAt: job.createdAt };
+  return buildKitchenTicketCommands(order, job.stationName, job.items, job.kind === 'void');
+}
+
+/**
+ * Short page that proves the printer is reachable and cuts paper
+ */
+export function buildTestPageCommands(printer: Pick<PrintSetting, 'name' | 'paperSize' | 'connectionString'>): string {
+  let commands = ESC_POS_COMMANDS.INIT;
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += ESC_POS_COMMANDS.BOLD_ON;
+  commands += ESC_POS_COMMANDS.DOUBLE_HEIGHT;
+  commands += 'TEST PRINT\n';
+  commands += ESC_POS_COMMANDS.NORMAL_SIZE;
+  commands += ESC_POS_COMMANDS.BOLD_OFF;
+  commands += '================================\n';
+  commands += ESC_POS_COMMANDS.LEFT;
+  commands += `Printer: ${printer.name}\n`;
+  commands += `Address: ${printer.connectionString || '-'}\n`;
+  commands += `Paper: ${printer.paperSize}\n`;
+  commands += `Time: ${formatPrintDate(new Date())}\n`;
+  commands += '================================\n';
+  commands += ESC_POS_COMMANDS.CENTER;
+  commands += 'Printer siap digunakan\n';
+  commands += '\n\n\n';
+  commands += ESC_POS_COMMANDS.CUT_PAPER;
+  return commands;
+}
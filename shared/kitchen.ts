@@ -0,0 +1,85 @@
+import type { Category, MenuItem, Order, OrderItem, PrepItemStatus, PrepStation } from "./schema";
+
+export const PREP_ITEM_STATUS_LABELS: Record<PrepItemStatus, string> = {
+  queued: 'Antre',
+  cooking: 'Dimasak',
+  done: 'Selesai',
+};
+
+// Tapping a line on the KDS moves it one step along; tapping a done line takes it back to cooking
+export const NEXT_PREP_ITEM_STATUS: Record<PrepItemStatus, PrepItemStatus> = {
+  queued: 'cooking',
+  cooking: 'done',
+  done: 'cooking',
+};
+
+// Tickets turn amber at this share of the station's SLA and red once past it
+export const SLA_WARNING_RATIO = 0.75;
+
+// Bumped tickets stay on the station's recall list this long
+export const RECALL_WINDOW_MINUTES = 30;
+
+export type TicketAge = 'fresh' | 'warning' | 'late';
+
+/**
+ * Station an item is made at: the menu item's own, else its category's, else the default
+ * station. Inactive stations are skipped; null when the store has no station to route to.
+ */
+export function resolvePrepStationId(
+  menuItem: Partial<Pick<MenuItem, 'stationId' | 'categoryId'>> | undefined,
+  categories: Pick<Category, 'id' | 'stationId'>[],
+  stations: Pick<PrepStation, 'id' | 'isDefault' | 'isActive'>[]
+): string | null {
+  const activeIds = new Set(stations.filter(station => station.isActive).map(station => station.id));
+  const categoryStationId = categories.find(category => category.id === menuItem?.categoryId)?.stationId;
+
+  for (const stationId of [menuItem?.stationId, categoryStationId]) {
+    if (stationId && activeIds.has(stationId)) return stationId;
+  }
+  return stations.find(station => station.isActive && station.isDefault)?.id ?? null;
+}
+
+/**
+ * Station whose KDS shows a line: the one it was routed to when ordered, or where it would be
+ * routed now for lines from before stations and lines whose station was removed or switched off.
+ */
+export function getLineStationId(
+  item: Pick<OrderItem, 'itemId' | 'categoryId' | 'stationId'>,
+  menuItems: Pick<MenuItem, 'id' | 'stationId' | 'categoryId'>[],
+  categories: Pick<Category, 'id' | 'stationId'>[],
+  stations: Pick<PrepStation, 'id' | 'isDefault' | 'isActive'>[]
+): string | null {
+  if (item.stationId && stations.some(station => station.id === item.stationId && station.isActive)) {
+    return item.stationId;
+  }
+  const menuItem = menuItems.find(menuItem => menuItem.id === item.itemId);
+  return resolvePrepStationId(menuItem ?? { categoryId: item.categoryId }, categories, stations);
+}
+
+export function getItemPrepStatus(item: Pick<OrderItem, 'prepStatus' | 'readyAt'>): PrepItemStatus {
+  return item.prepStatus ?? (item.readyAt ? 'done' : 'queued');
+}
+
+// The expo can only send an order out once every station has finished its lines
+export function isOrderPrepDone(order: Pick<Order, 'items'>): boolean {
+  const items = order.items as OrderItem[];
+  return items.length > 0 && items.every(item => getItemPrepStatus(item) === 'done');
+}
+
+// Lines of later open bill rounds age from when they reached the kitchen, not from the order time
+export function getItemSentAt(order: Pick<Order, 'createdAt'>, item: Pick<OrderItem, 'sentAt'>): Date {
+  return new Date(item.sentAt ?? order.createdAt);
+}
+
+export function getTicketAge(elapsedMinutes: number, slaMinutes: number): TicketAge {
+  if (elapsedMinutes >= slaMinutes) return 'late';
+  return elapsedMinutes >= slaMinutes * SLA_WARNING_RATIO ? 'warning' : 'fresh';
+}
+
+// "mm:ss" timer for a ticket, counting up past an hour as "75:10"
+export function formatTicketTimer(elapsedMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,66 @@
+import type { ModifierGroup, OrderItemModifier } from "./schema";
+
+export type ModifierResolution =
+  | { modifiers: OrderItemModifier[]; error?: undefined }
+  | { modifiers?: undefined; error: string };
+
+export function getModifierGroups(menuItem: { modifierGroups?: ModifierGroup[] | null }): ModifierGroup[] {
+  return Array.isArray(menuItem.modifierGroups) ? menuItem.modifierGroups : [];
+}
+
+/**
+ * Turn selected option ids into order modifiers, checking every group's min/max
+ * selections and option availability. Modifiers come back in menu order so the same
+ * selection always produces the same line.
+ */
+export function resolveModifiers(groups: ModifierGroup[], optionIds: string[] = []): ModifierResolution {
+  const selected = new Set(optionIds);
+  const modifiers: OrderItemModifier[] = [];
+  let matched = 0;
+
+  for (const group of groups) {
+    const chosen = group.options.filter(option => selected.has(option.id));
+    matched += chosen.length;
+
+    if (chosen.length < group.minSelections) {
+      return { error: `Pilih minimal ${group.minSelections} ${group.name}` };
+    }
+    if (chosen.length > group.maxSelections) {
+      return { error: `Pilih maksimal ${group.maxSelections} ${group.name}` };
+    }
+
+    for (const option of chosen) {
+      if (option.isAvailable === false) {
+        return { error: `${group.name} ${option.name} sedang tidak tersedia` };
+      }
+      modifiers.push({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        name: option.name,
+        priceDelta: option.priceDelta || 0,
+      });
+    }
+  }
+
+  if (matched < selected.size) {
+    return { error: 'Pilihan modifier tidak dikenal' };
+  }
+
+  return { modifiers };
+}
+
+export function getModifiersTotal(modifiers: OrderItemModifier[] = []): number {
+  return modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+}
+
+// Cart line key: the same item with different modifiers becomes a separate line
+export function getModifierLineKey(itemId: string, modifiers: OrderItemModifier[] = []): string {
+  if (modifiers.length === 0) return itemId;
+  return `${itemId}:${modifiers.map(modifier => modifier.optionId).join(',')}`;
+}
+
+// "Large, Less sugar, Extra shot" for carts, receipts and kitchen tickets
+export function formatModifiers(modifiers: OrderItemModifier[] = []): string {
+  return modifiers.map(modifier => modifier.name).join(', ');
+}
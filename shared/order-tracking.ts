@@ -0,0 +1,74 @@
+import type { Order, OrderItem, OrderStatus, OrderTracking, ServiceRequestType } from "./schema";
+
+// Progress shown to the customer; cancelled orders leave the track
+export const ORDER_TRACKING_STEPS: OrderStatus[] = ['queued', 'preparing', 'ready', 'served'];
+
+export const ORDER_TRACKING_LABELS: Record<OrderStatus, string> = {
+  queued: 'Pesanan Diterima',
+  preparing: 'Sedang Disiapkan',
+  ready: 'Siap Diantar',
+  served: 'Sudah Disajikan',
+  cancelled: 'Dibatalkan',
+};
+
+export const SERVICE_REQUEST_LABELS: Record<ServiceRequestType, string> = {
+  call_waiter: 'Panggil Pelayan',
+  request_bill: 'Minta Bill',
+};
+
+// Wait estimate until the store has ready orders to average over
+export const DEFAULT_PREP_MINUTES = 15;
+
+// Ready times are averaged over the orders of this many past hours
+export const PREP_TIME_WINDOW_HOURS = 3;
+
+export function isOrderInProgress(order: Pick<Order, 'orderStatus'>): boolean {
+  return order.orderStatus === 'queued' || order.orderStatus === 'preparing';
+}
+
+/**
+ * When the order should be ready: its order time plus the recent average time to ready.
+ * Orders running late never show a time in the past; the estimate keeps a minute ahead.
+ */
+export function estimateReadyAt(
+  order: Pick<Order, 'orderStatus' | 'createdAt'>,
+  averagePrepMinutes: number | null,
+  now: Date = new Date()
+): Date | null {
+  if (!isOrderInProgress(order)) return null;
+
+  const prepMinutes = averagePrepMinutes ?? DEFAULT_PREP_MINUTES;
+  const estimate = new Date(order.createdAt).getTime() + prepMinutes * 60 * 1000;
+  return new Date(Math.max(estimate, now.getTime() + 60 * 1000));
+}
+
+export function buildOrderTracking(
+  order: Order,
+  context: { ordersAhead: number; averagePrepMinutes: number | null; openRequests: ServiceRequestType[] }
+): OrderTracking {
+  const items = (order.items as OrderItem[]).map(item => ({
+    name: item.name,
+    quantity: item.quantity,
+    notes: item.notes || undefined,
+    modifiers: item.modifiers,
+    // Every line counts as ready once the whole order is
+    ready: !!item.readyAt || order.orderStatus === 'ready' || order.orderStatus === 'served',
+  }));
+
+  return {
+    customerName: order.customerName,
+    tableNumber: order.tableNumber,
+    orderStatus: order.orderStatus as OrderStatus,
+    payLater: order.payLater,
+    paymentStatus: order.paymentStatus,
+    total: order.total,
+    createdAt: order.createdAt,
+    preparingAt: order.preparingAt,
+    readyAt: order.readyAt,
+    servedAt: order.servedAt,
+    items,
+    ordersAhead: isOrderInProgress(order) ? context.ordersAhead : 0,
+    estimatedReadyAt: estimateReadyAt(order, context.averagePrepMinutes),
+    openRequests: context.openRequests,
+  };
+}
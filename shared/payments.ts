@@ -0,0 +1,64 @@
+import type { BankTransferBank, EwalletChannel, Order, OrderPayment, PaymentMethod, StoreProfile } from "./schema";
+
+// Paid by the customer through the payment gateway (customer payment page)
+export const ONLINE_PAYMENT_METHODS = ['qris', 'bank_transfer', 'ewallet'] as const;
+// Taken by the kasir at the counter; card payments run on the EDC terminal
+export const COUNTER_PAYMENT_METHODS = ['cash', 'qris', 'card'] as const;
+
+export type OnlinePaymentMethod = typeof ONLINE_PAYMENT_METHODS[number];
+export type CounterPaymentMethod = typeof COUNTER_PAYMENT_METHODS[number];
+
+export const DEFAULT_ENABLED_PAYMENT_METHODS: PaymentMethod[] = ['qris', 'cash'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  qris: 'QRIS',
+  cash: 'Cash',
+  pay_later: 'Bayar Nanti',
+  card: 'Kartu Debit/Kredit (EDC)',
+  bank_transfer: 'Transfer Bank (Virtual Account)',
+  ewallet: 'E-Wallet',
+  mixed: 'Campuran',
+};
+
+export const BANK_TRANSFER_BANK_LABELS: Record<BankTransferBank, string> = {
+  bca: 'BCA',
+  bni: 'BNI',
+  bri: 'BRI',
+  permata: 'Permata',
+};
+
+export const EWALLET_CHANNEL_LABELS: Record<EwalletChannel, string> = {
+  gopay: 'GoPay',
+  shopeepay: 'ShopeePay',
+};
+
+export function getEnabledPaymentMethods(profile?: Pick<StoreProfile, 'enabledPaymentMethods'> | null): PaymentMethod[] {
+  const methods = profile?.enabledPaymentMethods;
+  return Array.isArray(methods) && methods.length > 0 ? methods : DEFAULT_ENABLED_PAYMENT_METHODS;
+}
+
+export function isOnlinePaymentMethod(method: string): method is OnlinePaymentMethod {
+  return (ONLINE_PAYMENT_METHODS as readonly string[]).includes(method);
+}
+
+export function isCounterPaymentMethod(method: string): method is CounterPaymentMethod {
+  return (COUNTER_PAYMENT_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * Cash and non-cash parts of a paid order. Counter payments split by their recorded
+ * tenders; gateway payments and older orders without tenders follow paymentMethod.
+ */
+export function getTenderTotals(
+  order: Pick<Order, 'total' | 'paymentMethod'>,
+  tenders: Pick<OrderPayment, 'method' | 'amount'>[] = []
+): { cash: number; nonCash: number } {
+  if (tenders.length === 0) {
+    const total = order.total || 0;
+    return order.paymentMethod === 'cash' ? { cash: total, nonCash: 0 } : { cash: 0, nonCash: total };
+  }
+
+  const cash = tenders.filter(tender => tender.method === 'cash').reduce((sum, tender) => sum + tender.amount, 0);
+  const paid = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  return { cash, nonCash: paid - cash };
+}
@@ -0,0 +1,85 @@
+import type { Category, MenuItem, OrderItem, PrepStation, PrintJob, PrintJobKind, PrintJobStatus, PrintSetting } from "./schema";
+import { getLineStationId } from "./kitchen";
+
+export const PRINT_JOB_STATUS_LABELS: Record<PrintJobStatus, string> = {
+  pending: 'Menunggu',
+  printing: 'Mencetak',
+  printed: 'Tercetak',
+  failed: 'Gagal',
+  cancelled: 'Diabaikan',
+};
+
+export const PRINT_JOB_KIND_LABELS: Record<PrintJobKind, string> = {
+  ticket: 'Tiket',
+  void: 'Void',
+};
+
+// A ticket still waiting this long has no printing device picking it up
+export const PRINT_JOB_MISSED_MINUTES = 2;
+
+// Jobs from this far back stay in the print queue list; unfinished ones stay until handled
+export const PRINT_JOB_HISTORY_HOURS = 12;
+
+export interface PlannedTicket {
+  printerId: string;
+  stationId: string;
+  stationName: string;
+  items: OrderItem[];
+}
+
+/**
+ * Splits order lines into one ticket per station and printer. A station without its own
+ * printer prints on the default station's printers; lines with nowhere to print are left out.
+ */
+export function planKitchenTickets(
+  items: OrderItem[],
+  printers: Pick<PrintSetting, 'id' | 'stationIds'>[],
+  stations: Pick<PrepStation, 'id' | 'name' | 'isDefault' | 'isActive'>[],
+  menuItems: Pick<MenuItem, 'id' | 'stationId' | 'categoryId'>[],
+  categories: Pick<Category, 'id' | 'stationId'>[]
+): PlannedTicket[] {
+  const linesByStation = new Map<string, OrderItem[]>();
+  for (const item of items) {
+    const stationId = getLineStationId(item, menuItems, categories, stations);
+    if (stationId) {
+      linesByStation.set(stationId, [...(linesByStation.get(stationId) ?? []), item]);
+    }
+  }
+
+  const printersFor = (stationId: string | undefined) =>
+    stationId ? printers.filter(printer => printer.stationIds.includes(stationId)) : [];
+  const defaultStationId = stations.find(station => station.isActive && station.isDefault)?.id;
+
+  return Array.from(linesByStation.entries()).flatMap(([stationId, lines]) => {
+    const stationPrinters = printersFor(stationId);
+    const targets = stationPrinters.length > 0 ? stationPrinters : printersFor(defaultStationId);
+    const stationName = stations.find(station => station.id === stationId)?.name ?? 'Dapur';
+    return targets.map(printer => ({ printerId: printer.id, stationId, stationName, items: lines }));
+  });
+}
+
+// Lines are the same order line when item, options and notes match; quantity counts as part of it
+function getLineKey(item: OrderItem): string {
+  const optionIds = (item.modifiers ?? []).map(modifier => modifier.optionId).sort().join(',');
+  return `${item.itemId}|${optionIds}|${item.notes ?? ''}|${item.quantity}`;
+}
+
+// Lines taken off and put on when an open bill is edited as a whole, for void and new tickets
+export function diffOrderLines(before: OrderItem[], after: OrderItem[]): { added: OrderItem[]; removed: OrderItem[] } {
+  const remaining = [...before];
+  const added: OrderItem[] = [];
+  for (const item of after) {
+    const index = remaining.findIndex(existing => getLineKey(existing) === getLineKey(item));
+    if (index >= 0) {
+      remaining.splice(index, 1);
+    } else {
+      added.push(item);
+    }
+  }
+  return { added, removed: remaining };
+}
+
+export function isPrintJobMissed(job: Pick<PrintJob, 'status' | 'createdAt'>, now: number = Date.now()): boolean {
+  if (job.status === 'failed') return true;
+  return job.status === 'pending' && now - new Date(job.createdAt).getTime() >= PRINT_JOB_MISSED_MINUTES * 60 * 1000;
+}
@@ -1,29 +1,84 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, doublePrecision, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { UnitEnum } from "./units";
 
 // Enums
-export const PaymentMethodEnum = z.enum(['qris', 'cash', 'pay_later']);
+export const PaymentMethodEnum = z.enum(['qris', 'cash', 'pay_later', 'card', 'bank_transfer', 'ewallet', 'mixed']);
+export const PaymentGatewayEnum = z.enum(['midtrans', 'mock']);
+export const BankTransferBankEnum = z.enum(['bca', 'bni', 'bri', 'permata']);
+export const EwalletChannelEnum = z.enum(['gopay', 'shopeepay']);
 export const PaymentStatusEnum = z.enum(['pending', 'paid', 'failed', 'expired', 'unpaid', 'refunded']);
 export const OrderStatusEnum = z.enum(['queued', 'preparing', 'ready', 'served', 'cancelled']);
 export const ReservationStatusEnum = z.enum(['pending', 'confirmed', 'completed', 'cancelled']);
 export const ShiftStatusEnum = z.enum(['open', 'closed']);
 export const CashMovementTypeEnum = z.enum(['in', 'out']);
+export const CashVarianceStatusEnum = z.enum(['none', 'pending', 'approved', 'rejected']);
+export const CashDenominationKindEnum = z.enum(['note', 'coin']);
 export const RefundTypeEnum = z.enum(['void', 'partial_refund', 'full_refund']);
 export const RefundStatusEnum = z.enum(['pending', 'approved', 'rejected', 'completed']);
+export const GatewayRefundStatusEnum = z.enum(['pending', 'succeeded', 'failed']);
 export const ConnectionTypeEnum = z.enum(['browser', 'usb', 'network', 'bluetooth']);
+export const InventoryMovementTypeEnum = z.enum(['purchase', 'sale', 'sale_reversal', 'waste', 'adjustment', 'stock_take']);
+export const SplitBillModeEnum = z.enum(['items', 'equal', 'amount']);
+export const SplitBillStatusEnum = z.enum(['open', 'completed', 'cancelled']);
+export const PurchaseOrderStatusEnum = z.enum(['draft', 'ordered', 'partially_received', 'received', 'cancelled']);
+export const RoundingRuleEnum = z.enum(['none', 'nearest_100', 'nearest_500', 'nearest_1000', 'up_100', 'up_1000', 'down_100']);
+export const DiscountTypeEnum = z.enum(['percentage', 'fixed', 'buy_x_get_y', 'bundle']);
+export const MenuEngineeringClassEnum = z.enum(['star', 'plowhorse', 'puzzle', 'dog']);
+export const TableStatusEnum = z.enum(['free', 'ordering', 'eating', 'waiting_bill', 'needs_cleaning']);
+export const TableActionEnum = z.enum(['request_bill', 'vacate', 'clear']);
+export const ServiceRequestTypeEnum = z.enum(['call_waiter', 'request_bill']);
+export const ServiceRequestStatusEnum = z.enum(['open', 'resolved']);
+export const PrepItemStatusEnum = z.enum(['queued', 'cooking', 'done']);
+export const PrintJobKindEnum = z.enum(['ticket', 'void']);
+export const PrintJobStatusEnum = z.enum(['pending', 'printing', 'printed', 'failed', 'cancelled']);
+export const RealtimeEventTypeEnum = z.enum([
+  'order.created',
+  'order.status_changed',
+  'order.updated',
+  'notification.created',
+  'notification.approved',
+  'notification.rejected',
+  'reservation.changed',
+  'table.changed',
+  'service_request.created',
+  'service_request.resolved',
+  'prep_station.changed',
+  'print_job.changed',
+]);
 
 // Type aliases for better TypeScript support
 export type PaymentMethod = z.infer<typeof PaymentMethodEnum>;
+export type PaymentGateway = z.infer<typeof PaymentGatewayEnum>;
+export type BankTransferBank = z.infer<typeof BankTransferBankEnum>;
+export type EwalletChannel = z.infer<typeof EwalletChannelEnum>;
 export type PaymentStatus = z.infer<typeof PaymentStatusEnum>;
 export type OrderStatus = z.infer<typeof OrderStatusEnum>;
 export type ReservationStatus = z.infer<typeof ReservationStatusEnum>;
 export type ShiftStatus = z.infer<typeof ShiftStatusEnum>;
 export type CashMovementType = z.infer<typeof CashMovementTypeEnum>;
+export type CashVarianceStatus = z.infer<typeof CashVarianceStatusEnum>;
+export type CashDenominationKind = z.infer<typeof CashDenominationKindEnum>;
 export type RefundType = z.infer<typeof RefundTypeEnum>;
 export type RefundStatus = z.infer<typeof RefundStatusEnum>;
+export type GatewayRefundStatus = z.infer<typeof GatewayRefundStatusEnum>;
 export type ConnectionType = z.infer<typeof ConnectionTypeEnum>;
+export type InventoryMovementType = z.infer<typeof InventoryMovementTypeEnum>;
+export type SplitBillMode = z.infer<typeof SplitBillModeEnum>;
+export type SplitBillStatus = z.infer<typeof SplitBillStatusEnum>;
+export type PurchaseOrderStatus = z.infer<typeof PurchaseOrderStatusEnum>;
+export type RoundingRule = z.infer<typeof RoundingRuleEnum>;
+export type MenuEngineeringClass = z.infer<typeof MenuEngineeringClassEnum>;
+export type TableStatus = z.infer<typeof TableStatusEnum>;
+export type TableAction = z.infer<typeof TableActionEnum>;
+export type ServiceRequestType = z.infer<typeof ServiceRequestTypeEnum>;
+export type ServiceRequestStatus = z.infer<typeof ServiceRequestStatusEnum>;
+export type PrepItemStatus = z.infer<typeof PrepItemStatusEnum>;
+export type PrintJobKind = z.infer<typeof PrintJobKindEnum>;
+export type PrintJobStatus = z.infer<typeof PrintJobStatusEnum>;
+export type RealtimeEventType = z.infer<typeof RealtimeEventTypeEnum>;
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -49,10 +104,23 @@ export const sessions = pgTable("sessions", {
   index("sessions_expires_at_idx").on(table.expiresAt),
 ]);
 
+// Where order lines are made (kitchen, bar, dessert...); each has its own KDS view
+export const prepStations = pgTable("prep_stations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  slaMinutes: integer("sla_minutes").notNull().default(15), // tickets older than this show as late
+  sortOrder: integer("sort_order").notNull().default(0),
+  isDefault: boolean("is_default").notNull().default(false), // takes items whose menu item and category have no station
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
   description: text("description"),
+  stationId: varchar("station_id").references(() => prepStations.id, { onDelete: "set null" }), // station for the category's items
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
@@ -67,31 +135,73 @@ export const menuItems = pgTable("menu_items", {
   description: text("description"),
   image: text("image"),
   isAvailable: boolean("is_available").notNull().default(true),
+  modifierGroups: jsonb("modifier_groups").$type<ModifierGroup[]>().notNull().default([]), // variants and add-ons chosen when ordering
+  stationId: varchar("station_id").references(() => prepStations.id, { onDelete: "set null" }), // overrides the category's station
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
   index("menu_items_category_id_idx").on(table.categoryId),
   index("menu_items_availability_idx").on(table.isAvailable),
 ]);
 
+// Dining tables; orders link to them by tableId and keep tableNumber for receipts and older orders
+export const tables = pgTable("tables", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: text("number").notNull().unique(), // as printed on the table and entered by customers
+  area: text("area").notNull().default("Indoor"), // floor plan zone, e.g. 'Indoor', 'Outdoor', 'Lantai 2'
+  capacity: integer("capacity").notNull().default(4),
+  qrToken: varchar("qr_token").notNull().unique().default(sql`gen_random_uuid()`), // encoded, signed, in the table's QR code; replaced to invalidate printed codes
+  qrIssuedAt: timestamp("qr_issued_at").notNull().default(sql`now()`), // when the current QR token was generated
+  posX: integer("pos_x").notNull().default(0), // floor plan position in its area, percent of the width
+  posY: integer("pos_y").notNull().default(0), // percent of the height
+  isActive: boolean("is_active").notNull().default(true),
+  billRequestedAt: timestamp("bill_requested_at"), // guests asked for the bill
+  vacatedAt: timestamp("vacated_at"), // guests left; the table waits to be cleaned
+  clearedAt: timestamp("cleared_at"), // cleaned and free again; earlier orders no longer count toward its status
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("tables_area_idx").on(table.area),
+]);
+
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   customerName: text("customer_name").notNull(),
   tableNumber: text("table_number").notNull(),
+  tableId: varchar("table_id").references(() => tables.id), // null for free-text table numbers from before tables were set up
   items: jsonb("items").notNull(), // array of {itemId, quantity, notes}
   subtotal: integer("subtotal").notNull(),
   discount: integer("discount").notNull().default(0),
+  serviceCharge: integer("service_charge").notNull().default(0),
+  tax: integer("tax").notNull().default(0), // PB1; already part of the prices when taxInclusive
+  rounding: integer("rounding").notNull().default(0), // signed adjustment from the store rounding rule
+  serviceChargeRate: doublePrecision("service_charge_rate").notNull().default(0), // percent applied to this order
+  taxRate: doublePrecision("tax_rate").notNull().default(0), // percent applied to this order
+  taxInclusive: boolean("tax_inclusive").notNull().default(false),
+  voucherCode: text("voucher_code"), // voucher entered by the customer or kasir
   total: integer("total").notNull(),
-  paymentMethod: text("payment_method").notNull().default("qris"), // 'qris', 'cash', 'pay_later'
+  paymentMethod: text("payment_method").notNull().default("qris"), // see PaymentMethodEnum
   paymentStatus: text("payment_status").notNull().default("pending"), // 'pending', 'paid', 'failed', 'expired', 'unpaid', 'refunded'
   payLater: boolean("pay_later").notNull().default(false), // true for eat-first-pay-later orders
-  midtransOrderId: text("midtrans_order_id"), // Midtrans order ID
-  midtransTransactionId: text("midtrans_transaction_id"), // Midtrans transaction ID
-  midtransTransactionStatus: text("midtrans_transaction_status"), // Midtrans status
+  paymentGateway: text("payment_gateway"), // 'midtrans', 'mock'; null for payments taken at the counter
+  paymentChannel: text("payment_channel"), // bank of a virtual account or the e-wallet, e.g. 'bca', 'gopay'
+  paymentReference: text("payment_reference"), // EDC approval code for cards, virtual account number for bank transfers
+  paymentActionUrl: text("payment_action_url"), // e-wallet deeplink that opens the customer's app
+  midtransOrderId: text("midtrans_order_id"), // gateway order ID (the mock gateway uses MOCK- ids)
+  midtransTransactionId: text("midtrans_transaction_id"), // gateway transaction ID
+  midtransTransactionStatus: text("midtrans_transaction_status"), // raw gateway status
   qrisUrl: text("qris_url"), // QRIS payment URL from Midtrans
   qrisString: text("qris_string"), // QRIS raw string for QR generation
   paymentExpiredAt: timestamp("payment_expired_at"), // Payment expiry time
   paidAt: timestamp("paid_at"), // When payment was completed
+  stockDeductedAt: timestamp("stock_deducted_at"), // When recipe ingredients were deducted from inventory (null = not deducted)
+  stockRestoredAt: timestamp("stock_restored_at"), // When a void/full refund put the ingredients back; the deduction claim stays so a replayed payment can't deduct again
+  cashierId: varchar("cashier_id").references(() => users.id), // staff who took the order, then whoever took its payment; null for customer orders paid online
+  shiftId: varchar("shift_id").references(() => shifts.id), // that staff member's open shift at the time; its cash is counted at shift close
   orderStatus: text("order_status").notNull().default("queued"), // 'queued', 'preparing', 'ready', 'served', 'cancelled'
+  preparingAt: timestamp("preparing_at"), // kitchen started the order
+  readyAt: timestamp("ready_at"), // kitchen finished; ready - created feeds the wait estimate
+  servedAt: timestamp("served_at"),
+  trackingToken: varchar("tracking_token").notNull().unique().default(sql`gen_random_uuid()`), // public order tracking link, /track/<token>
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 }, (table) => [
@@ -100,21 +210,49 @@ export const orders = pgTable("orders", {
   index("orders_payment_method_idx").on(table.paymentMethod),
   index("orders_order_status_idx").on(table.orderStatus),
   index("orders_table_number_idx").on(table.tableNumber),
+  index("orders_table_id_created_idx").on(table.tableId, table.createdAt),
+  index("orders_shift_id_idx").on(table.shiftId),
+  index("orders_cashier_paid_idx").on(table.cashierId, table.paidAt),
+  // Same conditions as getOpenBillByTable: a table's rounds all go to its one open bill
+  uniqueIndex("orders_unique_open_bill_per_table").on(table.tableId)
+    .where(sql`pay_later = true AND payment_status NOT IN ('paid', 'refunded') AND order_status != 'cancelled'`),
+]);
+
+// Suppliers - vendors that inventory items are purchased from
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  leadTimeDays: integer("lead_time_days").notNull().default(1), // days between ordering and delivery
+  paymentTerms: text("payment_terms").notNull().default("cod"), // 'cod', 'net_7', 'net_14', 'net_30'
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("suppliers_is_active_idx").on(table.isActive),
 ]);
 
 export const inventoryItems = pgTable("inventory_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   category: text("category").notNull(),
-  currentStock: integer("current_stock").notNull(),
+  currentStock: doublePrecision("current_stock").notNull(), // in `unit`, up to 3 decimals
   minStock: integer("min_stock").notNull(),
   maxStock: integer("max_stock").notNull(),
-  unit: text("unit").notNull(),
+  unit: text("unit").notNull(), // stock unit from the unit catalog (shared/units.ts)
   pricePerUnit: integer("price_per_unit").notNull(),
-  supplier: text("supplier"),
+  supplier: text("supplier"), // legacy free-text supplier name
+  supplierId: varchar("supplier_id").references(() => suppliers.id, { onDelete: "set null" }),
+  packSize: doublePrecision("pack_size"), // contents of one pack, e.g. 12 (pcs) or 500 (g)
+  packUnit: text("pack_unit"), // unit of packSize
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
   index("inventory_items_category_idx").on(table.category),
+  index("inventory_items_supplier_id_idx").on(table.supplierId),
   index("inventory_items_current_stock_idx").on(table.currentStock),
 ]);
 
@@ -123,14 +261,101 @@ export const menuItemIngredients = pgTable("menu_item_ingredients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   menuItemId: varchar("menu_item_id").notNull().references(() => menuItems.id, { onDelete: "cascade" }),
   inventoryItemId: varchar("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
-  quantityNeeded: integer("quantity_needed").notNull(), // amount of inventory item needed per menu item
-  unit: text("unit").notNull(), // unit for this ingredient (should match inventory item unit)
+  quantityNeeded: doublePrecision("quantity_needed").notNull(), // amount of inventory item needed per menu item
+  unit: text("unit").notNull(), // unit of quantityNeeded, converted to the inventory item's unit on deduction
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 }, (table) => [
   index("menu_item_ingredients_menu_item_id_idx").on(table.menuItemId),
   index("menu_item_ingredients_inventory_item_id_idx").on(table.inventoryItemId),
 ]);
 
+// Inventory movements - stock ledger explaining every change to inventoryItems.currentStock
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inventoryItemId: varchar("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // 'purchase', 'sale', 'sale_reversal', 'waste', 'adjustment', 'stock_take'
+  quantity: doublePrecision("quantity").notNull(), // signed change in the item's unit: negative = stock out, positive = stock in
+  stockBefore: doublePrecision("stock_before").notNull(),
+  stockAfter: doublePrecision("stock_after").notNull(),
+  referenceType: text("reference_type"), // 'order', 'refund', 'deletion', 'stock_take', etc.
+  referenceId: varchar("reference_id"), // ID of the entity that caused the movement
+  notes: text("notes"),
+  performedBy: varchar("performed_by").references(() => users.id), // null for system actions (e.g. payment webhook)
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("inventory_movements_item_created_idx").on(table.inventoryItemId, table.createdAt),
+  index("inventory_movements_reference_idx").on(table.referenceType, table.referenceId),
+  index("inventory_movements_created_at_idx").on(table.createdAt),
+]);
+
+// Purchase orders - stock reorders sent to suppliers
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: text("po_number").notNull().unique(), // e.g. PO-20250101-0001
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: text("status").notNull().default("draft"), // 'draft', 'ordered', 'partially_received', 'received', 'cancelled'
+  items: jsonb("items").notNull(), // array of PurchaseOrderItem
+  totalAmount: integer("total_amount").notNull().default(0), // in rupiah
+  expectedDate: timestamp("expected_date"), // ordered date + supplier lead time
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("purchase_orders_supplier_id_idx").on(table.supplierId),
+  index("purchase_orders_status_idx").on(table.status, table.createdAt),
+]);
+
+// Split bill sessions - an open bill shared between payers; the order is paid once every part is settled
+export const billSplits = pgTable("bill_splits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  mode: text("mode").notNull(), // 'items', 'equal', 'amount'
+  status: text("status").notNull().default("open"), // 'open', 'completed', 'cancelled'
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("bill_splits_order_idx").on(table.orderId, table.status),
+]);
+
+export const billSplitParts = pgTable("bill_split_parts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  splitId: varchar("split_id").notNull().references(() => billSplits.id, { onDelete: "cascade" }),
+  partNumber: integer("part_number").notNull(),
+  customerName: text("customer_name"),
+  items: jsonb("items").$type<SplitPartItem[]>().notNull().default([]), // order lines and quantities this part pays for ('items' mode)
+  amount: integer("amount").notNull(), // rupiah due for this part
+  paymentStatus: text("payment_status").notNull().default("unpaid"), // 'unpaid', 'paid'
+  paymentMethod: text("payment_method"), // see PaymentMethodEnum; 'mixed' for several tenders
+  paymentReference: text("payment_reference"),
+  paidBy: varchar("paid_by").references(() => users.id),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("bill_split_parts_split_idx").on(table.splitId),
+]);
+
+// Tenders that settled an order at the counter; a bill paid part cash, part QRIS has one row per part
+export const orderPayments = pgTable("order_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  splitPartId: varchar("split_part_id").references(() => billSplitParts.id), // split bill part this tender paid, if any
+  method: text("method").notNull(), // 'cash', 'qris', 'card'
+  amount: integer("amount").notNull(), // rupiah applied to the bill
+  reference: text("reference"), // EDC approval code for cards
+  cashReceived: integer("cash_received"), // cash handed over for this tender; null for non-cash
+  change: integer("change").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id),
+  shiftId: varchar("shift_id").references(() => shifts.id), // shift of the staff member who took the tender
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("order_payments_order_idx").on(table.orderId),
+  index("order_payments_shift_idx").on(table.shiftId),
+]);
+
 // Store profile - for customizing receipt and restaurant info
 export const storeProfile = pgTable("store_profile", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -141,6 +366,20 @@ export const storeProfile = pgTable("store_profile", {
   website: text("website"),
   description: text("description"),
   logo: text("logo"), // URL to logo image
+  minMarginPercent: integer("min_margin_percent").notNull().default(60), // warn when a menu item's margin drops below this
+  taxRate: doublePrecision("tax_rate").notNull().default(0), // PB1 percent, e.g. 10
+  taxInclusive: boolean("tax_inclusive").notNull().default(false), // menu prices already include tax
+  serviceChargeRate: doublePrecision("service_charge_rate").notNull().default(0), // percent, e.g. 5
+  serviceChargeTaxable: boolean("service_charge_taxable").notNull().default(true), // PB1 is charged on top of service
+  roundingRule: text("rounding_rule").notNull().default("none"), // see RoundingRuleEnum
+  taxExemptCategoryIds: jsonb("tax_exempt_category_ids").$type<string[]>().notNull().default([]),
+  serviceExemptCategoryIds: jsonb("service_exempt_category_ids").$type<string[]>().notNull().default([]),
+  paymentGateway: text("payment_gateway").notNull().default("midtrans"), // see PaymentGatewayEnum
+  enabledPaymentMethods: jsonb("enabled_payment_methods").$type<PaymentMethod[]>().notNull().default(['qris', 'cash']),
+  blindShiftClose: boolean("blind_shift_close").notNull().default(false), // kasir counts the drawer without seeing the expected cash
+  cashShortageThreshold: integer("cash_shortage_threshold").notNull().default(10000), // rupiah short before an admin must approve the close
+  cashOverageThreshold: integer("cash_overage_threshold").notNull().default(10000), // rupiah over before an admin must approve the close
+  selfOrderPayLater: boolean("self_order_pay_later").notNull().default(false), // customers at a scanned table may order now and pay at the counter; later rounds join the table's open bill
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
@@ -168,9 +407,20 @@ export const discounts = pgTable("discounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   description: text("description"),
-  type: text("type").notNull().default("percentage"), // 'percentage', 'fixed'
-  value: integer("value").notNull(), // percentage (0-100) or fixed amount in rupiah
+  type: text("type").notNull().default("percentage"), // 'percentage', 'fixed', 'buy_x_get_y', 'bundle'
+  value: integer("value").notNull(), // percentage (0-100), fixed amount in rupiah, % off the free items (buy_x_get_y) or bundle price
   isActive: boolean("is_active").notNull().default(true),
+  // Voucher settings: discounts with a code only apply when the code is entered
+  code: text("code").unique(), // stored uppercase
+  usageLimit: integer("usage_limit"), // total redemptions allowed, null = unlimited
+  perCustomerLimit: integer("per_customer_limit"), // redemptions per customer name, null = unlimited
+  minSpend: integer("min_spend"), // order subtotal required before the discount applies
+  // Promotion settings
+  buyQuantity: integer("buy_quantity"), // buy_x_get_y: items to buy; bundle: items in the bundle
+  getQuantity: integer("get_quantity"), // buy_x_get_y: items discounted per buyQuantity bought
+  activeDays: jsonb("active_days").$type<number[]>(), // happy hour days (0 = Sunday), null = every day
+  startTime: text("start_time"), // happy hour start 'HH:MM', null = all day
+  endTime: text("end_time"), // happy hour end 'HH:MM' (may pass midnight)
   // Discount application settings
   applyToAll: boolean("apply_to_all").notNull().default(false),
   categoryIds: jsonb("category_ids"), // array of category IDs to apply to
@@ -184,6 +434,19 @@ export const discounts = pgTable("discounts", {
   index("discounts_is_active_idx").on(table.isActive),
 ]);
 
+// Voucher redemptions, counted against usage and per-customer limits
+export const discountRedemptions = pgTable("discount_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  discountId: varchar("discount_id").notNull().references(() => discounts.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  customerKey: text("customer_key").notNull(), // normalized customer name
+  amount: integer("amount").notNull(), // rupiah saved on the order
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("discount_redemptions_discount_idx").on(table.discountId, table.customerKey),
+  index("discount_redemptions_order_idx").on(table.orderId),
+]);
+
 // Expenses table for tracking unexpected operational expenses
 export const expenses = pgTable("expenses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -223,6 +486,20 @@ export const dailyReports = pgTable("daily_reports", {
   index("daily_reports_report_date_idx").on(table.reportDate.desc()),
 ]);
 
+// Daily comparison of QRIS orders we recorded as paid against Midtrans settlements
+export const paymentReconciliations = pgTable("payment_reconciliations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportDate: text("report_date").notNull(), // 'YYYY-MM-DD', server local day the orders were created
+  ordersChecked: integer("orders_checked").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  paidTotal: integer("paid_total").notNull().default(0), // our paid QRIS orders, in rupiah
+  settledTotal: integer("settled_total").notNull().default(0), // Midtrans settlements, in rupiah
+  discrepancies: jsonb("discrepancies").$type<PaymentDiscrepancy[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  uniqueIndex("payment_reconciliations_report_date_idx").on(table.reportDate),
+]);
+
 // Print settings table for printer management
 export const printSettings = pgTable("print_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -239,10 +516,33 @@ export const printSettings = pgTable("print_settings", {
   // Connection settings (for future use)
   connectionType: text("connection_type").notNull().default("browser"), // 'browser', 'usb', 'network', 'bluetooth'
   connectionString: text("connection_string"), // IP address, USB path, Bluetooth device ID, etc.
+  stationIds: jsonb("station_ids").$type<string[]>().notNull().default([]), // prep stations whose kitchen tickets print here
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Kitchen tickets queued for station printers, kept so tickets that never printed show up on the KDS
+export const printJobs = pgTable("print_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  printerId: varchar("printer_id").references(() => printSettings.id, { onDelete: 'set null' }),
+  stationId: varchar("station_id").references(() => prepStations.id, { onDelete: 'set null' }),
+  stationName: text("station_name").notNull(), // printed on the ticket; kept when the station is renamed or removed
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  customerName: text("customer_name").notNull(),
+  tableNumber: text("table_number").notNull(),
+  kind: text("kind").notNull().default("ticket"), // see PrintJobKindEnum
+  items: jsonb("items").$type<OrderItem[]>().notNull(), // the lines on this ticket, as they were when queued
+  status: text("status").notNull().default("pending"), // see PrintJobStatusEnum
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"), // last failure reported by the printing device
+  printedAt: timestamp("printed_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("print_jobs_status_idx").on(table.status, table.createdAt),
+  index("print_jobs_order_id_idx").on(table.orderId),
+]);
+
 // Shifts table for cashier shift management
 export const shifts = pgTable("shifts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -253,6 +553,11 @@ export const shifts = pgTable("shifts", {
   finalCash: integer("final_cash"), // ending cash amount counted by cashier
   systemCash: integer("system_cash"), // cash according to system calculations
   cashDifference: integer("cash_difference").default(0), // final - system
+  cashCount: jsonb("cash_count").$type<CashCountLine[]>(), // notes and coins counted at close; null when only a total was entered
+  blindClose: boolean("blind_close").notNull().default(false), // closed without the kasir seeing the expected cash
+  varianceStatus: text("variance_status").notNull().default("none"), // see CashVarianceStatusEnum
+  varianceReviewedBy: varchar("variance_reviewed_by").references(() => users.id), // admin who approved or rejected the variance
+  varianceReviewedAt: timestamp("variance_reviewed_at"),
   totalOrders: integer("total_orders").default(0),
   totalRevenue: integer("total_revenue").default(0),
   totalCashRevenue: integer("total_cash_revenue").default(0),
@@ -295,12 +600,18 @@ export const refunds = pgTable("refunds", {
   status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'completed'
   authorizationCode: text("authorization_code"), // admin verification code
   processedAt: timestamp("processed_at"),
+  processedBy: varchar("processed_by").references(() => users.id), // staff who paid the refund out
+  shiftId: varchar("shift_id").references(() => shifts.id), // their open shift; cash refunds leave that shift's drawer
   notes: text("notes"),
+  midtransRefundKey: text("midtrans_refund_key"), // refund_key sent to Midtrans; reused on retry so money is only returned once
+  midtransRefundStatus: text("midtrans_refund_status"), // 'pending', 'succeeded', 'failed'; null when not paid through Midtrans
+  midtransRefundError: text("midtrans_refund_error"), // last Midtrans error, shown on the approvals screen
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 }, (table) => [
   index("refunds_order_id_idx").on(table.orderId),
   index("refunds_status_created_idx").on(table.status, table.createdAt),
+  index("refunds_shift_id_idx").on(table.shiftId),
 ]);
 
 // Audit logs table for tracking all admin authorization actions
@@ -359,6 +670,23 @@ export const notifications = pgTable("notifications", {
   index("notifications_created_at_idx").on(table.createdAt),
 ]);
 
+// Customer calls for a waiter or the bill from the order tracking page
+export const serviceRequests = pgTable("service_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // see ServiceRequestTypeEnum
+  orderId: varchar("order_id").notNull().references(() => orders.id),
+  tableId: varchar("table_id").references(() => tables.id),
+  tableNumber: text("table_number").notNull(),
+  customerName: text("customer_name").notNull(),
+  status: text("status").notNull().default("open"), // 'open' until a staff member attends to it
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  index("service_requests_status_idx").on(table.status, table.createdAt),
+  index("service_requests_order_id_idx").on(table.orderId),
+]);
+
 // Deletion PINs table for temporary admin PINs for kasir to delete items
 export const deletionPins = pgTable("deletion_pins", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -380,40 +708,148 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+export const insertPrepStationSchema = createInsertSchema(prepStations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  slaMinutes: z.number().int().min(1).max(240).optional(),
+});
+
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
 });
 
+// Short ids for modifier groups/options; only need to be unique within one menu item
+export function createModifierId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export const modifierOptionSchema = z.object({
+  id: z.string().min(1).default(createModifierId),
+  name: z.string().trim().min(1, "Nama opsi wajib diisi"),
+  priceDelta: z.number().int().default(0),
+  isAvailable: z.boolean().default(true),
+});
+
+export const modifierGroupSchema = z.object({
+  id: z.string().min(1).default(createModifierId),
+  name: z.string().trim().min(1, "Nama grup wajib diisi"),
+  minSelections: z.number().int().min(0).default(0), // > 0 makes the group required
+  maxSelections: z.number().int().min(1).default(1),
+  options: z.array(modifierOptionSchema).min(1, "Grup modifier butuh minimal satu opsi"),
+}).refine(group => group.minSelections <= group.maxSelections, {
+  message: "Minimal pilihan tidak boleh melebihi maksimal pilihan",
+  path: ["minSelections"],
+}).refine(group => group.minSelections <= group.options.length, {
+  message: "Minimal pilihan melebihi jumlah opsi",
+  path: ["minSelections"],
+});
+
 export const insertMenuItemSchema = createInsertSchema(menuItems).omit({
   id: true,
   createdAt: true,
+}).extend({
+  modifierGroups: z.array(modifierGroupSchema).optional(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  trackingToken: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   paymentMethod: PaymentMethodEnum,
   paymentStatus: PaymentStatusEnum,
   orderStatus: OrderStatusEnum,
+  paymentGateway: PaymentGatewayEnum.nullable().optional(),
+});
+
+// Most units of one menu item a single order line can take
+export const MAX_ORDER_LINE_QUANTITY = 99;
+
+// Line of an order request; the server prices it. Modifiers are picked by option id,
+// or copied from a stored order line when a bill is edited
+export const orderItemInputSchema = z.object({
+  itemId: z.string().min(1),
+  quantity: z.number().int().positive().max(MAX_ORDER_LINE_QUANTITY),
+  notes: z.string().optional(),
+  modifierOptionIds: z.array(z.string()).optional(),
+  modifiers: z.array(z.object({ optionId: z.string() })).optional(),
+});
+
+export const orderItemsInputSchema = z.array(orderItemInputSchema).min(1);
+
+export const insertTableSchema = createInsertSchema(tables).omit({
+  id: true,
+  qrToken: true,
+  qrIssuedAt: true,
+  billRequestedAt: true,
+  vacatedAt: true,
+  clearedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  number: z.string().trim().min(1, "Nomor meja wajib diisi"),
+  area: z.string().trim().min(1, "Area wajib diisi"),
+  capacity: z.number().int().min(1),
+  posX: z.number().int().min(0).max(100).optional(),
+  posY: z.number().int().min(0).max(100).optional(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export const insertInventoryItemSchema = createInsertSchema(inventoryItems).omit({
   id: true,
   createdAt: true,
+}).extend({
+  packSize: z.number().positive().nullable().optional(),
+  packUnit: UnitEnum.exclude(['pack']).nullable().optional(),
 });
 
 export const insertMenuItemIngredientSchema = createInsertSchema(menuItemIngredients).omit({
   id: true,
   createdAt: true,
+}).extend({
+  quantityNeeded: z.number().positive(),
+  unit: UnitEnum,
+});
+
+export const insertInventoryMovementSchema = createInsertSchema(inventoryMovements).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: InventoryMovementTypeEnum,
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  status: PurchaseOrderStatusEnum,
+  expectedDate: z.coerce.date().nullable().optional(),
 });
 
 export const insertStoreProfileSchema = createInsertSchema(storeProfile).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  taxRate: z.number().min(0).max(100).optional(),
+  serviceChargeRate: z.number().min(0).max(100).optional(),
+  roundingRule: RoundingRuleEnum.optional(),
+  taxExemptCategoryIds: z.array(z.string()).optional(),
+  serviceExemptCategoryIds: z.array(z.string()).optional(),
+  paymentGateway: PaymentGatewayEnum.optional(),
+  enabledPaymentMethods: z.array(PaymentMethodEnum).min(1).optional(),
+  cashShortageThreshold: z.number().int().nonnegative().optional(),
+  cashOverageThreshold: z.number().int().nonnegative().optional(),
 });
 
 export const insertReservationSchema = createInsertSchema(reservations).omit({
@@ -443,6 +879,46 @@ export const insertDiscountSchema = createInsertSchema(discounts).omit({
     },
     z.date().nullable().optional()
   ),
+  type: DiscountTypeEnum.default('percentage'),
+  code: z.preprocess(
+    (val) => typeof val === 'string' ? (val.trim().toUpperCase() || null) : val,
+    z.string().max(32).regex(/^[A-Z0-9_-]+$/, "Kode voucher hanya boleh huruf, angka, - dan _").nullable().optional()
+  ),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perCustomerLimit: z.number().int().positive().nullable().optional(),
+  minSpend: z.number().int().nonnegative().nullable().optional(),
+  buyQuantity: z.number().int().positive().nullable().optional(),
+  getQuantity: z.number().int().positive().nullable().optional(),
+  activeDays: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+});
+
+export const insertBillSplitPartSchema = createInsertSchema(billSplitParts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  items: z.array(z.object({
+    lineIndex: z.number().int().nonnegative(),
+    quantity: z.number().int().positive(),
+  })).optional(),
+  amount: z.number().int().nonnegative(),
+  paymentMethod: PaymentMethodEnum.nullable().optional(),
+});
+
+export const insertOrderPaymentSchema = createInsertSchema(orderPayments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  method: PaymentMethodEnum,
+  amount: z.number().int().positive(),
+  cashReceived: z.number().int().nonnegative().nullable().optional(),
+  change: z.number().int().nonnegative().optional(),
+});
+
+export const insertDiscountRedemptionSchema = createInsertSchema(discountRedemptions).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
@@ -450,6 +926,13 @@ export const insertExpenseSchema = createInsertSchema(expenses).omit({
   createdAt: true,
 });
 
+export const insertPaymentReconciliationSchema = createInsertSchema(paymentReconciliations).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  discrepancies: z.array(z.custom<PaymentDiscrepancy>()),
+});
+
 export const insertDailyReportSchema = createInsertSchema(dailyReports).omit({
   id: true,
   createdAt: true,
@@ -465,6 +948,26 @@ export const insertPrintSettingSchema = createInsertSchema(printSettings).omit({
   updatedAt: true,
 }).extend({
   connectionType: ConnectionTypeEnum,
+  stationIds: z.array(z.string()).optional(),
+});
+
+export const insertPrintJobSchema = createInsertSchema(printJobs).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  error: true,
+  printedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  kind: PrintJobKindEnum,
+  items: z.array(z.custom<OrderItem>()),
+});
+
+export const cashCountLineSchema = z.object({
+  denomination: z.number().int().positive(),
+  kind: CashDenominationKindEnum,
+  quantity: z.number().int().nonnegative(),
 });
 
 export const insertShiftSchema = createInsertSchema(shifts).omit({
@@ -475,6 +978,8 @@ export const insertShiftSchema = createInsertSchema(shifts).omit({
   startTime: z.coerce.date().optional(),
   endTime: z.coerce.date().optional(),
   status: ShiftStatusEnum,
+  cashCount: z.array(cashCountLineSchema).nullable().optional(),
+  varianceStatus: CashVarianceStatusEnum.optional(),
 });
 
 export const insertCashMovementSchema = createInsertSchema(cashMovements).omit({
@@ -492,6 +997,7 @@ export const insertRefundSchema = createInsertSchema(refunds).omit({
   processedAt: z.coerce.date().optional(),
   refundType: RefundTypeEnum,
   status: RefundStatusEnum,
+  midtransRefundStatus: GatewayRefundStatusEnum.nullable().optional(),
 });
 
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
@@ -513,6 +1019,16 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   processedAt: z.coerce.date().optional(),
 });
 
+export const insertServiceRequestSchema = createInsertSchema(serviceRequests).omit({
+  id: true,
+  status: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+}).extend({
+  type: ServiceRequestTypeEnum,
+});
+
 export const insertDeletionPinSchema = createInsertSchema(deletionPins).omit({
   id: true,
   createdAt: true,
@@ -531,6 +1047,9 @@ export const insertDeletionPinSchema = createInsertSchema(deletionPins).omit({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type PrepStation = typeof prepStations.$inferSelect;
+export type InsertPrepStation = z.infer<typeof insertPrepStationSchema>;
+
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
@@ -538,14 +1057,37 @@ export type MenuItem = typeof menuItems.$inferSelect;
 export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
 
 export type Order = typeof orders.$inferSelect;
+export type OrderItemInput = z.infer<typeof orderItemInputSchema>;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+export type OrderPayment = typeof orderPayments.$inferSelect;
+export type InsertOrderPayment = z.infer<typeof insertOrderPaymentSchema>;
+
+export type BillSplit = typeof billSplits.$inferSelect;
+export type BillSplitPart = typeof billSplitParts.$inferSelect;
+export type InsertBillSplitPart = z.infer<typeof insertBillSplitPartSchema>;
+export type BillSplitWithParts = BillSplit & { parts: BillSplitPart[] };
+// Outcome of paying one split part; completed when it was the last part and the bill is now paid
+export type SplitPartPayment = { split: BillSplitWithParts; part: BillSplitPart; payments: OrderPayment[]; order: Order; completed: boolean };
+
+export type Table = typeof tables.$inferSelect;
+export type InsertTable = z.infer<typeof insertTableSchema>;
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
 export type InventoryItem = typeof inventoryItems.$inferSelect;
 export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
 
 export type MenuItemIngredient = typeof menuItemIngredients.$inferSelect;
 export type InsertMenuItemIngredient = z.infer<typeof insertMenuItemIngredientSchema>;
 
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertInventoryMovement = z.infer<typeof insertInventoryMovementSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+
 export type StoreProfile = typeof storeProfile.$inferSelect;
 export type InsertStoreProfile = z.infer<typeof insertStoreProfileSchema>;
 
@@ -554,6 +1096,10 @@ export type InsertReservation = z.infer<typeof insertReservationSchema>;
 
 export type Discount = typeof discounts.$inferSelect;
 export type InsertDiscount = z.infer<typeof insertDiscountSchema>;
+export type DiscountType = z.infer<typeof DiscountTypeEnum>;
+
+export type DiscountRedemption = typeof discountRedemptions.$inferSelect;
+export type InsertDiscountRedemption = z.infer<typeof insertDiscountRedemptionSchema>;
 
 export type Expense = typeof expenses.$inferSelect;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
@@ -561,9 +1107,15 @@ export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type DailyReport = typeof dailyReports.$inferSelect;
 export type InsertDailyReport = z.infer<typeof insertDailyReportSchema>;
 
+export type PaymentReconciliation = typeof paymentReconciliations.$inferSelect;
+export type InsertPaymentReconciliation = z.infer<typeof insertPaymentReconciliationSchema>;
+
 export type PrintSetting = typeof printSettings.$inferSelect;
 export type InsertPrintSetting = z.infer<typeof insertPrintSettingSchema>;
 
+export type PrintJob = typeof printJobs.$inferSelect;
+export type InsertPrintJob = z.infer<typeof insertPrintJobSchema>;
+
 export type Shift = typeof shifts.$inferSelect;
 export type InsertShift = z.infer<typeof insertShiftSchema>;
 
@@ -582,26 +1134,209 @@ export type InsertDeletionLog = z.infer<typeof insertDeletionLogSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type ServiceRequest = typeof serviceRequests.$inferSelect;
+export type InsertServiceRequest = z.infer<typeof insertServiceRequestSchema>;
+
 export type DeletionPin = typeof deletionPins.$inferSelect;
 export type InsertDeletionPin = z.infer<typeof insertDeletionPinSchema>;
 
+// Menu item modifiers (size, sugar level, extra toppings); priceDelta in rupiah
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+  isAvailable: boolean;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOption[];
+}
+
+// Modifier chosen on an order line, copied from the menu so later menu edits don't change past orders
+export interface OrderItemModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  name: string;
+  priceDelta: number;
+}
+
 // Cart item type for frontend
 export interface CartItem {
-  id: string;
+  id: string; // cart line key: the menu item id, plus the chosen options when it has modifiers
+  itemId?: string; // menu item id, when it differs from id
   name: string;
-  price: number;
+  price: number; // unit price including modifiers
   quantity: number;
   notes?: string;
   image?: string;
+  modifiers?: OrderItemModifier[];
 }
 
 // Order item type
 export interface OrderItem {
   itemId: string;
   name: string;
-  price: number;
+  price: number; // unit price including modifiers
+  basePrice?: number; // menu price before modifiers
+  quantity: number;
+  notes?: string;
+  modifiers?: OrderItemModifier[];
+  categoryId?: string; // used for tax/service exemptions
+  discount?: number; // rupiah off this line, set by server pricing
+  discountIds?: string[]; // discounts applied to this line
+  stationId?: string; // prep station the line was routed to when ordered
+  prepStatus?: PrepItemStatus; // missing on lines from before stations: done when readyAt is set, else queued
+  startedAt?: string; // ISO time the station started the line
+  readyAt?: string; // ISO time the station bumped this line as done
+  round?: number; // open bill ordering round the line was added in; missing means the first
+  sentAt?: string; // ISO time a later round reached the kitchen; the first round's is the order time
+}
+
+// Quantity of one order line (index into orders.items) assigned to a split bill part
+export interface SplitPartItem {
+  lineIndex: number;
+  quantity: number;
+}
+
+// Order whose payment doesn't agree with Midtrans in a reconciliation report
+export interface PaymentDiscrepancy {
+  orderId: string;
+  midtransOrderId: string;
+  type: 'paid_not_settled' | 'settled_not_paid' | 'amount_mismatch' | 'status_unavailable';
+  paymentStatus: string; // ours
+  midtransStatus?: string;
+  amount: number; // order total
+  midtransAmount?: number;
+  message?: string;
+}
+
+// Number of notes or coins of one denomination counted in the drawer
+export interface CashCountLine {
+  denomination: number; // rupiah face value
+  kind: CashDenominationKind;
+  quantity: number;
+}
+
+// Cash a shift's drawer should hold, from its linked orders, tenders, refunds and movements
+export interface ShiftCashSummary {
+  initialCash: number;
+  totalOrders: number;
+  cashSales: number;
+  nonCashSales: number;
+  cashRefunds: number;
+  nonCashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  cashExpenses: number;
+  systemCash: number;
+}
+
+// One row of a sales report breakdown: a payment method, menu category or discount
+export interface SalesReportLine {
+  key: string;
+  label: string;
+  count: number; // payments, items sold or redemptions
+  amount: number;
+}
+
+// Number and rupiah value of refunds, voids or deleted open-bill items in a sales report
+export interface SalesReportTally {
+  count: number;
+  amount: number;
+}
+
+// X-report (read mid-shift, nothing is closed) or Z-report (closed shift or end of day), built server-side
+export interface SalesReport {
+  kind: 'x' | 'z';
+  scope: 'shift' | 'day';
+  periodStart: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+  shift: Shift | null; // the shift reported on; null for end of day
+  cashierNames: string[];
+  shiftCount: number;
+  openShifts: number;
+  totalOrders: number;
+  grossSales: number; // order subtotals before discounts
+  discounts: number;
+  serviceCharge: number;
+  tax: number;
+  rounding: number;
+  netSales: number; // order totals
+  byPaymentMethod: SalesReportLine[];
+  byCategory: SalesReportLine[];
+  byDiscount: SalesReportLine[];
+  refunds: SalesReportTally;
+  voids: SalesReportTally;
+  deletions: SalesReportTally;
+  cash: ShiftCashSummary | null; // null while blind close hides the expected cash
+  countedCash: number | null; // null until the shift, or every shift of the day, is counted
+  cashDifference: number | null;
+  cashCount: CashCountLine[];
+}
+
+// A table on the floor plan with the status derived from its current orders and open bill
+export interface TableWithStatus extends Table {
+  status: TableStatus;
+  openBillId: string | null;
+  activeOrders: number; // orders since the table was last cleared
+  amountDue: number; // unpaid open bill and pending payments
+  occupiedSince: Date | null;
+}
+
+// Signed token for a table's QR code; the customer menu opens at /menu?table=<token>
+export interface TableQrCode {
+  tableId: string;
+  number: string;
+  area: string;
+  token: string;
+  qrIssuedAt: Date;
+}
+
+// What the public tracking page shows for an order; no ids, payment details or other customers
+export interface OrderTrackingItem {
+  name: string;
   quantity: number;
   notes?: string;
+  modifiers?: OrderItemModifier[];
+  ready: boolean;
+}
+
+export interface OrderTracking {
+  customerName: string;
+  tableNumber: string;
+  orderStatus: OrderStatus;
+  payLater: boolean;
+  paymentStatus: string;
+  total: number;
+  createdAt: Date;
+  preparingAt: Date | null;
+  readyAt: Date | null;
+  servedAt: Date | null;
+  items: OrderTrackingItem[];
+  ordersAhead: number; // kitchen orders placed before this one and not ready yet
+  estimatedReadyAt: Date | null; // null once ready, served or cancelled
+  openRequests: ServiceRequestType[]; // waiter calls staff have not attended to yet
+}
+
+// One kasir's takings over a reporting period, from the orders, tenders and refunds linked to them
+export interface CashierPerformance {
+  cashierId: string;
+  username: string;
+  shifts: number;
+  orders: number;
+  revenue: number;
+  cashRevenue: number;
+  nonCashRevenue: number;
+  averageOrder: number;
+  refunds: number;
+  refundAmount: number;
+  cashDifference: number; // net over/short across the shifts they closed
 }
 
 // Stock deduction result
@@ -620,3 +1355,96 @@ export interface StockDeductionResult {
     newStock: number;
   }[];
 }
+
+// Purchase order line (stored in purchaseOrders.items)
+export interface PurchaseOrderItem {
+  inventoryItemId: string;
+  name: string;
+  unit: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitPrice: number; // expected price per unit in rupiah
+}
+
+// Stock-take (opname) line result
+export interface StockTakeLine {
+  inventoryItemId: string;
+  inventoryItemName: string;
+  unit: string;
+  expected: number;
+  counted: number;
+  variance: number; // counted - expected
+  movementId?: string; // ledger entry posted for non-zero variance
+}
+
+// Recipe cost of a single ingredient line
+export interface MenuItemCostLine {
+  inventoryItemId: string;
+  name: string;
+  unit: string; // inventory item's stock unit
+  quantityNeeded: number; // recipe quantity converted to the stock unit
+  pricePerUnit: number;
+  cost: number; // quantityNeeded * pricePerUnit
+}
+
+// Food cost and margin of a menu item, computed from its recipe
+export interface MenuItemCosting {
+  menuItemId: string;
+  name: string;
+  categoryId: string;
+  price: number;
+  foodCost: number;
+  margin: number; // price - foodCost
+  marginPercent: number; // margin / price * 100
+  hasRecipe: boolean;
+  ingredients: MenuItemCostLine[];
+}
+
+// Menu engineering row: costing plus sales volume for the report period
+export interface MenuEngineeringItem extends MenuItemCosting {
+  quantitySold: number;
+  revenue: number;
+  totalMargin: number;
+  popularityPercent: number; // share of all items sold
+  classification: MenuEngineeringClass;
+}
+
+// Raised when a price or ingredient cost change pushes margin under the threshold
+export interface MarginWarning {
+  menuItemId: string;
+  name: string;
+  price: number;
+  foodCost: number;
+  marginPercent: number;
+  threshold: number;
+}
+
+// Tax, service charge and rounding breakdown of an order, computed server-side
+export interface OrderCharges {
+  subtotal: number;
+  discount: number;
+  serviceCharge: number;
+  tax: number;
+  rounding: number;
+  total: number;
+  serviceChargeRate: number;
+  taxRate: number;
+  taxInclusive: boolean;
+}
+
+// Last check of a network printer; paper and cover are only known for printers that answer ESC/POS status requests
+export interface NetworkPrinterStatus {
+  online: boolean;
+  paperOut?: boolean;
+  paperLow?: boolean;
+  coverOpen?: boolean;
+  error?: string; // why the printer could not be reached
+  checkedAt: string;
+}
+
+// Real-time push event sent over the /ws channel
+export interface RealtimeEvent<T = any> {
+  type: RealtimeEventType;
+  payload: T; // full entity (order, notification, reservation) or { id, deleted: true }
+  timestamp: string;
+}
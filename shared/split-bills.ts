@@ -0,0 +1,157 @@
+import type { BillSplitPart, InsertBillSplitPart, Order, OrderItem, SplitBillMode, SplitPartItem } from "./schema";
+
+// What the allocator needs of a part; unpaid parts get a fresh amount, paid parts keep theirs
+export type SplitPartDraft = Pick<BillSplitPart, 'items' | 'amount' | 'paymentStatus'>;
+
+function getOrderItems(order: Pick<Order, 'items'>): OrderItem[] {
+  return Array.isArray(order.items) ? order.items as OrderItem[] : [];
+}
+
+// Rupiah value of one unit of an order line after its line discount
+function getUnitValue(item: OrderItem | undefined): number {
+  if (!item || !item.quantity) return 0;
+  return (item.price * item.quantity - (item.discount || 0)) / item.quantity;
+}
+
+export function getSplitItemsValue(orderItems: OrderItem[], items: SplitPartItem[]): number {
+  return items.reduce((sum, item) => sum + getUnitValue(orderItems[item.lineIndex]) * item.quantity, 0);
+}
+
+// Quantity of each order line already assigned across the parts
+export function getAssignedQuantities(orderItems: OrderItem[], parts: Pick<BillSplitPart, 'items'>[]): number[] {
+  const assigned = orderItems.map(() => 0);
+  for (const part of parts) {
+    for (const item of part.items ?? []) {
+      if (item.lineIndex in assigned) assigned[item.lineIndex] += item.quantity;
+    }
+  }
+  return assigned;
+}
+
+// Error message when a part names an unknown line or a line is assigned beyond its quantity
+export function checkSplitItems(order: Pick<Order, 'items'>, parts: Pick<BillSplitPart, 'items'>[]): string | null {
+  const orderItems = getOrderItems(order);
+  for (const part of parts) {
+    for (const item of part.items ?? []) {
+      if (!orderItems[item.lineIndex]) return 'Item split tidak ditemukan di pesanan';
+    }
+  }
+
+  const assigned = getAssignedQuantities(orderItems, parts);
+  const overAssigned = orderItems.findIndex((item, index) => assigned[index] > item.quantity);
+  return overAssigned >= 0 ? `${orderItems[overAssigned].name} di-assign melebihi jumlah pesanan` : null;
+}
+
+/**
+ * Amount due for each part. Paid parts keep what they paid and the rest of the bill is
+ * shared among unpaid parts: evenly ('equal'), by the value of their items including
+ * tax and service ('items'), or as entered ('amount'). Rounding is carried forward so
+ * the parts of a fully assigned bill add up to its total exactly.
+ */
+export function allocateSplitAmounts(order: Pick<Order, 'items' | 'total'>, mode: SplitBillMode, parts: SplitPartDraft[]): number[] {
+  const paidTotal = parts.filter(part => part.paymentStatus === 'paid').reduce((sum, part) => sum + part.amount, 0);
+  const remaining = Math.max(0, order.total - paidTotal);
+  const unpaidCount = parts.filter(part => part.paymentStatus !== 'paid').length;
+
+  if (mode === 'amount') {
+    return parts.map(part => part.amount);
+  }
+
+  if (mode === 'equal') {
+    const share = unpaidCount > 0 ? Math.floor(remaining / unpaidCount) : 0;
+    let extra = remaining - share * unpaidCount;
+    return parts.map(part => {
+      if (part.paymentStatus === 'paid') return part.amount;
+      const amount = share + (extra > 0 ? 1 : 0);
+      extra--;
+      return amount;
+    });
+  }
+
+  const orderItems = getOrderItems(order);
+  const orderValue = orderItems.reduce((sum, item) => sum + getUnitValue(item) * item.quantity, 0);
+  const paidValue = parts
+    .filter(part => part.paymentStatus === 'paid')
+    .reduce((sum, part) => sum + getSplitItemsValue(orderItems, part.items ?? []), 0);
+  const remainingValue = orderValue - paidValue;
+
+  let assignedValue = 0;
+  let allocated = 0;
+  return parts.map(part => {
+    if (part.paymentStatus === 'paid') return part.amount;
+    if (remainingValue <= 0) return 0;
+    assignedValue += getSplitItemsValue(orderItems, part.items ?? []);
+    const cumulative = Math.round(remaining * Math.min(1, assignedValue / remainingValue));
+    const amount = cumulative - allocated;
+    allocated = cumulative;
+    return amount;
+  });
+}
+
+// Unpaid part as asked for on the split bill screen
+export interface SplitPartRequest {
+  customerName?: string;
+  items: SplitPartItem[];
+  amount: number;
+}
+
+// Why a split request doesn't fit the bill, with the HTTP status the route answers with
+export interface SplitPlanError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Unpaid parts for a split request: numbered around the paid parts, checked against the
+ * bill's items and given their amounts. Run on the paid parts as they are when saving,
+ * so a part paid while the kasir was editing is counted as paid.
+ */
+export function planSplitParts(
+  order: Pick<Order, 'items' | 'total'>,
+  mode: SplitBillMode,
+  currentMode: SplitBillMode | undefined,
+  paidParts: Pick<BillSplitPart, 'partNumber' | 'items' | 'amount' | 'paymentStatus'>[],
+  requested: SplitPartRequest[]
+): { parts: Omit<InsertBillSplitPart, 'splitId'>[] } | SplitPlanError {
+  if (paidParts.length > 0 && currentMode !== mode) {
+    return { error: "Split mode can't change after a part is paid", status: 409 };
+  }
+  if (paidParts.length + requested.length < 2) {
+    return { error: "A split bill needs at least two parts", status: 400 };
+  }
+
+  // Paid parts keep their numbers; new parts take the free ones in order
+  const usedNumbers = new Set(paidParts.map(part => part.partNumber));
+  let nextNumber = 1;
+  const drafts = requested.map(part => {
+    while (usedNumbers.has(nextNumber)) nextNumber++;
+    return {
+      partNumber: nextNumber++,
+      customerName: part.customerName || null,
+      items: mode === 'items' ? part.items : [],
+      amount: mode === 'amount' ? part.amount : 0,
+      paymentStatus: 'unpaid',
+    };
+  });
+
+  if (mode === 'items') {
+    const itemsError = checkSplitItems(order, [...paidParts, ...drafts]);
+    if (itemsError) {
+      return { error: itemsError, status: 400 };
+    }
+  }
+
+  const amounts = allocateSplitAmounts(order, mode, [...paidParts, ...drafts]);
+  if (mode === 'amount' && amounts.reduce((sum, amount) => sum + amount, 0) !== order.total) {
+    return { error: `Split amounts must add up to the bill total of ${order.total}`, status: 400 };
+  }
+
+  return { parts: drafts.map((draft, index) => ({ ...draft, amount: amounts[paidParts.length + index] })) };
+}
+
+// A split closes its order once every part is paid and together they cover the bill
+export function isSplitSettled(order: Pick<Order, 'total'>, parts: Pick<BillSplitPart, 'amount' | 'paymentStatus'>[]): boolean {
+  return parts.length > 0
+    && parts.every(part => part.paymentStatus === 'paid')
+    && parts.reduce((sum, part) => sum + part.amount, 0) === order.total;
+}
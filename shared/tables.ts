@@ -0,0 +1,78 @@
+import type { Order, Table, TableStatus, TableWithStatus } from "./schema";
+
+// Orders older than this don't keep a table busy, even if nobody cleared it
+export const TABLE_ACTIVITY_WINDOW_HOURS = 12;
+
+export const TABLE_STATUS_LABELS: Record<TableStatus, string> = {
+  free: 'Kosong',
+  ordering: 'Memesan',
+  eating: 'Makan',
+  waiting_bill: 'Minta Bill',
+  needs_cleaning: 'Perlu Dibersihkan',
+};
+
+// "05", " 5 " and "5" are the same table; letters are compared case-insensitively ("a1" is "A1")
+export function normalizeTableNumber(value: string): string {
+  return value.trim().replace(/^0+(?=\d)/, '').toUpperCase();
+}
+
+// Floor plan and lists order tables by area, then naturally by number (2 before 10)
+export function compareTables(a: Pick<Table, 'area' | 'number'>, b: Pick<Table, 'area' | 'number'>): number {
+  return a.area.localeCompare(b.area) || a.number.localeCompare(b.number, undefined, { numeric: true });
+}
+
+function isSettled(order: Pick<Order, 'paymentStatus'>): boolean {
+  return order.paymentStatus === 'paid' || order.paymentStatus === 'refunded';
+}
+
+// Cancelled orders and gateway payments that failed or expired never reached the table
+function isActiveOrder(order: Pick<Order, 'paymentStatus' | 'orderStatus'>): boolean {
+  return order.orderStatus !== 'cancelled' && order.paymentStatus !== 'failed' && order.paymentStatus !== 'expired';
+}
+
+function isOpenBill(order: Pick<Order, 'payLater' | 'paymentStatus'>): boolean {
+  return order.payLater && !isSettled(order);
+}
+
+// Orders of the guests now at the table: once staff mark guests as gone, only later orders count
+function getCurrentOrders<T extends Pick<Order, 'paymentStatus' | 'orderStatus' | 'createdAt'>>(
+  table: Pick<Table, 'vacatedAt'>,
+  orders: T[]
+): T[] {
+  const vacatedAt = table.vacatedAt;
+  return orders.filter(order => isActiveOrder(order) && (!vacatedAt || order.createdAt > vacatedAt));
+}
+
+/**
+ * Status of a table from its orders since it was last cleared. A running open bill the
+ * guests asked to settle is waiting_bill; anything still unpaid at the gateway or with the
+ * kitchen is ordering; served food is eating. Once an open bill is settled, or staff mark
+ * the guests as gone, the table needs cleaning until it is cleared or new guests order.
+ */
+export function getTableStatus(
+  table: Pick<Table, 'billRequestedAt' | 'vacatedAt'>,
+  orders: Pick<Order, 'payLater' | 'paymentStatus' | 'orderStatus' | 'createdAt'>[]
+): TableStatus {
+  const current = getCurrentOrders(table, orders);
+  const openBill = current.find(isOpenBill);
+
+  if (current.length === 0) return table.vacatedAt ? 'needs_cleaning' : 'free';
+  if (openBill && table.billRequestedAt) return 'waiting_bill';
+  if (current.some(order => order.orderStatus !== 'served' || (!order.payLater && !isSettled(order)))) return 'ordering';
+  if (openBill) return 'eating';
+  return current.some(order => order.payLater) ? 'needs_cleaning' : 'eating';
+}
+
+// Orders are the table's orders since it was last cleared, oldest first
+export function describeTable(table: Table, orders: Order[]): TableWithStatus {
+  const current = getCurrentOrders(table, orders);
+  const openBill = current.filter(isOpenBill).pop();
+  return {
+    ...table,
+    status: getTableStatus(table, orders),
+    openBillId: openBill?.id ?? null,
+    activeOrders: current.length,
+    amountDue: current.filter(order => !isSettled(order)).reduce((sum, order) => sum + order.total, 0),
+    occupiedSince: current[0]?.createdAt ?? null,
+  };
+}
@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+// Units supported for inventory stock and recipe quantities
+export const UnitEnum = z.enum(['g', 'kg', 'ml', 'l', 'pcs', 'pack']);
+export type Unit = z.infer<typeof UnitEnum>;
+
+export type UnitDimension = 'mass' | 'volume' | 'count' | 'pack';
+
+// toBase: how many base units (g, ml, pcs) one unit holds. Packs are sized per inventory item.
+export const UNIT_CATALOG: Record<Unit, { label: string; dimension: UnitDimension; toBase: number }> = {
+  g: { label: 'Gram (g)', dimension: 'mass', toBase: 1 },
+  kg: { label: 'Kilogram (kg)', dimension: 'mass', toBase: 1000 },
+  ml: { label: 'Mililiter (ml)', dimension: 'volume', toBase: 1 },
+  l: { label: 'Liter (l)', dimension: 'volume', toBase: 1000 },
+  pcs: { label: 'Pieces (pcs)', dimension: 'count', toBase: 1 },
+  pack: { label: 'Pack', dimension: 'pack', toBase: 1 },
+};
+
+// Spellings found in existing data, mapped to catalog units
+const UNIT_ALIASES: Record<string, Unit> = {
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  kilo: 'kg',
+  kilogram: 'kg',
+  mililiter: 'ml',
+  milliliter: 'ml',
+  liter: 'l',
+  litre: 'l',
+  lt: 'l',
+  ltr: 'l',
+  pc: 'pcs',
+  piece: 'pcs',
+  pieces: 'pcs',
+  buah: 'pcs',
+  butir: 'pcs',
+  biji: 'pcs',
+  pak: 'pack',
+  bungkus: 'pack',
+};
+
+// Pack definition of an inventory item, e.g. 1 pack = 12 pcs or 1 pack = 500 g
+export interface PackDefinition {
+  packSize?: number | null;
+  packUnit?: string | null;
+}
+
+export function normalizeUnit(unit: string | null | undefined): Unit | null {
+  if (!unit) return null;
+  const key = unit.trim().toLowerCase();
+  const parsed = UnitEnum.safeParse(key);
+  if (parsed.success) return parsed.data;
+  return UNIT_ALIASES[key] ?? null;
+}
+
+// Stock quantities are kept to 3 decimals (1 g of a kg-stocked item)
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 1000) / 1000;
+}
+
+// Express a quantity of one pack in a catalog unit, or null when the pack is not defined
+function expandPack(pack?: PackDefinition): { quantity: number; unit: Unit } | null {
+  const unit = normalizeUnit(pack?.packUnit);
+  if (!pack?.packSize || pack.packSize <= 0 || !unit || unit === 'pack') return null;
+  return { quantity: pack.packSize, unit };
+}
+
+/**
+ * Convert a quantity between units. Packs are resolved through the inventory item's
+ * pack definition. Returns null when the units cannot be converted (e.g. g -> ml).
+ */
+export function convertQuantity(quantity: number, from: string, to: string, pack?: PackDefinition): number | null {
+  if (from.trim().toLowerCase() === to.trim().toLowerCase()) return quantity;
+
+  let fromUnit = normalizeUnit(from);
+  let toUnit = normalizeUnit(to);
+  if (!fromUnit || !toUnit) return null;
+  if (fromUnit === toUnit) return quantity;
+
+  let amount = quantity;
+  let divisor = 1;
+
+  if (fromUnit === 'pack') {
+    const expanded = expandPack(pack);
+    if (!expanded) return null;
+    amount *= expanded.quantity;
+    fromUnit = expanded.unit;
+  }
+
+  if (toUnit === 'pack') {
+    const expanded = expandPack(pack);
+    if (!expanded) return null;
+    divisor = expanded.quantity;
+    toUnit = expanded.unit;
+  }
+
+  const source = UNIT_CATALOG[fromUnit];
+  const target = UNIT_CATALOG[toUnit];
+  if (source.dimension !== target.dimension) return null;
+
+  return (amount * source.toBase) / target.toBase / divisor;
+}